@@ -0,0 +1,107 @@
+/**
+ * classifier.ts — Map session metrics to a quality profile (P0-P4).
+ *
+ * The base tier comes from SNR alone, using the same cutoffs the server
+ * uses for its live estimate (AUDIO_THRESHOLDS.P0_SNR_MIN … P3_SNR_MIN).
+ * Other findings can only demote a session, never promote it:
+ *
+ *   - Any track has less than MIN_SPEECH_SECONDS of speech   → P4 (reject)
+ *   - Any noise floor above NOISE_FLOOR_REJECT               → P4 (reject)
+ *   - Echo correlation above ECHO_CORRELATION_MAX            → one tier down
+ *   - SRMR below SRMR_MIN (reverberant room)                 → one tier down
+ *   - Overlap above OVERLAP_WARNING_PCT                      → at most P2
+ *   - Any clipping, or overlap above P0_OVERLAP_MAX          → at most P1
+ *
+ * Every demotion adds a suggestion. A P4 session is rejected; its first
+ * reason becomes ProcessingResult.rejectionReason.
+ */
+import { AUDIO_THRESHOLDS, QUALITY_PROFILE } from '../shared';
+import type { QualityProfile } from '../shared';
+import type { TrackAnalysis } from './trackAnalyzer';
+import type { SessionMetrics } from './sessionMetrics';
+
+const TIERS: QualityProfile[] = [
+  QUALITY_PROFILE.P0,
+  QUALITY_PROFILE.P1,
+  QUALITY_PROFILE.P2,
+  QUALITY_PROFILE.P3,
+  QUALITY_PROFILE.P4,
+];
+
+export interface Classification {
+  profile: QualityProfile;
+  rejectionReason?: string;
+  suggestions: string[];
+}
+
+/** A track with the name its findings use ("Host", "Guest 2", …) */
+export type LabeledTrack = [label: string, track: TrackAnalysis];
+
+export function classifySession(metrics: SessionMetrics, tracks: LabeledTrack[]): Classification {
+  const suggestions: string[] = [];
+  const rejections: string[] = [];
+
+  let tier = snrTier(metrics.snr);
+  if (tier === 4) {
+    rejections.push(`Signal-to-noise ratio too low (${metrics.snr.toFixed(1)} dB)`);
+    suggestions.push('Record in a quieter room and move closer to the microphone');
+  } else if (metrics.snr < AUDIO_THRESHOLDS.P0_SNR_MIN) {
+    suggestions.push('Reduce background noise (fans, AC, open windows) for a cleaner recording');
+  }
+
+  for (const [label, track] of tracks) {
+    if (track.speechSeconds < AUDIO_THRESHOLDS.MIN_SPEECH_SECONDS) {
+      rejections.push(`${label} recording contains almost no speech (${track.speechSeconds.toFixed(0)}s)`);
+      suggestions.push(`Check that the ${label.toLowerCase()}'s microphone is selected and unmuted`);
+    }
+    if (track.noiseFloorDb > AUDIO_THRESHOLDS.NOISE_FLOOR_REJECT) {
+      rejections.push(`${label} background noise is too high (${track.noiseFloorDb.toFixed(1)} dBFS)`);
+    }
+  }
+  if (rejections.length > 0) tier = 4;
+
+  if (metrics.echoCorrelation > AUDIO_THRESHOLDS.ECHO_CORRELATION_MAX) {
+    tier = Math.min(4, tier + 1);
+    suggestions.push('Everyone should wear headphones — one voice is leaking into another mic');
+  }
+
+  if (metrics.srmr > 0 && metrics.srmr < AUDIO_THRESHOLDS.SRMR_MIN) {
+    tier = Math.min(4, tier + 1);
+    suggestions.push('The room is echoey — soft furnishings or a smaller room will reduce reverberation');
+  }
+
+  if (metrics.overlapPercent > AUDIO_THRESHOLDS.OVERLAP_WARNING_PCT) {
+    tier = Math.max(tier, 2);
+    suggestions.push('Speakers talked over each other often — leave a short pause between turns');
+  } else if (metrics.overlapPercent > AUDIO_THRESHOLDS.P0_OVERLAP_MAX) {
+    tier = Math.max(tier, 1);
+  }
+
+  const totalClips = tracks.reduce((sum, [, track]) => sum + track.clipCount, 0);
+  if (totalClips > 0) {
+    tier = Math.max(tier, 1);
+    if (totalClips >= AUDIO_THRESHOLDS.CLIP_WARNING_COUNT) {
+      suggestions.push(`Audio clipped ${totalClips} times — lower the microphone input gain`);
+    }
+  }
+
+  if (metrics.rms > AUDIO_THRESHOLDS.TARGET_RMS_MAX) {
+    suggestions.push('Speech level is hot — back off the microphone slightly');
+  } else if (metrics.rms < AUDIO_THRESHOLDS.TARGET_RMS_MIN) {
+    suggestions.push('Speech level is low — speak closer to the microphone');
+  }
+
+  return {
+    profile: TIERS[tier],
+    ...(tier === 4 && { rejectionReason: rejections[0] ?? 'Quality too low' }),
+    suggestions,
+  };
+}
+
+function snrTier(snr: number): number {
+  if (snr >= AUDIO_THRESHOLDS.P0_SNR_MIN) return 0;
+  if (snr >= AUDIO_THRESHOLDS.P1_SNR_MIN) return 1;
+  if (snr >= AUDIO_THRESHOLDS.P2_SNR_MIN) return 2;
+  if (snr >= AUDIO_THRESHOLDS.P3_SNR_MIN) return 3;
+  return 4;
+}
@@ -0,0 +1,56 @@
+/**
+ * fft.ts — Minimal in-place radix-2 FFT.
+ *
+ * Only used for the modulation spectrum in SRMR, where window sizes are
+ * fixed powers of two — no need for a general-purpose FFT dependency.
+ */
+
+/**
+ * Return the one-sided power spectrum |X[k]|² (k = 0..n/2) of a real signal.
+ * `input.length` must be a power of two.
+ */
+export function powerSpectrum(input: Float64Array): Float64Array {
+  const n = input.length;
+  if (n === 0 || (n & (n - 1)) !== 0) {
+    throw new Error(`FFT length must be a power of two, got ${n}`);
+  }
+
+  const re = Float64Array.from(input);
+  const im = new Float64Array(n);
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+    }
+  }
+
+  // Cooley–Tukey butterflies
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const wr = Math.cos(step * k);
+        const wi = Math.sin(step * k);
+        const a = start + k;
+        const b = a + half;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+
+  const out = new Float64Array(n / 2 + 1);
+  for (let k = 0; k <= n / 2; k++) {
+    out[k] = re[k] * re[k] + im[k] * im[k];
+  }
+  return out;
+}
@@ -0,0 +1,125 @@
+/**
+ * sessionMetrics.ts — Combine the track analyses into ProcessingResult.metrics.
+ *
+ * Every recording starts on the same START_RECORDING broadcast, so frame i
+ * of one track is treated as simultaneous with frame i of every other.
+ * Joint metrics only cover the span where all tracks have audio.
+ *
+ *   snr              — the weakest participant's SNR (a session is only as
+ *                      clean as its noisiest mic)
+ *   rms              — mean speech level of the participants (dBFS)
+ *   srmr             — the lowest (most reverberant) track
+ *   overlapPercent   — frames where 2+ people talk ÷ frames where anyone talks
+ *   speakerBalance   — the least active participant's share of the speech,
+ *                      relative to an even split (1 = everyone talks equally,
+ *                      0 = someone never spoke)
+ *   echoCorrelation  — peak correlation between a talker's level envelope
+ *                      and another mic's, within MAX_ECHO_LAG_MS, over every
+ *                      pair of tracks; one voice leaking into another mic
+ *                      makes the envelopes move together
+ */
+import type { ProcessingResult } from '../shared';
+import { FRAME_MS } from './trackAnalyzer';
+import type { TrackAnalysis } from './trackAnalyzer';
+
+/** Acoustic + network echo paths rarely exceed this */
+const MAX_ECHO_LAG_MS = 500;
+
+export type SessionMetrics = ProcessingResult['metrics'];
+
+/** `tracks` holds at least one analysis, in the message's track order */
+export function computeSessionMetrics(tracks: TrackAnalysis[]): SessionMetrics {
+  const frames = Math.min(...tracks.map((t) => t.frameDb.length));
+
+  let overlapping = 0;
+  let anyActive = 0;
+  const activeFrames = tracks.map(() => 0);
+
+  for (let i = 0; i < frames; i++) {
+    let talking = 0;
+    for (let t = 0; t < tracks.length; t++) {
+      if (tracks[t].active[i]) {
+        talking++;
+        activeFrames[t]++;
+      }
+    }
+    if (talking > 0) anyActive++;
+    if (talking > 1) overlapping++;
+  }
+
+  const totalSpeech = activeFrames.reduce((sum, n) => sum + n, 0);
+
+  let echo = 0;
+  for (let a = 0; a < tracks.length; a++) {
+    for (let b = a + 1; b < tracks.length; b++) {
+      echo = Math.max(echo, peakEnvelopeCorrelation(tracks[a], tracks[b], frames));
+    }
+  }
+
+  return {
+    snr: round(Math.min(...tracks.map((t) => t.snr))),
+    rms: round(tracks.reduce((sum, t) => sum + t.speechLevelDb, 0) / tracks.length),
+    srmr: round(Math.min(...tracks.map((t) => t.srmr))),
+    overlapPercent: round(anyActive > 0 ? (overlapping / anyActive) * 100 : 0),
+    speakerBalance: round(totalSpeech > 0 ? (Math.min(...activeFrames) / totalSpeech) * tracks.length : 1),
+    echoCorrelation: round(echo),
+  };
+}
+
+/**
+ * Max correlation between a talking participant's level envelope and the
+ * other mic's envelope, over lags up to MAX_ECHO_LAG_MS, in both directions.
+ *
+ * Only frames where the source is talking are compared. If the other mic is
+ * silent, its level is just noise and the correlation stays near 0; if it
+ * genuinely talks over the source, the two voices are independent and the
+ * correlation stays low. Only a copy of the source's voice (acoustic bleed
+ * or speaker-to-mic echo) follows its syllable envelope closely.
+ */
+function peakEnvelopeCorrelation(a: TrackAnalysis, b: TrackAnalysis, frames: number): number {
+  const maxLag = Math.round(MAX_ECHO_LAG_MS / FRAME_MS);
+  let peak = 0;
+
+  for (let lag = 0; lag <= maxLag; lag++) {
+    peak = Math.max(
+      peak,
+      laggedCorrelation(a, b, frames, lag),
+      laggedCorrelation(b, a, frames, lag),
+    );
+  }
+
+  return Math.min(1, peak);
+}
+
+/** Pearson correlation of source[i] against target[i + lag] over the source's speech frames */
+function laggedCorrelation(source: TrackAnalysis, target: TrackAnalysis, frames: number, lag: number): number {
+  let n = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let sumXX = 0;
+  let sumYY = 0;
+  let sumXY = 0;
+
+  for (let i = 0; i + lag < frames; i++) {
+    if (!source.active[i]) continue;
+    const x = source.frameDb[i];
+    const y = target.frameDb[i + lag];
+    n++;
+    sumX += x;
+    sumY += y;
+    sumXX += x * x;
+    sumYY += y * y;
+    sumXY += x * y;
+  }
+
+  if (n < 2) return 0;
+  const cov = sumXY - (sumX * sumY) / n;
+  const varX = sumXX - (sumX * sumX) / n;
+  const varY = sumYY - (sumY * sumY) / n;
+  if (varX <= 0 || varY <= 0) return 0;
+  return cov / Math.sqrt(varX * varY);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,189 @@
+/**
+ * trackAnalyzer.ts — Single-pass analysis of one participant's recording.
+ *
+ * Streams a WAV file once and produces everything the session-level
+ * metrics need from that track:
+ *
+ *   - frameDb:  per-frame (20ms) RMS level in dBFS — the basis for voice
+ *               activity, SNR, overlap, speaker balance, and echo detection
+ *   - clipCount: samples at or above full scale
+ *   - srmr:     Speech-to-Reverberation Modulation energy Ratio
+ *
+ * Voice activity is energy-based: the noise floor is the 10th percentile of
+ * frame levels, and a frame counts as speech when it sits SPEECH_MARGIN_DB
+ * above that floor (and above AUDIO_THRESHOLDS.SILENCE_THRESHOLD).
+ *
+ * SRMR here is a full-band approximation of Falk et al. (2010): instead of a
+ * 23-channel gammatone filterbank, the broadband temporal envelope is split
+ * into the same eight modulation bands (4–128 Hz). Clean speech concentrates
+ * modulation energy in the 4–20 Hz syllabic range; reverberation smears it
+ * into the higher bands, pulling the ratio down.
+ */
+import { AUDIO_THRESHOLDS } from '../shared';
+import { readWavInfo, readMonoSamples } from './wav';
+import { powerSpectrum } from './fft';
+
+/** Analysis frame length for level / activity tracking */
+export const FRAME_MS = 20;
+
+/** A frame this many dB above the noise floor counts as speech */
+const SPEECH_MARGIN_DB = 10;
+/** Percentile of frame levels taken as the noise floor */
+const NOISE_FLOOR_PERCENTILE = 0.1;
+/** |sample| at or above this counts as a clip */
+const CLIP_LEVEL = 0.999;
+/** Level assigned to digital silence so logs stay finite */
+const DB_FLOOR = -120;
+
+// ─── SRMR Parameters ─────────────────────────────────────────────
+/** Temporal envelope sample rate — Nyquist must clear the top modulation band */
+const ENVELOPE_RATE_HZ = 400;
+/** Envelope samples per modulation-spectrum window (2.56s at 400 Hz) */
+const MOD_WINDOW = 1024;
+/** Modulation filterbank centre frequencies from the SRMR paper (Hz) */
+const MOD_BAND_CENTERS_HZ = [4, 6.5, 10.7, 17.6, 28.9, 47.5, 78.1, 128];
+/** Half-bandwidth factor — bands are log-spaced, so edges sit at centre ÷/× √ratio */
+const MOD_BAND_HALF_WIDTH = Math.sqrt(Math.pow(128 / 4, 1 / 7));
+
+export interface TrackAnalysis {
+  sampleRate: number;
+  durationSec: number;
+  frameDb: number[];            // Per-frame RMS level (dBFS)
+  active: boolean[];            // Per-frame voice activity
+  noiseFloorDb: number;         // 10th-percentile frame level (dBFS)
+  speechLevelDb: number;        // Power-mean level of speech frames (dBFS)
+  speechSeconds: number;        // Total detected speech
+  snr: number;                  // speechLevelDb − noiseFloorDb (dB), 0 if no speech
+  clipCount: number;
+  srmr: number;                 // Low/high modulation energy ratio, 0 if no speech windows
+}
+
+/** Stream a WAV file and compute its per-track metrics. */
+export async function analyzeTrack(filePath: string): Promise<TrackAnalysis> {
+  const info = await readWavInfo(filePath);
+
+  const frameSize = Math.max(1, Math.round((info.sampleRate * FRAME_MS) / 1000));
+  const envelopeHop = Math.max(1, Math.round(info.sampleRate / ENVELOPE_RATE_HZ));
+  const envelopeRate = info.sampleRate / envelopeHop;
+
+  const frameDb: number[] = [];
+  let frameAcc = 0;
+  let frameCount = 0;
+
+  let clipCount = 0;
+
+  const modBandEnergy = new Float64Array(MOD_BAND_CENTERS_HZ.length);
+  const envelope = new Float64Array(MOD_WINDOW);
+  let envelopeIdx = 0;
+  let envelopeAcc = 0;
+  let envelopeCount = 0;
+
+  for await (const block of readMonoSamples(filePath, info)) {
+    for (let i = 0; i < block.length; i++) {
+      const s = block[i];
+      const sq = s * s;
+
+      if (s >= CLIP_LEVEL || s <= -CLIP_LEVEL) clipCount++;
+
+      frameAcc += sq;
+      if (++frameCount === frameSize) {
+        frameDb.push(toDb(frameAcc / frameSize));
+        frameAcc = 0;
+        frameCount = 0;
+      }
+
+      envelopeAcc += sq;
+      if (++envelopeCount === envelopeHop) {
+        envelope[envelopeIdx++] = Math.sqrt(envelopeAcc / envelopeHop);
+        envelopeAcc = 0;
+        envelopeCount = 0;
+
+        if (envelopeIdx === MOD_WINDOW) {
+          accumulateModulationEnergy(envelope, envelopeRate, modBandEnergy);
+          envelopeIdx = 0;
+        }
+      }
+    }
+  }
+
+  const noiseFloorDb = percentile(frameDb, NOISE_FLOOR_PERCENTILE);
+  const speechThreshold = Math.max(AUDIO_THRESHOLDS.SILENCE_THRESHOLD, noiseFloorDb + SPEECH_MARGIN_DB);
+  const active = frameDb.map((db) => db > speechThreshold);
+
+  const speechDb = frameDb.filter((_, i) => active[i]);
+  const speechLevelDb = speechDb.length > 0 ? powerMeanDb(speechDb) : DB_FLOOR;
+
+  const low = modBandEnergy.slice(0, 4).reduce((a, b) => a + b, 0);
+  const high = modBandEnergy.slice(4).reduce((a, b) => a + b, 0);
+
+  return {
+    sampleRate: info.sampleRate,
+    durationSec: info.durationSec,
+    frameDb,
+    active,
+    noiseFloorDb,
+    speechLevelDb,
+    speechSeconds: (speechDb.length * FRAME_MS) / 1000,
+    snr: speechDb.length > 0 ? speechLevelDb - noiseFloorDb : 0,
+    clipCount,
+    srmr: high > 0 ? low / high : 0,
+  };
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+/**
+ * Add one envelope window's modulation spectrum into the band accumulators.
+ * Windows quieter than the silence threshold are skipped — their modulation
+ * content is noise, not speech or reverberation.
+ */
+function accumulateModulationEnergy(
+  envelope: Float64Array,
+  envelopeRate: number,
+  bands: Float64Array,
+): void {
+  const n = envelope.length;
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += envelope[i];
+  mean /= n;
+
+  if (toDb(mean * mean) <= AUDIO_THRESHOLDS.SILENCE_THRESHOLD) return;
+
+  // Remove DC and apply a Hann window before transforming
+  const windowed = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    const hann = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1));
+    windowed[i] = (envelope[i] - mean) * hann;
+  }
+
+  const spectrum = powerSpectrum(windowed);
+  const binHz = envelopeRate / n;
+
+  for (let k = 1; k < spectrum.length; k++) {
+    const freq = k * binHz;
+    for (let b = 0; b < MOD_BAND_CENTERS_HZ.length; b++) {
+      const centre = MOD_BAND_CENTERS_HZ[b];
+      if (freq >= centre / MOD_BAND_HALF_WIDTH && freq < centre * MOD_BAND_HALF_WIDTH) {
+        bands[b] += spectrum[k];
+        break;
+      }
+    }
+  }
+}
+
+function toDb(meanSquare: number): number {
+  return meanSquare > 0 ? Math.max(DB_FLOOR, 10 * Math.log10(meanSquare)) : DB_FLOOR;
+}
+
+/** Average levels in the power domain, then convert back to dB */
+export function powerMeanDb(levelsDb: number[]): number {
+  if (levelsDb.length === 0) return DB_FLOOR;
+  const meanPower = levelsDb.reduce((sum, db) => sum + Math.pow(10, db / 10), 0) / levelsDb.length;
+  return toDb(meanPower);
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return DB_FLOOR;
+  const sorted = Float64Array.from(values).sort();
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
@@ -0,0 +1,183 @@
+/**
+ * wav.ts — Streaming WAV file reader.
+ *
+ * Parses the RIFF header of a local WAV file and yields its audio as
+ * mono Float32 blocks in [-1, 1], reading the file in fixed-size chunks
+ * so memory stays flat regardless of recording length.
+ *
+ * Supported encodings:
+ *   - PCM integer: 16-, 24- and 32-bit (format tag 1)
+ *   - IEEE float:  32-bit (format tag 3)
+ *   - WAVE_FORMAT_EXTENSIBLE (0xFFFE) wrapping either of the above
+ *
+ * Multi-channel files are down-mixed to mono by averaging channels.
+ *
+ * RF64 files (recordings over 4 GB) are read the same way: the 64-bit data
+ * size comes from the ds64 chunk, since the data chunk's own 32-bit size
+ * field is 0xFFFFFFFF.
+ *
+ * A data chunk whose declared size is 0, 0xFFFFFFFF, or larger than the
+ * file (e.g., a header that was never patched after a multipart upload)
+ * is treated as running to end-of-file.
+ */
+import fs from 'fs';
+import { InvalidAudioError } from '../utils/errors';
+
+const FORMAT_PCM = 1;
+const FORMAT_IEEE_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+/** How many bytes to read from disk per block */
+const READ_BLOCK_BYTES = 1024 * 1024;
+
+export interface WavInfo {
+  formatTag: number;          // Effective format tag (1 = PCM, 3 = float), extensible unwrapped
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  blockAlign: number;         // Bytes per sample frame across all channels
+  dataOffset: number;         // Byte offset of the first audio sample
+  dataSize: number;           // Audio payload size in bytes
+  durationSec: number;
+}
+
+/** Parse the RIFF/WAVE header of a local file. Throws InvalidAudioError on malformed or unsupported files. */
+export async function readWavInfo(filePath: string): Promise<WavInfo> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const { size: fileSize } = await handle.stat();
+    const riff = Buffer.alloc(12);
+    await handle.read(riff, 0, 12, 0);
+
+    const container = riff.toString('ascii', 0, 4);
+    if ((container !== 'RIFF' && container !== 'RF64') || riff.toString('ascii', 8, 12) !== 'WAVE') {
+      throw new InvalidAudioError('Not a RIFF/RF64 WAVE file');
+    }
+
+    let offset = 12;
+    let fmt: Omit<WavInfo, 'dataOffset' | 'dataSize' | 'durationSec'> | null = null;
+    let ds64DataSize: number | null = null;
+    const chunkHeader = Buffer.alloc(8);
+
+    // Walk the chunk list until we find `data` (fmt must precede it)
+    while (offset + 8 <= fileSize) {
+      await handle.read(chunkHeader, 0, 8, offset);
+      const chunkId = chunkHeader.toString('ascii', 0, 4);
+      const chunkSize = chunkHeader.readUInt32LE(4);
+      const bodyOffset = offset + 8;
+
+      if (chunkId === 'ds64') {
+        if (chunkSize < 16) throw new InvalidAudioError('WAV ds64 chunk is truncated');
+        const body = Buffer.alloc(16);
+        await handle.read(body, 0, 16, bodyOffset);
+        // Bytes 0-7 are the RIFF size, 8-15 the data size (both u64)
+        ds64DataSize = Number(body.readBigUInt64LE(8));
+      } else if (chunkId === 'fmt ') {
+        if (chunkSize < 16) throw new InvalidAudioError('WAV fmt chunk is truncated');
+        const body = Buffer.alloc(Math.min(chunkSize, 40));
+        await handle.read(body, 0, body.length, bodyOffset);
+        let formatTag = body.readUInt16LE(0);
+        if (formatTag === FORMAT_EXTENSIBLE && body.length >= 26) {
+          // First two bytes of the SubFormat GUID carry the real format tag
+          formatTag = body.readUInt16LE(24);
+        }
+        fmt = {
+          formatTag,
+          channels: body.readUInt16LE(2),
+          sampleRate: body.readUInt32LE(4),
+          blockAlign: body.readUInt16LE(12),
+          bitsPerSample: body.readUInt16LE(14),
+        };
+      } else if (chunkId === 'data') {
+        if (!fmt) throw new InvalidAudioError('WAV data chunk appears before fmt chunk');
+        assertSupported(fmt);
+        if (container === 'RF64' && ds64DataSize === null) {
+          throw new InvalidAudioError('RF64 file has no ds64 chunk');
+        }
+
+        const declared = container === 'RF64' && chunkSize === 0xffffffff ? ds64DataSize! : chunkSize;
+        const available = fileSize - bodyOffset;
+        const dataSize = declared === 0 || declared === 0xffffffff || declared > available
+          ? available
+          : declared;
+        const usable = dataSize - (dataSize % fmt.blockAlign);
+
+        return {
+          ...fmt,
+          dataOffset: bodyOffset,
+          dataSize: usable,
+          durationSec: usable / fmt.blockAlign / fmt.sampleRate,
+        };
+      }
+
+      // Chunks are word-aligned — odd sizes carry one pad byte
+      offset = bodyOffset + chunkSize + (chunkSize % 2);
+    }
+
+    throw new InvalidAudioError('WAV file has no data chunk');
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Yield the file's audio as mono Float32 blocks. Block length varies
+ * (up to ~1 MB of source data); callers frame the samples themselves.
+ */
+export async function* readMonoSamples(filePath: string, info: WavInfo): AsyncGenerator<Float32Array> {
+  const handle = await fs.promises.open(filePath, 'r');
+  const bytesPerSample = info.bitsPerSample / 8;
+  const blockBytes = READ_BLOCK_BYTES - (READ_BLOCK_BYTES % info.blockAlign);
+  const buffer = Buffer.alloc(blockBytes);
+
+  try {
+    let position = info.dataOffset;
+    const end = info.dataOffset + info.dataSize;
+
+    while (position < end) {
+      const toRead = Math.min(blockBytes, end - position);
+      const { bytesRead } = await handle.read(buffer, 0, toRead, position);
+      if (bytesRead === 0) break;
+      position += bytesRead;
+
+      const frames = Math.floor(bytesRead / info.blockAlign);
+      const out = new Float32Array(frames);
+
+      for (let i = 0; i < frames; i++) {
+        let sum = 0;
+        const frameStart = i * info.blockAlign;
+        for (let ch = 0; ch < info.channels; ch++) {
+          sum += decodeSample(buffer, frameStart + ch * bytesPerSample, info);
+        }
+        out[i] = sum / info.channels;
+      }
+
+      yield out;
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+function assertSupported(fmt: Omit<WavInfo, 'dataOffset' | 'dataSize' | 'durationSec'>): void {
+  const { formatTag, bitsPerSample, channels, sampleRate, blockAlign } = fmt;
+  const pcmOk = formatTag === FORMAT_PCM && [16, 24, 32].includes(bitsPerSample);
+  const floatOk = formatTag === FORMAT_IEEE_FLOAT && bitsPerSample === 32;
+  if (!pcmOk && !floatOk) {
+    throw new InvalidAudioError(`Unsupported WAV encoding: format ${formatTag}, ${bitsPerSample}-bit`);
+  }
+  if (channels < 1 || sampleRate < 1 || blockAlign !== channels * (bitsPerSample / 8)) {
+    throw new InvalidAudioError(`Invalid WAV header: ${channels} channels @ ${sampleRate} Hz`);
+  }
+}
+
+function decodeSample(buf: Buffer, offset: number, info: WavInfo): number {
+  if (info.formatTag === FORMAT_IEEE_FLOAT) return buf.readFloatLE(offset);
+  switch (info.bitsPerSample) {
+    case 16: return buf.readInt16LE(offset) / 0x8000;
+    case 24: return buf.readIntLE(offset, 3) / 0x800000;
+    default: return buf.readInt32LE(offset) / 0x80000000;
+  }
+}
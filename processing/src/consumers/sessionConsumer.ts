@@ -0,0 +1,163 @@
+/**
+ * sessionConsumer.ts — SQS consumer for ProcessSessionMessage.
+ *
+ * This consumer:
+ *   1. Long-polls the processing queue (20s wait, one message at a time —
+ *      each analysis is CPU-heavy, so scale out with more workers instead)
+ *   2. Extends the message's visibility timeout on receipt and every minute
+ *      while the analysis runs, so a long recording isn't redelivered
+ *      to another worker mid-analysis
+ *   3. Publishes the ProcessingResult to the results queue
+ *   4. Deletes the processing message only after the result is published
+ *
+ * Failure handling:
+ *   - InvalidAudioError → publish a rejected result and delete the message
+ *     (the audio will never become readable by retrying)
+ *   - Anything else     → leave the message; SQS redelivers it after the
+ *     visibility timeout (or dead-letters it after maxReceiveCount)
+ *
+ * Lifecycle:
+ *   - startConsumer() — called at worker boot; begins the poll loop
+ *   - stopConsumer()  — called during graceful shutdown; resolves once the
+ *                       in-flight message (if any) has finished
+ */
+import {
+  receiveMessages,
+  deleteMessage,
+  publishMessage,
+  extendVisibility,
+  QUEUES,
+} from '../infra/sqs';
+import { analyzeSession, buildInvalidResult } from '../services/analysisService';
+import type { ProcessSessionMessage, ProcessingResult } from '../shared';
+import { InvalidAudioError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+/** Visibility timeout applied on each heartbeat (seconds) */
+const VISIBILITY_TIMEOUT_S = 300;
+/** How often to extend visibility while a message is being processed */
+const HEARTBEAT_MS = 60_000;
+
+// ─── Consumer State ──────────────────────────────────────────────
+let isRunning = false;
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+let inFlight: Promise<void> | null = null;
+
+/** Start the SQS polling loop. Idempotent — safe to call multiple times. */
+export function startConsumer(): void {
+  if (isRunning) return;
+  isRunning = true;
+  logger.info('Session consumer started', { queueUrl: QUEUES.PROCESSING });
+  poll();
+}
+
+/** Stop polling and wait for the current message (if any) to finish. */
+export async function stopConsumer(): Promise<void> {
+  isRunning = false;
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+  if (inFlight) await inFlight;
+  logger.info('Session consumer stopped');
+}
+
+/**
+ * Core poll loop — fetches one message, processes it, then schedules the next poll.
+ */
+async function poll(): Promise<void> {
+  if (!isRunning) return;
+
+  try {
+    const messages = await receiveMessages(QUEUES.PROCESSING, 1, 20);
+
+    for (const msg of messages) {
+      inFlight = handleMessage(msg.Body, msg.ReceiptHandle, msg.MessageId);
+      await inFlight;
+      inFlight = null;
+    }
+  } catch (err) {
+    logger.error('Error polling SQS', { error: (err as Error).message });
+  }
+
+  // Schedule next poll after a 1s cooldown (prevents tight loop on errors)
+  if (isRunning) {
+    pollTimer = setTimeout(poll, 1000);
+  }
+}
+
+async function handleMessage(
+  body: string | undefined,
+  receiptHandle: string | undefined,
+  messageId: string | undefined,
+): Promise<void> {
+  const startedAt = Date.now();
+  let message: ProcessSessionMessage;
+
+  try {
+    message = JSON.parse(body || '{}') as ProcessSessionMessage;
+  } catch {
+    logger.error('Discarding unparseable processing message', { messageId });
+    if (receiptHandle) await deleteMessage(QUEUES.PROCESSING, receiptHandle);
+    return;
+  }
+
+  if (message.action !== 'process-session' || !message.roomId || !message.sessionId) {
+    logger.warn('Discarding unrecognized processing message', { messageId, action: message.action });
+    if (receiptHandle) await deleteMessage(QUEUES.PROCESSING, receiptHandle);
+    return;
+  }
+
+  // Claim the message for longer than the queue default right away, then keep renewing
+  const beat = (handle: string) => {
+    extendVisibility(QUEUES.PROCESSING, handle, VISIBILITY_TIMEOUT_S).catch((err) => {
+      logger.warn('Failed to extend message visibility', { messageId, error: (err as Error).message });
+    });
+  };
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  if (receiptHandle) {
+    beat(receiptHandle);
+    heartbeat = setInterval(() => beat(receiptHandle), HEARTBEAT_MS);
+  }
+
+  try {
+    let result: ProcessingResult;
+    try {
+      result = await analyzeSession(message);
+    } catch (err) {
+      if (!(err instanceof InvalidAudioError)) throw err;
+      logger.warn('Session audio is invalid — rejecting', {
+        roomId: message.roomId,
+        sessionId: message.sessionId,
+        reason: err.message,
+      });
+      result = buildInvalidResult(message, err.message, startedAt);
+    }
+
+    await publishMessage(QUEUES.PROCESSING_RESULTS, result);
+
+    // Delete only after the result is safely on the results queue
+    if (receiptHandle) {
+      await deleteMessage(QUEUES.PROCESSING, receiptHandle);
+    }
+
+    logger.info('Processing result published', {
+      roomId: result.roomId,
+      sessionId: result.sessionId,
+      profile: result.profile,
+      status: result.status,
+      processingTimeMs: result.processingTimeMs,
+    });
+  } catch (err) {
+    logger.error('Error processing session', {
+      messageId,
+      roomId: message.roomId,
+      sessionId: message.sessionId,
+      error: (err as Error).message,
+    });
+    // Message NOT deleted → it becomes visible again after the visibility
+    // timeout, allowing a retry (or eventual dead-letter)
+  } finally {
+    if (heartbeat) clearInterval(heartbeat);
+  }
+}
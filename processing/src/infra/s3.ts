@@ -0,0 +1,51 @@
+/**
+ * s3.ts — S3 client for reading uploaded recordings.
+ *
+ * The worker only ever reads from the recordings bucket. Files are streamed
+ * to local disk rather than buffered in memory — a long session can produce
+ * multi-gigabyte WAVs, and the analysis reads them back in small blocks.
+ *
+ * Endpoint resolution mirrors the server's infra/s3.ts so the same env vars
+ * (AWS_ENDPOINT, S3_BUCKET) point both at LocalStack in development.
+ */
+import fs from 'fs';
+import { pipeline } from 'stream/promises';
+import type { Readable } from 'stream';
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { logger } from '../utils/logger';
+
+const s3Config: ConstructorParameters<typeof S3Client>[0] = {
+  region: process.env.AWS_REGION || 'ap-south-1',
+};
+
+if (process.env.AWS_ENDPOINT) {
+  s3Config.endpoint = process.env.AWS_ENDPOINT;
+  s3Config.forcePathStyle = true;
+} else if (process.env.ENV === 'development' && !process.env.KUBERNETES_SERVICE_HOST) {
+  s3Config.endpoint = 'http://localhost:4566';
+  s3Config.forcePathStyle = true;
+}
+
+if (process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY) {
+  s3Config.credentials = {
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+  };
+}
+
+const s3Client = new S3Client(s3Config);
+
+export const BUCKET_NAME = process.env.S3_BUCKET || 'audio-studio-recordings';
+
+/** Stream an S3 object to a local file. Resolves once the file is fully written. */
+export async function downloadToFile(key: string, destPath: string): Promise<void> {
+  const command = new GetObjectCommand({ Bucket: BUCKET_NAME, Key: key });
+  const response = await s3Client.send(command);
+  if (!response.Body) {
+    throw new Error(`S3 object has no body: ${key}`);
+  }
+  await pipeline(response.Body as Readable, fs.createWriteStream(destPath));
+  logger.debug('S3 object downloaded', { key, destPath, bytes: response.ContentLength });
+}
+
+logger.info('S3 client initialized', { region: s3Config.region, bucket: BUCKET_NAME });
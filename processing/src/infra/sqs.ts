@@ -0,0 +1,103 @@
+/**
+ * sqs.ts — SQS client for the processing worker.
+ *
+ * The worker sits on the other side of the two queues the server uses:
+ *
+ *   1. Processing Queue (QUEUES.PROCESSING):
+ *      Consumed here. Each message is a ProcessSessionMessage published by
+ *      the server's pipelineService once both recordings are uploaded.
+ *
+ *   2. Results Queue (QUEUES.PROCESSING_RESULTS):
+ *      Published to here. The server's processingResultConsumer polls it
+ *      and pushes the ProcessingResult to clients via Socket.IO.
+ *
+ * In development, SQS can point to LocalStack (localhost:4566).
+ * Queue URLs are configured via the same environment variables as the server.
+ */
+import {
+  SQSClient,
+  SendMessageCommand,
+  ReceiveMessageCommand,
+  DeleteMessageCommand,
+  ChangeMessageVisibilityCommand,
+} from '@aws-sdk/client-sqs';
+import { logger } from '../utils/logger';
+
+const sqsConfig: ConstructorParameters<typeof SQSClient>[0] = {
+  region: process.env.AWS_REGION || 'ap-south-1',
+};
+
+if (process.env.SQS_ENDPOINT) {
+  sqsConfig.endpoint = process.env.SQS_ENDPOINT;
+} else if (process.env.ENV === 'development' && !process.env.KUBERNETES_SERVICE_HOST) {
+  sqsConfig.endpoint = 'http://localhost:4566';
+}
+
+if (process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY) {
+  sqsConfig.credentials = {
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+  };
+}
+
+const sqsClient = new SQSClient(sqsConfig);
+
+// Queue URLs — configured via environment
+export const QUEUES = {
+  PROCESSING: process.env.SQS_PROCESSING_QUEUE_URL || '',
+  PROCESSING_RESULTS: process.env.SQS_RESULTS_QUEUE_URL || '',
+} as const;
+
+export async function publishMessage(
+  queueUrl: string,
+  body: object,
+  messageGroupId?: string,
+  deduplicationId?: string,
+): Promise<void> {
+  const command = new SendMessageCommand({
+    QueueUrl: queueUrl,
+    MessageBody: JSON.stringify(body),
+    ...(messageGroupId && { MessageGroupId: messageGroupId }),
+    ...(deduplicationId && { MessageDeduplicationId: deduplicationId }),
+  });
+  await sqsClient.send(command);
+  logger.info('SQS message published', { queueUrl, messageGroupId });
+}
+
+export async function receiveMessages(queueUrl: string, maxMessages = 10, waitTimeSeconds = 20) {
+  const command = new ReceiveMessageCommand({
+    QueueUrl: queueUrl,
+    MaxNumberOfMessages: maxMessages,
+    WaitTimeSeconds: waitTimeSeconds,
+  });
+  const result = await sqsClient.send(command);
+  return result.Messages ?? [];
+}
+
+export async function deleteMessage(queueUrl: string, receiptHandle: string): Promise<void> {
+  const command = new DeleteMessageCommand({
+    QueueUrl: queueUrl,
+    ReceiptHandle: receiptHandle,
+  });
+  await sqsClient.send(command);
+}
+
+/**
+ * Push a message's visibility timeout further out. Used as a heartbeat while
+ * a long recording is being analyzed so the message isn't redelivered to
+ * another worker mid-analysis.
+ */
+export async function extendVisibility(
+  queueUrl: string,
+  receiptHandle: string,
+  visibilityTimeoutSeconds: number,
+): Promise<void> {
+  const command = new ChangeMessageVisibilityCommand({
+    QueueUrl: queueUrl,
+    ReceiptHandle: receiptHandle,
+    VisibilityTimeout: visibilityTimeoutSeconds,
+  });
+  await sqsClient.send(command);
+}
+
+logger.info('SQS client initialized', { region: sqsConfig.region });
@@ -0,0 +1,164 @@
+/**
+ * analysisService.ts — Turn a ProcessSessionMessage into a ProcessingResult.
+ *
+ * Steps:
+ *   1. Download every track's recording from S3 into a per-session temp directory
+ *   2. Analyze each track (levels, voice activity, clipping, SRMR)
+ *   3. Combine into session metrics (SNR, RMS, overlap, balance, echo)
+ *   4. Classify P0-P4 and collect rejection reason / suggestions
+ *   5. Delete the temp files — always, even if analysis fails
+ *
+ * Tracks are analyzed one after the other rather than in parallel: the work
+ * is CPU-bound, so parallelism buys nothing on a single core and multiplies
+ * peak memory.
+ *
+ * Findings name tracks by role: "Host", then "Guest" — or "Guest 1",
+ * "Guest 2", … when a panel has several. Messages queued before sessions
+ * had a track list carry hostKey/guestKey instead; they are read as a
+ * host track and a guest track.
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { downloadToFile } from '../infra/s3';
+import { analyzeTrack } from '../audio/trackAnalyzer';
+import type { TrackAnalysis } from '../audio/trackAnalyzer';
+import { computeSessionMetrics } from '../audio/sessionMetrics';
+import { classifySession } from '../audio/classifier';
+import { QUALITY_PROFILE, ROLES } from '../shared';
+import type { ProcessingTrack, ProcessSessionMessage, ProcessingResult, SpeakerProfile } from '../shared';
+import { InvalidAudioError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const WORK_DIR = process.env.PROCESSING_WORK_DIR || path.join(os.tmpdir(), 'audio-studio-processing');
+
+/** A message queued before ProcessSessionMessage listed tracks */
+interface LegacySessionMessage {
+  hostKey?: string;
+  guestKey?: string;
+  hostSpeaker?: SpeakerProfile | null;
+  guestSpeaker?: SpeakerProfile | null;
+}
+
+export async function analyzeSession(message: ProcessSessionMessage): Promise<ProcessingResult> {
+  const startedAt = Date.now();
+  const { roomId, sessionId } = message;
+  const tracks = sessionTracks(message);
+
+  if (tracks.length === 0 || tracks.some((t) => !t.key)) {
+    throw new InvalidAudioError('Session message is missing a recording key');
+  }
+
+  const sessionDir = await fs.promises.mkdtemp(path.join(WORK_DIR, 'session-'));
+  const paths = tracks.map((_, i) => path.join(sessionDir, `track-${i}.wav`));
+  const labels = trackLabels(tracks);
+
+  try {
+    await Promise.all(tracks.map((t, i) => download(t.key, paths[i])));
+    logger.info('Recordings downloaded', { roomId, sessionId, tracks: tracks.length });
+
+    const analyses: TrackAnalysis[] = [];
+    for (const trackPath of paths) {
+      analyses.push(await analyzeTrack(trackPath));
+    }
+
+    const metrics = computeSessionMetrics(analyses);
+    const { profile, rejectionReason, suggestions } = classifySession(
+      metrics,
+      analyses.map((analysis, i) => [labels[i], analysis]),
+    );
+
+    logger.info('Session analyzed', {
+      roomId,
+      sessionId,
+      profile,
+      tracks: tracks.map((t, i) => ({
+        label: labels[i],
+        durationSec: Math.round(analyses[i].durationSec),
+        // Messages queued before speaker profiles existed have none
+        language: t.speaker?.language ?? null,
+      })),
+      metrics,
+    });
+
+    return {
+      roomId,
+      sessionId,
+      status: profile === QUALITY_PROFILE.P4 ? 'rejected' : 'completed',
+      profile,
+      metrics,
+      ...(rejectionReason && { rejectionReason }),
+      suggestions,
+      processingTimeMs: Date.now() - startedAt,
+    };
+  } finally {
+    await fs.promises.rm(sessionDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Build the result for a session whose audio can't be analyzed at all.
+ * Sent instead of retrying so the participants aren't left waiting forever.
+ */
+export function buildInvalidResult(
+  message: ProcessSessionMessage,
+  reason: string,
+  startedAt: number,
+): ProcessingResult {
+  return {
+    roomId: message.roomId,
+    sessionId: message.sessionId,
+    status: 'rejected',
+    profile: QUALITY_PROFILE.P4,
+    metrics: {
+      snr: 0,
+      rms: 0,
+      srmr: 0,
+      overlapPercent: 0,
+      speakerBalance: 0,
+      echoCorrelation: 0,
+    },
+    rejectionReason: reason,
+    suggestions: ['Re-record the session — the uploaded audio could not be read'],
+    processingTimeMs: Date.now() - startedAt,
+  };
+}
+
+/** The message's tracks, reading a legacy host/guest message as two tracks */
+function sessionTracks(message: ProcessSessionMessage): ProcessingTrack[] {
+  if (Array.isArray(message.tracks)) return message.tracks;
+
+  const legacy = message as unknown as LegacySessionMessage;
+  return [
+    { userId: '', role: ROLES.HOST, key: legacy.hostKey ?? '', speakerId: null, speaker: legacy.hostSpeaker ?? null },
+    { userId: '', role: ROLES.GUEST, key: legacy.guestKey ?? '', speakerId: null, speaker: legacy.guestSpeaker ?? null },
+  ];
+}
+
+/** "Host", then "Guest" — numbered when there are several guests */
+function trackLabels(tracks: ProcessingTrack[]): string[] {
+  const guests = tracks.filter((t) => t.role !== ROLES.HOST).length;
+  let guestNumber = 0;
+  return tracks.map((t) => {
+    if (t.role === ROLES.HOST) return 'Host';
+    guestNumber++;
+    return guests > 1 ? `Guest ${guestNumber}` : 'Guest';
+  });
+}
+
+/** Download an S3 object, mapping "no such key" to a permanent failure */
+async function download(key: string, destPath: string): Promise<void> {
+  try {
+    await downloadToFile(key, destPath);
+  } catch (err) {
+    if ((err as Error).name === 'NoSuchKey') {
+      throw new InvalidAudioError(`Recording not found in S3: ${key}`);
+    }
+    throw err;
+  }
+}
+
+/** Create the scratch directory at startup so mkdtemp never races on it */
+export async function ensureWorkDir(): Promise<void> {
+  await fs.promises.mkdir(WORK_DIR, { recursive: true });
+}
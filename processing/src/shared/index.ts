@@ -0,0 +1,21 @@
+/**
+ * shared/index.ts — Barrel export for the shared types and constants the worker uses.
+ *
+ * This is a subset of server/src/shared — only the pieces the processing
+ * pipeline needs to read ProcessSessionMessage, grade audio against the
+ * same AUDIO_THRESHOLDS the server uses, and publish a ProcessingResult.
+ * Keep these files identical to their server counterparts.
+ */
+
+export { AUDIO_THRESHOLDS } from './constants/thresholds';
+export type { QualityProfile } from './constants/thresholds';
+
+export { QUALITY_PROFILE, ROLES } from './constants/enums';
+
+export type {
+  ProcessingTrack,
+  ProcessSessionMessage,
+  ProcessingResult,
+} from './types/processing';
+
+export type { SpeakerProfile } from './types/speaker';
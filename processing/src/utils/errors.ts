@@ -0,0 +1,19 @@
+/**
+ * utils/errors.ts — Worker error types.
+ *
+ * The consumer needs to tell two kinds of failure apart:
+ *
+ *   Error (native)            — transient (S3/SQS hiccup, disk full, crash).
+ *                               Message is left on the queue and retried.
+ *     └── InvalidAudioError   — the recording itself is unusable (not a WAV,
+ *                               unsupported encoding, missing object). Retrying
+ *                               won't help, so the session is rejected instead.
+ */
+
+/** The input audio can never be analyzed — reject the session rather than retry */
+export class InvalidAudioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidAudioError';
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * utils/logger.ts — Structured logging utility.
+ *
+ * Same environment-aware logger as server/src/utils/logger.ts,
+ * minus the per-request ID tracking (the worker has no HTTP layer):
+ *   - Development: Human-readable format with timestamps and level prefixes
+ *   - Production:  Single-line JSON per log entry for structured log
+ *     ingestion (CloudWatch, ELK, Datadog, etc.)
+ *
+ * Log levels:
+ *   - error: Unexpected failures, exceptions → console.error
+ *   - warn:  Degraded conditions, fallbacks → console.log
+ *   - info:  Normal operational events → console.log
+ *   - debug: Verbose development details → console.log (dev only, suppressed in prod)
+ */
+const isDevelopment = process.env.ENV === 'development' || !process.env.ENV;
+
+/** Structure of a JSON log entry (used in production output) */
+interface LogEntry {
+  timestamp: string;
+  level: string;
+  message: string;
+  data?: unknown;
+}
+
+/**
+ * Core log formatter — builds the entry and outputs it in the appropriate format.
+ * Dev mode: pretty-printed with [timestamp] [LEVEL] message data
+ * Prod mode: single-line JSON for structured log ingestion
+ */
+function formatLog(level: string, message: string, data?: unknown): void {
+  const entry: LogEntry = {
+    timestamp: new Date().toISOString(),
+    level,
+    message,
+    ...(data !== undefined && { data }),
+  };
+
+  const output = level === 'ERROR' ? console.error : console.log;
+
+  if (isDevelopment) {
+    // Human-readable format for terminal debugging
+    output(`[${entry.timestamp}] [${level}]`, message, data ?? '');
+  } else {
+    // Structured JSON for production log aggregation
+    output(JSON.stringify(entry));
+  }
+}
+
+/** Application logger — import and use throughout the codebase */
+export const logger = {
+  error: (message: string, data?: unknown) => formatLog('ERROR', message, data),
+  warn: (message: string, data?: unknown) => formatLog('WARN', message, data),
+  info: (message: string, data?: unknown) => formatLog('INFO', message, data),
+  debug: (message: string, data?: unknown) => {
+    if (isDevelopment) formatLog('DEBUG', message, data);
+  },
+};
@@ -0,0 +1,62 @@
+/**
+ * worker.ts — Processing worker entry point.
+ *
+ * Consumes ProcessSessionMessage from the SQS processing queue, analyzes every
+ * participant's recording from S3, and publishes a ProcessingResult to the
+ * results queue that the server's processingResultConsumer polls.
+ *
+ * ─── Bootstrap Sequence ──────────────────────────────────────────
+ *   1. Load .env (same variable names as the server)
+ *   2. Verify both queue URLs are configured
+ *   3. Create the scratch directory for downloaded recordings
+ *   4. Start the session consumer
+ *
+ * ─── Graceful Shutdown ───────────────────────────────────────────
+ *   On SIGTERM/SIGINT the consumer stops polling and the worker exits once
+ *   the in-flight session (if any) is finished. If that takes longer than
+ *   the grace period, the worker exits anyway — the message was never
+ *   deleted, so SQS redelivers it to another worker.
+ */
+import './env';
+import { QUEUES } from './infra/sqs';
+import { startConsumer, stopConsumer } from './consumers/sessionConsumer';
+import { ensureWorkDir } from './services/analysisService';
+import { logger } from './utils/logger';
+
+const SHUTDOWN_GRACE_MS = 60_000;
+
+async function bootstrap(): Promise<void> {
+  if (!QUEUES.PROCESSING || !QUEUES.PROCESSING_RESULTS) {
+    throw new Error('SQS_PROCESSING_QUEUE_URL and SQS_RESULTS_QUEUE_URL must both be set');
+  }
+
+  await ensureWorkDir();
+  startConsumer();
+
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    logger.info(`${signal} received — shutting down`);
+
+    setTimeout(() => {
+      logger.warn('Shutdown grace period exceeded — exiting with work in flight');
+      process.exit(1);
+    }, SHUTDOWN_GRACE_MS).unref();
+
+    await stopConsumer();
+    process.exit(0);
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+}
+
+process.on('unhandledRejection', (reason) => {
+  logger.error('Unhandled rejection', { reason: String(reason) });
+});
+
+bootstrap().catch((err) => {
+  logger.error('Worker failed to start', { error: (err as Error).message });
+  process.exit(1);
+});
@@ -8,8 +8,10 @@
  * This consumer:
  *   1. Long-polls the results queue (20s wait, up to 5 messages per batch)
  *   2. Parses each message as a ProcessingResult (contains SNR, SRMR, profile P0-P4)
- *   3. Forwards the result to connected clients via notificationService
- *   4. Deletes the message from the queue after successful delivery
+ *   3. Persists it to the ProcessingResults table (processingResultRepo) so
+ *      clients that aren't connected right now can fetch it later over REST
+ *   4. Forwards the result to connected clients via notificationService
+ *   5. Deletes the message from the queue after successful delivery
  *
  * Lifecycle:
  *   - startConsumer() — called at server boot; begins the poll loop
@@ -20,6 +22,7 @@
  */
 import { receiveMessages, deleteMessage, QUEUES } from '../infra/sqs';
 import { notifyProcessingComplete } from '../services/notificationService';
+import * as processingResultRepo from '../repositories/processingResultRepo';
 import type { ProcessingResult } from '../shared';
 import { logger } from '../utils/logger';
 
@@ -69,6 +72,8 @@ async function poll(): Promise<void> {
 
         // Only deliver results that have the required identifiers
         if (result.roomId && result.sessionId) {
+          // Store first — if this throws, the message is retried rather than lost
+          await processingResultRepo.saveResult(result);
           notifyProcessingComplete(result.roomId, result);
           logger.info('Processing result delivered', {
             roomId: result.roomId,
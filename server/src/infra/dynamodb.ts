@@ -19,6 +19,16 @@
  *                                   GSI UploadIndex(uploadId)
  *   - AudioStudio_RecordingState → PK: meetingId
  *   - AudioStudio_GlobalStats    → PK: statKey (singleton: "GLOBAL")
+ *   - AudioStudio_ProcessingResults → PK: meetingId, SK: sessionId
+ *   - AudioStudio_Locks          → PK: lockName (cluster-wide leases for background jobs)
+ *   - AudioStudio_AccessGrants   → PK: meetingId, SK: email (reviewer access to recordings)
+ *   - AudioStudio_AuditLog       → PK: meetingId, SK: auditId (every presigned URL issued)
+ *   - AudioStudio_Users          → PK: email (accounts, created on first login)
+ *   - AudioStudio_LoginLinks     → PK: tokenHash (one-time magic login links, TTL: ttl)
+ *   - AudioStudio_Invites        → PK: meetingId, SK: slot (signed guest invite links)
+ *   - AudioStudio_ConsentDocuments → PK: locale, SK: version (versioned consent text)
+ *   - AudioStudio_Consents       → PK: meetingId, SK: consentId (participants' signed consents)
+ *   - AudioStudio_Speakers       → PK: speakerId (registered speakers across meetings)
  */
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
@@ -67,6 +77,16 @@ export const TABLES = {
   RECORDINGS: process.env.DYNAMO_TABLE_RECORDINGS || 'AudioStudio_Recordings',
   RECORDING_STATE: process.env.DYNAMO_TABLE_RECORDING_STATE || 'AudioStudio_RecordingState',
   GLOBAL_STATS: process.env.DYNAMO_TABLE_STATS || 'AudioStudio_GlobalStats',
+  PROCESSING_RESULTS: process.env.DYNAMO_TABLE_PROCESSING_RESULTS || 'AudioStudio_ProcessingResults',
+  LOCKS: process.env.DYNAMO_TABLE_LOCKS || 'AudioStudio_Locks',
+  ACCESS_GRANTS: process.env.DYNAMO_TABLE_ACCESS_GRANTS || 'AudioStudio_AccessGrants',
+  AUDIT_LOG: process.env.DYNAMO_TABLE_AUDIT_LOG || 'AudioStudio_AuditLog',
+  USERS: process.env.DYNAMO_TABLE_USERS || 'AudioStudio_Users',
+  LOGIN_LINKS: process.env.DYNAMO_TABLE_LOGIN_LINKS || 'AudioStudio_LoginLinks',
+  INVITES: process.env.DYNAMO_TABLE_INVITES || 'AudioStudio_Invites',
+  CONSENT_DOCUMENTS: process.env.DYNAMO_TABLE_CONSENT_DOCUMENTS || 'AudioStudio_ConsentDocuments',
+  CONSENTS: process.env.DYNAMO_TABLE_CONSENTS || 'AudioStudio_Consents',
+  SPEAKERS: process.env.DYNAMO_TABLE_SPEAKERS || 'AudioStudio_Speakers',
 } as const;
 
 logger.info('DynamoDB client initialized', { region: config.region, endpoint: config.endpoint });
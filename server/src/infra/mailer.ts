@@ -0,0 +1,98 @@
+/**
+ * mailer.ts — Outgoing email, behind a pluggable transport.
+ *
+ * Services call sendMail() and never see the transport. MAILER_TRANSPORT
+ * picks it:
+ *
+ *   - console — logs each message (recipient, subject, body) instead of
+ *               sending it. The default in development, so a login link
+ *               can be copied straight from the server log.
+ *   - smtp    — sends through any SMTP server via nodemailer. Locally that
+ *               is the Mailpit container in tools/local-stack (web inbox on
+ *               http://localhost:8025); in production, the provider's relay.
+ *
+ * SMTP configuration (environment):
+ *   SMTP_HOST, SMTP_PORT (default 587), SMTP_SECURE ('true' for implicit TLS),
+ *   SMTP_USER, SMTP_PASSWORD (both optional)
+ *   MAIL_FROM — sender address for every message
+ *
+ * Another transport (e.g. SES) only needs a new Mailer implementation and
+ * a case in createMailer().
+ *
+ * The transport is created lazily on first use, after config/index.ts has
+ * loaded secrets into process.env.
+ */
+import nodemailer from 'nodemailer';
+import { logger } from '../utils/logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;                 // Plain-text body
+  html?: string;                // Optional HTML alternative
+}
+
+/** A way of delivering MailMessages */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+let mailer: Mailer | null = null;
+
+/** Send `message` through the configured transport */
+export async function sendMail(message: MailMessage): Promise<void> {
+  if (!mailer) mailer = createMailer();
+  await mailer.send(message);
+}
+
+// ─── Transports ──────────────────────────────────────────────────
+
+function createMailer(): Mailer {
+  const transport =
+    process.env.MAILER_TRANSPORT || (process.env.ENV === 'development' ? 'console' : 'smtp');
+
+  switch (transport) {
+    case 'console':
+      logger.info('Mailer: console transport (emails are logged, not sent)');
+      return consoleMailer;
+    case 'smtp':
+      return createSmtpMailer();
+    default:
+      throw new Error(`Unknown MAILER_TRANSPORT: ${transport}`);
+  }
+}
+
+const consoleMailer: Mailer = {
+  async send(message) {
+    logger.info('Email (console transport)', {
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  },
+};
+
+function createSmtpMailer(): Mailer {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error('SMTP_HOST is required for the smtp mail transport');
+  }
+
+  const port = parseInt(process.env.SMTP_PORT || '587', 10);
+  const user = process.env.SMTP_USER;
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: user ? { user, pass: process.env.SMTP_PASSWORD || '' } : undefined,
+  });
+  const from = process.env.MAIL_FROM || 'Audio Studio <no-reply@localhost>';
+
+  logger.info('Mailer: SMTP transport', { host, port });
+  return {
+    async send(message) {
+      await transporter.sendMail({ from, ...message });
+      logger.info('Email sent', { to: message.to, subject: message.subject });
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateS3Key, isRecordingKeyOf } from './s3';
+
+describe('isRecordingKeyOf', () => {
+  it('accepts the keys generateS3Key makes for the same recording', () => {
+    const key = generateS3Key('meeting-1', 'user_abc', '.wav', 'session-1');
+    assert.ok(isRecordingKeyOf(key, 'meeting-1', 'user_abc', 'session-1'));
+
+    const unsessioned = generateS3Key('meeting-1', 'user_abc');
+    assert.ok(isRecordingKeyOf(unsessioned, 'meeting-1', 'user_abc'));
+  });
+
+  it('matches participant names as generateS3Key sanitizes them', () => {
+    const key = generateS3Key('meeting-1', 'guest@example.com', '.wav', 'session-1');
+    assert.ok(key.includes('/guest_example_com_'));
+    assert.ok(isRecordingKeyOf(key, 'meeting-1', 'guest@example.com', 'session-1'));
+  });
+
+  it('rejects keys of another meeting, session or participant', () => {
+    const key = generateS3Key('meeting-1', 'user_abc', '.wav', 'session-1');
+    assert.ok(!isRecordingKeyOf(key, 'meeting-2', 'user_abc', 'session-1'));
+    assert.ok(!isRecordingKeyOf(key, 'meeting-1', 'user_abc', 'session-2'));
+    assert.ok(!isRecordingKeyOf(key, 'meeting-1', 'user_xyz', 'session-1'));
+    assert.ok(!isRecordingKeyOf(key, 'meeting-1', 'user_abc'));
+  });
+
+  it('rejects a participant whose name extends the scoped one', () => {
+    const key = generateS3Key('meeting-1', 'user_abc_2', '.wav', 'session-1');
+    assert.ok(!isRecordingKeyOf(key, 'meeting-1', 'user_abc', 'session-1'));
+  });
+
+  it('rejects anything after the prefix but a timestamp and extension', () => {
+    const prefix = 'recordings/meeting-1/session-1/user_abc_';
+    assert.ok(isRecordingKeyOf(`${prefix}1700000000000.wav`, 'meeting-1', 'user_abc', 'session-1'));
+    assert.ok(!isRecordingKeyOf(`${prefix}1700000000000.wav/../other.wav`, 'meeting-1', 'user_abc', 'session-1'));
+    assert.ok(!isRecordingKeyOf(`${prefix}latest.wav`, 'meeting-1', 'user_abc', 'session-1'));
+    assert.ok(!isRecordingKeyOf(`${prefix}1700000000000`, 'meeting-1', 'user_abc', 'session-1'));
+  });
+});
@@ -6,7 +6,11 @@
  *   - Object metadata checks (HEAD) for verifying uploads
  *   - Range fetches for reading WAV headers during multipart completion
  *   - Full multipart upload lifecycle (create, part URLs, complete, abort, list)
+ *   - Bucket listings + deletes used by the upload janitor
  *   - S3 key generation for organizing recordings by meeting/session
+ *   - SHA-256 integrity: multipart uploads are created with ChecksumAlgorithm
+ *     SHA256, and presigned PUTs can carry the browser's checksum so S3
+ *     rejects any bytes that don't match it
  *
  * S3 bucket structure:
  *   recordings/{meetingId}/{sessionId}/{participant}_{timestamp}.wav  — final recordings
@@ -25,6 +29,9 @@ import {
   CompleteMultipartUploadCommand,
   AbortMultipartUploadCommand,
   ListPartsCommand,
+  ListMultipartUploadsCommand,
+  ListObjectsV2Command,
+  DeleteObjectCommand,
 } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { logger } from '../utils/logger';
@@ -56,15 +63,27 @@ export const BUCKET_NAME = process.env.S3_BUCKET || 'audio-studio-recordings';
 // Presigned URLs allow the browser to upload/download directly to/from
 // S3 without routing data through the server. The server only generates
 // the URL; the browser does the actual HTTP PUT/GET to S3.
+//
+// When a checksum is given, x-amz-checksum-sha256 is kept as a signed
+// header (not hoisted into the query string): the browser must send it
+// with exactly that value, and S3 verifies the body against it.
+
+const CHECKSUM_HEADERS = new Set(['x-amz-checksum-sha256']);
 
 /** Generate a presigned PUT URL for uploading a file to S3 */
 export async function getPresignedPutUrl(
   key: string,
   contentType: string,
   expiresIn: number,
+  checksumSHA256?: string,
 ): Promise<string> {
-  const command = new PutObjectCommand({ Bucket: BUCKET_NAME, Key: key, ContentType: contentType });
-  return getSignedUrl(s3Client, command, { expiresIn });
+  const command = new PutObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: key,
+    ContentType: contentType,
+    ChecksumSHA256: checksumSHA256,
+  });
+  return getSignedUrl(s3Client, command, { expiresIn, unhoistableHeaders: CHECKSUM_HEADERS });
 }
 
 /** Generate a presigned GET URL for downloading a file from S3 (default: 1 hour expiry) */
@@ -75,10 +94,13 @@ export async function getPresignedGetUrl(key: string, expiresIn = 3600): Promise
 
 // ─── Object metadata ────────────────────────────────────────────
 
-/** Check if a file exists in S3 and return its metadata. Returns null if not found. */
+/**
+ * Check if a file exists in S3 and return its metadata (including its stored
+ * SHA-256 checksum, if it has one). Returns null if not found.
+ */
 export async function getObjectMetadata(key: string) {
   try {
-    const command = new HeadObjectCommand({ Bucket: BUCKET_NAME, Key: key });
+    const command = new HeadObjectCommand({ Bucket: BUCKET_NAME, Key: key, ChecksumMode: 'ENABLED' });
     const metadata = await s3Client.send(command);
     return metadata.ContentLength && metadata.ContentLength > 0 ? metadata : null;
   } catch (err: any) {
@@ -118,28 +140,34 @@ export async function createMultipartUpload(key: string, contentType: string) {
     Bucket: BUCKET_NAME,
     Key: key,
     ContentType: contentType,
+    ChecksumAlgorithm: 'SHA256',
   });
   const result = await s3Client.send(command);
   return { uploadId: result.UploadId!, key };
 }
 
-/** Generate a presigned PUT URL for uploading a specific part */
+/** Generate a presigned PUT URL for uploading a specific part with its SHA-256 checksum */
 export async function getUploadPartUrl(
   key: string,
   uploadId: string,
   partNumber: number,
   expiresIn: number,
+  checksumSHA256: string,
 ): Promise<string> {
   const command = new UploadPartCommand({
     Bucket: BUCKET_NAME,
     Key: key,
     UploadId: uploadId,
     PartNumber: partNumber,
+    ChecksumSHA256: checksumSHA256,
   });
-  return getSignedUrl(s3Client, command, { expiresIn });
+  return getSignedUrl(s3Client, command, { expiresIn, unhoistableHeaders: CHECKSUM_HEADERS });
 }
 
-/** Upload a Buffer directly as a part (used for WAV header patching of Part 1) */
+/**
+ * Upload a Buffer directly as a part (used for WAV header patching of Part 1).
+ * The SDK computes the part's SHA-256, which S3 returns alongside the ETag.
+ */
 export async function uploadPartBuffer(
   key: string,
   uploadId: string,
@@ -152,16 +180,21 @@ export async function uploadPartBuffer(
     UploadId: uploadId,
     PartNumber: partNumber,
     Body: buffer,
+    ChecksumAlgorithm: 'SHA256',
   });
   const result = await s3Client.send(command);
-  return { ETag: result.ETag! };
+  return { ETag: result.ETag!, ChecksumSHA256: result.ChecksumSHA256! };
 }
 
-/** Finalize a multipart upload — S3 assembles all parts into the final object */
+/**
+ * Finalize a multipart upload — S3 assembles all parts into the final object.
+ * S3 checks each part's ChecksumSHA256 against the one stored with the part,
+ * and returns the composite checksum of the assembled object.
+ */
 export async function completeMultipartUpload(
   key: string,
   uploadId: string,
-  parts: Array<{ PartNumber: number; ETag: string }>,
+  parts: Array<{ PartNumber: number; ETag: string; ChecksumSHA256: string }>,
 ) {
   const command = new CompleteMultipartUploadCommand({
     Bucket: BUCKET_NAME,
@@ -184,7 +217,13 @@ export async function abortMultipartUpload(key: string, uploadId: string) {
 
 /** List all uploaded parts for a multipart upload (handles pagination automatically) */
 export async function listParts(key: string, uploadId: string) {
-  const allParts: Array<{ PartNumber: number; ETag: string; Size: number; LastModified: Date }> = [];
+  const allParts: Array<{
+    PartNumber: number;
+    ETag: string;
+    ChecksumSHA256: string | null;
+    Size: number;
+    LastModified: Date;
+  }> = [];
   let isTruncated = true;
   let nextPartNumberMarker: string | undefined;
 
@@ -201,6 +240,7 @@ export async function listParts(key: string, uploadId: string) {
         ...result.Parts.map((p) => ({
           PartNumber: p.PartNumber!,
           ETag: p.ETag!,
+          ChecksumSHA256: p.ChecksumSHA256 ?? null,
           Size: p.Size!,
           LastModified: p.LastModified!,
         })),
@@ -212,6 +252,62 @@ export async function listParts(key: string, uploadId: string) {
   return allParts;
 }
 
+// ─── Bucket listings (upload janitor) ───────────────────────────
+// Used by uploadJanitorService to find multipart uploads that were never
+// completed and temp Part 1 copies that nothing will read again.
+
+/** List every in-progress multipart upload under `prefix` (handles pagination) */
+export async function listMultipartUploads(prefix: string) {
+  const uploads: Array<{ key: string; uploadId: string; initiated: Date }> = [];
+  let keyMarker: string | undefined;
+  let uploadIdMarker: string | undefined;
+  let isTruncated = true;
+
+  while (isTruncated) {
+    const result = await s3Client.send(
+      new ListMultipartUploadsCommand({
+        Bucket: BUCKET_NAME,
+        Prefix: prefix,
+        KeyMarker: keyMarker,
+        UploadIdMarker: uploadIdMarker,
+      }),
+    );
+    for (const u of result.Uploads ?? []) {
+      uploads.push({ key: u.Key!, uploadId: u.UploadId!, initiated: u.Initiated! });
+    }
+    isTruncated = result.IsTruncated ?? false;
+    keyMarker = result.NextKeyMarker;
+    uploadIdMarker = result.NextUploadIdMarker;
+  }
+  return uploads;
+}
+
+/** List every object under `prefix` (handles pagination) */
+export async function listObjects(prefix: string) {
+  const objects: Array<{ key: string; lastModified: Date }> = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const result = await s3Client.send(
+      new ListObjectsV2Command({
+        Bucket: BUCKET_NAME,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      }),
+    );
+    for (const o of result.Contents ?? []) {
+      objects.push({ key: o.Key!, lastModified: o.LastModified! });
+    }
+    continuationToken = result.NextContinuationToken;
+  } while (continuationToken);
+  return objects;
+}
+
+/** Delete a single object (no error if it's already gone) */
+export async function deleteObject(key: string): Promise<void> {
+  await s3Client.send(new DeleteObjectCommand({ Bucket: BUCKET_NAME, Key: key }));
+}
+
 // ─── Key generation ─────────────────────────────────────────────
 // S3 keys follow a hierarchical structure for easy organization:
 //   recordings/{meetingId}/{sessionId}/{participant}_{timestamp}.wav
@@ -228,17 +324,43 @@ export function generateS3Key(
   extension = '.wav',
   sessionId?: string,
 ): string {
-  const timestamp = Date.now();
+  return `${recordingKeyPrefix(meetingId, participantName, sessionId)}${Date.now()}${extension}`;
+}
+
+/**
+ * True if `key` was generated by generateS3Key for this participant's
+ * recording in this meeting and session — used to check that upload
+ * requests only touch files their upload token covers.
+ */
+export function isRecordingKeyOf(
+  key: string,
+  meetingId: string,
+  participantName: string,
+  sessionId?: string,
+): boolean {
+  const prefix = recordingKeyPrefix(meetingId, participantName, sessionId);
+  return key.startsWith(prefix) && /^\d+\.[a-z0-9]+$/.test(key.slice(prefix.length));
+}
+
+function recordingKeyPrefix(meetingId: string, participantName: string, sessionId?: string): string {
   const sanitized = participantName.replace(/[^a-zA-Z0-9\-_]/g, '_');
-  if (sessionId) {
-    return `recordings/${meetingId}/${sessionId}/${sanitized}_${timestamp}${extension}`;
-  }
-  return `recordings/${meetingId}/${sanitized}_${timestamp}${extension}`;
+  return sessionId
+    ? `recordings/${meetingId}/${sessionId}/${sanitized}_`
+    : `recordings/${meetingId}/${sanitized}_`;
 }
 
+/** Prefix of the temp Part 1 copies */
+export const TEMP_UPLOADS_PREFIX = 'temp_uploads/';
+
 /** Generate the temp S3 key where Part 1 is cached before WAV header patching */
 export function getTempS3Key(uploadId: string): string {
-  return `temp_uploads/${uploadId}_part1.wav`;
+  return `${TEMP_UPLOADS_PREFIX}${uploadId}_part1.wav`;
+}
+
+/** Inverse of getTempS3Key — the uploadId a temp Part 1 key belongs to, or null */
+export function parseTempS3Key(key: string): string | null {
+  const match = /^temp_uploads\/(.+)_part1\.wav$/.exec(key);
+  return match ? match[1] : null;
 }
 
 logger.info('S3 client initialized', { bucket: BUCKET_NAME, region: s3Config.region });
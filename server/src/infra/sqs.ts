@@ -4,8 +4,8 @@
  * Two SQS queues are used (both FIFO for ordering guarantees):
  *
  *   1. Processing Queue (QUEUES.PROCESSING):
- *      Server → External Pipeline. When both participants' recordings
- *      are uploaded, pipelineService publishes a ProcessSessionMessage
+ *      Server → External Pipeline. When every participant's recording
+ *      is uploaded, pipelineService publishes a ProcessSessionMessage
  *      here. The external audio processing pipeline consumes it.
  *
  *   2. Results Queue (QUEUES.PROCESSING_RESULTS):
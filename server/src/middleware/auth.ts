@@ -1,28 +1,49 @@
 /**
  * auth.ts — JWT authentication middleware and token utilities.
  *
- * Provides three exports:
+ * Provides four exports:
  *   - authMiddleware: Express middleware that validates Bearer tokens on protected routes
- *   - generateToken:  Creates a JWT with userId + email (24-hour expiry)
+ *   - requireRole:    Express middleware factory that, after authMiddleware,
+ *                     only lets users with one of the given roles through
+ *   - generateToken:  Creates a JWT with userId + email + role (24-hour expiry) —
+ *                     issued by services/authService when a magic login
+ *                     link is verified
  *   - verifyToken:    Standalone token verification (used outside Express context)
  *
- * In development (ENV=development with no JWT_SECRET), auth is bypassed
- * entirely so developers don't need to manage tokens locally.
+ * In development (ENV=development), a request without an Authorization
+ * header is let through without a user so developers don't need to sign in
+ * locally. A request that does carry a token is verified as usual, so
+ * signed-in users keep their identity (req.user) in development too, and
+ * requireRole() lets the anonymous development request through as well.
+ *
+ * The role is read from the JWT, so a role change made through /api/users
+ * takes effect at the user's next sign-in (at most the token's 24 hours).
+ * Tokens issued before roles existed carry none and count as 'participant'.
  *
  * The middleware extends Express's Request type to include `req.user`
- * with the decoded JWT payload ({ userId, email }).
+ * with the decoded JWT payload ({ userId, email, role }).
  */
 import jwt from 'jsonwebtoken';
 import type { Request, Response, NextFunction } from 'express';
+import { USER_ROLES } from '../shared';
+import type { UserRole } from '../shared';
+import { ForbiddenError } from '../utils/errors';
 import { logger } from '../utils/logger';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-in-production';
 
+/** The decoded JWT payload */
+export interface AuthUser {
+  userId: string;
+  email: string;
+  role: UserRole;
+}
+
 // Extend Express Request globally to include the authenticated user payload
 declare global {
   namespace Express {
     interface Request {
-      user?: { userId: string; email: string };
+      user?: AuthUser;
     }
   }
 }
@@ -33,12 +54,13 @@ declare global {
  * On failure, returns 401 Unauthorized.
  */
 export function authMiddleware(req: Request, res: Response, next: NextFunction): void {
-  // Skip auth in development if no JWT_SECRET configured
-  if (process.env.ENV === 'development') {
+  const authHeader = req.headers.authorization;
+
+  // Skip auth in development when no token is sent
+  if (process.env.ENV === 'development' && !authHeader) {
     return next();
   }
 
-  const authHeader = req.headers.authorization;
   if (!authHeader?.startsWith('Bearer ')) {
     res.status(401).json({ error: 'Missing or invalid authorization header' });
     return;
@@ -46,8 +68,7 @@ export function authMiddleware(req: Request, res: Response, next: NextFunction):
 
   const token = authHeader.slice(7);
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string; email: string };
-    req.user = decoded;
+    req.user = toAuthUser(jwt.verify(token, JWT_SECRET));
     next();
   } catch (err) {
     logger.warn('JWT verification failed', { error: (err as Error).message });
@@ -55,16 +76,46 @@ export function authMiddleware(req: Request, res: Response, next: NextFunction):
   }
 }
 
-/** Generate a JWT token with 24-hour expiry containing userId and email */
-export function generateToken(userId: string, email: string): string {
-  return jwt.sign({ userId, email }, JWT_SECRET, { expiresIn: '24h' });
+/**
+ * Express middleware factory: only users whose JWT role is one of `roles`
+ * pass; anyone else gets 403. Must run after authMiddleware:
+ *   router.delete('/:id', authMiddleware, requireRole('admin'), handler)
+ */
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    // authMiddleware's development bypass leaves req.user unset
+    if (!req.user && process.env.ENV === 'development') {
+      return next();
+    }
+    if (!req.user || !roles.includes(req.user.role)) {
+      return next(new ForbiddenError(`Requires role: ${roles.join(' or ')}`, 'ROLE_REQUIRED'));
+    }
+    next();
+  };
+}
+
+/** Generate a JWT token with 24-hour expiry containing userId, email and role */
+export function generateToken(userId: string, email: string, role: UserRole): string {
+  return jwt.sign({ userId, email, role }, JWT_SECRET, { expiresIn: '24h' });
 }
 
 /** Verify a JWT token and return the payload, or null if invalid/expired */
-export function verifyToken(token: string): { userId: string; email: string } | null {
+export function verifyToken(token: string): AuthUser | null {
   try {
-    return jwt.verify(token, JWT_SECRET) as { userId: string; email: string };
+    return toAuthUser(jwt.verify(token, JWT_SECRET));
   } catch {
     return null;
   }
 }
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+/** Pick the claims we rely on; an unknown or missing role counts as 'participant' */
+function toAuthUser(payload: string | jwt.JwtPayload): AuthUser {
+  const { userId, email, role } = payload as Partial<AuthUser>;
+  return {
+    userId: userId as string,
+    email: email as string,
+    role: role && (USER_ROLES as readonly string[]).includes(role) ? role : 'participant',
+  };
+}
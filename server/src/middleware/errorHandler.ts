@@ -5,7 +5,8 @@
  * catches any error thrown or passed via next(err) from route handlers.
  *
  * Error handling strategy:
- *   - AppError instances (ValidationError, NotFoundError, ConflictError, RateLimitError):
+ *   - AppError instances (ValidationError, UnauthorizedError, ForbiddenError,
+ *     NotFoundError, ConflictError, RateLimitError):
  *     Return the appropriate HTTP status code and error code from the error class.
  *   - Unexpected errors: Log full details (message, stack, path, method, requestId)
  *     and return a generic 500 Internal Server Error to avoid leaking internals.
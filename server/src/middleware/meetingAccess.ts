@@ -0,0 +1,249 @@
+/**
+ * meetingAccess.ts — Per-meeting authorization for recording access.
+ *
+ * A meeting's recordings may be read by:
+ *   - participant — anyone who joined the room. ROOM_STATE hands each
+ *                   participant a signed meeting token (X-Meeting-Token),
+ *                   scoped to that one meeting — and within it, to the
+ *                   recording sessions they took part in (see below).
+ *   - admin       — an authenticated user (Bearer JWT, see auth.ts) whose
+ *                   JWT role is 'admin'. Admins can read every meeting and
+ *                   manage its grants and audit log.
+ *   - reviewer    — an authenticated user with the 'reviewer' role holding
+ *                   an unexpired grant for the meeting
+ *                   (repositories/accessGrantRepo.ts).
+ *
+ * Operators and participant-role users get nothing through their JWT —
+ * running sessions doesn't open the recordings of every meeting. Like
+ * anyone else, they can still read the meetings they joined with the
+ * meeting token ROOM_STATE handed them.
+ *
+ * requireMeetingAccess() checks these in order against req.params.meetingId
+ * and attaches the result to req.meetingAccess; requireMeetingAdmin() only
+ * lets admins through. As with authMiddleware, a request without any
+ * credentials is let through as an admin when ENV=development.
+ *
+ * Being seated in a room isn't enough to read its recordings: in an open
+ * meeting anyone with the meetingId can be seated (as host, if the room is
+ * empty). A participant only reads the sessions they recorded in — those
+ * with a Recording under their userId (participantName), or whose recording
+ * set (RecordingState.participantUserIds) includes them. readableSessions()
+ * and requireSessionAccess() apply this; admins and reviewers read every
+ * session.
+ *
+ * Meeting tokens outlive the visit (LIMITS.MEETING_TOKEN_EXPIRY), so a
+ * participant the host removed (socket/host.ts) would otherwise keep reading
+ * what they recorded. A token whose userId is in the meeting's
+ * blockedUserIds is refused (MEETING_ACCESS_REVOKED).
+ *
+ * A meeting token also carries the participant's socket identity: sent in
+ * the Socket.IO handshake, it restores that userId (and email) for the
+ * meeting on reconnect (socket/auth.ts).
+ *
+ * Meeting tokens are signed with their own secret (MEETING_TOKEN_SECRET),
+ * like upload tokens, so neither kind can stand in for the other or for a
+ * user JWT.
+ */
+import jwt from 'jsonwebtoken';
+import type { Request, Response, NextFunction } from 'express';
+import { LIMITS } from '../shared';
+import * as accessGrantRepo from '../repositories/accessGrantRepo';
+import * as meetingRepo from '../repositories/meetingRepo';
+import * as recordingRepo from '../repositories/recordingRepo';
+import * as recordingStateRepo from '../repositories/recordingStateRepo';
+import type { AuditActor } from '../repositories/auditLogRepo';
+import { verifyToken } from './auth';
+import { UnauthorizedError, ForbiddenError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const MEETING_TOKEN_SECRET = process.env.MEETING_TOKEN_SECRET || 'dev-meeting-secret-change-in-production';
+const MEETING_TOKEN_AUDIENCE = 'meeting';
+const MEETING_TOKEN_HEADER = 'x-meeting-token';
+
+/** What a meeting token grants: read access to one meeting's recordings */
+export interface MeetingTokenClaims {
+  meetingId: string;
+  userId: string;               // Participant's persistent userId
+  userEmail: string | null;     // Email the participant joined with, if any
+}
+
+/** How the caller of a meeting route was authorized */
+export interface MeetingAccess {
+  meetingId: string;
+  role: 'participant' | 'admin' | 'reviewer';
+  principal: string;            // participant userId, or the admin/reviewer's email
+}
+
+// Extend Express Request globally to include the resolved meeting access
+declare global {
+  namespace Express {
+    interface Request {
+      meetingAccess?: MeetingAccess;
+    }
+  }
+}
+
+/**
+ * Express middleware: authorizes the caller for req.params.meetingId and
+ * attaches the result to req.meetingAccess. No credentials → 401; valid
+ * credentials that don't cover this meeting → 403.
+ */
+export async function requireMeetingAccess(req: Request, _res: Response, next: NextFunction): Promise<void> {
+  try {
+    req.meetingAccess = await resolveMeetingAccess(req, req.params.meetingId as string);
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+/** Express middleware: like requireMeetingAccess, but only admins pass */
+export async function requireMeetingAdmin(req: Request, _res: Response, next: NextFunction): Promise<void> {
+  try {
+    const access = await resolveMeetingAccess(req, req.params.meetingId as string);
+    if (access.role !== 'admin') {
+      throw new ForbiddenError('Admin access required', 'MEETING_ADMIN_REQUIRED');
+    }
+    req.meetingAccess = access;
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * The recording sessions the caller may read, or null for all of them
+ * (admins and reviewers). A participant gets the sessions they took part in.
+ */
+export async function readableSessions(access: MeetingAccess): Promise<Set<string> | null> {
+  if (access.role !== 'participant') return null;
+
+  const userId = access.principal;
+  const [recordings, recordingState] = await Promise.all([
+    recordingRepo.getRecordingsByMeeting(access.meetingId),
+    recordingStateRepo.getRecordingState(access.meetingId),
+  ]);
+  const sessions = new Set(recordings.filter((r) => r.participantName === userId).map((r) => r.sessionId));
+  if (recordingState?.sessionId && recordingState.participantUserIds?.includes(userId)) {
+    sessions.add(recordingState.sessionId);
+  }
+  return sessions;
+}
+
+/** Throws 403 unless the caller may read recording session `sessionId` */
+export async function assertSessionAccess(access: MeetingAccess, sessionId: string): Promise<void> {
+  const sessions = await readableSessions(access);
+  if (sessions && !sessions.has(sessionId)) {
+    throw new ForbiddenError('You did not take part in this recording session', 'SESSION_ACCESS_DENIED');
+  }
+}
+
+/**
+ * Express middleware, after requireMeetingAccess: only lets the caller
+ * through to req.params.sessionId if they may read that session.
+ */
+export async function requireSessionAccess(req: Request, _res: Response, next: NextFunction): Promise<void> {
+  try {
+    await assertSessionAccess(req.meetingAccess!, req.params.sessionId as string);
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Authorize a participant by the request's meeting token alone, for routes
+ * that act on their behalf outside /api/recordings (renewing an upload
+ * token). 401 without a valid token; 403 if it covers another meeting or
+ * its holder was removed.
+ */
+export async function resolveParticipantAccess(req: Request, meetingId: string): Promise<MeetingAccess> {
+  const meetingToken = req.get(MEETING_TOKEN_HEADER);
+  if (!meetingToken) {
+    throw new UnauthorizedError('Missing meeting token', 'MEETING_ACCESS_REQUIRED');
+  }
+
+  const claims = verifyMeetingToken(meetingToken);
+  if (!claims) {
+    throw new UnauthorizedError('Invalid or expired meeting token', 'MEETING_TOKEN_INVALID');
+  }
+  if (claims.meetingId !== meetingId) {
+    throw new ForbiddenError('Meeting token does not cover this meeting', 'MEETING_ACCESS_DENIED');
+  }
+  const meeting = await meetingRepo.getMeetingById(meetingId);
+  if (meeting?.blockedUserIds?.includes(claims.userId)) {
+    throw new ForbiddenError('You were removed from this meeting', 'MEETING_ACCESS_REVOKED');
+  }
+  return { meetingId, role: 'participant', principal: claims.userId };
+}
+
+/** Sign a meeting token for `userId`, valid for LIMITS.MEETING_TOKEN_EXPIRY seconds */
+export function generateMeetingToken(meetingId: string, userId: string, userEmail: string | null): string {
+  return jwt.sign({ meetingId, userId, userEmail }, MEETING_TOKEN_SECRET, {
+    audience: MEETING_TOKEN_AUDIENCE,
+    expiresIn: LIMITS.MEETING_TOKEN_EXPIRY,
+  });
+}
+
+/** Verify a meeting token and return its claims, or null if invalid/expired */
+export function verifyMeetingToken(token: string): MeetingTokenClaims | null {
+  try {
+    const { meetingId, userId, userEmail } = jwt.verify(token, MEETING_TOKEN_SECRET, {
+      audience: MEETING_TOKEN_AUDIENCE,
+    }) as MeetingTokenClaims;
+    return { meetingId, userId, userEmail: userEmail ?? null };
+  } catch (err) {
+    logger.warn('Meeting token verification failed', { error: (err as Error).message });
+    return null;
+  }
+}
+
+/**
+ * Who is behind this request, for the presigned URL audit log. Meeting
+ * routes identify callers by req.meetingAccess, upload routes by their
+ * upload token.
+ */
+export function requestActor(req: Request): AuditActor {
+  const requestId = req.requestId ?? null;
+  const ip = req.ip ?? null;
+  if (req.meetingAccess) {
+    return { role: req.meetingAccess.role, id: req.meetingAccess.principal, requestId, ip };
+  }
+  return { role: 'participant', id: req.uploadScope?.participantName ?? 'unknown', requestId, ip };
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+async function resolveMeetingAccess(req: Request, meetingId: string): Promise<MeetingAccess> {
+  const authHeader = req.headers.authorization;
+
+  if (req.get(MEETING_TOKEN_HEADER)) {
+    return resolveParticipantAccess(req, meetingId);
+  }
+
+  if (authHeader?.startsWith('Bearer ')) {
+    const user = verifyToken(authHeader.slice(7));
+    if (!user) {
+      throw new UnauthorizedError('Invalid or expired token');
+    }
+    const email = user.email.toLowerCase();
+    if (user.role === 'admin') {
+      return { meetingId, role: 'admin', principal: email };
+    }
+
+    if (user.role === 'reviewer') {
+      const grant = await accessGrantRepo.getGrant(meetingId, email);
+      if (grant && (!grant.expiresAt || new Date(grant.expiresAt) > new Date())) {
+        return { meetingId, role: 'reviewer', principal: email };
+      }
+    }
+    throw new ForbiddenError('No access to this meeting', 'MEETING_ACCESS_DENIED');
+  }
+
+  // Same development bypass as authMiddleware
+  if (process.env.ENV === 'development') {
+    return { meetingId, role: 'admin', principal: 'development' };
+  }
+
+  throw new UnauthorizedError('Missing meeting token or authorization header', 'MEETING_ACCESS_REQUIRED');
+}
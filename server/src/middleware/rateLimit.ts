@@ -1,7 +1,7 @@
 /**
  * rateLimit.ts — Request rate limiting middleware.
  *
- * Three limiters are exported, each targeting different endpoint groups:
+ * Four limiters are exported, each targeting different endpoint groups:
  *
  *   1. generalLimiter — Applied globally to all routes.
  *      100 requests/minute per IP. Prevents abuse of any endpoint.
@@ -13,6 +13,10 @@
  *   3. initiateUploadLimiter — Applied to the upload initiation endpoint.
  *      100 requests/minute per IP. Prevents mass-creation of uploads.
  *
+ *   4. loginLinkLimiter — Applied to POST /api/auth/request-link.
+ *      5 requests/15 minutes per IP. Each request sends an email, so this
+ *      keeps the endpoint from being used to flood someone's inbox.
+ *
  * All limiters return standard RateLimit headers (RateLimit-Limit,
  * RateLimit-Remaining, RateLimit-Reset) and suppress legacy X-RateLimit headers.
  */
@@ -62,3 +66,16 @@ export const initiateUploadLimiter = rateLimit({
     res.status(429).json(options.message);
   },
 });
+
+/** Login link rate limiter: 5 requests per 15 minutes per IP */
+export const loginLinkLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 5,
+  message: { error: 'Too many sign-in requests, please try again later.', code: 'LOGIN_RATE_LIMIT_EXCEEDED' },
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (_req, res, _next, options) => {
+    logger.warn('Login link rate limit exceeded', { ip: _req.ip });
+    res.status(429).json(options.message);
+  },
+});
@@ -0,0 +1,156 @@
+/**
+ * uploadToken.ts — Scoped upload capability tokens.
+ *
+ * The upload routes (/api/upload, /api/multipart-upload) are called by
+ * meeting participants, not logged-in users, so they can't use
+ * authMiddleware. Instead the server hands each participant a signed,
+ * short-lived upload token over Socket.IO — on START_RECORDING,
+ * STOP_RECORDING, RESUME_RECORDING and in ROOM_STATE — and every upload
+ * request must carry it in the X-Upload-Token header.
+ *
+ * A token is bound to one participant's recording in one session:
+ *   { meetingId, sessionId, participantName, role }
+ * The routes check each request against it with assertUploadScope() (body
+ * fields) and assertKeyInScope() (S3 keys), so a token can't be used to
+ * write files into another meeting, session or participant's recording.
+ *
+ * A token only lasts LIMITS.UPLOAD_TOKEN_EXPIRY, but an upload left in the
+ * browser's background upload worker can be resumed days later, on the next
+ * visit. POST /api/upload/token renews it: renewUploadToken() takes the
+ * expired token together with the participant's meeting token for the same
+ * meeting and userId, and signs the same scope again. Tokens older than
+ * LIMITS.MEETING_TOKEN_EXPIRY aren't renewed, nor are those of a participant
+ * the host removed (middleware/meetingAccess.ts).
+ *
+ * Upload tokens are signed with their own secret (UPLOAD_TOKEN_SECRET) so
+ * they can never pass authMiddleware, and vice versa.
+ */
+import jwt from 'jsonwebtoken';
+import type { Request, Response, NextFunction } from 'express';
+import { LIMITS } from '../shared';
+import { isRecordingKeyOf } from '../infra/s3';
+import { resolveParticipantAccess } from './meetingAccess';
+import { UnauthorizedError, ForbiddenError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const UPLOAD_TOKEN_SECRET = process.env.UPLOAD_TOKEN_SECRET || 'dev-upload-secret-change-in-production';
+const UPLOAD_TOKEN_AUDIENCE = 'upload';
+const UPLOAD_TOKEN_HEADER = 'x-upload-token';
+
+/** What an upload token grants: uploads of one participant's recording in one session */
+export interface UploadScope {
+  meetingId: string;
+  sessionId: string;            // Recording session UUID (from START_RECORDING)
+  participantName: string;      // userId of the participant the token was issued to
+  role: 'host' | 'guest';       // Participant's role when the token was issued
+}
+
+// Extend Express Request globally to include the verified upload scope
+declare global {
+  namespace Express {
+    interface Request {
+      uploadScope?: UploadScope;
+    }
+  }
+}
+
+/**
+ * Express middleware: verifies the X-Upload-Token header and attaches the
+ * token's scope to req.uploadScope. Missing or invalid tokens → 401.
+ */
+export function requireUploadToken(req: Request, _res: Response, next: NextFunction): void {
+  const token = req.get(UPLOAD_TOKEN_HEADER);
+  if (!token) {
+    next(new UnauthorizedError('Missing upload token', 'UPLOAD_TOKEN_REQUIRED'));
+    return;
+  }
+
+  const scope = verifyUploadToken(token);
+  if (!scope) {
+    next(new UnauthorizedError('Invalid or expired upload token', 'UPLOAD_TOKEN_INVALID'));
+    return;
+  }
+
+  req.uploadScope = scope;
+  next();
+}
+
+/** Sign an upload token for `scope`, valid for LIMITS.UPLOAD_TOKEN_EXPIRY seconds */
+export function generateUploadToken(scope: UploadScope): string {
+  const { meetingId, sessionId, participantName, role } = scope;
+  return jwt.sign({ meetingId, sessionId, participantName, role }, UPLOAD_TOKEN_SECRET, {
+    audience: UPLOAD_TOKEN_AUDIENCE,
+    expiresIn: LIMITS.UPLOAD_TOKEN_EXPIRY,
+  });
+}
+
+/** Verify an upload token and return its scope, or null if invalid/expired */
+export function verifyUploadToken(token: string): UploadScope | null {
+  try {
+    const { meetingId, sessionId, participantName, role } = jwt.verify(token, UPLOAD_TOKEN_SECRET, {
+      audience: UPLOAD_TOKEN_AUDIENCE,
+    }) as UploadScope;
+    return { meetingId, sessionId, participantName, role };
+  } catch (err) {
+    logger.warn('Upload token verification failed', { error: (err as Error).message });
+    return null;
+  }
+}
+
+/**
+ * A fresh upload token for the scope of the request's X-Upload-Token, which
+ * may have expired. The request's meeting token must belong to the same
+ * participant of the same meeting.
+ */
+export async function renewUploadToken(req: Request): Promise<string> {
+  const token = req.get(UPLOAD_TOKEN_HEADER);
+  if (!token) {
+    throw new UnauthorizedError('Missing upload token', 'UPLOAD_TOKEN_REQUIRED');
+  }
+
+  let scope: UploadScope & { iat: number };
+  try {
+    scope = jwt.verify(token, UPLOAD_TOKEN_SECRET, {
+      audience: UPLOAD_TOKEN_AUDIENCE,
+      ignoreExpiration: true,
+    }) as UploadScope & { iat: number };
+  } catch (err) {
+    logger.warn('Upload token renewal refused', { error: (err as Error).message });
+    throw new UnauthorizedError('Invalid upload token', 'UPLOAD_TOKEN_INVALID');
+  }
+  if (Date.now() / 1000 - scope.iat > LIMITS.MEETING_TOKEN_EXPIRY) {
+    throw new UnauthorizedError('Upload token is too old to renew', 'UPLOAD_TOKEN_INVALID');
+  }
+
+  const access = await resolveParticipantAccess(req, scope.meetingId);
+  if (access.principal !== scope.participantName) {
+    throw new ForbiddenError('Meeting token belongs to another participant', 'UPLOAD_SCOPE_MISMATCH');
+  }
+
+  const { meetingId, sessionId, participantName, role } = scope;
+  logger.info('Upload token renewed', { meetingId, sessionId, participantName });
+  return generateUploadToken({ meetingId, sessionId, participantName, role });
+}
+
+/** Throw ForbiddenError unless the request's upload fields match the token */
+export function assertUploadScope(
+  scope: UploadScope,
+  roomId: string,
+  participantName: string,
+  sessionId?: string,
+): void {
+  if (
+    roomId !== scope.meetingId ||
+    participantName !== scope.participantName ||
+    sessionId !== scope.sessionId
+  ) {
+    throw new ForbiddenError('Upload token does not cover this recording', 'UPLOAD_SCOPE_MISMATCH');
+  }
+}
+
+/** Throw ForbiddenError unless `key` is the S3 key of the token's recording */
+export function assertKeyInScope(scope: UploadScope, key: string): void {
+  if (!isRecordingKeyOf(key, scope.meetingId, scope.participantName, scope.sessionId)) {
+    throw new ForbiddenError('Upload token does not cover this file', 'UPLOAD_SCOPE_MISMATCH');
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * accessGrantRepo.ts — Data access layer for the AccessGrants table.
+ *
+ * DynamoDB Table: AudioStudio_AccessGrants
+ * Primary Key:    meetingId (partition) + email (sort)
+ *
+ * A grant lets one authenticated reviewer (identified by the email in their
+ * JWT) read a meeting's recordings. Grants are created and revoked by admins
+ * through /api/recordings/:meetingId/grants and checked by
+ * middleware/meetingAccess.ts. An optional expiresAt ends the grant without
+ * anyone having to revoke it.
+ */
+import { PutCommand, GetCommand, DeleteCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, TABLES } from '../infra/dynamodb';
+import { logger } from '../utils/logger';
+
+export interface AccessGrant {
+  meetingId: string;
+  email: string;                // Reviewer's email, lowercased
+  grantedBy: string;            // Email (or userId) of the admin who granted it
+  grantedAt: string;            // ISO 8601
+  expiresAt: string | null;     // ISO 8601, or null for no expiry
+}
+
+/** Create or replace the grant for `grant.email` on `grant.meetingId` */
+export async function putGrant(grant: AccessGrant): Promise<void> {
+  await docClient.send(
+    new PutCommand({
+      TableName: TABLES.ACCESS_GRANTS,
+      Item: grant,
+    }),
+  );
+  logger.info('Access grant saved', {
+    meetingId: grant.meetingId,
+    email: grant.email,
+    expiresAt: grant.expiresAt,
+  });
+}
+
+export async function getGrant(meetingId: string, email: string): Promise<AccessGrant | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLES.ACCESS_GRANTS,
+      Key: { meetingId, email },
+    }),
+  );
+  return (result.Item as AccessGrant) ?? null;
+}
+
+/** All grants for a meeting, expired ones included */
+export async function listGrants(meetingId: string): Promise<AccessGrant[]> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: TABLES.ACCESS_GRANTS,
+      KeyConditionExpression: 'meetingId = :mid',
+      ExpressionAttributeValues: { ':mid': meetingId },
+    }),
+  );
+  return (result.Items as AccessGrant[]) ?? [];
+}
+
+export async function deleteGrant(meetingId: string, email: string): Promise<void> {
+  await docClient.send(
+    new DeleteCommand({
+      TableName: TABLES.ACCESS_GRANTS,
+      Key: { meetingId, email },
+    }),
+  );
+  logger.info('Access grant revoked', { meetingId, email });
+}
@@ -0,0 +1,85 @@
+/**
+ * auditLogRepo.ts — Data access layer for the AuditLog table.
+ *
+ * DynamoDB Table: AudioStudio_AuditLog
+ * Primary Key:    meetingId (partition) + auditId (sort)
+ *
+ * One row per presigned S3 URL the server hands out — recording downloads
+ * as well as upload and upload-part URLs — recording who asked for it, for
+ * which object, and until when the URL works. The auditId is
+ * `{issuedAt}#{uuid}`, so a meeting's entries sort chronologically.
+ *
+ * Entries are written before the URL is returned: if the write fails, the
+ * request fails and no unaudited URL leaves the server.
+ */
+import { PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import { docClient, TABLES } from '../infra/dynamodb';
+
+export type PresignOperation = 'download' | 'upload' | 'upload-part';
+
+/** Who a presigned URL was issued to */
+export interface AuditActor {
+  role: 'participant' | 'admin' | 'reviewer';
+  id: string;                   // participant userId, or the admin/reviewer's email
+  requestId: string | null;
+  ip: string | null;
+}
+
+export interface PresignAuditEntry {
+  meetingId: string;
+  auditId: string;              // `{issuedAt}#{uuid}` — sort key
+  issuedAt: string;             // ISO 8601
+  operation: PresignOperation;
+  s3Key: string;
+  expiresAt: string;            // ISO 8601 — when the presigned URL stops working
+  actorRole: AuditActor['role'];
+  actorId: string;
+  requestId: string | null;
+  ip: string | null;
+}
+
+/** Record that a presigned URL for `s3Key` was issued to `actor` */
+export async function recordPresignedUrl(
+  meetingId: string,
+  operation: PresignOperation,
+  s3Key: string,
+  expiresInSeconds: number,
+  actor: AuditActor,
+): Promise<void> {
+  const now = Date.now();
+  const issuedAt = new Date(now).toISOString();
+  const entry: PresignAuditEntry = {
+    meetingId,
+    auditId: `${issuedAt}#${uuidv4()}`,
+    issuedAt,
+    operation,
+    s3Key,
+    expiresAt: new Date(now + expiresInSeconds * 1000).toISOString(),
+    actorRole: actor.role,
+    actorId: actor.id,
+    requestId: actor.requestId,
+    ip: actor.ip,
+  };
+
+  await docClient.send(
+    new PutCommand({
+      TableName: TABLES.AUDIT_LOG,
+      Item: entry,
+    }),
+  );
+}
+
+/** A meeting's most recent audit entries, newest first */
+export async function getEntriesByMeeting(meetingId: string, limit: number): Promise<PresignAuditEntry[]> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: TABLES.AUDIT_LOG,
+      KeyConditionExpression: 'meetingId = :mid',
+      ExpressionAttributeValues: { ':mid': meetingId },
+      ScanIndexForward: false,
+      Limit: limit,
+    }),
+  );
+  return (result.Items as PresignAuditEntry[]) ?? [];
+}
@@ -0,0 +1,81 @@
+/**
+ * consentDocumentRepo.ts — Data access layer for the ConsentDocuments table.
+ *
+ * DynamoDB Table: AudioStudio_ConsentDocuments
+ * Primary Key:    locale (partition) + version (sort, number)
+ * Model Type:     ConsentDocument (defined in shared/types/consent.ts)
+ *
+ * Documents are append-only: a version is written once and never changed,
+ * so every Consent keeps pointing at the text it was given for. The
+ * current document for a locale is its highest version. putDocument() is
+ * conditional, so two admins publishing at once can't both claim a version.
+ */
+import { PutCommand, GetCommand, QueryCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, TABLES } from '../infra/dynamodb';
+import type { ConsentDocument } from '../shared';
+import { logger } from '../utils/logger';
+
+/** Publish a document version. Returns false if that version already exists. */
+export async function putDocument(document: ConsentDocument): Promise<boolean> {
+  try {
+    await docClient.send(
+      new PutCommand({
+        TableName: TABLES.CONSENT_DOCUMENTS,
+        Item: document,
+        ConditionExpression: 'attribute_not_exists(locale)',
+      }),
+    );
+    logger.info('Consent document published', { locale: document.locale, version: document.version });
+    return true;
+  } catch (err: any) {
+    if (err.name === 'ConditionalCheckFailedException') return false;
+    throw err;
+  }
+}
+
+export async function getDocument(locale: string, version: number): Promise<ConsentDocument | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLES.CONSENT_DOCUMENTS,
+      Key: { locale, version },
+    }),
+  );
+  return (result.Item as ConsentDocument) ?? null;
+}
+
+/** The highest version for `locale`, or null if none was published */
+export async function getLatestDocument(locale: string): Promise<ConsentDocument | null> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: TABLES.CONSENT_DOCUMENTS,
+      KeyConditionExpression: 'locale = :locale',
+      ExpressionAttributeValues: { ':locale': locale },
+      ScanIndexForward: false,
+      Limit: 1,
+    }),
+  );
+  return (result.Items?.[0] as ConsentDocument) ?? null;
+}
+
+/** Every version for `locale`, newest first */
+export async function listDocuments(locale: string): Promise<ConsentDocument[]> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: TABLES.CONSENT_DOCUMENTS,
+      KeyConditionExpression: 'locale = :locale',
+      ExpressionAttributeValues: { ':locale': locale },
+      ScanIndexForward: false,
+    }),
+  );
+  return (result.Items as ConsentDocument[]) ?? [];
+}
+
+/** Every version of every locale — a small admin-only table */
+export async function listAllDocuments(): Promise<ConsentDocument[]> {
+  const result = await docClient.send(
+    new ScanCommand({
+      TableName: TABLES.CONSENT_DOCUMENTS,
+    }),
+  );
+  return (result.Items as ConsentDocument[]) ?? [];
+}
@@ -0,0 +1,75 @@
+/**
+ * consentRepo.ts — Data access layer for the Consents table.
+ *
+ * DynamoDB Table: AudioStudio_Consents
+ * Primary Key:    meetingId (partition) + consentId (sort)
+ * Model Type:     Consent (defined in shared/types/consent.ts)
+ *
+ * One row per consent given in the GreenRoom. Rows are never deleted or
+ * rewritten — the only later write is linkUser(), which fills in the
+ * participant's userId once their join-room shows who they are. userId is
+ * outside the signed fields, so linking doesn't break the signature.
+ */
+import { PutCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, TABLES } from '../infra/dynamodb';
+import type { Consent } from '../shared';
+import { logger } from '../utils/logger';
+
+export async function putConsent(consent: Consent): Promise<void> {
+  await docClient.send(
+    new PutCommand({
+      TableName: TABLES.CONSENTS,
+      Item: consent,
+      ConditionExpression: 'attribute_not_exists(consentId)',
+    }),
+  );
+  logger.info('Consent recorded', {
+    meetingId: consent.meetingId,
+    consentId: consent.consentId,
+    userId: consent.userId,
+    locale: consent.documentLocale,
+    version: consent.documentVersion,
+  });
+}
+
+/** All consents given for a meeting, oldest first */
+export async function listConsents(meetingId: string): Promise<Consent[]> {
+  const items: Consent[] = [];
+  let lastKey: Record<string, unknown> | undefined;
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLES.CONSENTS,
+        KeyConditionExpression: 'meetingId = :mid',
+        ExpressionAttributeValues: { ':mid': meetingId },
+        ExclusiveStartKey: lastKey,
+      }),
+    );
+    items.push(...((result.Items as Consent[]) ?? []));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+  return items.sort((a, b) => a.consentedAt.localeCompare(b.consentedAt));
+}
+
+/**
+ * Attach `userId` to a consent. Succeeds if the consent exists and has no
+ * userId yet (or already has this one); returns false otherwise, so one
+ * participant's consentId can't be claimed by another.
+ */
+export async function linkUser(meetingId: string, consentId: string, userId: string): Promise<boolean> {
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: TABLES.CONSENTS,
+        Key: { meetingId, consentId },
+        UpdateExpression: 'SET userId = :uid',
+        ConditionExpression: 'attribute_exists(consentId) AND (userId = :none OR userId = :uid)',
+        ExpressionAttributeValues: { ':uid': userId, ':none': null },
+      }),
+    );
+    return true;
+  } catch (err: any) {
+    if (err.name === 'ConditionalCheckFailedException') return false;
+    throw err;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * inviteRepo.ts — Data access layer for the Invites table.
+ *
+ * DynamoDB Table: AudioStudio_Invites
+ * Primary Key:    meetingId (partition) + slot (sort)
+ * Model Type:     Invite (defined in shared/types/invite.ts)
+ *
+ * One row per invited slot: issuing an invite replaces the slot's row, and
+ * with it the inviteId that outstanding tokens are signed over, so old
+ * links stop working. redeemInvite() is a conditional write, so a
+ * single-use invite can't be redeemed twice even by concurrent joins.
+ */
+import { PutCommand, GetCommand, DeleteCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, TABLES } from '../infra/dynamodb';
+import type { Invite, InviteSlot } from '../shared';
+import { logger } from '../utils/logger';
+
+/** Create or replace the invite for `invite.slot` on `invite.meetingId` */
+export async function putInvite(invite: Invite): Promise<void> {
+  await docClient.send(
+    new PutCommand({
+      TableName: TABLES.INVITES,
+      Item: invite,
+    }),
+  );
+  logger.info('Invite issued', {
+    meetingId: invite.meetingId,
+    slot: invite.slot,
+    singleUse: invite.singleUse,
+    expiresAt: invite.expiresAt,
+  });
+}
+
+export async function getInvite(meetingId: string, slot: InviteSlot): Promise<Invite | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLES.INVITES,
+      Key: { meetingId, slot },
+    }),
+  );
+  return (result.Item as Invite) ?? null;
+}
+
+/** All invites for a meeting, expired and redeemed ones included */
+export async function listInvites(meetingId: string): Promise<Invite[]> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: TABLES.INVITES,
+      KeyConditionExpression: 'meetingId = :mid',
+      ExpressionAttributeValues: { ':mid': meetingId },
+    }),
+  );
+  return (result.Items as Invite[]) ?? [];
+}
+
+export async function deleteInvite(meetingId: string, slot: InviteSlot): Promise<void> {
+  await docClient.send(
+    new DeleteCommand({
+      TableName: TABLES.INVITES,
+      Key: { meetingId, slot },
+    }),
+  );
+  logger.info('Invite revoked', { meetingId, slot });
+}
+
+/**
+ * Record that `userId` joined with invite `inviteId`. Fails (returns null)
+ * if the slot's invite has since been replaced or revoked, has expired, or
+ * is single-use and already redeemed.
+ */
+export async function redeemInvite(
+  meetingId: string,
+  slot: InviteSlot,
+  inviteId: string,
+  userId: string,
+): Promise<Invite | null> {
+  const now = new Date().toISOString();
+  try {
+    const result = await docClient.send(
+      new UpdateCommand({
+        TableName: TABLES.INVITES,
+        Key: { meetingId, slot },
+        UpdateExpression: 'SET redeemedAt = :now, redeemedBy = :uid',
+        ConditionExpression:
+          'inviteId = :iid AND expiresAt > :now AND (singleUse = :false OR redeemedAt = :none)',
+        ExpressionAttributeValues: {
+          ':now': now, ':uid': userId, ':iid': inviteId, ':false': false, ':none': null,
+        },
+        ReturnValues: 'ALL_NEW',
+      }),
+    );
+    logger.info('Invite redeemed', { meetingId, slot, userId });
+    return result.Attributes as Invite;
+  } catch (err: any) {
+    if (err.name === 'ConditionalCheckFailedException') return null;
+    throw err;
+  }
+}
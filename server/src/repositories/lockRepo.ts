@@ -0,0 +1,40 @@
+/**
+ * lockRepo.ts — Data access layer for the Locks table (cluster-wide leases).
+ *
+ * DynamoDB Table: AudioStudio_Locks
+ * Primary Key:    lockName (partition key, no sort key)
+ *
+ * A lease is a row { lockName, ownerId, expiresAt }. Taking it is a
+ * conditional put that only succeeds when the row is missing, expired, or
+ * already ours — so when several server pods race for the same lease,
+ * exactly one of them wins until it expires. Nothing needs to be released
+ * explicitly; a pod that dies simply lets its lease run out.
+ *
+ * Used by:
+ *   - services/uploadJanitorService: one janitor run per interval across pods
+ *   - socket/host.ts: one pod promotes a new host when a room's host is gone
+ */
+import { PutCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, TABLES } from '../infra/dynamodb';
+
+/**
+ * Try to take (or renew) the lease `lockName` for `ownerId` for `ttlMs`.
+ * Returns false if another owner holds an unexpired lease.
+ */
+export async function acquireLease(lockName: string, ownerId: string, ttlMs: number): Promise<boolean> {
+  const now = Date.now();
+  try {
+    await docClient.send(
+      new PutCommand({
+        TableName: TABLES.LOCKS,
+        Item: { lockName, ownerId, expiresAt: now + ttlMs },
+        ConditionExpression: 'attribute_not_exists(lockName) OR expiresAt < :now OR ownerId = :owner',
+        ExpressionAttributeValues: { ':now': now, ':owner': ownerId },
+      }),
+    );
+    return true;
+  } catch (err: any) {
+    if (err.name === 'ConditionalCheckFailedException') return false;
+    throw err;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * loginLinkRepo.ts — Data access layer for the LoginLinks table.
+ *
+ * DynamoDB Table: AudioStudio_LoginLinks
+ * Primary Key:    tokenHash (partition key, no sort key)
+ * TTL attribute:  ttl (epoch seconds) — DynamoDB deletes expired rows
+ *
+ * One row per magic login link that has been emailed. Only the SHA-256 of
+ * the link's token is stored, so the table can't be used to sign in.
+ *
+ * consumeLink() deletes the row conditionally, which makes every link
+ * single-use even when it is opened twice at once (e.g. by a mail scanner
+ * and the user). DynamoDB's TTL sweep can lag by hours, so expiry is also
+ * checked in the condition.
+ */
+import { PutCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, TABLES } from '../infra/dynamodb';
+
+export interface LoginLink {
+  tokenHash: string;            // Hex SHA-256 of the emailed token
+  email: string;                // Lowercased email the link signs in
+  name: string | null;          // Display name from the request (used for new users)
+  redirectTo: string | null;    // App path to open after signing in
+  expiresAt: number;            // Epoch ms — the link stops working after this
+  ttl: number;                  // Epoch seconds — DynamoDB TTL cleanup
+}
+
+export async function createLink(link: LoginLink): Promise<void> {
+  await docClient.send(
+    new PutCommand({
+      TableName: TABLES.LOGIN_LINKS,
+      Item: link,
+    }),
+  );
+}
+
+/**
+ * Delete and return the unexpired link for `tokenHash`. Returns null if it
+ * doesn't exist, has expired, or was already used.
+ */
+export async function consumeLink(tokenHash: string): Promise<LoginLink | null> {
+  try {
+    const result = await docClient.send(
+      new DeleteCommand({
+        TableName: TABLES.LOGIN_LINKS,
+        Key: { tokenHash },
+        ConditionExpression: 'attribute_exists(tokenHash) AND expiresAt > :now',
+        ExpressionAttributeValues: { ':now': Date.now() },
+        ReturnValues: 'ALL_OLD',
+      }),
+    );
+    return (result.Attributes as LoginLink) ?? null;
+  } catch (err: any) {
+    if (err.name === 'ConditionalCheckFailedException') return null;
+    throw err;
+  }
+}
@@ -7,8 +7,10 @@
  *
  * Operations:
  *   - CRUD: create, get by ID, get all, update status, delete
- *   - Role assignment: assignHostEmail, assignGuestEmail (race-safe with conditional writes)
+ *   - Role assignment: assignHostEmail, assignGuestEmail (race-safe with conditional writes),
+ *     clearGuest (when the host re-issues or revokes the guest invite)
  *   - Role lookup: getParticipantRole (determines host/guest by email match)
+ *   - Removal: blockUser (the host removed them — refused on every later join)
  *
  * Race safety: Host and guest assignment use DynamoDB conditional expressions
  * to prevent two concurrent requests from overwriting each other's assignment.
@@ -125,6 +127,34 @@ export async function assignGuestEmail(
   }
 }
 
+/** Release the guest slot so a newly invited guest can claim it */
+export async function clearGuest(meetingId: string): Promise<void> {
+  await docClient.send(
+    new UpdateCommand({
+      TableName: TABLES.MEETINGS,
+      Key: { meetingId },
+      UpdateExpression: 'SET guestEmail = :empty, guestName = :empty',
+      ConditionExpression: 'attribute_exists(meetingId)',
+      ExpressionAttributeValues: { ':empty': null },
+    }),
+  );
+  logger.info('Guest slot released', { meetingId });
+}
+
+/** Block `userId` from rejoining the meeting — appended to blockedUserIds */
+export async function blockUser(meetingId: string, userId: string): Promise<void> {
+  await docClient.send(
+    new UpdateCommand({
+      TableName: TABLES.MEETINGS,
+      Key: { meetingId },
+      UpdateExpression: 'SET blockedUserIds = list_append(if_not_exists(blockedUserIds, :empty), :user)',
+      ConditionExpression: 'attribute_exists(meetingId)',
+      ExpressionAttributeValues: { ':empty': [], ':user': [userId] },
+    }),
+  );
+  logger.info('User blocked from meeting', { meetingId, userId });
+}
+
 export async function deleteMeeting(meetingId: string): Promise<void> {
   await docClient.send(
     new DeleteCommand({
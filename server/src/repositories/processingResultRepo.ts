@@ -0,0 +1,64 @@
+/**
+ * processingResultRepo.ts — Data access layer for the ProcessingResults table.
+ *
+ * DynamoDB Table: AudioStudio_ProcessingResults
+ * Primary Key:    meetingId (partition) + sessionId (sort)
+ * Model Type:     StoredProcessingResult (defined in shared/types/processing.ts)
+ *
+ * One row per processed recording session. Written by processingResultConsumer
+ * before the result is pushed to the room, so the outcome survives after the
+ * SQS message is deleted and can be fetched by clients that weren't connected.
+ *
+ * A redelivered SQS message simply overwrites the row with the same result.
+ */
+import { PutCommand, GetCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, TABLES } from '../infra/dynamodb';
+import type { ProcessingResult, StoredProcessingResult } from '../shared';
+import { logger } from '../utils/logger';
+
+/** Persist a processing result (overwrites any earlier result for the same session) */
+export async function saveResult(result: ProcessingResult): Promise<StoredProcessingResult> {
+  const item: StoredProcessingResult = {
+    ...result,
+    meetingId: result.roomId,
+    receivedAt: new Date().toISOString(),
+  };
+
+  await docClient.send(
+    new PutCommand({
+      TableName: TABLES.PROCESSING_RESULTS,
+      Item: item,
+    }),
+  );
+  logger.info('Processing result stored', {
+    meetingId: item.meetingId,
+    sessionId: item.sessionId,
+    profile: item.profile,
+  });
+  return item;
+}
+
+export async function getResult(
+  meetingId: string,
+  sessionId: string,
+): Promise<StoredProcessingResult | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLES.PROCESSING_RESULTS,
+      Key: { meetingId, sessionId },
+    }),
+  );
+  return (result.Item as StoredProcessingResult) ?? null;
+}
+
+/** All processing results for a meeting (one per recorded session) */
+export async function getResultsByMeeting(meetingId: string): Promise<StoredProcessingResult[]> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: TABLES.PROCESSING_RESULTS,
+      KeyConditionExpression: 'meetingId = :mid',
+      ExpressionAttributeValues: { ':mid': meetingId },
+    }),
+  );
+  return (result.Items as StoredProcessingResult[]) ?? [];
+}
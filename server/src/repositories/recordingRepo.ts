@@ -7,18 +7,31 @@
  * Model Type:     Recording (defined in shared/types/meeting.ts)
  *
  * Each recording entry represents one participant's audio file for a session.
- * A complete session has exactly 2 recordings (host + guest). The recordingId
- * format encodes the session and participant: `{sessionId}#{participantName}`.
+ * A complete session has one recording per participant in its recording set
+ * (RecordingState.participantUserIds — up to LIMITS.MAX_PARTICIPANTS). The recordingId
+ * format encodes the session and participant: `{sessionId}#{participantName}`,
+ * for both simple and multipart uploads. Rows written before multipart
+ * initiation took a sessionId use `multipart#{participantName}#{timestamp}`;
+ * replaceRecording() moves them onto their canonical id.
  *
  * Key operations:
  *   - createRecording: track a new upload (status: 'uploading')
  *   - getRecordingsBySession: fetch recordings for a specific session (uses sort key prefix)
  *   - findByUploadId: look up recording by S3 multipart upload ID (UploadIndex GSI)
- *   - updateRecordingStatus: mark as 'completed' after upload finishes
- *   - areAllParticipantRecordingsComplete: check if both host+guest uploads are done
+ *   - updateRecordingStatus: mark as 'completed' (or 'invalid') after upload finishes
+ *   - replaceRecording: atomically re-key a legacy row under its canonical recordingId
+ *   - scanUploadingRecordings / markRecordingAbandoned: upload janitor cleanup
+ *   - areAllParticipantRecordingsComplete: check if every participant's upload is done
  *     (triggers the processing pipeline when true)
  */
-import { PutCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  ScanCommand,
+  TransactWriteCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
 import { docClient, TABLES } from '../infra/dynamodb';
 import type { Recording } from '../shared';
 import { RECORDING_STATUS } from '../shared';
@@ -38,6 +51,17 @@ export async function createRecording(recording: Recording): Promise<void> {
   });
 }
 
+/** Get one recording by its full key, or null if it doesn't exist */
+export async function getRecording(meetingId: string, recordingId: string): Promise<Recording | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLES.RECORDINGS,
+      Key: { meetingId, recordingId },
+    }),
+  );
+  return (result.Item as Recording) ?? null;
+}
+
 export async function getRecordingsByMeeting(meetingId: string): Promise<Recording[]> {
   const result = await docClient.send(
     new QueryCommand({
@@ -78,19 +102,26 @@ export async function findByUploadId(uploadId: string): Promise<Recording | null
   return (result.Items?.[0] as Recording) ?? null;
 }
 
+/**
+ * Update an existing recording's status, plus whichever completion fields are
+ * given (s3Url, invalidReason, checksumSHA256). Conditional on the row
+ * existing — an UpdateCommand would otherwise upsert a partial row with no
+ * filePath.
+ */
 export async function updateRecordingStatus(
   meetingId: string,
   recordingId: string,
   status: Recording['status'],
-  s3Url?: string,
+  updates: Partial<Pick<Recording, 's3Url' | 'invalidReason' | 'checksumSHA256' | 'durationSec'>> = {},
 ): Promise<void> {
   const updateParts = ['#s = :status'];
   const attrNames: Record<string, string> = { '#s': 'status' };
   const attrValues: Record<string, unknown> = { ':status': status };
 
-  if (s3Url !== undefined) {
-    updateParts.push('s3Url = :url');
-    attrValues[':url'] = s3Url;
+  for (const [field, value] of Object.entries(updates)) {
+    if (value === undefined) continue;
+    updateParts.push(`${field} = :${field}`);
+    attrValues[`:${field}`] = value;
   }
 
   await docClient.send(
@@ -98,12 +129,109 @@ export async function updateRecordingStatus(
       TableName: TABLES.RECORDINGS,
       Key: { meetingId, recordingId },
       UpdateExpression: `SET ${updateParts.join(', ')}`,
+      ConditionExpression: 'attribute_exists(recordingId)',
       ExpressionAttributeNames: attrNames,
       ExpressionAttributeValues: attrValues,
     }),
   );
 }
 
+/**
+ * Write `recording` and delete the row at `oldRecordingId` in one transaction,
+ * so a reader never sees both (or neither). Used to move legacy
+ * `multipart#...` rows onto their canonical `{sessionId}#{name}` id.
+ */
+export async function replaceRecording(oldRecordingId: string, recording: Recording): Promise<void> {
+  await docClient.send(
+    new TransactWriteCommand({
+      TransactItems: [
+        { Put: { TableName: TABLES.RECORDINGS, Item: recording } },
+        {
+          Delete: {
+            TableName: TABLES.RECORDINGS,
+            Key: { meetingId: recording.meetingId, recordingId: oldRecordingId },
+          },
+        },
+      ],
+    }),
+  );
+  logger.info('Recording re-keyed', {
+    meetingId: recording.meetingId,
+    from: oldRecordingId,
+    to: recording.recordingId,
+  });
+}
+
+/** Scan the whole table for legacy `multipart#...` rows (one-off reconciliation only) */
+export async function scanLegacyMultipartRecordings(): Promise<Recording[]> {
+  const items: Recording[] = [];
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new ScanCommand({
+        TableName: TABLES.RECORDINGS,
+        FilterExpression: 'begins_with(recordingId, :prefix)',
+        ExpressionAttributeValues: { ':prefix': 'multipart#' },
+        ExclusiveStartKey: startKey,
+      }),
+    );
+    items.push(...((result.Items as Recording[]) ?? []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  return items;
+}
+
+/** Scan for rows still 'uploading' that were created before `before` (upload janitor) */
+export async function scanUploadingRecordings(before: string): Promise<Recording[]> {
+  const items: Recording[] = [];
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new ScanCommand({
+        TableName: TABLES.RECORDINGS,
+        FilterExpression: '#s = :uploading AND uploadedAt < :before',
+        ExpressionAttributeNames: { '#s': 'status' },
+        ExpressionAttributeValues: { ':uploading': RECORDING_STATUS.UPLOADING, ':before': before },
+        ExclusiveStartKey: startKey,
+      }),
+    );
+    items.push(...((result.Items as Recording[]) ?? []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  return items;
+}
+
+/**
+ * Mark an 'uploading' row 'abandoned'. Conditional on it still being
+ * 'uploading', so an upload that completes at the same moment wins.
+ * Returns false if the row had already moved on.
+ */
+export async function markRecordingAbandoned(meetingId: string, recordingId: string): Promise<boolean> {
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: TABLES.RECORDINGS,
+        Key: { meetingId, recordingId },
+        UpdateExpression: 'SET #s = :abandoned',
+        ConditionExpression: '#s = :uploading',
+        ExpressionAttributeNames: { '#s': 'status' },
+        ExpressionAttributeValues: {
+          ':abandoned': RECORDING_STATUS.ABANDONED,
+          ':uploading': RECORDING_STATUS.UPLOADING,
+        },
+      }),
+    );
+    return true;
+  } catch (err: any) {
+    if (err.name === 'ConditionalCheckFailedException') return false;
+    throw err;
+  }
+}
+
 export async function getCompletedRecordingsForSession(
   meetingId: string,
   sessionId: string,
@@ -113,16 +241,28 @@ export async function getCompletedRecordingsForSession(
 }
 
 /**
- * Check if both participants' recordings are complete for a session.
- * Returns true when 2+ completed recordings exist — this triggers
- * the processing pipeline via pipelineService.triggerProcessingIfReady().
+ * Check if every participant's recording is complete for a session —
+ * the trigger for pipelineService.triggerProcessingIfReady().
+ *
+ * `participantUserIds` is the session's recording set (who was sent
+ * START_RECORDING): complete once each of them has a completed recording.
+ * Without it (sessions recorded before the set was kept, or whose
+ * RecordingState has moved on to a newer take) the session is complete
+ * when it has 2+ recordings and none is still uploading.
  */
 export async function areAllParticipantRecordingsComplete(
   meetingId: string,
   sessionId: string,
+  participantUserIds: string[] | null,
 ): Promise<{ complete: boolean; recordings: Recording[] }> {
   const recordings = await getRecordingsBySession(meetingId, sessionId);
   const completed = recordings.filter((r) => r.status === RECORDING_STATUS.COMPLETED);
-  // We expect 2 recordings (host + guest) for a complete session
-  return { complete: completed.length >= 2, recordings: completed };
+
+  if (participantUserIds && participantUserIds.length > 0) {
+    const uploaded = new Set(completed.map((r) => r.participantName));
+    return { complete: participantUserIds.every((userId) => uploaded.has(userId)), recordings: completed };
+  }
+
+  const uploading = recordings.some((r) => r.status === RECORDING_STATUS.UPLOADING);
+  return { complete: completed.length >= 2 && !uploading, recordings: completed };
 }
@@ -8,16 +8,19 @@
  * This table stores a singleton recording state per meeting. It tracks:
  *   - Whether recording is currently active (isRecording)
  *   - Who started it and when (startedBySocketId, startedByUserId, startedAt)
- *   - The recording session UUID (groups host+guest recording files)
+ *   - The recording session UUID (groups its participants' recording files)
+ *   - The recording set: the userIds recording in that session, and the role
+ *     each had when it started
  *
  * Used by:
  *   - socket/recording.ts: start/stop recording events
  *   - socket/session.ts: send recording state on join, resume on reconnect
+ *   - socket/host.ts: drop a participant removed mid-take from the recording set
  *   - getOrCreateDefault: race-safe initialization (conditional write)
  */
 import { PutCommand, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 import { docClient, TABLES } from '../infra/dynamodb';
-import type { RecordingState } from '../shared';
+import type { RecordingState, Role } from '../shared';
 
 /** Get the current recording state for a meeting. Returns null if no state exists yet. */
 export async function getRecordingState(meetingId: string): Promise<RecordingState | null> {
@@ -30,12 +33,16 @@ export async function getRecordingState(meetingId: string): Promise<RecordingSta
   return (result.Item as RecordingState) ?? null;
 }
 
-/** Start recording: create/overwrite the state with isRecording=true and a new sessionId */
+/**
+ * Start recording: create/overwrite the state with isRecording=true, a new
+ * sessionId and the userIds of everyone recording in it, with their roles
+ */
 export async function startRecording(
   meetingId: string,
   sessionId: string,
   socketId: string,
   userId: string,
+  participantRoles: Record<string, Role>,
 ): Promise<RecordingState> {
   const state: RecordingState = {
     meetingId,
@@ -45,6 +52,8 @@ export async function startRecording(
     startedByUserId: userId,
     stoppedAt: null,
     sessionId,
+    participantUserIds: Object.keys(participantRoles),
+    participantRoles,
   };
 
   await docClient.send(
@@ -72,6 +81,39 @@ export async function stopRecording(meetingId: string): Promise<void> {
   );
 }
 
+/**
+ * Take `userId` out of the recording set of take `sessionId` — they won't
+ * upload a full-length file for it. A no-op once the state has moved on to
+ * another take. The element is removed by index, conditional on it still
+ * being `userId`; if the list changed in between, re-read and try again.
+ */
+export async function removeParticipant(meetingId: string, sessionId: string, userId: string): Promise<void> {
+  const state = await getRecordingState(meetingId);
+  if (!state || state.sessionId !== sessionId) return;
+  const index = state.participantUserIds?.indexOf(userId) ?? -1;
+  if (index < 0) return;
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: TABLES.RECORDING_STATE,
+        Key: { meetingId },
+        UpdateExpression: `REMOVE participantUserIds[${index}]`,
+        ConditionExpression: `sessionId = :sessionId AND participantUserIds[${index}] = :userId`,
+        ExpressionAttributeValues: {
+          ':sessionId': sessionId,
+          ':userId': userId,
+        },
+      }),
+    );
+  } catch (err: any) {
+    if (err.name === 'ConditionalCheckFailedException') {
+      return removeParticipant(meetingId, sessionId, userId);
+    }
+    throw err;
+  }
+}
+
 /**
  * Get existing recording state or create a default (not recording) state.
  * Uses a conditional put to avoid race conditions when two requests
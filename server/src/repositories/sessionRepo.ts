@@ -14,14 +14,19 @@
  * Key operations:
  *   - createSession: new connection
  *   - findActiveByUserId: reconnection detection (UserIndex GSI)
+ *   - findLatestByMeetingAndUserId: role lookup for a user in a meeting (UserIndex GSI)
+ *   - listBySpeakerId: a registered speaker's sessions in every meeting (UserIndex GSI)
  *   - findBySocketId: disconnect cleanup (SocketIndex GSI)
  *   - updateSocketId: reconnection (update existing session with new socket)
+ *   - updateSpeakerProfile: reconnection with an edited speaker profile
+ *   - updateRole: host handoff and automatic host promotion (socket/host.ts)
  *   - markSessionInactive: user left or disconnected
- *   - getActiveSessionCount: room capacity check (max 2)
+ *   - getActiveSessionCount: room capacity check (observers excluded)
  */
 import { PutCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 import { docClient, TABLES } from '../infra/dynamodb';
-import type { Session } from '../shared';
+import { ROLES } from '../shared';
+import type { Role, Session, SpeakerProfile } from '../shared';
 import { logger } from '../utils/logger';
 
 /** Create a new session record in DynamoDB */
@@ -79,6 +84,31 @@ export async function findActiveByUserId(userId: string): Promise<Session | null
   return (result.Items?.[0] as Session) ?? null;
 }
 
+/**
+ * All sessions of a registered speaker, oldest first. A speaker's sessions
+ * all have userId = speakerId (see shared/types/speaker.ts), so this reads
+ * UserIndex and keeps the rows that carry the speakerId.
+ */
+export async function listBySpeakerId(speakerId: string): Promise<Session[]> {
+  const items: Session[] = [];
+  let lastKey: Record<string, unknown> | undefined;
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLES.SESSIONS,
+        IndexName: 'UserIndex',
+        KeyConditionExpression: 'userId = :uid',
+        FilterExpression: 'speakerId = :uid',
+        ExpressionAttributeValues: { ':uid': speakerId },
+        ExclusiveStartKey: lastKey,
+      }),
+    );
+    items.push(...((result.Items as Session[]) ?? []));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+  return items;
+}
+
 /** Find a session by socket ID (via SocketIndex GSI) — used during disconnect cleanup */
 export async function findBySocketId(socketId: string): Promise<Session | null> {
   const result = await docClient.send(
@@ -109,6 +139,39 @@ export async function updateSocketId(
   );
 }
 
+/** Replace the speaker profile of a session (a reconnect that sent an edited profile) */
+export async function updateSpeakerProfile(
+  meetingId: string,
+  sessionId: string,
+  speakerProfile: SpeakerProfile,
+): Promise<void> {
+  await docClient.send(
+    new UpdateCommand({
+      TableName: TABLES.SESSIONS,
+      Key: { meetingId, sessionId },
+      UpdateExpression: 'SET speakerProfile = :profile',
+      ExpressionAttributeValues: { ':profile': speakerProfile },
+    }),
+  );
+}
+
+/** Change a session's role in its meeting — host handoff or promotion */
+export async function updateRole(
+  meetingId: string,
+  sessionId: string,
+  role: Role,
+): Promise<void> {
+  await docClient.send(
+    new UpdateCommand({
+      TableName: TABLES.SESSIONS,
+      Key: { meetingId, sessionId },
+      UpdateExpression: 'SET userRole = :role',
+      ExpressionAttributeValues: { ':role': role },
+    }),
+  );
+  logger.info('Session role changed', { meetingId, sessionId, role });
+}
+
 /** Mark a session as inactive (sets isActive=false, leftAt=now) */
 export async function markSessionInactive(
   meetingId: string,
@@ -178,14 +241,40 @@ export async function findRecentByUserId(userId: string, withinMs: number = 10_0
   });
 }
 
-/** Count active sessions for a meeting — used to enforce the 2-participant room limit */
+/**
+ * Find a user's most recent session in a specific meeting, active or not.
+ * Used to recover the participant's role after they've left the room
+ * (e.g., when their upload finishes and the pipeline needs host vs guest).
+ */
+export async function findLatestByMeetingAndUserId(
+  meetingId: string,
+  userId: string,
+): Promise<Session | null> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: TABLES.SESSIONS,
+      IndexName: 'UserIndex',
+      KeyConditionExpression: 'userId = :uid',
+      // No Limit — it applies before the filter and could skip the match
+      FilterExpression: 'meetingId = :mid',
+      ScanIndexForward: false, // most recent first
+      ExpressionAttributeValues: { ':uid': userId, ':mid': meetingId },
+    }),
+  );
+  return (result.Items?.[0] as Session) ?? null;
+}
+
+/**
+ * Count the active participants in a meeting — used to enforce the room
+ * limit (LIMITS.MAX_PARTICIPANTS). Observers take no seat and aren't counted.
+ */
 export async function getActiveSessionCount(meetingId: string): Promise<number> {
   const result = await docClient.send(
     new QueryCommand({
       TableName: TABLES.SESSIONS,
       KeyConditionExpression: 'meetingId = :mid',
-      FilterExpression: 'isActive = :active',
-      ExpressionAttributeValues: { ':mid': meetingId, ':active': true },
+      FilterExpression: 'isActive = :active AND userRole <> :observer',
+      ExpressionAttributeValues: { ':mid': meetingId, ':active': true, ':observer': ROLES.OBSERVER },
       Select: 'COUNT',
     }),
   );
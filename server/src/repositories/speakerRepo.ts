@@ -0,0 +1,62 @@
+/**
+ * speakerRepo.ts — Data access layer for the Speakers table.
+ *
+ * DynamoDB Table: AudioStudio_Speakers
+ * Primary Key:    speakerId (partition key, no sort key)
+ * Model Type:     Speaker (defined in shared/types/speaker.ts)
+ *
+ * The registry of people who have recorded, across meetings. A row is
+ * written the first time a signed-in account joins a meeting and only its
+ * lastSeenAt (and email) move afterwards — the same if_not_exists() upsert
+ * as userRepo.recordLogin(), so concurrent first joins write one row.
+ */
+import { GetCommand, ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, TABLES } from '../infra/dynamodb';
+import type { Speaker } from '../shared';
+import { logger } from '../utils/logger';
+
+/** Record that `speakerId` joined a meeting, creating the speaker on first sight */
+export async function touchSpeaker(speakerId: string, email: string): Promise<Speaker> {
+  const now = new Date().toISOString();
+  const result = await docClient.send(
+    new UpdateCommand({
+      TableName: TABLES.SPEAKERS,
+      Key: { speakerId },
+      UpdateExpression: 'SET email = :email, firstSeenAt = if_not_exists(firstSeenAt, :now), lastSeenAt = :now',
+      ExpressionAttributeValues: { ':email': email, ':now': now },
+      ReturnValues: 'ALL_NEW',
+    }),
+  );
+  const speaker = result.Attributes as Speaker;
+  if (speaker.firstSeenAt === now) {
+    logger.info('Speaker registered', { speakerId, email });
+  }
+  return speaker;
+}
+
+export async function getSpeaker(speakerId: string): Promise<Speaker | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLES.SPEAKERS,
+      Key: { speakerId },
+    }),
+  );
+  return (result.Item as Speaker) ?? null;
+}
+
+/** Every registered speaker (admin listing) */
+export async function listSpeakers(): Promise<Speaker[]> {
+  const items: Speaker[] = [];
+  let lastKey: Record<string, unknown> | undefined;
+  do {
+    const result = await docClient.send(
+      new ScanCommand({
+        TableName: TABLES.SPEAKERS,
+        ExclusiveStartKey: lastKey,
+      }),
+    );
+    items.push(...((result.Items as Speaker[]) ?? []));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+  return items;
+}
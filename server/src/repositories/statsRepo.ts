@@ -6,10 +6,13 @@
  * Singleton Key:  "GLOBAL" — only one row in the entire table
  *
  * Tracks three live counters:
- *   - activeSessionCount:   total connected users across all meetings
+ *   - activeSessionCount:   total connected participants across all meetings
  *   - activeRecordingCount: meetings currently recording
  *   - activePairCount:      rooms with 2 connected participants
  *
+ * Observers (socket/session.ts) are never counted in the session or pair
+ * counters — they aren't participants.
+ *
  * All counter updates use DynamoDB's atomic ADD operation, making them
  * safe for concurrent updates from multiple server pods without locks.
  *
@@ -0,0 +1,95 @@
+/**
+ * userRepo.ts — Data access layer for the Users table.
+ *
+ * DynamoDB Table: AudioStudio_Users
+ * Primary Key:    email (partition key, no sort key)
+ * Model Type:     User (defined in shared/types/auth.ts)
+ *
+ * Accounts are keyed by lowercased email — the identity a magic login link
+ * proves. There is no sign-up step: recordLogin() creates the row the first
+ * time an email verifies a link and only bumps lastLoginAt afterwards.
+ *
+ * A user's role starts as the one passed to their first recordLogin() and
+ * only changes through setRole() (admins, via /api/users). Rows written
+ * before roles existed have no role attribute and are read as 'participant'.
+ */
+import { GetCommand, UpdateCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { v4 as uuid } from 'uuid';
+import { docClient, TABLES } from '../infra/dynamodb';
+import type { User, UserRole } from '../shared';
+import { logger } from '../utils/logger';
+
+export async function getUserByEmail(email: string): Promise<User | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLES.USERS,
+      Key: { email },
+    }),
+  );
+  return result.Item ? withRole(result.Item as User) : null;
+}
+
+export async function getAllUsers(): Promise<User[]> {
+  const result = await docClient.send(
+    new ScanCommand({
+      TableName: TABLES.USERS,
+    }),
+  );
+  return ((result.Items as User[]) ?? []).map(withRole);
+}
+
+/**
+ * Record a successful login for `email`, creating the user on first login.
+ * A single UpdateItem with if_not_exists() keeps userId, name, role and
+ * createdAt from the first login, so two concurrent first logins can't
+ * create two different userIds.
+ */
+export async function recordLogin(email: string, name: string | null, initialRole: UserRole): Promise<User> {
+  const now = new Date().toISOString();
+  const result = await docClient.send(
+    new UpdateCommand({
+      TableName: TABLES.USERS,
+      Key: { email },
+      UpdateExpression:
+        'SET userId = if_not_exists(userId, :uid), #n = if_not_exists(#n, :name), ' +
+        '#r = if_not_exists(#r, :role), createdAt = if_not_exists(createdAt, :now), lastLoginAt = :now',
+      ExpressionAttributeNames: { '#n': 'name', '#r': 'role' },
+      ExpressionAttributeValues: { ':uid': uuid(), ':name': name, ':role': initialRole, ':now': now },
+      ReturnValues: 'ALL_NEW',
+    }),
+  );
+
+  const user = result.Attributes as User;
+  if (user.createdAt === now) {
+    logger.info('User created', { email, userId: user.userId, role: user.role });
+  }
+  return user;
+}
+
+/** Change a user's role. Returns the updated user, or null if no such user exists. */
+export async function setRole(email: string, role: UserRole): Promise<User | null> {
+  try {
+    const result = await docClient.send(
+      new UpdateCommand({
+        TableName: TABLES.USERS,
+        Key: { email },
+        UpdateExpression: 'SET #r = :role',
+        ExpressionAttributeNames: { '#r': 'role' },
+        ExpressionAttributeValues: { ':role': role },
+        ConditionExpression: 'attribute_exists(email)',
+        ReturnValues: 'ALL_NEW',
+      }),
+    );
+    logger.info('User role changed', { email, role });
+    return result.Attributes as User;
+  } catch (err: any) {
+    if (err.name === 'ConditionalCheckFailedException') return null;
+    throw err;
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+function withRole(user: User): User {
+  return { ...user, role: user.role ?? 'participant' };
+}
@@ -0,0 +1,58 @@
+/**
+ * routes/auth.ts — REST API for email magic-link sign-in.
+ *
+ * Mounted at /api/auth in server.ts.
+ *
+ *   POST /request-link — Email a one-time login link. Body: { email, name?, redirectTo? }
+ *                        Always answers { sent: true } for a valid email,
+ *                        whether or not the account exists.
+ *   POST /verify       — Exchange the link's token for a JWT.
+ *                        Body: { token } → { token, user, redirectTo }
+ *   GET  /me           — The signed-in user (requires the JWT)
+ *
+ * /request-link is rate limited per IP (loginLinkLimiter) since every call
+ * sends an email. See services/authService.ts for the link lifecycle.
+ */
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import * as authService from '../services/authService';
+import { authMiddleware } from '../middleware/auth';
+import { loginLinkLimiter } from '../middleware/rateLimit';
+import { UnauthorizedError } from '../utils/errors';
+
+const router = Router();
+
+// POST /api/auth/request-link — Email a one-time login link
+router.post('/request-link', loginLinkLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email, name, redirectTo } = req.body;
+    await authService.requestLoginLink(email, name, redirectTo);
+    res.json({ sent: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/auth/verify — Consume a login link and issue a JWT
+router.post('/verify', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await authService.verifyLoginLink(req.body.token);
+    res.json(result);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /api/auth/me — The user the JWT belongs to
+router.get('/me', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // authMiddleware lets development requests through without a token
+    if (!req.user) throw new UnauthorizedError('Not signed in');
+    const user = await authService.getUser(req.user.email);
+    res.json(user);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
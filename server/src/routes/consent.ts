@@ -0,0 +1,124 @@
+/**
+ * routes/consent.ts — REST API for recording consent.
+ *
+ * Mounted at /api/consent in server.ts.
+ *
+ *   GET  /documents/current?locale=  — Current consent document for a locale
+ *                                      (public — shown in the GreenRoom)
+ *   POST /meetings/:meetingId        — Give consent to be recorded in a meeting
+ *                                      (public — GreenRoom). Body: GiveConsentRequest
+ *
+ * Admin only:
+ *   GET  /documents?locale=          — Every published version (of one locale, or all)
+ *   POST /documents                  — Publish the next version of a locale's document
+ *   GET  /meetings/:meetingId/export — The meeting's signed consent records, with
+ *                                      the documents they refer to (for legal)
+ *
+ * A consent request that carries the participant's meeting token
+ * (X-Meeting-Token) or user JWT is recorded against that userId and
+ * verified email straight away; otherwise JOIN_ROOM links it later. See
+ * services/consentService.ts.
+ */
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import * as consentService from '../services/consentService';
+import { authMiddleware, requireRole, verifyToken } from '../middleware/auth';
+import { requireMeetingAdmin, verifyMeetingToken } from '../middleware/meetingAccess';
+
+const router = Router();
+
+// GET /api/consent/documents/current?locale=de — Falls back to the base language, then the default locale
+router.get('/documents/current', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const document = await consentService.getCurrentDocument(req.query.locale);
+    res.json(document);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/consent/meetings/:meetingId — Record the participant's consent
+// Body: { locale, version, name, email? } → { consent }
+router.post('/meetings/:meetingId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const meetingId = req.params.meetingId as string;
+    const consent = await consentService.giveConsent(
+      meetingId,
+      req.body ?? {},
+      consentIdentity(req, meetingId),
+      { ip: req.ip ?? null, userAgent: req.get('user-agent') ?? null },
+    );
+    res.status(201).json({ consent });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─── Admin ────────────────────────────────────────────────────────
+
+// GET /api/consent/documents — Published versions, newest first (?locale= for one locale)
+router.get(
+  '/documents',
+  authMiddleware,
+  requireRole('admin'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const documents = await consentService.listDocuments(req.query.locale);
+      res.json(documents);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// POST /api/consent/documents — Publish a new version. Body: { locale, title, body }
+router.post(
+  '/documents',
+  authMiddleware,
+  requireRole('admin'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      // req.user is unset only under the development bypass
+      const document = await consentService.publishDocument(req.user?.email ?? 'development', req.body ?? {});
+      res.status(201).json(document);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// GET /api/consent/meetings/:meetingId/export — Consent records with signature checks
+router.get(
+  '/meetings/:meetingId/export',
+  requireMeetingAdmin,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const meetingId = req.params.meetingId as string;
+      const exported = await consentService.exportConsents(meetingId);
+      res.attachment(`consents-${meetingId}.json`);
+      res.json(exported);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+/** The participant a consent request proves, if any — invalid credentials are ignored, not rejected */
+function consentIdentity(req: Request, meetingId: string): consentService.ConsentIdentity {
+  const meetingToken = req.get('x-meeting-token');
+  const claims = meetingToken ? verifyMeetingToken(meetingToken) : null;
+  if (claims && claims.meetingId === meetingId) {
+    return { userId: claims.userId, email: claims.userEmail };
+  }
+
+  const authHeader = req.headers.authorization;
+  const user = authHeader?.startsWith('Bearer ') ? verifyToken(authHeader.slice(7)) : null;
+  if (user) {
+    return { userId: user.userId, email: user.email.toLowerCase() };
+  }
+  return { userId: null, email: null };
+}
+
+export default router;
@@ -4,44 +4,65 @@
  * Mounted at /api/meetings in server.ts. Provides the full meeting
  * lifecycle management via HTTP:
  *
- *   POST   /                  — Create a new meeting (auth required)
- *   GET    /                  — List all meetings (auth required)
+ *   POST   /                  — Create a new meeting (operator, admin)
+ *   GET    /                  — List all meetings (operator, admin)
  *   GET    /:id               — Get a specific meeting by ID (public — used by join page)
- *   PATCH  /:id/status        — Update meeting status (auth required)
- *   POST   /:id/assign-host   — Race-safe host email assignment (public — self-serve)
- *   POST   /:id/assign-guest  — Race-safe guest email assignment (public — self-serve)
- *   DELETE /:id               — Delete a meeting (auth required)
+ *   PATCH  /:id/status        — Update meeting status (operator, admin)
+ *   POST   /:id/assign-host   — Race-safe host email assignment (signed in, own email)
+ *   POST   /:id/assign-guest  — Race-safe guest email assignment (public — needs an
+ *                                invite token if the meeting is invite-only)
+ *   DELETE /:id               — Delete a meeting (admin)
+ *   GET    /:id/invites       — The meeting's invite links (its host, or admin)
+ *   PUT    /:id/invites/:slot — Issue or re-issue a slot's invite (its host, or admin)
+ *   DELETE /:id/invites/:slot — Revoke a slot's invite (its host, or admin)
  *
  * Auth:
  *   - Create, list, status update, and delete require JWT authentication
- *   - Get-by-ID and assign-host/assign-guest are public (guests need
- *     to access the meeting before authenticating)
+ *     (issued by /api/auth magic-link sign-in) and a role (requireRole):
+ *     operators run sessions but only admins can delete. A created
+ *     meeting's hostEmail is the signed-in user's email
+ *   - Get-by-ID and assign-guest are public (guests need to access the
+ *     meeting before authenticating); a meeting with a host email is
+ *     invite-only, so its assign-guest takes the token from the host's
+ *     invite link (services/inviteService.ts)
+ *   - Assign-host requires a JWT, and only claims the slot for the JWT's
+ *     own email — the host email makes the meeting invite-only and its
+ *     holder the manager of its invites, so it can't be claimed for anyone
+ *   - Invite management requires an operator or admin JWT; the service
+ *     also checks that the caller is the meeting's host or an admin
  *
  * The assign-host and assign-guest endpoints use DynamoDB conditional
  * expressions for race safety — only the first caller wins if two users
- * try to claim the same slot simultaneously.
+ * try to claim the same slot simultaneously. A guest who loses the guest
+ * slot still joins (assigned: false) — rooms hold up to
+ * LIMITS.MAX_PARTICIPANTS, enforced at JOIN_ROOM.
  *
  * All errors are forwarded to the global error handler via next(err).
  */
 import { Router } from 'express';
 import type { Request, Response, NextFunction } from 'express';
 import * as meetingService from '../services/meetingService';
-import { authMiddleware } from '../middleware/auth';
+import * as inviteService from '../services/inviteService';
+import { authMiddleware, requireRole } from '../middleware/auth';
 
 const router = Router();
 
-// POST /api/meetings — Create a new meeting (requires authentication)
-router.post('/', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+// POST /api/meetings — Create a new meeting (operators and admins)
+// The signed-in user becomes the host: their JWT email overrides any hostEmail in the body
+router.post('/', authMiddleware, requireRole('operator', 'admin'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const meeting = await meetingService.createMeeting(req.body);
+    const meeting = await meetingService.createMeeting({
+      ...req.body,
+      ...(req.user && { hostEmail: req.user.email }),
+    });
     res.status(201).json(meeting);
   } catch (err) {
     next(err);
   }
 });
 
-// GET /api/meetings — List all meetings (requires authentication)
-router.get('/', authMiddleware, async (_req: Request, res: Response, next: NextFunction) => {
+// GET /api/meetings — List all meetings (operators and admins)
+router.get('/', authMiddleware, requireRole('operator', 'admin'), async (_req: Request, res: Response, next: NextFunction) => {
   try {
     const meetings = await meetingService.getAllMeetings();
     res.json(meetings);
@@ -65,6 +86,7 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
 router.patch(
   '/:id/status',
   authMiddleware,
+  requireRole('operator', 'admin'),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       await meetingService.updateStatus(req.params.id as string, req.body.status);
@@ -76,12 +98,12 @@ router.patch(
 );
 
 // POST /api/meetings/:id/assign-host — Claim the host slot for this meeting
-// Body: { email: string, name?: string }
+// Body: { email: string, name?: string } — email must be the signed-in user's
 // Uses a DynamoDB conditional write so only the first caller succeeds (race-safe)
-router.post('/:id/assign-host', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/assign-host', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { email, name } = req.body;
-    const assigned = await meetingService.assignHost(req.params.id as string, email, name);
+    const assigned = await meetingService.assignHost(req.params.id as string, email, name, req.user);
     res.json({ assigned });
   } catch (err) {
     next(err);
@@ -89,22 +111,24 @@ router.post('/:id/assign-host', async (req: Request, res: Response, next: NextFu
 });
 
 // POST /api/meetings/:id/assign-guest — Claim the guest slot for this meeting
-// Body: { email: string, name: string }
-// Uses a DynamoDB conditional write for race safety
+// Body: { email: string, name: string, inviteToken?: string }
+// Uses a DynamoDB conditional write for race safety; { assigned: false } if
+// another guest already holds the slot
 router.post('/:id/assign-guest', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { email, name } = req.body;
-    const assigned = await meetingService.assignGuest(req.params.id as string, email, name);
+    const { email, name, inviteToken } = req.body;
+    const assigned = await meetingService.assignGuest(req.params.id as string, email, name, inviteToken);
     res.json({ assigned });
   } catch (err) {
     next(err);
   }
 });
 
-// DELETE /api/meetings/:id — Permanently delete a meeting
+// DELETE /api/meetings/:id — Permanently delete a meeting (admins only)
 router.delete(
   '/:id',
   authMiddleware,
+  requireRole('admin'),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       await meetingService.deleteMeeting(req.params.id as string);
@@ -115,4 +139,56 @@ router.delete(
   },
 );
 
+// GET /api/meetings/:id/invites — Current invites for the meeting's slots
+router.get(
+  '/:id/invites',
+  authMiddleware,
+  requireRole('operator', 'admin'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const invites = await inviteService.listInvites(req.params.id as string, req.user);
+      res.json(invites);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// PUT /api/meetings/:id/invites/:slot — Issue a new invite link, replacing the slot's old one
+// Body: { expiresInSeconds?: number, singleUse?: boolean } → { invite, token }
+router.put(
+  '/:id/invites/:slot',
+  authMiddleware,
+  requireRole('operator', 'admin'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { expiresInSeconds, singleUse } = req.body ?? {};
+      const result = await inviteService.issueInvite(
+        req.params.id as string,
+        req.params.slot as string,
+        req.user,
+        { expiresInSeconds, singleUse },
+      );
+      res.json(result);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// DELETE /api/meetings/:id/invites/:slot — Revoke the slot's invite link
+router.delete(
+  '/:id/invites/:slot',
+  authMiddleware,
+  requireRole('operator', 'admin'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await inviteService.revokeInvite(req.params.id as string, req.params.slot as string, req.user);
+      res.json({ success: true });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
 export default router;
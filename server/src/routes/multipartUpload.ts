@@ -7,36 +7,53 @@
  * Multipart upload flow (client-driven, server-coordinated):
  *
  *   1. POST /initiate          — Server creates an S3 multipart upload and
- *                                 returns the uploadId + S3 key
+ *                                 returns the uploadId + S3 key; the Recording
+ *                                 row is keyed by the sessionId sent here
  *   2. POST /part-1            — Special: Part 1 goes to a temp S3 location
  *                                 (because the WAV header needs patching later)
  *   3. POST /part-url          — Get presigned URL for parts 2..N; client PUTs
  *                                 each chunk directly to S3 using the presigned URL
- *   4. POST /complete          — Server patches the WAV header in Part 1,
- *                                 completes the S3 multipart upload, and updates
- *                                 the Recording status to 'completed' in DynamoDB
+ *   4. POST /complete          — Server verifies checksums, patches the WAV
+ *                                 header in Part 1, completes the S3 multipart
+ *                                 upload, and updates the Recording status to
+ *                                 'completed' in DynamoDB
  *   5. POST /abort             — Cancel an in-progress multipart upload (cleanup)
  *   6. GET  /parts             — List already-uploaded parts (for resume support)
  *
+ * Authorization:
+ *   Every route requires the participant's upload token (X-Upload-Token —
+ *   see middleware/uploadToken.ts). /initiate checks the room, participant
+ *   and session against it; the other routes check that the S3 key (or, for
+ *   /part-1, the upload's key) belongs to the token's recording.
+ *
  * Rate limiting:
  *   - /initiate uses a stricter rate limiter (initiateUploadLimiter)
  *   - /part-1, /part-url, /complete use the multipartLimiter
  *   - /abort and /parts are unrestricted
  *
  * All presigned URLs include an expiration timestamp in the response so
- * the client knows when to refresh them.
+ * the client knows when to refresh them, and are recorded in the presigned
+ * URL audit log (repositories/auditLogRepo.ts) before they are returned.
+ * Part URLs are signed with the part's SHA-256 (checksumSHA256 in the
+ * request), which the client must send as the x-amz-checksum-sha256 header.
  */
 import { Router } from 'express';
 import type { Request, Response, NextFunction } from 'express';
 import { LIMITS } from '../shared';
+import type { CompletePart } from '../shared';
 import * as uploadService from '../services/uploadService';
+import * as auditLogRepo from '../repositories/auditLogRepo';
 import { BUCKET_NAME } from '../infra/s3';
 import { multipartLimiter, initiateUploadLimiter } from '../middleware/rateLimit';
+import { requireUploadToken, assertUploadScope, assertKeyInScope } from '../middleware/uploadToken';
+import { requestActor } from '../middleware/meetingAccess';
 import { ValidationError } from '../utils/errors';
-import { validatePartNumber } from '../utils/validators';
+import { validatePartNumber, validateSha256Checksum } from '../utils/validators';
 
 const router = Router();
 
+router.use(requireUploadToken);
+
 // POST /api/multipart-upload/initiate — Start a new S3 multipart upload
 // Creates the upload in S3 and tracks it in DynamoDB (Recording with status 'uploading')
 router.post(
@@ -44,14 +61,16 @@ router.post(
   initiateUploadLimiter,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { roomId, participantName, contentType, fileSize } = req.body;
+      const { roomId, participantName, sessionId, contentType, fileSize } = req.body;
       if (!roomId || !participantName) {
         throw new ValidationError('roomId and participantName are required');
       }
+      assertUploadScope(req.uploadScope!, roomId, participantName, sessionId);
 
       const { uploadId, key } = await uploadService.initiateMultipart(
         roomId,
         participantName,
+        sessionId,
         contentType,
         fileSize,
       );
@@ -62,7 +81,7 @@ router.post(
         bucket: BUCKET_NAME,
         roomId,
         participantName,
-        sessionId: null, // Set later during /complete when session context is known
+        sessionId: sessionId || null,
         expiresAt: new Date(Date.now() + LIMITS.PRESIGNED_URL_EXPIRY * 1000).toISOString(),
       });
     } catch (err) {
@@ -80,10 +99,22 @@ router.post(
   multipartLimiter,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { uploadId } = req.body;
+      const { uploadId, checksumSHA256 } = req.body;
       if (!uploadId) throw new ValidationError('uploadId is required');
+      if (!validateSha256Checksum(checksumSHA256)) {
+        throw new ValidationError('checksumSHA256 must be a base64 SHA-256 digest');
+      }
+      // The temp key is derived from uploadId alone, so check the upload itself
+      assertKeyInScope(req.uploadScope!, await uploadService.getUploadKey(uploadId));
 
-      const { url, tempKey } = await uploadService.getPart1Url(uploadId);
+      const { url, tempKey } = await uploadService.getPart1Url(uploadId, checksumSHA256);
+      await auditLogRepo.recordPresignedUrl(
+        req.uploadScope!.meetingId,
+        'upload',
+        tempKey,
+        LIMITS.UPLOAD_URL_EXPIRY,
+        requestActor(req),
+      );
 
       res.json({
         url,
@@ -105,13 +136,24 @@ router.post(
   multipartLimiter,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { key, uploadId, partNumber } = req.body;
+      const { key, uploadId, partNumber, checksumSHA256 } = req.body;
       if (!key || !uploadId) throw new ValidationError('key and uploadId are required');
+      assertKeyInScope(req.uploadScope!, key);
       if (!validatePartNumber(partNumber)) {
         throw new ValidationError(`Invalid part number (1-${LIMITS.MAX_PARTS})`);
       }
+      if (!validateSha256Checksum(checksumSHA256)) {
+        throw new ValidationError('checksumSHA256 must be a base64 SHA-256 digest');
+      }
 
-      const url = await uploadService.getPartUrl(key, uploadId, partNumber);
+      const url = await uploadService.getPartUrl(key, uploadId, partNumber, checksumSHA256);
+      await auditLogRepo.recordPresignedUrl(
+        req.uploadScope!.meetingId,
+        'upload-part',
+        key,
+        LIMITS.UPLOAD_URL_EXPIRY,
+        requestActor(req),
+      );
 
       res.json({
         url,
@@ -125,18 +167,26 @@ router.post(
 );
 
 // POST /api/multipart-upload/complete — Finalize the multipart upload
-// Patches the WAV header, completes the S3 upload, and marks the recording as 'completed'
+// Verifies checksums, patches the WAV header, completes the S3 upload, and marks the recording as 'completed'
 router.post(
   '/complete',
   multipartLimiter,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { key, uploadId, parts, roomId, participantName, sessionId } = req.body;
-      if (!key || !uploadId || !parts || !roomId || !participantName) {
+      const { key, uploadId, parts, roomId, participantName, sessionId, checksumSHA256 } = req.body;
+      if (!key || !uploadId || !Array.isArray(parts) || !roomId || !participantName) {
         throw new ValidationError(
           'key, uploadId, parts, roomId, and participantName are required',
         );
       }
+      if (
+        typeof checksumSHA256 !== 'string' ||
+        !parts.every((p: CompletePart) => validateSha256Checksum(p?.ChecksumSHA256))
+      ) {
+        throw new ValidationError('checksumSHA256 is required for the file and every part');
+      }
+      assertUploadScope(req.uploadScope!, roomId, participantName, sessionId);
+      assertKeyInScope(req.uploadScope!, key);
 
       const result = await uploadService.completeMultipart(
         key,
@@ -145,6 +195,7 @@ router.post(
         roomId,
         participantName,
         sessionId,
+        checksumSHA256,
       );
 
       res.json({ success: true, location: result.location });
@@ -160,6 +211,7 @@ router.post('/abort', async (req: Request, res: Response, next: NextFunction) =>
   try {
     const { key, uploadId } = req.body;
     if (!key || !uploadId) throw new ValidationError('key and uploadId are required');
+    assertKeyInScope(req.uploadScope!, key);
 
     await uploadService.abortMultipart(key, uploadId);
     res.json({ success: true });
@@ -176,6 +228,7 @@ router.get('/parts', async (req: Request, res: Response, next: NextFunction) =>
     const uploadId = req.query.uploadId as string;
     if (!key || !uploadId)
       throw new ValidationError('key and uploadId query params are required');
+    assertKeyInScope(req.uploadScope!, key);
 
     const result = await uploadService.getUploadedParts(key, uploadId);
     res.json(result);
@@ -0,0 +1,31 @@
+/**
+ * routes/ops.ts — REST API for operational reports.
+ *
+ * Mounted at /api/ops in server.ts.
+ *
+ *   GET /upload-janitor — Dry run of the upload janitor: which stale
+ *                         multipart uploads, temp Part 1 objects and
+ *                         'uploading' Recording rows the next run would
+ *                         clean up. Changes nothing.
+ *
+ * Protected by JWT authentication and limited to admins — for ops
+ * dashboards and on-call, not the studio client.
+ */
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import * as uploadJanitorService from '../services/uploadJanitorService';
+import { authMiddleware, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// GET /api/ops/upload-janitor — Report what the janitor would clean up right now
+router.get('/upload-janitor', authMiddleware, requireRole('admin'), async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const report = await uploadJanitorService.runUploadJanitor(true);
+    res.json(report);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -6,11 +6,24 @@
  *
  *   GET /:meetingId                          — List all recordings for a meeting
  *   GET /:meetingId/session/:sessionId       — List recordings for a specific session
- *                                              (a session groups host + guest recordings)
+ *                                              (a session groups its participants' recordings)
+ *   GET /:meetingId/session/:sessionId/result — Stored processing result for the session
  *   GET /:meetingId/download/:recordingId    — Get a time-limited S3 download URL
  *
- * All endpoints are public (no auth required) — the meetingId serves as an
- * implicit access token. Download URLs expire after PRESIGNED_URL_EXPIRY seconds.
+ * Admin only:
+ *   GET    /:meetingId/grants                — List reviewer grants for the meeting
+ *   PUT    /:meetingId/grants/:email         — Grant a reviewer access (optional expiresAt)
+ *   DELETE /:meetingId/grants/:email         — Revoke a reviewer's access
+ *   GET    /:meetingId/audit                 — Presigned URLs issued for the meeting
+ *
+ * Every endpoint is authorized per meeting (middleware/meetingAccess.ts):
+ * the meeting's participants (X-Meeting-Token), admin-role users, or
+ * reviewer-role users with a grant. A participant only sees the recording
+ * sessions they took part in. Every download URL is written to the audit
+ * log before it is returned, and expires after PRESIGNED_URL_EXPIRY seconds.
+ *
+ * Recordings carry the uploader's speaker profile (speakerProfile — language,
+ * accent, age band, gender, device) for dataset provenance; null if none was given.
  *
  * Note: recordingId is URL-encoded in the path because it contains '#' separators
  * (e.g., "sessionId#participantName"), so it must be decoded before lookup.
@@ -18,28 +31,46 @@
 import { Router } from 'express';
 import type { Request, Response, NextFunction } from 'express';
 import * as recordingRepo from '../repositories/recordingRepo';
+import * as processingResultRepo from '../repositories/processingResultRepo';
+import * as accessGrantRepo from '../repositories/accessGrantRepo';
+import * as auditLogRepo from '../repositories/auditLogRepo';
 import * as s3 from '../infra/s3';
 import { LIMITS } from '../shared';
-import { ValidationError } from '../utils/errors';
+import {
+  requireMeetingAccess,
+  requireMeetingAdmin,
+  requireSessionAccess,
+  readableSessions,
+  assertSessionAccess,
+  requestActor,
+} from '../middleware/meetingAccess';
+import { ValidationError, NotFoundError } from '../utils/errors';
+import { validateEmail, validateISODate } from '../utils/validators';
+
+/** Most audit entries returned by GET /:meetingId/audit */
+const MAX_AUDIT_ENTRIES = 500;
 
 const router = Router();
 
-// GET /api/recordings/:meetingId — All recordings for a meeting (across all sessions)
-router.get('/:meetingId', async (req: Request, res: Response, next: NextFunction) => {
+// GET /api/recordings/:meetingId — All recordings for a meeting (across the caller's sessions)
+router.get('/:meetingId', requireMeetingAccess, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const recordings = await recordingRepo.getRecordingsByMeeting(
       req.params.meetingId as string,
     );
-    res.json(recordings);
+    const sessions = await readableSessions(req.meetingAccess!);
+    res.json(sessions ? recordings.filter((r) => sessions.has(r.sessionId)) : recordings);
   } catch (err) {
     next(err);
   }
 });
 
 // GET /api/recordings/:meetingId/session/:sessionId — Recordings for a specific session
-// Filters by recordingId prefix (sessionId#) to return only host + guest files from that session
+// Filters by recordingId prefix (sessionId#) to return only that session's files
 router.get(
   '/:meetingId/session/:sessionId',
+  requireMeetingAccess,
+  requireSessionAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const recordings = await recordingRepo.getRecordingsBySession(
@@ -53,22 +84,53 @@ router.get(
   },
 );
 
+// GET /api/recordings/:meetingId/session/:sessionId/result — Stored processing result
+// Returns 404 until the processing pipeline has reported back for this session
+router.get(
+  '/:meetingId/session/:sessionId/result',
+  requireMeetingAccess,
+  requireSessionAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await processingResultRepo.getResult(
+        req.params.meetingId as string,
+        req.params.sessionId as string,
+      );
+      if (!result) {
+        throw new NotFoundError('No processing result for this session yet');
+      }
+      res.json(result);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
 // GET /api/recordings/:meetingId/download/:recordingId — Generate a presigned S3 download URL
-// The recordingId contains '#' separators so it arrives URL-encoded and needs decoding
+// The recordingId contains '#' separators so it arrives URL-encoded and needs decoding.
+// The URL is recorded in the audit log before it is returned.
 router.get(
   '/:meetingId/download/:recordingId',
+  requireMeetingAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const meetingId = req.params.meetingId as string;
       const recordingId = decodeURIComponent(req.params.recordingId as string);
 
       // Look up the recording to get its S3 file path
-      const recordings = await recordingRepo.getRecordingsByMeeting(meetingId);
-      const recording = recordings.find((r) => r.recordingId === recordingId);
-
+      const recording = await recordingRepo.getRecording(meetingId, recordingId);
       if (!recording) {
-        throw new ValidationError('Recording not found');
+        throw new NotFoundError('Recording not found');
       }
+      await assertSessionAccess(req.meetingAccess!, recording.sessionId);
+
+      await auditLogRepo.recordPresignedUrl(
+        meetingId,
+        'download',
+        recording.filePath,
+        LIMITS.PRESIGNED_URL_EXPIRY,
+        requestActor(req),
+      );
 
       // Generate a time-limited download URL (expires after PRESIGNED_URL_EXPIRY seconds)
       const downloadUrl = await s3.getPresignedGetUrl(
@@ -83,4 +145,74 @@ router.get(
   },
 );
 
+// ─── Admin ────────────────────────────────────────────────────────
+
+// GET /api/recordings/:meetingId/grants — Reviewer grants for the meeting (expired ones included)
+router.get('/:meetingId/grants', requireMeetingAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const grants = await accessGrantRepo.listGrants(req.params.meetingId as string);
+    res.json(grants);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// PUT /api/recordings/:meetingId/grants/:email — Grant (or re-grant) a reviewer access
+// Body: { expiresAt?: ISO 8601 } — omit for a grant that lasts until revoked
+router.put(
+  '/:meetingId/grants/:email',
+  requireMeetingAdmin,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const email = (req.params.email as string).toLowerCase();
+      const expiresAt = req.body?.expiresAt ?? null;
+      if (!validateEmail(email)) {
+        throw new ValidationError('Invalid email');
+      }
+      if (expiresAt !== null && !validateISODate(expiresAt)) {
+        throw new ValidationError('expiresAt must be an ISO 8601 date');
+      }
+
+      const grant: accessGrantRepo.AccessGrant = {
+        meetingId: req.params.meetingId as string,
+        email,
+        grantedBy: req.meetingAccess!.principal,
+        grantedAt: new Date().toISOString(),
+        expiresAt,
+      };
+      await accessGrantRepo.putGrant(grant);
+      res.json(grant);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// DELETE /api/recordings/:meetingId/grants/:email — Revoke a reviewer's access
+router.delete(
+  '/:meetingId/grants/:email',
+  requireMeetingAdmin,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await accessGrantRepo.deleteGrant(
+        req.params.meetingId as string,
+        (req.params.email as string).toLowerCase(),
+      );
+      res.json({ success: true });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// GET /api/recordings/:meetingId/audit — Presigned URLs issued for the meeting, newest first
+router.get('/:meetingId/audit', requireMeetingAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const entries = await auditLogRepo.getEntriesByMeeting(req.params.meetingId as string, MAX_AUDIT_ENTRIES);
+    res.json(entries);
+  } catch (err) {
+    next(err);
+  }
+});
+
 export default router;
@@ -0,0 +1,54 @@
+/**
+ * routes/speakers.ts — REST API for the Speakers registry.
+ *
+ * Mounted at /api/speakers in server.ts. Every endpoint needs a JWT.
+ *
+ *   GET /                       — All registered speakers (admin only)
+ *   GET /:speakerId             — One speaker (admin, or the speaker themselves)
+ *   GET /:speakerId/history     — Meetings, recorded minutes and quality
+ *                                 profile distribution → SpeakerHistory
+ *
+ * A speaker is a signed-in account (speakerId = the account's userId), so
+ * a user can read their own history at /api/speakers/<their userId>/history.
+ * See services/speakerService.ts.
+ */
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import * as speakerService from '../services/speakerService';
+import { authMiddleware, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// GET /api/speakers — Registry listing, oldest first
+router.get('/', requireRole('admin'), async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const speakers = await speakerService.listSpeakers();
+    res.json(speakers);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /api/speakers/:speakerId — One speaker
+router.get('/:speakerId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const speaker = await speakerService.getSpeaker(req.params.speakerId as string, req.user);
+    res.json(speaker);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /api/speakers/:speakerId/history — Per-speaker history across meetings
+router.get('/:speakerId/history', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const history = await speakerService.getSpeakerHistory(req.params.speakerId as string, req.user);
+    res.json(history);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
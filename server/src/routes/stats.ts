@@ -6,19 +6,19 @@
  *
  *   GET / — Returns { activeSessionCount, activeRecordingCount, activePairCount }
  *
- * Protected by JWT authentication — only the admin dashboard should access this.
+ * Protected by JWT authentication and limited to operators and admins.
  * Counters are maintained atomically via DynamoDB ADD operations in statsRepo
  * (incremented/decremented as sessions join/leave and recordings start/stop).
  */
 import { Router } from 'express';
 import type { Request, Response, NextFunction } from 'express';
 import * as statsRepo from '../repositories/statsRepo';
-import { authMiddleware } from '../middleware/auth';
+import { authMiddleware, requireRole } from '../middleware/auth';
 
 const router = Router();
 
 // GET /api/stats — Returns current global counters (sessions, recordings, pairs)
-router.get('/', authMiddleware, async (_req: Request, res: Response, next: NextFunction) => {
+router.get('/', authMiddleware, requireRole('operator', 'admin'), async (_req: Request, res: Response, next: NextFunction) => {
   try {
     const stats = await statsRepo.getStats();
     res.json(stats);
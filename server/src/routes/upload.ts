@@ -6,36 +6,68 @@
  * route for larger files).
  *
  * Simple upload flow:
- *   1. POST /url      — Client requests a presigned S3 PUT URL
- *                        Server generates an S3 key and returns the presigned URL
- *   2. Client PUTs the audio file directly to S3 using the presigned URL
+ *   1. POST /url      — Client requests a presigned S3 PUT URL for the file's
+ *                        SHA-256; server generates an S3 key and returns a
+ *                        URL signed with that checksum
+ *   2. Client PUTs the audio file directly to S3 using the presigned URL,
+ *      sending the checksum in the x-amz-checksum-sha256 header
  *   3. POST /complete — Client notifies the server that the upload finished
- *                        Server verifies the file exists in S3 and creates a
- *                        Recording entry in DynamoDB with status 'completed'
+ *                        Server verifies the file exists in S3, compares its
+ *                        stored checksum, and creates a Recording entry in
+ *                        DynamoDB with status 'completed'
  *
- * No authentication required — the meeting room ID serves as implicit access.
- * The presigned URL is scoped to the specific S3 key and expires after
- * UPLOAD_URL_EXPIRY seconds.
+ * Every request needs the participant's upload token (X-Upload-Token,
+ * issued over Socket.IO — see middleware/uploadToken.ts), and may only
+ * upload the recording that token is scoped to. The presigned URL is scoped
+ * to the specific S3 key and expires after UPLOAD_URL_EXPIRY seconds
+ * (returned as `expiresAt`, so the client can request a fresh one before
+ * retrying a PUT). Every URL is recorded in the presigned URL audit log
+ * (repositories/auditLogRepo.ts) before it is returned.
+ *
+ * POST /token renews an expired upload token for a background upload
+ * resumed on a later visit; it takes the participant's meeting token instead
+ * of a valid upload token (see middleware/uploadToken.ts).
  */
 import { Router } from 'express';
 import type { Request, Response, NextFunction } from 'express';
 import * as uploadService from '../services/uploadService';
+import * as auditLogRepo from '../repositories/auditLogRepo';
 import { BUCKET_NAME } from '../infra/s3';
+import { LIMITS } from '../shared';
+import { requireUploadToken, renewUploadToken, assertUploadScope, assertKeyInScope } from '../middleware/uploadToken';
+import { requestActor } from '../middleware/meetingAccess';
 
 const router = Router();
 
+// POST /api/upload/token — Renew an upload token that may have expired
+// Headers: X-Upload-Token (the old one) and X-Meeting-Token → { uploadToken }
+// Ahead of requireUploadToken, which would refuse the expired token
+router.post('/token', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({ uploadToken: await renewUploadToken(req) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.use(requireUploadToken);
+
 // POST /api/upload/url — Generate a presigned S3 PUT URL for direct upload
 // The client will use this URL to upload the audio file directly to S3,
 // bypassing the server (reducing bandwidth and latency).
 router.post('/url', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { roomId, participantName, sessionId, contentType } = req.body;
+    const { roomId, participantName, sessionId, contentType, checksumSHA256 } = req.body;
+    assertUploadScope(req.uploadScope!, roomId, participantName, sessionId);
+
     const { uploadUrl, key } = await uploadService.generateUploadUrl(
       roomId,
       participantName,
       sessionId,
       contentType,
+      checksumSHA256,
     );
+    await auditLogRepo.recordPresignedUrl(roomId, 'upload', key, LIMITS.UPLOAD_URL_EXPIRY, requestActor(req));
 
     res.json({
       uploadUrl,
@@ -44,6 +76,7 @@ router.post('/url', async (req: Request, res: Response, next: NextFunction) => {
       roomId,
       participantName,
       sessionId: sessionId || null,
+      expiresAt: new Date(Date.now() + LIMITS.UPLOAD_URL_EXPIRY * 1000).toISOString(),
     });
   } catch (err) {
     next(err);
@@ -54,8 +87,11 @@ router.post('/url', async (req: Request, res: Response, next: NextFunction) => {
 // Verifies the object exists in S3, then creates a Recording entry in DynamoDB
 router.post('/complete', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { roomId, participantName, key, sessionId } = req.body;
-    await uploadService.completeUpload(roomId, participantName, key, sessionId);
+    const { roomId, participantName, key, sessionId, checksumSHA256 } = req.body;
+    assertUploadScope(req.uploadScope!, roomId, participantName, sessionId);
+    assertKeyInScope(req.uploadScope!, key);
+
+    await uploadService.completeUpload(roomId, participantName, key, sessionId, checksumSHA256);
     res.json({ success: true });
   } catch (err) {
     next(err);
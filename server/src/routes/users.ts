@@ -0,0 +1,44 @@
+/**
+ * routes/users.ts — REST API for role management (admin only).
+ *
+ * Mounted at /api/users in server.ts.
+ *
+ *   GET /               — List all users with their roles
+ *   PUT /:email/role    — Change a user's role. Body: { role } → User
+ *
+ * Users are created by signing in (/api/auth); this router only assigns
+ * roles. An admin can't change their own role, and a new role applies from
+ * the user's next sign-in. See services/authService.ts.
+ */
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import * as authService from '../services/authService';
+import { authMiddleware, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+router.use(authMiddleware, requireRole('admin'));
+
+// GET /api/users — All users and their roles
+router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const users = await authService.listUsers();
+    res.json(users);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// PUT /api/users/:email/role — Assign a role
+router.put('/:email/role', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // req.user is unset only under the development bypass
+    const actorEmail = req.user?.email ?? 'development';
+    const user = await authService.updateUserRole(actorEmail, req.params.email as string, req.body.role);
+    res.json(user);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,35 @@
+/**
+ * reconcileMultipartRecordings.ts — One-off repair for legacy multipart rows.
+ *
+ * Before /api/multipart-upload/initiate accepted a sessionId, every multipart
+ * upload left a `multipart#{name}#{ts}` row plus a partial `{sessionId}#{name}`
+ * row in the Recordings table. This script merges each pair under the
+ * canonical id (see uploadService.reconcileLegacyMultipartRecordings).
+ *
+ * Usage:
+ *   npm run reconcile:multipart              — report only (default)
+ *   npm run reconcile:multipart -- --apply   — write the merged rows
+ *
+ * Unresolved rows are uploads that never completed; they are left in place.
+ */
+import '../env';
+import { reconcileLegacyMultipartRecordings } from '../services/uploadService';
+import { logger } from '../utils/logger';
+
+async function main(): Promise<void> {
+  const apply = process.argv.includes('--apply');
+  const { scanned, reconciled, unresolved } = await reconcileLegacyMultipartRecordings(!apply);
+
+  logger.info(apply ? 'Multipart recordings reconciled' : 'Multipart reconciliation dry run', {
+    scanned,
+    reconciled: reconciled.length,
+    unresolved: unresolved.length,
+  });
+  for (const entry of reconciled) logger.info(`${apply ? 'merged' : 'would merge'}: ${entry}`);
+  for (const entry of unresolved) logger.warn(`unresolved: ${entry}`);
+}
+
+main().catch((err) => {
+  logger.error('Reconciliation failed', { error: (err as Error).message });
+  process.exit(1);
+});
@@ -12,13 +12,13 @@
  *   4. Create Socket.IO server with optional Redis adapter
  *   5. Register socket event handlers (session, signaling, recording, etc.)
  *   6. Wire up the notification service (for pushing SQS results to clients)
- *   7. Start the SQS consumer for processing results
+ *   7. Start the SQS consumer for processing results and the upload janitor
  *   8. Begin listening on the configured PORT
  *
  * ─── Graceful Shutdown ───────────────────────────────────────────
  *   On SIGTERM/SIGINT (e.g., Kubernetes pod termination, Ctrl+C):
  *   1. Stop accepting new HTTP connections
- *   2. Stop the SQS consumer
+ *   2. Stop the SQS consumer and the upload janitor
  *   3. Close all WebSocket connections
  *   4. Disconnect Redis clients
  *   5. Wait 10s grace period for in-flight requests, then exit
@@ -48,8 +48,14 @@ import multipartUploadRoutes from './routes/multipartUpload';
 import recordingRoutes from './routes/recordings';
 import { setupSocketHandlers } from './socket';
 import statsRoutes from './routes/stats';
+import opsRoutes from './routes/ops';
+import authRoutes from './routes/auth';
+import userRoutes from './routes/users';
+import consentRoutes from './routes/consent';
+import speakerRoutes from './routes/speakers';
 import { setIOInstance } from './services/notificationService';
 import { startConsumer, stopConsumer } from './consumers/processingResultConsumer';
+import { startUploadJanitor, stopUploadJanitor } from './services/uploadJanitorService';
 
 const PORT = parseInt(process.env.PORT || '4000', 10);
 const CORS_ORIGINS = process.env.CORS_ORIGINS?.split(',') || ['http://localhost:5173'];
@@ -90,6 +96,11 @@ async function bootstrap(): Promise<void> {
   app.use('/api/multipart-upload', multipartUploadRoutes); // Large file multipart uploads
   app.use('/api/recordings', recordingRoutes); // Recording metadata + download URLs
   app.use('/api/stats', statsRoutes); // Dashboard statistics
+  app.use('/api/ops', opsRoutes); // Operational reports (upload janitor dry run)
+  app.use('/api/auth', authRoutes); // Magic-link sign-in
+  app.use('/api/users', userRoutes); // Role management (admin)
+  app.use('/api/consent', consentRoutes); // Consent documents + participants' recording consent
+  app.use('/api/speakers', speakerRoutes); // Speakers registry + per-speaker history
 
   // Global error handler — must be registered LAST (Express convention)
   // Catches all errors forwarded via next(err) from route handlers
@@ -132,6 +143,9 @@ async function bootstrap(): Promise<void> {
   // Start polling the SQS results queue for external processing results
   startConsumer();
 
+  // Periodically clean up abandoned multipart uploads (one pod per interval)
+  startUploadJanitor();
+
   // ─── Phase 8: Start Listening ───────────────────────────────
   server.listen(PORT, () => {
     logger.info(`Server listening on port ${PORT}`, { env, cors: CORS_ORIGINS });
@@ -147,8 +161,9 @@ async function bootstrap(): Promise<void> {
       logger.info('HTTP server closed');
     });
 
-    // 2. Stop the SQS consumer (no more message polling)
+    // 2. Stop the SQS consumer (no more message polling) and the upload janitor
     stopConsumer();
+    stopUploadJanitor();
 
     // 3. Disconnect all WebSocket clients
     io.close();
@@ -0,0 +1,115 @@
+/**
+ * audioValidationService.ts — Server-side checks on uploaded recordings.
+ *
+ * Run by uploadService once a file is in S3 and before its Recording is
+ * marked completed. A file that fails gets status 'invalid' and a reason
+ * instead of 'completed', so it never counts toward triggering the
+ * processing pipeline.
+ *
+ * Checks (only the header is read — one ranged GET, never the whole file):
+ *   1. Container   — RIFF or RF64 WAVE with fmt + data chunks
+ *   2. Format      — PCM, LIMITS.RECORDING_CHANNELS channel(s),
+ *                    LIMITS.RECORDING_SAMPLE_RATE Hz,
+ *                    LIMITS.RECORDING_BITS_PER_SAMPLE-bit
+ *   3. Data length — non-empty, whole sample frames, and no longer than
+ *                    what the object actually holds after the header
+ *   4. Duration    — within tolerance of the RecordingState startedAt →
+ *                    stoppedAt window, when the meeting's RecordingState
+ *                    still describes this session (a newer take replaces it)
+ *
+ * Returns the reason (null when the file passes) and, when the header is
+ * readable, the audio's duration — stored on the Recording for speaker
+ * history (services/speakerService.ts). S3 and DynamoDB errors are thrown,
+ * not turned into 'invalid' — a transient failure says nothing about the audio.
+ */
+import { LIMITS } from '../shared';
+import * as s3 from '../infra/s3';
+import * as recordingStateRepo from '../repositories/recordingStateRepo';
+import { parseWavHeader, WAV_HEADER_PROBE_BYTES } from '../utils/wav';
+import type { WavHeaderLayout } from '../utils/wav';
+import { logger } from '../utils/logger';
+
+const FORMAT_PCM = 1;
+
+export interface RecordingValidation {
+  invalidReason: string | null;   // null when the file passes
+  durationSec: number | null;     // Audio length from the header (null if unreadable)
+}
+
+export async function validateRecordingFile(
+  roomId: string,
+  key: string,
+  objectSize: number,
+  sessionId?: string,
+): Promise<RecordingValidation> {
+  const header = await s3.fetchS3Range(key, `bytes=0-${WAV_HEADER_PROBE_BYTES - 1}`);
+  const reason = checkHeader(header, objectSize) ?? (await checkDuration(roomId, header, sessionId));
+
+  if (reason) {
+    logger.warn('Uploaded recording failed validation', { roomId, sessionId, key, reason });
+  }
+  const wav = parseWavHeader(header);
+  return {
+    invalidReason: reason,
+    durationSec: wav && wav.blockAlign && wav.sampleRate ? audioSeconds(wav) : null,
+  };
+}
+
+// ─── Checks ──────────────────────────────────────────────────────
+
+function checkHeader(header: Buffer, objectSize: number): string | null {
+  const wav = parseWavHeader(header);
+  if (!wav) return 'Not a readable WAV file (missing RIFF/RF64, fmt or data chunk)';
+
+  if (wav.formatTag !== FORMAT_PCM) {
+    return `Unsupported audio format tag ${wav.formatTag} (expected PCM)`;
+  }
+  if (wav.channels !== LIMITS.RECORDING_CHANNELS) {
+    return `Expected ${LIMITS.RECORDING_CHANNELS} channel(s), got ${wav.channels}`;
+  }
+  if (wav.sampleRate !== LIMITS.RECORDING_SAMPLE_RATE) {
+    return `Expected ${LIMITS.RECORDING_SAMPLE_RATE} Hz, got ${wav.sampleRate} Hz`;
+  }
+  if (wav.bitsPerSample !== LIMITS.RECORDING_BITS_PER_SAMPLE) {
+    return `Expected ${LIMITS.RECORDING_BITS_PER_SAMPLE}-bit samples, got ${wav.bitsPerSample}-bit`;
+  }
+
+  const available = objectSize - wav.dataOffset;
+  if (wav.dataSize === 0) return 'WAV data chunk is empty';
+  if (wav.dataSize % wav.blockAlign !== 0) {
+    return `WAV data length ${wav.dataSize} is not a whole number of sample frames`;
+  }
+  if (wav.dataSize > available) {
+    return `WAV header declares ${wav.dataSize} bytes of audio but the file holds ${available}`;
+  }
+  return null;
+}
+
+async function checkDuration(
+  roomId: string,
+  header: Buffer,
+  sessionId?: string,
+): Promise<string | null> {
+  if (!sessionId) return null;
+
+  const state = await recordingStateRepo.getRecordingState(roomId);
+  if (!state || state.sessionId !== sessionId || !state.startedAt || !state.stoppedAt) {
+    return null;
+  }
+
+  const audioSec = audioSeconds(parseWavHeader(header)!);
+  const windowSec = (Date.parse(state.stoppedAt) - Date.parse(state.startedAt)) / 1000;
+  const tolerance = Math.max(
+    LIMITS.RECORDING_DURATION_TOLERANCE_SEC,
+    windowSec * LIMITS.RECORDING_DURATION_TOLERANCE_RATIO,
+  );
+
+  if (Math.abs(audioSec - windowSec) > tolerance) {
+    return `Audio is ${audioSec.toFixed(1)}s but the session was recorded for ${windowSec.toFixed(1)}s`;
+  }
+  return null;
+}
+
+function audioSeconds(wav: WavHeaderLayout): number {
+  return wav.dataSize / wav.blockAlign / wav.sampleRate;
+}
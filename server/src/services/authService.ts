@@ -0,0 +1,157 @@
+/**
+ * authService.ts — Passwordless sign-in with email magic links.
+ *
+ * Flow:
+ *   1. requestLoginLink(email) — generates a random one-time token, stores
+ *      its SHA-256 in the LoginLinks table (expires after
+ *      LIMITS.LOGIN_LINK_EXPIRY) and emails `{WEB_APP_URL}/login?token=...`
+ *      through infra/mailer.
+ *   2. The user opens the link; the Login page posts the token to
+ *      verifyLoginLink(), which consumes the link (single use), creates or
+ *      updates the User, and issues a JWT via middleware/auth's
+ *      generateToken() — the token authMiddleware accepts. The JWT carries
+ *      the user's role, which requireRole() checks.
+ *
+ * requestLoginLink() behaves the same whether or not the email has an
+ * account, so the endpoint can't be used to discover who has signed up.
+ *
+ * Roles: new users are 'participant'. Emails listed in ADMIN_EMAILS are
+ * made admin when they sign in, so a fresh deployment has someone who can
+ * hand out the other roles (updateUserRole).
+ *
+ * Used by:
+ *   - routes/auth.ts:  /api/auth/request-link, /api/auth/verify, /api/auth/me
+ *   - routes/users.ts: /api/users (role management)
+ */
+import crypto from 'crypto';
+import { LIMITS } from '../shared';
+import type { User, VerifyLoginLinkResponse } from '../shared';
+import * as userRepo from '../repositories/userRepo';
+import * as loginLinkRepo from '../repositories/loginLinkRepo';
+import { sendMail } from '../infra/mailer';
+import { generateToken } from '../middleware/auth';
+import { ValidationError, UnauthorizedError, ForbiddenError, NotFoundError } from '../utils/errors';
+import { validateEmail, validateName, validateUserRole } from '../utils/validators';
+import { logger } from '../utils/logger';
+
+/** Where the web app is served — login links point at its /login page */
+const WEB_APP_URL = (
+  process.env.WEB_APP_URL || process.env.CORS_ORIGINS?.split(',')[0] || 'http://localhost:5173'
+).replace(/\/$/, '');
+
+/** Emails (lowercased) that are made admin when they sign in */
+const ADMIN_EMAILS = new Set(
+  (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean),
+);
+
+/** Email a one-time login link to `email` */
+export async function requestLoginLink(email: string, name?: string, redirectTo?: string): Promise<void> {
+  if (typeof email !== 'string' || !validateEmail(email.trim())) {
+    throw new ValidationError('Invalid email');
+  }
+  if (name !== undefined && !validateName(name)) {
+    throw new ValidationError('Name too long');
+  }
+  if (redirectTo !== undefined && !isAppPath(redirectTo)) {
+    throw new ValidationError('redirectTo must be a path within the app');
+  }
+
+  const normalizedEmail = email.trim().toLowerCase();
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = Date.now() + LIMITS.LOGIN_LINK_EXPIRY * 1000;
+
+  await loginLinkRepo.createLink({
+    tokenHash: hashToken(token),
+    email: normalizedEmail,
+    name: name?.trim() || null,
+    redirectTo: redirectTo || null,
+    expiresAt,
+    ttl: Math.ceil(expiresAt / 1000),
+  });
+
+  const link = `${WEB_APP_URL}/login?token=${encodeURIComponent(token)}`;
+  const minutes = Math.round(LIMITS.LOGIN_LINK_EXPIRY / 60);
+  await sendMail({
+    to: normalizedEmail,
+    subject: 'Your Audio Studio sign-in link',
+    text:
+      `Open this link to sign in to Audio Studio:\n\n${link}\n\n` +
+      `It works once and expires in ${minutes} minutes. ` +
+      `If you didn't ask to sign in, you can ignore this email.`,
+    html:
+      `<p>Open this link to sign in to Audio Studio:</p><p><a href="${link}">Sign in</a></p>` +
+      `<p>It works once and expires in ${minutes} minutes. ` +
+      `If you didn't ask to sign in, you can ignore this email.</p>`,
+  });
+  logger.info('Login link sent', { email: normalizedEmail });
+}
+
+/** Exchange a login link's token for a JWT. Used, expired or unknown tokens → 401. */
+export async function verifyLoginLink(token: string): Promise<VerifyLoginLinkResponse> {
+  if (typeof token !== 'string' || !token) {
+    throw new ValidationError('token is required');
+  }
+
+  const link = await loginLinkRepo.consumeLink(hashToken(token));
+  if (!link) {
+    throw new UnauthorizedError('This sign-in link is invalid, expired or already used', 'LOGIN_LINK_INVALID');
+  }
+
+  const isBootstrapAdmin = ADMIN_EMAILS.has(link.email);
+  let user = await userRepo.recordLogin(link.email, link.name, isBootstrapAdmin ? 'admin' : 'participant');
+  if (isBootstrapAdmin && user.role !== 'admin') {
+    // Listed in ADMIN_EMAILS after the account was created
+    user = (await userRepo.setRole(user.email, 'admin')) ?? user;
+  }
+
+  logger.info('User signed in', { email: user.email, userId: user.userId, role: user.role });
+  return {
+    token: generateToken(user.userId, user.email, user.role),
+    user,
+    redirectTo: link.redirectTo,
+  };
+}
+
+export async function getUser(email: string): Promise<User> {
+  const user = await userRepo.getUserByEmail(email.toLowerCase());
+  if (!user) throw new NotFoundError('User not found');
+  return user;
+}
+
+export async function listUsers(): Promise<User[]> {
+  return userRepo.getAllUsers();
+}
+
+/**
+ * Change a user's role on behalf of the admin `actorEmail`. Admins can't
+ * change their own role, so the last admin can't lock everyone out. The new
+ * role applies from the user's next sign-in (their current JWT keeps the old one).
+ */
+export async function updateUserRole(actorEmail: string, email: string, role: unknown): Promise<User> {
+  if (!validateUserRole(role)) {
+    throw new ValidationError('Invalid role');
+  }
+  const normalizedEmail = email.toLowerCase();
+  if (normalizedEmail === actorEmail.toLowerCase()) {
+    throw new ForbiddenError('You cannot change your own role', 'ROLE_SELF_CHANGE');
+  }
+
+  const user = await userRepo.setRole(normalizedEmail, role);
+  if (!user) throw new NotFoundError('User not found');
+  logger.info('Role assigned', { email: normalizedEmail, role, by: actorEmail });
+  return user;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/** Only same-app paths ("/room/abc") — never another origin ("//evil.example" or "/\evil.example") */
+function isAppPath(path: unknown): path is string {
+  return typeof path === 'string' && /^\/(?![/\\])/.test(path) && path.length <= 2048;
+}
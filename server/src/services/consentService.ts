@@ -0,0 +1,256 @@
+/**
+ * consentService.ts — Recording consent: consent documents and the signed
+ * consent records participants give before being recorded.
+ *
+ * Documents:
+ *   Admins publish consent text per locale (publishDocument). Each publish
+ *   is the next version for that locale; old versions are kept so a
+ *   consent always refers to the exact text it was given for.
+ *   getCurrentDocument() picks the locale's highest version, falling back
+ *   to the base language ("pt-BR" → "pt") and then DEFAULT_CONSENT_LOCALE.
+ *
+ * Consents:
+ *   The GreenRoom posts the participant's agreement to the document it
+ *   showed (giveConsent). The record stores the participant (name, email,
+ *   and userId when the request proves one), the document version and
+ *   body hash, the time, IP and user agent, and an HMAC signature over all
+ *   of that (CONSENT_SIGNING_SECRET). Participants who consent before their
+ *   first join have no userId yet — JOIN_ROOM sends the consentId and
+ *   linkConsent() attaches the socket's userId.
+ *
+ * Recording:
+ *   socket/recording.ts asks findMissingConsents() before START_RECORDING
+ *   and refuses while any active participant hasn't consented.
+ *
+ * Used by:
+ *   - routes/consent.ts:   /api/consent/*
+ *   - socket/session.ts:   linking the consentId on JOIN_ROOM
+ *   - socket/recording.ts: the START_RECORDING gate
+ */
+import crypto from 'crypto';
+import { v4 as uuid } from 'uuid';
+import { LIMITS } from '../shared';
+import type {
+  Consent,
+  ConsentDocument,
+  ConsentExport,
+  GiveConsentRequest,
+  PublishConsentDocumentRequest,
+  Session,
+} from '../shared';
+import * as consentDocumentRepo from '../repositories/consentDocumentRepo';
+import * as consentRepo from '../repositories/consentRepo';
+import { ValidationError, NotFoundError, ConflictError } from '../utils/errors';
+import { validateEmail, validateName } from '../utils/validators';
+import { logger } from '../utils/logger';
+
+const CONSENT_SIGNING_SECRET = process.env.CONSENT_SIGNING_SECRET || 'dev-consent-secret-change-in-production';
+
+/** Locale whose document is shown when the participant's locale has none */
+const DEFAULT_CONSENT_LOCALE = process.env.CONSENT_DEFAULT_LOCALE || 'en';
+
+/** BCP 47 language tag, restricted to language[-REGION] ("en", "pt-BR") */
+const LOCALE_REGEX = /^[a-z]{2,3}(-[A-Z]{2})?$/;
+
+/** The participant behind a consent request, when the request proves it */
+export interface ConsentIdentity {
+  userId: string | null;
+  email: string | null;         // Verified email (JWT or meeting token)
+}
+
+/** Where a consent request came from — kept as evidence */
+export interface ConsentClient {
+  ip: string | null;
+  userAgent: string | null;
+}
+
+// ─── Documents ────────────────────────────────────────────────────
+
+/** The current document for `locale`, with base-language and default fallbacks */
+export async function getCurrentDocument(locale: unknown): Promise<ConsentDocument> {
+  const candidates = new Set<string>();
+  if (typeof locale === 'string' && LOCALE_REGEX.test(locale)) {
+    candidates.add(locale);
+    candidates.add(locale.split('-')[0]);
+  }
+  candidates.add(DEFAULT_CONSENT_LOCALE);
+
+  for (const candidate of candidates) {
+    const document = await consentDocumentRepo.getLatestDocument(candidate);
+    if (document) return document;
+  }
+  throw new NotFoundError('No consent document has been published', 'CONSENT_DOCUMENT_MISSING');
+}
+
+/** Every published version, newest first — of one locale, or of all */
+export async function listDocuments(locale?: unknown): Promise<ConsentDocument[]> {
+  if (locale === undefined) {
+    const documents = await consentDocumentRepo.listAllDocuments();
+    return documents.sort((a, b) => a.locale.localeCompare(b.locale) || b.version - a.version);
+  }
+  if (typeof locale !== 'string' || !LOCALE_REGEX.test(locale)) {
+    throw new ValidationError('Invalid locale');
+  }
+  return consentDocumentRepo.listDocuments(locale);
+}
+
+/** Publish the next version of a locale's document on behalf of the admin `actorEmail` */
+export async function publishDocument(
+  actorEmail: string,
+  request: Partial<PublishConsentDocumentRequest>,
+): Promise<ConsentDocument> {
+  const { locale, title, body } = request;
+  if (typeof locale !== 'string' || !LOCALE_REGEX.test(locale)) {
+    throw new ValidationError('locale must be a language tag like "en" or "pt-BR"');
+  }
+  if (typeof title !== 'string' || !title.trim() || title.length > LIMITS.CONSENT_TITLE_MAX_LENGTH) {
+    throw new ValidationError(`title is required (max ${LIMITS.CONSENT_TITLE_MAX_LENGTH} characters)`);
+  }
+  if (typeof body !== 'string' || !body.trim() || body.length > LIMITS.CONSENT_BODY_MAX_LENGTH) {
+    throw new ValidationError(`body is required (max ${LIMITS.CONSENT_BODY_MAX_LENGTH} characters)`);
+  }
+
+  const latest = await consentDocumentRepo.getLatestDocument(locale);
+  const document: ConsentDocument = {
+    locale,
+    version: (latest?.version ?? 0) + 1,
+    title: title.trim(),
+    body,
+    bodyHash: sha256(body),
+    publishedBy: actorEmail,
+    publishedAt: new Date().toISOString(),
+  };
+
+  // Conditional on the version being new — loses to a concurrent publish
+  const created = await consentDocumentRepo.putDocument(document);
+  if (!created) {
+    throw new ConflictError(`Version ${document.version} of "${locale}" was just published — try again`);
+  }
+  return document;
+}
+
+// ─── Consents ─────────────────────────────────────────────────────
+
+/**
+ * Record a participant's consent to be recorded in `meetingId`. The
+ * document must be the current version of its locale, so a consent can't
+ * be given for text that has since been replaced. The meeting may not
+ * exist yet — it is created by the first JOIN_ROOM, after the GreenRoom.
+ */
+export async function giveConsent(
+  meetingId: string,
+  request: Partial<GiveConsentRequest>,
+  identity: ConsentIdentity,
+  client: ConsentClient,
+): Promise<Consent> {
+  const { locale, version, name, email } = request;
+  if (typeof name !== 'string' || !name.trim() || !validateName(name)) {
+    throw new ValidationError('name is required');
+  }
+  if (email !== undefined && (typeof email !== 'string' || !validateEmail(email.trim()))) {
+    throw new ValidationError('Invalid email');
+  }
+  if (typeof locale !== 'string' || typeof version !== 'number') {
+    throw new ValidationError('locale and version of the consent document are required');
+  }
+
+  const [document, latest] = await Promise.all([
+    consentDocumentRepo.getDocument(locale, version),
+    consentDocumentRepo.getLatestDocument(locale),
+  ]);
+  if (!document) {
+    throw new NotFoundError('Consent document not found', 'CONSENT_DOCUMENT_MISSING');
+  }
+  if (latest && latest.version !== document.version) {
+    throw new ConflictError(
+      'The consent document has been updated — please review the new version',
+      'CONSENT_DOCUMENT_OUTDATED',
+    );
+  }
+
+  const unsigned: Omit<Consent, 'signature'> = {
+    meetingId,
+    consentId: uuid(),
+    userId: identity.userId,
+    name: name.trim(),
+    email: identity.email ?? (email ? email.trim().toLowerCase() : null),
+    documentLocale: document.locale,
+    documentVersion: document.version,
+    documentHash: document.bodyHash,
+    consentedAt: new Date().toISOString(),
+    ip: client.ip,
+    userAgent: client.userAgent ? client.userAgent.slice(0, 512) : null,
+  };
+  const consent: Consent = { ...unsigned, signature: sign(unsigned) };
+  await consentRepo.putConsent(consent);
+  return consent;
+}
+
+/**
+ * Attach the JOIN_ROOM socket's userId to the consent it brought. Returns
+ * false if the consent doesn't exist or already belongs to someone else.
+ */
+export async function linkConsent(meetingId: string, consentId: string, userId: string): Promise<boolean> {
+  const linked = await consentRepo.linkUser(meetingId, consentId, userId);
+  if (!linked) {
+    logger.warn('Consent not linked', { meetingId, consentId, userId });
+  }
+  return linked;
+}
+
+/** The active sessions whose participant hasn't consented for `meetingId` */
+export async function findMissingConsents(meetingId: string, sessions: Session[]): Promise<Session[]> {
+  const consents = await consentRepo.listConsents(meetingId);
+  const consented = new Set(consents.map((c) => c.userId).filter(Boolean));
+  return sessions.filter((s) => !consented.has(s.userId));
+}
+
+/** All consents for a meeting with their signatures checked, plus the documents they refer to */
+export async function exportConsents(meetingId: string): Promise<ConsentExport> {
+  const consents = await consentRepo.listConsents(meetingId);
+
+  const versions = new Map<string, { locale: string; version: number }>();
+  for (const c of consents) {
+    versions.set(`${c.documentLocale}#${c.documentVersion}`, { locale: c.documentLocale, version: c.documentVersion });
+  }
+  const documents = await Promise.all(
+    [...versions.values()].map(({ locale, version }) => consentDocumentRepo.getDocument(locale, version)),
+  );
+
+  logger.info('Consents exported', { meetingId, count: consents.length });
+  return {
+    meetingId,
+    exportedAt: new Date().toISOString(),
+    consents: consents.map((c) => ({ ...c, signatureValid: verifySignature(c) })),
+    documents: documents.filter((d): d is ConsentDocument => d !== null),
+  };
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+function sha256(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/** HMAC over every field but userId (linked later) and the signature itself, in a fixed order */
+function sign(consent: Omit<Consent, 'signature'>): string {
+  const signed = [
+    consent.meetingId,
+    consent.consentId,
+    consent.name,
+    consent.email,
+    consent.documentLocale,
+    consent.documentVersion,
+    consent.documentHash,
+    consent.consentedAt,
+    consent.ip,
+    consent.userAgent,
+  ];
+  return crypto.createHmac('sha256', CONSENT_SIGNING_SECRET).update(JSON.stringify(signed)).digest('hex');
+}
+
+function verifySignature(consent: Consent): boolean {
+  const expected = Buffer.from(sign(consent), 'hex');
+  const actual = Buffer.from(consent.signature ?? '', 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
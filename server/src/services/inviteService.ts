@@ -0,0 +1,184 @@
+/**
+ * inviteService.ts — Signed invite links for a meeting's guest slot.
+ *
+ * A meeting with a hostEmail (created by a signed-in host, or claimed by one
+ * through assign-host) is invite-only:
+ *   - assign-guest (routes/meetings.ts) only accepts a valid invite token
+ *   - JOIN_ROOM (socket/session.ts) gives the guest role only to a socket
+ *     that redeems one (or returns to a session it already had)
+ *
+ * Tokens are JWTs signed with their own secret (INVITE_TOKEN_SECRET) and
+ * audience, like upload and meeting tokens, over { meetingId, slot,
+ * inviteId }. The Invites row holds the slot's current inviteId: issuing
+ * again for the slot writes a new one, which makes every earlier link for
+ * the slot invalid (re-issue); deleting the row revokes without a
+ * replacement. Both release the meeting's guest slot (guestEmail/guestName)
+ * so the next invitee can claim it. Neither removes someone already in the room.
+ *
+ * Only the meeting's host (JWT email = hostEmail) or an admin can manage
+ * its invites. As elsewhere, development requests without a JWT pass.
+ *
+ * Used by:
+ *   - routes/meetings.ts: /api/meetings/:id/invites, assign-guest
+ *   - socket/session.ts:  redeeming the invite on JOIN_ROOM
+ */
+import jwt from 'jsonwebtoken';
+import { v4 as uuid } from 'uuid';
+import { LIMITS, INVITE_SLOTS } from '../shared';
+import type { Invite, InviteSlot, IssueInviteRequest, IssueInviteResponse, Meeting } from '../shared';
+import * as inviteRepo from '../repositories/inviteRepo';
+import * as meetingRepo from '../repositories/meetingRepo';
+import type { AuthUser } from '../middleware/auth';
+import { ValidationError, UnauthorizedError, ForbiddenError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const INVITE_TOKEN_SECRET = process.env.INVITE_TOKEN_SECRET || 'dev-invite-secret-change-in-production';
+const INVITE_TOKEN_AUDIENCE = 'invite';
+
+/** Shortest invite lifetime a host can ask for (seconds) */
+const MIN_INVITE_EXPIRY = 60;
+
+interface InviteTokenClaims {
+  meetingId: string;
+  slot: InviteSlot;
+  inviteId: string;
+}
+
+/** True if the meeting's guest slot can only be claimed with an invite */
+export function isInviteOnly(meeting: Meeting): boolean {
+  return !!meeting.hostEmail;
+}
+
+/** Issue (or re-issue) the invite for `slot`, replacing any earlier one */
+export async function issueInvite(
+  meetingId: string,
+  slot: string,
+  actor: AuthUser | undefined,
+  options: IssueInviteRequest = {},
+): Promise<IssueInviteResponse> {
+  const inviteSlot = parseSlot(slot);
+  const expiresInSeconds = options.expiresInSeconds ?? LIMITS.INVITE_EXPIRY;
+  if (
+    !Number.isInteger(expiresInSeconds) ||
+    expiresInSeconds < MIN_INVITE_EXPIRY ||
+    expiresInSeconds > LIMITS.MAX_INVITE_EXPIRY
+  ) {
+    throw new ValidationError(
+      `expiresInSeconds must be a whole number between ${MIN_INVITE_EXPIRY} and ${LIMITS.MAX_INVITE_EXPIRY}`,
+    );
+  }
+  const singleUse = options.singleUse ?? true;
+  if (typeof singleUse !== 'boolean') {
+    throw new ValidationError('singleUse must be a boolean');
+  }
+
+  await authorizeHost(meetingId, actor);
+
+  const issuedAt = new Date();
+  const invite: Invite = {
+    meetingId,
+    slot: inviteSlot,
+    inviteId: uuid(),
+    singleUse,
+    issuedBy: actor?.email ?? 'development',
+    issuedAt: issuedAt.toISOString(),
+    expiresAt: new Date(issuedAt.getTime() + expiresInSeconds * 1000).toISOString(),
+    redeemedAt: null,
+    redeemedBy: null,
+  };
+  const claims: InviteTokenClaims = { meetingId, slot: inviteSlot, inviteId: invite.inviteId };
+  const token = jwt.sign(claims, INVITE_TOKEN_SECRET, {
+    audience: INVITE_TOKEN_AUDIENCE,
+    expiresIn: expiresInSeconds,
+  });
+
+  await inviteRepo.putInvite(invite);
+  await meetingRepo.clearGuest(meetingId);
+  return { invite, token };
+}
+
+/** Revoke the invite for `slot` — its links stop working */
+export async function revokeInvite(meetingId: string, slot: string, actor: AuthUser | undefined): Promise<void> {
+  const inviteSlot = parseSlot(slot);
+  await authorizeHost(meetingId, actor);
+
+  const invite = await inviteRepo.getInvite(meetingId, inviteSlot);
+  if (!invite) throw new NotFoundError(`No ${inviteSlot} invite for meeting ${meetingId}`);
+
+  await inviteRepo.deleteInvite(meetingId, inviteSlot);
+  await meetingRepo.clearGuest(meetingId);
+}
+
+export async function listInvites(meetingId: string, actor: AuthUser | undefined): Promise<Invite[]> {
+  await authorizeHost(meetingId, actor);
+  return inviteRepo.listInvites(meetingId);
+}
+
+/**
+ * Check an invite token for `meetingId` without using it up. Returns the
+ * slot it fills; throws 401 INVITE_INVALID if it is forged, expired,
+ * replaced, revoked, or a single-use invite that was already redeemed.
+ */
+export async function checkInvite(meetingId: string, token: unknown): Promise<InviteSlot> {
+  const claims = verifyInviteToken(meetingId, token);
+  const invite = await inviteRepo.getInvite(meetingId, claims.slot);
+  if (
+    !invite ||
+    invite.inviteId !== claims.inviteId ||
+    new Date(invite.expiresAt) <= new Date() ||
+    (invite.singleUse && invite.redeemedAt)
+  ) {
+    throw invalidInvite();
+  }
+  return claims.slot;
+}
+
+/** Redeem an invite token for `userId` joining `meetingId`. Returns the slot it fills. */
+export async function redeemInvite(meetingId: string, token: unknown, userId: string): Promise<InviteSlot> {
+  const claims = verifyInviteToken(meetingId, token);
+  const invite = await inviteRepo.redeemInvite(meetingId, claims.slot, claims.inviteId, userId);
+  if (!invite) throw invalidInvite();
+  return invite.slot;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+function parseSlot(slot: string): InviteSlot {
+  if (!(INVITE_SLOTS as readonly string[]).includes(slot)) {
+    throw new ValidationError(`slot must be one of: ${INVITE_SLOTS.join(', ')}`);
+  }
+  return slot as InviteSlot;
+}
+
+/** Only the meeting's host or an admin manages its invites */
+async function authorizeHost(meetingId: string, actor: AuthUser | undefined): Promise<void> {
+  const meeting = await meetingRepo.getMeetingById(meetingId);
+  if (!meeting) throw new NotFoundError(`Meeting ${meetingId} not found`);
+
+  // authMiddleware's development bypass leaves req.user unset
+  if (!actor && process.env.ENV === 'development') return;
+  if (!actor) throw new UnauthorizedError('Not signed in');
+
+  const isHost = !!meeting.hostEmail && meeting.hostEmail.toLowerCase() === actor.email.toLowerCase();
+  if (!isHost && actor.role !== 'admin') {
+    throw new ForbiddenError("Only the meeting's host can manage its invites", 'MEETING_HOST_REQUIRED');
+  }
+}
+
+function verifyInviteToken(meetingId: string, token: unknown): InviteTokenClaims {
+  if (typeof token !== 'string' || !token) {
+    throw new UnauthorizedError('This meeting is invite-only — an invite link is required', 'INVITE_REQUIRED');
+  }
+  try {
+    const claims = jwt.verify(token, INVITE_TOKEN_SECRET, { audience: INVITE_TOKEN_AUDIENCE }) as InviteTokenClaims;
+    if (claims.meetingId !== meetingId) throw new Error('Invite is for another meeting');
+    return claims;
+  } catch (err) {
+    logger.warn('Invite token verification failed', { meetingId, error: (err as Error).message });
+    throw invalidInvite();
+  }
+}
+
+function invalidInvite(): UnauthorizedError {
+  return new UnauthorizedError('This invite link is invalid, expired or already used', 'INVITE_INVALID');
+}
@@ -5,7 +5,9 @@
  * It handles:
  *   - Input validation (title, emails, names)
  *   - Meeting creation with UUID generation
- *   - Race-safe host/guest email assignment (delegates to repo conditional writes)
+ *   - Race-safe host/guest email assignment (delegates to repo conditional writes);
+ *     the host slot is only claimed by a signed-in user for their own email,
+ *     and the guest slot of an invite-only meeting needs an invite (inviteService)
  *   - Auto-creation of meetings when users join via socket (getOrCreateMeeting)
  *
  * Used by:
@@ -17,7 +19,9 @@ import { v4 as uuid } from 'uuid';
 import type { Meeting, MeetingStatus } from '../shared';
 import { MEETING_STATUS } from '../shared';
 import * as meetingRepo from '../repositories/meetingRepo';
-import { NotFoundError, ConflictError, ValidationError } from '../utils/errors';
+import * as inviteService from './inviteService';
+import type { AuthUser } from '../middleware/auth';
+import { NotFoundError, ConflictError, ValidationError, ForbiddenError } from '../utils/errors';
 import { validateTitle, validateEmail, validateName } from '../utils/validators';
 import { logger } from '../utils/logger';
 
@@ -83,10 +87,20 @@ export async function updateStatus(meetingId: string, status: MeetingStatus): Pr
   await meetingRepo.updateMeetingStatus(meetingId, status);
 }
 
-export async function assignHost(meetingId: string, email: string, name?: string): Promise<boolean> {
+export async function assignHost(
+  meetingId: string,
+  email: string,
+  name: string | undefined,
+  actor: AuthUser | undefined,
+): Promise<boolean> {
   if (!validateEmail(email)) throw new ValidationError('Invalid email');
   if (name !== undefined && !validateName(name)) throw new ValidationError('Host name too long');
 
+  // authMiddleware's development bypass leaves actor unset
+  if (actor && actor.email.toLowerCase() !== email.toLowerCase()) {
+    throw new ForbiddenError('You can only claim the host slot for your own email', 'HOST_EMAIL_MISMATCH');
+  }
+
   // Prevent same email from being both host and guest
   const meeting = await getMeeting(meetingId);
   if (meeting.guestEmail && meeting.guestEmail.toLowerCase() === email.toLowerCase()) {
@@ -104,19 +118,28 @@ export async function assignGuest(
   meetingId: string,
   email: string,
   name: string,
+  inviteToken?: string,
 ): Promise<boolean> {
   if (!validateEmail(email)) throw new ValidationError('Invalid email');
   if (!validateName(name)) throw new ValidationError('Name too long');
 
-  // Prevent same email from being both host and guest
   const meeting = await getMeeting(meetingId);
+
+  // Invite-only meetings: check (but don't use up) the invite — JOIN_ROOM redeems it
+  if (inviteService.isInviteOnly(meeting)) {
+    await inviteService.checkInvite(meetingId, inviteToken);
+  }
+
+  // Prevent same email from being both host and guest
   if (meeting.hostEmail && meeting.hostEmail.toLowerCase() === email.toLowerCase()) {
     throw new ConflictError('This email is already assigned as host for this meeting');
   }
 
+  // The slot records the first guest; panel meetings take more guests
+  // without one (JOIN_ROOM enforces LIMITS.MAX_PARTICIPANTS)
   const assigned = await meetingRepo.assignGuestEmail(meetingId, email, name);
   if (!assigned) {
-    throw new ConflictError(`Guest already assigned for meeting ${meetingId}`);
+    logger.info('Guest slot already assigned — joining as an additional guest', { meetingId, email });
   }
   return assigned;
 }
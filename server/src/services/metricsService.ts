@@ -131,20 +131,20 @@ export function ingestMetrics(
     });
   }
 
-  // Overlap check (both speakers speaking simultaneously)
-  const speakerNames = Object.keys(room.speakers);
-  if (speakerNames.length === 2) {
-    const [s1, s2] = speakerNames;
-    const r1 = room.speakers[s1].speechRatio;
-    const r2 = room.speakers[s2].speechRatio;
-    // Rough overlap estimate: min of both speech ratios × 100
-    const overlap = Math.min(r1, r2) * 100;
+  // Overlap check (two or more speakers speaking simultaneously)
+  const speechRatios = Object.values(room.speakers)
+    .map((s) => s.speechRatio)
+    .sort((a, b) => b - a);
+  if (speechRatios.length >= 2) {
+    // Rough overlap estimate: the second-highest speech ratio × 100
+    // (with two speakers, the lower of the two)
+    const overlap = speechRatios[1] * 100;
     room.overlapPercent = overlap;
 
     if (overlap > AUDIO_THRESHOLDS.OVERLAP_WARNING_PCT) {
       warnings.push({
         type: WARNING_TYPE.OVERLAP,
-        speaker: 'both',
+        speaker: 'all',
         message: `Speakers are overlapping ${overlap.toFixed(0)}% of the time`,
         severity: SEVERITY.WARNING,
       });
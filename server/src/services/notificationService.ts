@@ -9,6 +9,7 @@
  * server.ts after the Socket.IO server is created.
  *
  * Events emitted:
+ *   - RECORDINGS_UPDATED: a participant's upload finished — clients refetch the list
  *   - PROCESSING_STATUS: pipeline progress updates (step, %, time estimate)
  *   - PROCESSING_COMPLETE: final results with profile and metrics
  *   - RECORDING_REJECTED: quality too low — includes reason and suggestions
@@ -25,6 +26,11 @@ export function setIOInstance(io: SocketIOServer): void {
   ioInstance = io;
 }
 
+export function notifyRecordingsUpdated(roomId: string, sessionId: string): void {
+  if (!ioInstance) return;
+  ioInstance.to(roomId).emit(SOCKET_EVENTS.RECORDINGS_UPDATED, { sessionId });
+}
+
 export function notifyProcessingStatus(
   roomId: string,
   step: string,
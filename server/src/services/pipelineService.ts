@@ -1,12 +1,24 @@
 /**
- * pipelineService.ts — Triggers the external audio processing pipeline via SQS.
+ * pipelineService.ts — Triggers the audio processing pipeline via SQS.
  *
- * After recording stops and both participants upload their audio files,
+ * After recording stops and the participants upload their audio files,
  * this service checks if all recordings are complete and, if so, publishes
- * a ProcessSessionMessage to the SQS FIFO processing queue.
+ * a ProcessSessionMessage to the SQS FIFO processing queue. It is called
+ * by uploadService after every completed upload (simple or multipart).
  *
- * The external pipeline (not part of this server) then:
- *   1. Downloads both audio files from S3
+ * "All" is the session's recording set — the userIds START_RECORDING went
+ * to, kept on the RecordingState (see recordingRepo.areAllParticipantRecordingsComplete).
+ * The message carries one track per participant, host first. Each track's
+ * role is the uploader's role when the take started (RecordingState.
+ * participantRoles). Once the RecordingState has moved on to another take
+ * it is their role now — the userRole on their Session row, falling back to
+ * the meeting's host/guest email assignment — never the order DynamoDB
+ * returns the recordings in. A take whose host has since handed the role
+ * on may have no host track; the worker then labels every track a guest.
+ * Each recording's speakerId and speaker profile travel with its track.
+ *
+ * The processing worker (processing/ at the repo root) then:
+ *   1. Downloads every track from S3
  *   2. Runs quality analysis (SNR, echo, overlap, etc.)
  *   3. Classifies the recording quality as P0-P4
  *   4. Optionally generates ASR transcripts and annotator output
@@ -16,13 +28,17 @@
  *   - MessageGroupId (roomId): in-order processing per room
  *   - DeduplicationId (roomId:sessionId): no duplicate processing
  */
-import type { ProcessSessionMessage } from '../shared';
+import type { ProcessingTrack, ProcessSessionMessage, Recording, Role } from '../shared';
+import { ROLES } from '../shared';
 import { publishMessage, QUEUES } from '../infra/sqs';
 import * as recordingRepo from '../repositories/recordingRepo';
+import * as recordingStateRepo from '../repositories/recordingStateRepo';
+import * as sessionRepo from '../repositories/sessionRepo';
+import * as meetingRepo from '../repositories/meetingRepo';
 import { logger } from '../utils/logger';
 
 /**
- * Check if both participants' recordings are complete for a session.
+ * Check if every participant's recording is complete for a session.
  * If yes, publish a processing message to the SQS queue.
  * Returns true if the pipeline was triggered, false if not ready yet.
  */
@@ -30,9 +46,16 @@ export async function triggerProcessingIfReady(
   roomId: string,
   sessionId: string,
 ): Promise<boolean> {
+  // The recording set is only known while the RecordingState is still on this take
+  const recordingState = await recordingStateRepo.getRecordingState(roomId);
+  const onThisTake = recordingState?.sessionId === sessionId;
+  const participantUserIds = onThisTake ? recordingState.participantUserIds ?? null : null;
+  const savedRoles = onThisTake ? recordingState.participantRoles ?? {} : {};
+
   const { complete, recordings } = await recordingRepo.areAllParticipantRecordingsComplete(
     roomId,
     sessionId,
+    participantUserIds,
   );
 
   if (!complete) {
@@ -44,22 +67,51 @@ export async function triggerProcessingIfReady(
     return false;
   }
 
-  // Identify host and guest recordings by participant convention
-  // We expect 2 completed recordings for the session
-  const hostRecording = recordings[0];
-  const guestRecording = recordings[1];
+  // Only the recording set's files go to processing (all of them without one).
+  // Others are from participants removed mid-take (socket/host.ts) — kept,
+  // but not processed.
+  const setRecordings = participantUserIds
+    ? recordings.filter((r) => participantUserIds.includes(r.participantName))
+    : recordings;
+  if (setRecordings.length < recordings.length) {
+    logger.info('Leaving recordings outside the recording set out of processing', {
+      roomId,
+      sessionId,
+      participants: recordings
+        .filter((r) => !setRecordings.includes(r))
+        .map((r) => r.participantName),
+    });
+  }
 
-  if (!hostRecording || !guestRecording) {
-    logger.warn('Could not identify host/guest recordings', { roomId, sessionId });
+  // Label each track with its uploader's role when the take started — the
+  // host role may have changed hands since — or, failing that, their role now
+  const roles = await Promise.all(
+    setRecordings.map((r) => savedRoles[r.participantName] ?? resolveParticipantRole(roomId, r)),
+  );
+  if (roles.some((role) => role === null)) {
+    logger.warn('Could not identify the participant roles', {
+      roomId,
+      sessionId,
+      participants: setRecordings.map((r, i) => ({ participantName: r.participantName, role: roles[i] })),
+    });
     return false;
   }
 
+  const tracks: ProcessingTrack[] = setRecordings.map((r, i) => ({
+    userId: r.participantName,
+    role: roles[i] as Role,
+    key: r.filePath,
+    speakerId: r.speakerId ?? null,
+    speaker: r.speakerProfile ?? null,
+  }));
+  // Host first — the worker labels the rest Guest 1, Guest 2, …
+  tracks.sort((a, b) => Number(b.role === ROLES.HOST) - Number(a.role === ROLES.HOST));
+
   const message: ProcessSessionMessage = {
     action: 'process-session',
     roomId,
     sessionId,
-    hostKey: hostRecording.filePath,
-    guestKey: guestRecording.filePath,
+    tracks,
     timestamp: new Date().toISOString(),
   };
 
@@ -75,6 +127,22 @@ export async function triggerProcessingIfReady(
     `${roomId}:${sessionId}`, // Deduplication ID
   );
 
-  logger.info('Processing pipeline triggered', { roomId, sessionId });
+  logger.info('Processing pipeline triggered', { roomId, sessionId, tracks: tracks.length });
   return true;
 }
+
+/**
+ * Look up the role of the participant who uploaded a recording.
+ * participantName is the uploader's userId, so their Session row for this
+ * meeting carries the server-assigned role. If no session is found (e.g.,
+ * sessions were cleaned up), fall back to matching against the meeting's
+ * hostEmail/guestEmail.
+ */
+async function resolveParticipantRole(roomId: string, recording: Recording): Promise<Role | null> {
+  if (!recording.participantName) return null;
+
+  const session = await sessionRepo.findLatestByMeetingAndUserId(roomId, recording.participantName);
+  if (session) return session.userRole;
+
+  return meetingRepo.getParticipantRole(roomId, recording.participantName);
+}
@@ -0,0 +1,147 @@
+/**
+ * speakerService.ts — The Speakers registry and per-speaker history.
+ *
+ * Identity:
+ *   A userId alone doesn't follow a person between meetings — anonymous
+ *   sockets get a fresh `user_<uuid>` every visit. A speaker is therefore
+ *   a signed-in account: its email was verified by a magic link, and its
+ *   userId (the speakerId) is the same in every meeting. resolveSpeakerId()
+ *   runs on JOIN_ROOM:
+ *     - JWT socket           → registers/touches the account's speaker
+ *     - meeting-token socket → keeps the speaker of its earlier session in
+ *                              the meeting (a signed-in participant's reload)
+ *     - anonymous socket     → no speaker
+ *   The Session stores the speakerId, and uploadService copies it onto
+ *   each Recording.
+ *
+ * History (getSpeakerHistory):
+ *   The speaker's meetings (from their sessions), the completed
+ *   recordings they uploaded in each with their total length, and how
+ *   those recordings' sessions were classified by the processing pipeline.
+ *   Built on demand from the Sessions, Recordings and ProcessingResults
+ *   tables — nothing is aggregated ahead of time.
+ *
+ * Access: admins read any speaker; a signed-in user reads their own. As
+ * elsewhere, development requests without a JWT pass.
+ *
+ * Used by:
+ *   - routes/speakers.ts: /api/speakers/*
+ *   - socket/session.ts:  resolving the speaker on JOIN_ROOM
+ */
+import { RECORDING_STATUS } from '../shared';
+import type { QualityProfile, Speaker, SpeakerHistory, SpeakerMeeting } from '../shared';
+import * as speakerRepo from '../repositories/speakerRepo';
+import * as sessionRepo from '../repositories/sessionRepo';
+import * as recordingRepo from '../repositories/recordingRepo';
+import * as meetingRepo from '../repositories/meetingRepo';
+import * as processingResultRepo from '../repositories/processingResultRepo';
+import type { AuthUser } from '../middleware/auth';
+import { UnauthorizedError, ForbiddenError, NotFoundError } from '../utils/errors';
+
+/**
+ * The speakerId for a participant joining `meetingId`, or null if they
+ * aren't a registered speaker. `verifiedEmail` is the account email of a
+ * JWT-authenticated socket — pass null for any other socket.
+ */
+export async function resolveSpeakerId(
+  meetingId: string,
+  userId: string,
+  verifiedEmail: string | null,
+): Promise<string | null> {
+  if (verifiedEmail) {
+    await speakerRepo.touchSpeaker(userId, verifiedEmail.toLowerCase());
+    return userId;
+  }
+
+  // A meeting token restores the identity of an earlier join — and its speaker
+  const previous = await sessionRepo.findLatestByMeetingAndUserId(meetingId, userId);
+  return previous?.speakerId ?? null;
+}
+
+export async function listSpeakers(): Promise<Speaker[]> {
+  const speakers = await speakerRepo.listSpeakers();
+  return speakers.sort((a, b) => a.firstSeenAt.localeCompare(b.firstSeenAt));
+}
+
+export async function getSpeaker(speakerId: string, actor: AuthUser | undefined): Promise<Speaker> {
+  authorizeSpeaker(speakerId, actor);
+  const speaker = await speakerRepo.getSpeaker(speakerId);
+  if (!speaker) throw new NotFoundError('Speaker not found');
+  return speaker;
+}
+
+export async function getSpeakerHistory(speakerId: string, actor: AuthUser | undefined): Promise<SpeakerHistory> {
+  const speaker = await getSpeaker(speakerId, actor);
+  const sessions = await sessionRepo.listBySpeakerId(speakerId);
+
+  // Sessions come oldest first, so the first one per meeting is the first join
+  const sessionsByMeeting = new Map<string, typeof sessions>();
+  for (const session of sessions) {
+    const list = sessionsByMeeting.get(session.meetingId) ?? [];
+    list.push(session);
+    sessionsByMeeting.set(session.meetingId, list);
+  }
+
+  const qualityProfiles: Record<QualityProfile, number> = { P0: 0, P1: 0, P2: 0, P3: 0, P4: 0 };
+  let unprocessedRecordings = 0;
+  let totalRecordedSec = 0;
+  const meetings: SpeakerMeeting[] = [];
+
+  // One meeting at a time — a speaker's history is small, and this keeps
+  // the read load on the tables flat
+  for (const [meetingId, meetingSessions] of sessionsByMeeting) {
+    const meeting = await meetingRepo.getMeetingById(meetingId);
+    const recordings = (await recordingRepo.getRecordingsByMeeting(meetingId)).filter(
+      (r) => r.speakerId === speakerId && r.status === RECORDING_STATUS.COMPLETED,
+    );
+    const results = recordings.length > 0 ? await processingResultRepo.getResultsByMeeting(meetingId) : [];
+    const profileBySession = new Map(results.map((r) => [r.sessionId, r.profile]));
+
+    let recordedSec = 0;
+    for (const recording of recordings) {
+      recordedSec += recording.durationSec ?? 0;
+      const profile = profileBySession.get(recording.sessionId);
+      if (profile) {
+        qualityProfiles[profile]++;
+      } else {
+        unprocessedRecordings++;
+      }
+    }
+    totalRecordedSec += recordedSec;
+
+    meetings.push({
+      meetingId,
+      title: meeting?.title ?? null,
+      role: meetingSessions[meetingSessions.length - 1].userRole,
+      firstJoinedAt: meetingSessions[0].joinedAt,
+      recordings: recordings.length,
+      recordedMinutes: toMinutes(recordedSec),
+    });
+  }
+
+  return {
+    speaker,
+    meetings,
+    totalRecordedMinutes: toMinutes(totalRecordedSec),
+    qualityProfiles,
+    unprocessedRecordings,
+  };
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+/** Admins read any speaker; everyone else only the speaker they are */
+function authorizeSpeaker(speakerId: string, actor: AuthUser | undefined): void {
+  // authMiddleware's development bypass leaves req.user unset
+  if (!actor && process.env.ENV === 'development') return;
+  if (!actor) throw new UnauthorizedError('Not signed in');
+
+  if (actor.role !== 'admin' && actor.userId !== speakerId) {
+    throw new ForbiddenError('You can only view your own speaker history', 'SPEAKER_ACCESS_DENIED');
+  }
+}
+
+/** Seconds → minutes, rounded to 0.1 */
+function toMinutes(seconds: number): number {
+  return Math.round(seconds / 6) / 10;
+}
@@ -0,0 +1,180 @@
+/**
+ * uploadJanitorService.ts — Periodic cleanup of uploads that never finished.
+ *
+ * An interrupted upload leaves three things behind, none of which expire
+ * on their own:
+ *   - an incomplete S3 multipart upload (its parts are billed as storage)
+ *   - the temp Part 1 copy at temp_uploads/{uploadId}_part1.wav
+ *   - a Recording row stuck in 'uploading'
+ *
+ * Each run, with `cutoff` = now − UPLOAD_JANITOR_MAX_AGE_HOURS:
+ *   1. Aborts multipart uploads under recordings/ initiated before cutoff.
+ *      Younger ones are "live" and everything tied to them is left alone.
+ *   2. Deletes temp Part 1 objects older than cutoff whose upload isn't live
+ *      (this also sweeps the copies left behind by completed uploads).
+ *   3. Marks 'uploading' rows created before cutoff whose upload isn't live
+ *      as 'abandoned' — conditionally, so a concurrent /complete wins.
+ *
+ * The max age must exceed the longest recording: a streaming upload is
+ * initiated when recording starts and stays open until it stops.
+ *
+ * Multi-pod safety: every step is idempotent, and a DynamoDB lease
+ * (lockRepo) limits the periodic run to one pod per interval. The
+ * dry-run report (GET /api/ops/upload-janitor) skips the lease and
+ * changes nothing.
+ *
+ * Configuration (environment):
+ *   UPLOAD_JANITOR_MAX_AGE_HOURS      — default 48
+ *   UPLOAD_JANITOR_INTERVAL_MINUTES   — default 60; 0 disables the periodic run
+ */
+import * as s3 from '../infra/s3';
+import * as recordingRepo from '../repositories/recordingRepo';
+import * as lockRepo from '../repositories/lockRepo';
+import { OWNER_ID, readNumberEnv } from '../utils/process';
+import { logger } from '../utils/logger';
+
+const LEASE_NAME = 'upload-janitor';
+const RECORDINGS_PREFIX = 'recordings/';
+
+/** Delay before the first run, so a rolling deploy doesn't race on boot */
+const STARTUP_DELAY_MS = 60_000;
+
+const DEFAULT_MAX_AGE_HOURS = 48;
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+export interface UploadJanitorReport {
+  dryRun: boolean;
+  cutoff: string;               // ISO 8601 — anything started before this is stale
+  abortedUploads: Array<{ key: string; uploadId: string; initiated: string }>;
+  deletedTempObjects: string[]; // S3 keys under temp_uploads/
+  abandonedRecordings: Array<{ meetingId: string; recordingId: string }>;
+  errors: string[];             // Per-item failures (the run continues past them)
+}
+
+// ─── Cleanup ─────────────────────────────────────────────────────
+
+/** Run one cleanup pass. With dryRun, only report what would be cleaned up. */
+export async function runUploadJanitor(dryRun: boolean): Promise<UploadJanitorReport> {
+  const maxAgeHours = readNumberEnv('UPLOAD_JANITOR_MAX_AGE_HOURS', DEFAULT_MAX_AGE_HOURS);
+  const cutoff = new Date(Date.now() - maxAgeHours * 3_600_000);
+  const report: UploadJanitorReport = {
+    dryRun,
+    cutoff: cutoff.toISOString(),
+    abortedUploads: [],
+    deletedTempObjects: [],
+    abandonedRecordings: [],
+    errors: [],
+  };
+
+  // 1. Abort stale multipart uploads; the rest are live
+  const liveUploadIds = new Set<string>();
+  for (const upload of await s3.listMultipartUploads(RECORDINGS_PREFIX)) {
+    if (upload.initiated >= cutoff) {
+      liveUploadIds.add(upload.uploadId);
+      continue;
+    }
+    await collectErrors(report, `abort ${upload.key} (${upload.uploadId})`, async () => {
+      if (!dryRun) await s3.abortMultipartUpload(upload.key, upload.uploadId);
+      report.abortedUploads.push({
+        key: upload.key,
+        uploadId: upload.uploadId,
+        initiated: upload.initiated.toISOString(),
+      });
+    });
+  }
+
+  // 2. Delete temp Part 1 copies nothing will read again
+  for (const object of await s3.listObjects(s3.TEMP_UPLOADS_PREFIX)) {
+    const uploadId = s3.parseTempS3Key(object.key);
+    if (object.lastModified >= cutoff || (uploadId && liveUploadIds.has(uploadId))) continue;
+
+    await collectErrors(report, `delete ${object.key}`, async () => {
+      if (!dryRun) await s3.deleteObject(object.key);
+      report.deletedTempObjects.push(object.key);
+    });
+  }
+
+  // 3. Mark rows of uploads that will never complete
+  for (const recording of await recordingRepo.scanUploadingRecordings(cutoff.toISOString())) {
+    if (recording.uploadId && liveUploadIds.has(recording.uploadId)) continue;
+
+    const { meetingId, recordingId } = recording;
+    await collectErrors(report, `abandon ${meetingId}/${recordingId}`, async () => {
+      if (dryRun || (await recordingRepo.markRecordingAbandoned(meetingId, recordingId))) {
+        report.abandonedRecordings.push({ meetingId, recordingId });
+      }
+    });
+  }
+
+  logger.info('Upload janitor pass finished', {
+    dryRun,
+    cutoff: report.cutoff,
+    abortedUploads: report.abortedUploads.length,
+    deletedTempObjects: report.deletedTempObjects.length,
+    abandonedRecordings: report.abandonedRecordings.length,
+    errors: report.errors.length,
+  });
+  return report;
+}
+
+async function collectErrors(
+  report: UploadJanitorReport,
+  label: string,
+  task: () => Promise<void>,
+): Promise<void> {
+  try {
+    await task();
+  } catch (err) {
+    report.errors.push(`${label}: ${(err as Error).message}`);
+  }
+}
+
+// ─── Scheduling ──────────────────────────────────────────────────
+// Same recursive setTimeout chain as the SQS consumer. Every pod runs the
+// timer; the lease (held for one interval, renewed by its owner) decides
+// which pod actually cleans up. If that pod dies, the lease lapses and
+// another pod takes over on its next tick.
+
+let isRunning = false;
+let janitorTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Start the periodic janitor. Idempotent — safe to call multiple times. */
+export function startUploadJanitor(): void {
+  const intervalMinutes = readNumberEnv('UPLOAD_JANITOR_INTERVAL_MINUTES', DEFAULT_INTERVAL_MINUTES);
+  if (intervalMinutes <= 0) {
+    logger.info('UPLOAD_JANITOR_INTERVAL_MINUTES is 0 — upload janitor disabled');
+    return;
+  }
+  if (isRunning) return;
+
+  isRunning = true;
+  const intervalMs = intervalMinutes * 60_000;
+  logger.info('Upload janitor started', { intervalMinutes, ownerId: OWNER_ID });
+  janitorTimer = setTimeout(() => tick(intervalMs), STARTUP_DELAY_MS);
+}
+
+/** Stop scheduling runs. A pass already in progress finishes on its own. */
+export function stopUploadJanitor(): void {
+  isRunning = false;
+  if (janitorTimer) {
+    clearTimeout(janitorTimer);
+    janitorTimer = null;
+  }
+  logger.info('Upload janitor stopped');
+}
+
+async function tick(intervalMs: number): Promise<void> {
+  if (!isRunning) return;
+
+  try {
+    if (await lockRepo.acquireLease(LEASE_NAME, OWNER_ID, intervalMs)) {
+      await runUploadJanitor(false);
+    }
+  } catch (err) {
+    logger.error('Upload janitor pass failed', { error: (err as Error).message });
+  }
+
+  if (isRunning) {
+    janitorTimer = setTimeout(() => tick(intervalMs), intervalMs);
+  }
+}
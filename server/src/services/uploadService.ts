@@ -5,28 +5,78 @@
  *
  *   1. Simple Upload (small files):
  *      generateUploadUrl → client PUTs to S3 → completeUpload
- *      Creates a Recording entry with status 'completed' immediately.
+ *      Creates a Recording entry with status 'completed' (or 'invalid') immediately.
  *
  *   2. Multipart Upload (large files up to 5GB):
  *      initiateMultipart → getPart1Url (temp cache) → getPartUrl (×N)
- *      → completeMultipart (with WAV header patching) → Recording status 'completed'
+ *      → completeMultipart (with WAV header patching) → Recording status 'completed' (or 'invalid')
  *
  * WAV Header Patching (multipart only):
- *   WAV files have a header (first 44 bytes) that includes the total file size.
- *   When streaming a recording, the client doesn't know the final size upfront.
- *   Part 1 is initially uploaded to a temp S3 location. On completion, we:
- *     1. Fetch the 44-byte header from the temp location
+ *   WAV files have a header that includes the total file size — 32-bit fields
+ *   in a RIFF header, 64-bit fields in the ds64 chunk of an RF64 header
+ *   (recordings over 4 GB). When streaming a recording, the client doesn't
+ *   know the final size upfront. Part 1 is initially uploaded to a temp S3
+ *   location. On completion, we:
+ *     1. Fetch Part 1 from the temp location
  *     2. Calculate total size from all parts
- *     3. Patch bytes 4-7 (ChunkSize) and 40-43 (Subchunk2Size)
- *     4. Re-upload the patched header as Part 1 of the real multipart upload
+ *     3. Patch the size fields (utils/wav.ts handles both layouts)
+ *     4. Re-upload the patched Part 1 to the real multipart upload
  *     5. Complete the multipart upload with the corrected Part 1
+ *
+ * Integrity Checksums:
+ *   The client hashes the file (simple) or every part (multipart) with
+ *   SHA-256 before uploading, and each presigned URL is signed with that
+ *   checksum so S3 rejects bytes that don't match. At completion:
+ *     - simple:    the checksum S3 stored must equal the client's
+ *     - multipart: the client's file checksum must be the composite of its
+ *                  part checksums, the temp Part 1 must hash to the Part 1
+ *                  checksum, and the composite S3 reports for the assembled
+ *                  object must equal the one computed from the final parts
+ *                  (with the re-uploaded Part 1's checksum swapped in)
+ *   A mismatch after the file is in S3 marks the Recording 'invalid'; the
+ *   stored checksum is kept on the Recording for dataset consumers.
+ *
+ * Recording Identity:
+ *   Both paths key the Recording row as `{sessionId}#{sanitizedName}` and the
+ *   S3 object as `recordings/{meetingId}/{sessionId}/{name}_{ts}.wav`. The
+ *   multipart flow takes the sessionId at /initiate so the row is created
+ *   under its final id; rows left over from before that (`multipart#...`)
+ *   are re-keyed at /complete or by reconcileLegacyMultipartRecordings().
+ *
+ * Audio Validation:
+ *   Before the Recording is marked 'completed', audioValidationService reads
+ *   the final object's WAV header and checks format, data length and
+ *   duration. A file that fails is stored with status 'invalid' and an
+ *   invalidReason, and does not count toward triggering processing.
+ *
+ * Speaker:
+ *   Both paths copy the uploader's speaker profile and speakerId from their
+ *   Session (participantName is the uploader's userId) onto the Recording,
+ *   so the profile a file was recorded under survives later edits to the
+ *   session. Completion also stores the audio's duration (durationSec),
+ *   read from the WAV header during validation, for speaker history.
+ *
+ * After either path completes, the room is sent RECORDINGS_UPDATED and
+ * pipelineService.triggerProcessingIfReady() checks whether this was the
+ * last recording the session was waiting for.
  */
-import type { Recording } from '../shared';
+import type { Recording, CompletePart } from '../shared';
 import { LIMITS, RECORDING_STATUS } from '../shared';
 import * as s3 from '../infra/s3';
 import * as recordingRepo from '../repositories/recordingRepo';
+import * as sessionRepo from '../repositories/sessionRepo';
+import * as pipelineService from './pipelineService';
+import * as audioValidationService from './audioValidationService';
+import { notifyRecordingsUpdated } from './notificationService';
 import { ValidationError, NotFoundError } from '../utils/errors';
-import { validateContentType, validateFileSize, sanitizeParticipantName } from '../utils/validators';
+import {
+  validateContentType,
+  validateFileSize,
+  validateSha256Checksum,
+  sanitizeParticipantName,
+} from '../utils/validators';
+import { patchWavHeader } from '../utils/wav';
+import { sha256Base64, compositeSha256 } from '../utils/checksum';
 import { logger } from '../utils/logger';
 
 // ─── Simple Upload ────────────────────────────────────────────────
@@ -36,14 +86,18 @@ export async function generateUploadUrl(
   participantName: string,
   sessionId?: string,
   contentType?: string,
+  checksumSHA256?: string,
 ): Promise<{ uploadUrl: string; key: string }> {
   const ct = contentType || 'audio/wav';
   if (!validateContentType(ct)) {
     throw new ValidationError(`Invalid content type: ${ct}`);
   }
+  if (!validateSha256Checksum(checksumSHA256)) {
+    throw new ValidationError('checksumSHA256 must be a base64 SHA-256 digest');
+  }
 
   const key = s3.generateS3Key(roomId, participantName, '.wav', sessionId);
-  const uploadUrl = await s3.getPresignedPutUrl(key, ct, LIMITS.UPLOAD_URL_EXPIRY);
+  const uploadUrl = await s3.getPresignedPutUrl(key, ct, LIMITS.UPLOAD_URL_EXPIRY, checksumSHA256);
 
   return { uploadUrl, key };
 }
@@ -53,31 +107,46 @@ export async function completeUpload(
   participantName: string,
   key: string,
   sessionId?: string,
+  checksumSHA256?: string,
 ): Promise<void> {
+  if (!validateSha256Checksum(checksumSHA256)) {
+    throw new ValidationError('checksumSHA256 must be a base64 SHA-256 digest');
+  }
+
   // Verify the object exists in S3
   const metadata = await s3.getObjectMetadata(key);
   if (!metadata) {
     throw new NotFoundError(`File not found at key: ${key}`);
   }
 
-  const recordingId = sessionId
-    ? `${sessionId}#${sanitizeParticipantName(participantName)}`
-    : `nosession#${sanitizeParticipantName(participantName)}`;
+  const validation = await audioValidationService.validateRecordingFile(
+    roomId,
+    key,
+    metadata.ContentLength!,
+    sessionId,
+  );
+  const invalidReason = checksumMismatch(checksumSHA256, metadata.ChecksumSHA256) ?? validation.invalidReason;
 
   const recording: Recording = {
     meetingId: roomId,
-    recordingId,
+    recordingId: buildRecordingId(sessionId, participantName),
     participantName,
     sessionId: sessionId || '',
     filePath: key,
     s3Url: null,
     uploadedAt: new Date().toISOString(),
     uploadId: null,
-    status: RECORDING_STATUS.COMPLETED,
+    status: invalidReason ? RECORDING_STATUS.INVALID : RECORDING_STATUS.COMPLETED,
+    ...(invalidReason && { invalidReason }),
+    ...(metadata.ChecksumSHA256 && { checksumSHA256: metadata.ChecksumSHA256 }),
+    ...(validation.durationSec !== null && { durationSec: validation.durationSec }),
+    ...(await speakerFor(roomId, participantName)),
   };
 
   await recordingRepo.createRecording(recording);
-  logger.info('Upload completed', { roomId, participantName, key });
+  logger.info('Upload completed', { roomId, participantName, key, status: recording.status });
+
+  await onRecordingCompleted(roomId, sessionId, recording.status);
 }
 
 // ─── Multipart Upload ─────────────────────────────────────────────
@@ -85,6 +154,7 @@ export async function completeUpload(
 export async function initiateMultipart(
   roomId: string,
   participantName: string,
+  sessionId?: string,
   contentType?: string,
   fileSize?: number,
 ): Promise<{ uploadId: string; key: string }> {
@@ -96,31 +166,43 @@ export async function initiateMultipart(
     throw new ValidationError(`File size exceeds maximum of ${LIMITS.MAX_FILE_SIZE} bytes`);
   }
 
-  const key = s3.generateS3Key(roomId, participantName);
+  const key = s3.generateS3Key(roomId, participantName, '.wav', sessionId);
   const result = await s3.createMultipartUpload(key, ct);
 
-  // Create a recording entry in DynamoDB for tracking
-  const recordingId = `multipart#${sanitizeParticipantName(participantName)}#${Date.now()}`;
+  // Create the recording entry under its final id so /complete only flips the status
   const recording: Recording = {
     meetingId: roomId,
-    recordingId,
+    recordingId: buildRecordingId(sessionId, participantName),
     participantName,
-    sessionId: '',
+    sessionId: sessionId || '',
     filePath: key,
     s3Url: null,
     uploadedAt: new Date().toISOString(),
     uploadId: result.uploadId,
     status: RECORDING_STATUS.UPLOADING,
+    ...(await speakerFor(roomId, participantName)),
   };
   await recordingRepo.createRecording(recording);
 
-  logger.info('Multipart upload initiated', { roomId, participantName, uploadId: result.uploadId });
+  logger.info('Multipart upload initiated', { roomId, participantName, sessionId, uploadId: result.uploadId });
   return result;
 }
 
-export async function getPart1Url(uploadId: string): Promise<{ url: string; tempKey: string }> {
+/** S3 key of the multipart upload `uploadId`, from the Recording created at /initiate */
+export async function getUploadKey(uploadId: string): Promise<string> {
+  const recording = await recordingRepo.findByUploadId(uploadId);
+  if (!recording) {
+    throw new NotFoundError(`No upload found for uploadId: ${uploadId}`);
+  }
+  return recording.filePath;
+}
+
+export async function getPart1Url(
+  uploadId: string,
+  checksumSHA256: string,
+): Promise<{ url: string; tempKey: string }> {
   const tempKey = s3.getTempS3Key(uploadId);
-  const url = await s3.getPresignedPutUrl(tempKey, 'audio/wav', LIMITS.UPLOAD_URL_EXPIRY);
+  const url = await s3.getPresignedPutUrl(tempKey, 'audio/wav', LIMITS.UPLOAD_URL_EXPIRY, checksumSHA256);
   return { url, tempKey };
 }
 
@@ -128,41 +210,50 @@ export async function getPartUrl(
   key: string,
   uploadId: string,
   partNumber: number,
+  checksumSHA256: string,
 ): Promise<string> {
-  return s3.getUploadPartUrl(key, uploadId, partNumber, LIMITS.UPLOAD_URL_EXPIRY);
+  return s3.getUploadPartUrl(key, uploadId, partNumber, LIMITS.UPLOAD_URL_EXPIRY, checksumSHA256);
 }
 
 export async function completeMultipart(
   key: string,
   uploadId: string,
-  parts: Array<{ PartNumber: number; ETag: string }>,
+  parts: CompletePart[],
   roomId: string,
   participantName: string,
-  sessionId?: string,
+  sessionId: string | undefined,
+  checksumSHA256: string,
 ): Promise<{ location: string }> {
-  // WAV header patching: fetch first 44 bytes from temp_uploads, patch the size fields
+  // The client's file checksum must cover exactly the parts it is completing with
+  parts.sort((a, b) => a.PartNumber - b.PartNumber);
+  if (compositeSha256(parts.map((p) => p.ChecksumSHA256)) !== checksumSHA256) {
+    throw new ValidationError('checksumSHA256 does not match the part checksums', 'CHECKSUM_MISMATCH');
+  }
+
+  // WAV header patching: fetch Part 1 from temp_uploads, patch the size fields
   const tempKey = s3.getTempS3Key(uploadId);
   try {
-    const headerBuffer = await s3.fetchS3Range(tempKey, 'bytes=0-43');
+    // The whole part is re-uploaded — S3 requires every part but the last to be ≥ 5 MB
+    const part1Buffer = await s3.fetchS3Range(tempKey, 'bytes=0-');
+
+    // The temp copy is what gets patched, so it must be the Part 1 the client hashed
+    const idx = parts.findIndex((p) => p.PartNumber === 1);
+    if (idx >= 0 && sha256Base64(part1Buffer) !== parts[idx].ChecksumSHA256) {
+      throw new ValidationError('Temp copy of Part 1 does not match its checksum', 'CHECKSUM_MISMATCH');
+    }
 
     // Calculate total file size from all parts
     const allParts = await s3.listParts(key, uploadId);
     const totalSize = allParts.reduce((sum, p) => sum + p.Size, 0);
 
-    // Patch WAV header sizes
-    const patchedHeader = patchWavHeader(headerBuffer, totalSize);
+    // Patch WAV header sizes (RIFF or RF64)
+    const patchedPart1 = patchWavHeader(part1Buffer, totalSize);
 
-    // Re-upload Part 1 with patched header
-    await s3.uploadPartBuffer(key, uploadId, 1, patchedHeader);
-
-    // Update parts[0] ETag with the new Part 1
-    const updatedParts = await s3.listParts(key, uploadId);
-    const part1 = updatedParts.find((p) => p.PartNumber === 1);
-    if (part1) {
-      const idx = parts.findIndex((p) => p.PartNumber === 1);
-      if (idx >= 0) parts[idx].ETag = part1.ETag;
-    }
+    // Re-upload Part 1 with patched header, and complete with its new ETag + checksum
+    const reuploaded = await s3.uploadPartBuffer(key, uploadId, 1, patchedPart1);
+    if (idx >= 0) parts[idx] = { PartNumber: 1, ...reuploaded };
   } catch (err) {
+    if (err instanceof ValidationError) throw err;
     logger.warn('WAV header patching skipped — temp file may not exist', {
       uploadId,
       error: (err as Error).message,
@@ -172,22 +263,51 @@ export async function completeMultipart(
   // Complete the multipart upload
   const result = await s3.completeMultipartUpload(key, uploadId, parts);
 
-  // Update recording status in DynamoDB
+  // Update the row created at /initiate — never a row derived from the request,
+  // which would upsert a second, partial entry for the same file
   const recording = await recordingRepo.findByUploadId(uploadId);
-  if (recording) {
-    const recordingId = sessionId
-      ? `${sessionId}#${sanitizeParticipantName(participantName)}`
-      : recording.recordingId;
+  const recordingSessionId = recording?.sessionId || sessionId;
 
-    await recordingRepo.updateRecordingStatus(
-      roomId,
-      recordingId,
-      RECORDING_STATUS.COMPLETED,
-      result.Location,
-    );
+  const metadata = await s3.getObjectMetadata(key);
+  const validation = metadata
+    ? await audioValidationService.validateRecordingFile(
+        roomId,
+        key,
+        metadata.ContentLength!,
+        recordingSessionId,
+      )
+    : { invalidReason: 'Uploaded file is empty', durationSec: null };
+  const invalidReason =
+    checksumMismatch(compositeSha256(parts.map((p) => p.ChecksumSHA256)), result.ChecksumSHA256) ??
+    validation.invalidReason;
+  const status = invalidReason ? RECORDING_STATUS.INVALID : RECORDING_STATUS.COMPLETED;
+
+  if (!recording) {
+    logger.warn('No recording entry for multipart upload', { key, uploadId, roomId });
+  } else if (isLegacyRecordingId(recording.recordingId) && sessionId) {
+    // Initiated by a client that didn't send a sessionId yet — move it onto its canonical id
+    await recordingRepo.replaceRecording(recording.recordingId, {
+      ...recording,
+      recordingId: buildRecordingId(sessionId, participantName),
+      sessionId,
+      s3Url: result.Location ?? null,
+      status,
+      ...(invalidReason && { invalidReason }),
+      ...(result.ChecksumSHA256 && { checksumSHA256: result.ChecksumSHA256 }),
+      ...(validation.durationSec !== null && { durationSec: validation.durationSec }),
+    });
+  } else {
+    await recordingRepo.updateRecordingStatus(recording.meetingId, recording.recordingId, status, {
+      s3Url: result.Location,
+      invalidReason: invalidReason ?? undefined,
+      checksumSHA256: result.ChecksumSHA256,
+      durationSec: validation.durationSec ?? undefined,
+    });
   }
 
-  logger.info('Multipart upload completed', { key, uploadId, roomId });
+  logger.info('Multipart upload completed', { key, uploadId, roomId, status });
+
+  await onRecordingCompleted(roomId, recordingSessionId, status);
   return { location: result.Location || key };
 }
 
@@ -203,6 +323,7 @@ export async function getUploadedParts(key: string, uploadId: string) {
     parts: parts.map((p) => ({
       PartNumber: p.PartNumber,
       ETag: p.ETag,
+      ChecksumSHA256: p.ChecksumSHA256,
       Size: p.Size,
       LastModified: p.LastModified.toISOString(),
     })),
@@ -210,22 +331,118 @@ export async function getUploadedParts(key: string, uploadId: string) {
   };
 }
 
-// ─── WAV Header Patching ──────────────────────────────────────────
-// WAV file format (RIFF):
-//   Bytes 0-3:   "RIFF"
-//   Bytes 4-7:   ChunkSize = totalFileSize - 8 (everything after "RIFF" + size field)
-//   Bytes 8-11:  "WAVE"
-//   ...          (format chunk, etc.)
-//   Bytes 36-39: "data"
-//   Bytes 40-43: Subchunk2Size = raw audio data size (totalFileSize - 44)
-//   Bytes 44+:   actual audio samples
-
-/** Patch the WAV header with the correct total file size after all parts are known */
-function patchWavHeader(header: Buffer, totalDataSize: number): Buffer {
-  const patched = Buffer.from(header);
-  // Bytes 4-7: ChunkSize = totalDataSize - 8 (entire file size minus RIFF header)
-  patched.writeUInt32LE(totalDataSize - 8, 4);
-  // Bytes 40-43: Subchunk2Size = totalDataSize - 44 (raw audio data size)
-  patched.writeUInt32LE(totalDataSize - 44, 40);
-  return patched;
+// ─── Recording Identity ───────────────────────────────────────────
+
+/** Canonical recordingId shared by simple and multipart uploads */
+export function buildRecordingId(sessionId: string | undefined, participantName: string): string {
+  return sessionId
+    ? `${sessionId}#${sanitizeParticipantName(participantName)}`
+    : `nosession#${sanitizeParticipantName(participantName)}`;
+}
+
+function isLegacyRecordingId(recordingId: string): boolean {
+  return recordingId.startsWith('multipart#');
+}
+
+/** The uploader's speaker profile and speakerId, from their latest session in the meeting */
+async function speakerFor(
+  roomId: string,
+  participantName: string,
+): Promise<Pick<Recording, 'speakerProfile' | 'speakerId'>> {
+  const session = await sessionRepo.findLatestByMeetingAndUserId(roomId, participantName);
+  return {
+    speakerProfile: session?.speakerProfile ?? null,
+    speakerId: session?.speakerId ?? null,
+  };
+}
+
+/**
+ * One-off repair for rows written before /initiate took a sessionId.
+ *
+ * The old /complete updated `{sessionId}#{name}` instead of the row it had
+ * created, which left two rows per multipart upload: the `multipart#...` row
+ * (filePath, uploadId, still 'uploading') and a partial canonical row
+ * (status + s3Url only). The partial row is matched to its legacy row by the
+ * S3 location, which ends with the legacy row's filePath, and the two are
+ * merged under the canonical id.
+ *
+ * Legacy rows with no partial counterpart (uploads never completed) are left
+ * alone and reported as unresolved.
+ */
+export async function reconcileLegacyMultipartRecordings(
+  dryRun: boolean,
+): Promise<{ scanned: number; reconciled: string[]; unresolved: string[] }> {
+  const legacy = await recordingRepo.scanLegacyMultipartRecordings();
+  const reconciled: string[] = [];
+  const unresolved: string[] = [];
+  const meetingRows = new Map<string, Recording[]>();
+
+  for (const row of legacy) {
+    if (!meetingRows.has(row.meetingId)) {
+      meetingRows.set(row.meetingId, await recordingRepo.getRecordingsByMeeting(row.meetingId));
+    }
+
+    const partial = meetingRows.get(row.meetingId)!.find(
+      (r) =>
+        !r.filePath &&
+        !isLegacyRecordingId(r.recordingId) &&
+        !!r.s3Url &&
+        decodeURIComponent(r.s3Url).endsWith(`/${row.filePath}`),
+    );
+    const label = `${row.meetingId}/${row.recordingId}`;
+
+    if (!partial) {
+      unresolved.push(label);
+      continue;
+    }
+
+    if (!dryRun) {
+      await recordingRepo.replaceRecording(row.recordingId, {
+        ...row,
+        recordingId: partial.recordingId,
+        sessionId: partial.recordingId.split('#')[0],
+        s3Url: partial.s3Url,
+        status: partial.status,
+      });
+    }
+    reconciled.push(`${label} → ${partial.recordingId}`);
+  }
+
+  return { scanned: legacy.length, reconciled, unresolved };
+}
+
+// ─── Post-Completion ──────────────────────────────────────────────
+
+/** Reason to mark a file invalid if the checksum S3 stored isn't the expected one */
+function checksumMismatch(expected: string, stored: string | undefined): string | null {
+  if (stored === expected) return null;
+  return stored
+    ? `Checksum mismatch: S3 stored ${stored}, expected ${expected}`
+    : 'S3 has no SHA-256 checksum for this file';
+}
+
+/**
+ * Shared tail of both upload paths: tell the room its recordings changed,
+ * then start processing if every participant's file is now in. An invalid
+ * file is announced but never triggers processing. Pipeline errors are
+ * logged rather than thrown — the upload itself succeeded, and the client
+ * shouldn't retry it because SQS was briefly unavailable.
+ */
+async function onRecordingCompleted(
+  roomId: string,
+  sessionId: string | undefined,
+  status: Recording['status'],
+): Promise<void> {
+  notifyRecordingsUpdated(roomId, sessionId || '');
+  if (!sessionId || status !== RECORDING_STATUS.COMPLETED) return;
+
+  try {
+    await pipelineService.triggerProcessingIfReady(roomId, sessionId);
+  } catch (err) {
+    logger.error('Failed to trigger processing pipeline', {
+      roomId,
+      sessionId,
+      error: (err as Error).message,
+    });
+  }
 }
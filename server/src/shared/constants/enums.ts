@@ -15,6 +15,7 @@
 export const ROLES = {
   HOST: 'host',
   GUEST: 'guest',
+  OBSERVER: 'observer', // Listens live; takes no seat and is never recorded
 } as const;
 
 export type Role = (typeof ROLES)[keyof typeof ROLES];
@@ -32,6 +33,8 @@ export const MEETING_STATUS = {
 export const RECORDING_STATUS = {
   UPLOADING: 'uploading',
   COMPLETED: 'completed',
+  INVALID: 'invalid',     // Uploaded, but failed server-side audio validation
+  ABANDONED: 'abandoned', // Upload never completed; cleaned up by the upload janitor
 } as const;
 
 // ─── Mic Level (Green Room) ──────────────────────────────────────
@@ -79,6 +82,16 @@ export const WARNING_TYPE = {
   OVERLAP: 'overlap',
 } as const;
 
+// ─── Producer Nudges (Studio) ────────────────────────────────────
+export const NUDGE_KIND = {
+  MOVE_CLOSER: 'move-closer',
+  REDUCE_GAIN: 'reduce-gain',
+  PAUSE: 'pause',
+  CHECK_HEADPHONES: 'check-headphones',
+} as const;
+
+export type NudgeKind = (typeof NUDGE_KIND)[keyof typeof NUDGE_KIND];
+
 // ─── Warning Severity ───────────────────────────────────────────
 export const SEVERITY = {
   WARNING: 'warning',
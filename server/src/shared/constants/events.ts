@@ -8,11 +8,14 @@
  *
  * Event categories:
  *   - Session lifecycle: JOIN_ROOM, ROOM_STATE, USER_JOINED, USER_LEFT, etc.
+ *   - Waiting room:      WAITING_ROOM, WAITING_LIST, ADMIT_PARTICIPANT, DENY_PARTICIPANT, ADMITTED, JOIN_DENIED
+ *   - Host controls:     TRANSFER_HOST, HOST_CHANGED, REMOVE_PARTICIPANT, REMOVED_FROM_ROOM
  *   - WebRTC signaling:  OFFER, ANSWER, ICE_CANDIDATE
  *   - Recording control: START_RECORDING, STOP_RECORDING, RESUME_RECORDING
  *   - Audio quality:     MIC_CHECK, MIC_STATUS, AUDIO_METRICS, RECORDING_WARNING, QUALITY_UPDATE
  *   - File upload:       UPLOAD_PROGRESS, RECORDINGS_UPDATED
  *   - Processing:        PROCESSING_STATUS, PROCESSING_COMPLETE, RECORDING_REJECTED
+ *   - Producer:          NUDGE, TALKBACK
  *   - Misc:              CHAT_MESSAGE, ERROR
  */
 export const SOCKET_EVENTS = {
@@ -25,6 +28,20 @@ export const SOCKET_EVENTS = {
   ROOM_FULL: 'room-full',                 // Server → Client: room has reached max capacity (2)
   DUPLICATE_SESSION: 'duplicate-session', // Server → Old Tab: same user opened meeting in new tab
 
+  // ─── Waiting Room (new guests wait for the host) ──────────────
+  WAITING_ROOM: 'waiting-room',           // Server → Client: join held until the host admits you
+  WAITING_LIST: 'waiting-list',           // Server → Host: who is waiting (on every change)
+  ADMIT_PARTICIPANT: 'admit-participant', // Client → Server: host lets a waiting user in
+  DENY_PARTICIPANT: 'deny-participant',   // Client → Server: host turns a waiting user away
+  ADMITTED: 'admitted',                   // Server → Waiting Client: rejoin with the admission token
+  JOIN_DENIED: 'join-denied',             // Server → Waiting Client: the host said no
+
+  // ─── Host Controls (handoff and removal) ──────────────────────
+  TRANSFER_HOST: 'transfer-host',         // Client → Server: host hands the role to a guest
+  HOST_CHANGED: 'host-changed',           // Server → Room: someone else is host now (handoff or promotion)
+  REMOVE_PARTICIPANT: 'remove-participant', // Client → Server: host removes and blocks a participant
+  REMOVED_FROM_ROOM: 'removed-from-room', // Server → Removed Client: you were removed and can't rejoin
+
   // ─── WebRTC Signaling ─────────────────────────────────────────
   OFFER: 'offer',                         // Bidirectional: SDP offer relay between peers
   ANSWER: 'answer',                       // Bidirectional: SDP answer relay between peers
@@ -38,6 +55,10 @@ export const SOCKET_EVENTS = {
   // ─── Chat ─────────────────────────────────────────────────────
   CHAT_MESSAGE: 'chat-message',           // Bidirectional: text message relay within a room
 
+  // ─── Producer (host or observer → one participant) ────────────
+  NUDGE: 'nudge',                         // Client → Server → Target: structured cue ("move closer", ...)
+  TALKBACK: 'talkback',                   // Client → Server → Target: push-to-talk started/stopped
+
   // ─── Green Room / Mic Check ───────────────────────────────────
   MIC_CHECK: 'mic-check',                 // Client → Server: send mic metrics for evaluation
   MIC_STATUS: 'mic-status',               // Server → Client: evaluated mic quality result
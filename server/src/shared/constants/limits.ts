@@ -9,8 +9,8 @@
  * services (upload logic), and socket handlers (ping/timeout).
  */
 export const LIMITS = {
-  /** Maximum users in a single meeting room (1-on-1 recording) */
-  MAX_PARTICIPANTS: 2,
+  /** Maximum users in a single meeting room (1-on-1 up to panel recordings) */
+  MAX_PARTICIPANTS: 6,
 
   MAX_FILE_SIZE: 5 * 1024 * 1024 * 1024, // 5GB
   MIN_PART_SIZE: 5 * 1024 * 1024, // 5MB (S3 minimum)
@@ -19,6 +19,20 @@ export const LIMITS = {
 
   PRESIGNED_URL_EXPIRY: 3600, // 1 hour (seconds)
   UPLOAD_URL_EXPIRY: 900, // 15 minutes (seconds)
+  UPLOAD_TOKEN_EXPIRY: 6 * 3600, // 6 hours (seconds) — a recording plus its upload
+  MEETING_TOKEN_EXPIRY: 7 * 24 * 3600, // 7 days (seconds) — participants' access to their recordings
+  LOGIN_LINK_EXPIRY: 15 * 60, // 15 minutes (seconds) — one-time magic login links
+  INVITE_EXPIRY: 7 * 24 * 3600, // 7 days (seconds) — default lifetime of a guest invite link
+  MAX_INVITE_EXPIRY: 30 * 24 * 3600, // 30 days (seconds)
+  ADMISSION_TOKEN_EXPIRY: 10 * 60, // 10 minutes (seconds) — rejoining after the host admits from the waiting room
+
+  /** Format every uploaded WAV must have (what recorderService writes) */
+  RECORDING_SAMPLE_RATE: 48_000,
+  RECORDING_CHANNELS: 1,
+  RECORDING_BITS_PER_SAMPLE: 16,
+  /** Allowed gap between audio duration and the RecordingState window */
+  RECORDING_DURATION_TOLERANCE_SEC: 5, // plus the ratio below, whichever is larger
+  RECORDING_DURATION_TOLERANCE_RATIO: 0.02,
 
   GHOST_SOCKET_DELAY_MS: 800,
   SOCKET_PING_INTERVAL: 10_000,
@@ -26,6 +40,8 @@ export const LIMITS = {
 
   TITLE_MAX_LENGTH: 255,
   NAME_MAX_LENGTH: 255,
+  CONSENT_TITLE_MAX_LENGTH: 255,
+  CONSENT_BODY_MAX_LENGTH: 100_000, // Consent document text (characters)
 
   GENERAL_RATE_LIMIT: 100,
   MULTIPART_RATE_LIMIT: 10,
@@ -1,10 +1,12 @@
 /**
  * thresholds.ts — Audio quality thresholds for recording evaluation.
  *
- * These thresholds are used in two places:
+ * These thresholds are used in three places:
  *   1. greenRoomService — Evaluates mic check metrics before recording
  *   2. metricsService — Detects warnings during live recording and
  *      estimates quality profile (P0-P4)
+ *   3. processing worker — Grades the uploaded files and assigns the
+ *      definitive quality profile (P0-P4)
  *
  * All dB values are in dBFS (decibels relative to full scale):
  *   - 0 dBFS = maximum digital signal (clipping point)
@@ -57,6 +59,16 @@ export const AUDIO_THRESHOLDS = {
   RMS_STABILITY_MAX_STDDEV: 6,
   /** Min ratio of energy above 2kHz. Below this = muffled audio */
   HIGH_FREQ_ENERGY_MIN: 0.05,
+
+  // ── Processing Pipeline (post-recording analysis) ───────────────
+  /** Max overlap (%) still eligible for P0 */
+  P0_OVERLAP_MAX: 5,
+  /** Envelope cross-correlation between the two mics above this = echo/bleed (0–1) */
+  ECHO_CORRELATION_MAX: 0.6,
+  /** SRMR below this indicates a reverberant room (ratio) */
+  SRMR_MIN: 4,
+  /** Min detected speech per participant for a usable session (seconds) */
+  MIN_SPEECH_SECONDS: 10,
 } as const;
 
 export type QualityProfile = 'P0' | 'P1' | 'P2' | 'P3' | 'P4';
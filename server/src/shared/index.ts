@@ -12,6 +12,10 @@
  *   - Upload Types: request/response interfaces for the upload REST API
  *   - Metrics Types: audio quality metric interfaces
  *   - Processing Types: SQS message interfaces for the processing pipeline
+ *   - Auth Types: User accounts and the magic-link login API
+ *   - Invite Types: Signed guest invite links
+ *   - Consent Types: Versioned consent documents and participants' consents
+ *   - Speaker Types: Self-reported speaker profiles and the Speakers registry
  */
 
 export { LIMITS } from './constants/limits';
@@ -26,9 +30,9 @@ export type { SocketEvent } from './constants/events';
 export {
   ROLES, MEETING_STATUS, RECORDING_STATUS,
   MIC_LEVEL, NOISE_FLOOR_LEVEL, SNR_LEVEL, SIGNAL_STABILITY, SPECTRAL_WARNING,
-  WARNING_TYPE, SEVERITY, QUALITY_PROFILE,
+  WARNING_TYPE, SEVERITY, QUALITY_PROFILE, NUDGE_KIND,
 } from './constants/enums';
-export type { Role } from './constants/enums';
+export type { Role, NudgeKind } from './constants/enums';
 
 export type {
   Meeting,
@@ -40,9 +44,37 @@ export type {
 } from './types/meeting';
 export { MEETING_STATUSES } from './types/meeting';
 
+export type {
+  Invite,
+  InviteSlot,
+  IssueInviteRequest,
+  IssueInviteResponse,
+} from './types/invite';
+export { INVITE_SLOTS } from './types/invite';
+
+export type {
+  SpeakerProfile,
+  AgeBand,
+  DeviceType,
+  Speaker,
+  SpeakerMeeting,
+  SpeakerHistory,
+} from './types/speaker';
+export { AGE_BANDS, DEVICE_TYPES } from './types/speaker';
+
+export type {
+  ConsentDocument,
+  Consent,
+  PublishConsentDocumentRequest,
+  GiveConsentRequest,
+  GiveConsentResponse,
+  ConsentExport,
+} from './types/consent';
+
 export type {
   SDPDescription,
   ICECandidate,
+  SocketAuthPayload,
   JoinRoomPayload,
   OfferPayload,
   AnswerPayload,
@@ -60,6 +92,7 @@ export type {
   RoomFullPayload,
   DuplicateSessionPayload,
   StartRecordingBroadcast,
+  StopRecordingBroadcast,
   ResumeRecordingPayload,
   RecordingsUpdatedPayload,
   MicStatusPayload,
@@ -70,6 +103,21 @@ export type {
   RecordingRejectedPayload,
   ChatMessageBroadcast,
   ErrorPayload,
+  NudgePayload,
+  NudgeBroadcast,
+  TalkbackPayload,
+  TalkbackBroadcast,
+  WaitingRoomPayload,
+  WaitingParticipant,
+  WaitingListPayload,
+  AdmissionDecisionPayload,
+  AdmittedPayload,
+  JoinDeniedPayload,
+  HostChangeReason,
+  TransferHostPayload,
+  HostChangedPayload,
+  RemoveParticipantPayload,
+  RemovedFromRoomPayload,
 } from './types/socket';
 
 export type {
@@ -101,6 +149,18 @@ export type {
 } from './types/metrics';
 
 export type {
+  ProcessingTrack,
   ProcessSessionMessage,
   ProcessingResult,
+  StoredProcessingResult,
 } from './types/processing';
+
+export type {
+  User,
+  UserRole,
+  RequestLoginLinkRequest,
+  VerifyLoginLinkRequest,
+  VerifyLoginLinkResponse,
+  UpdateUserRoleRequest,
+} from './types/auth';
+export { USER_ROLES } from './types/auth';
@@ -0,0 +1,71 @@
+/**
+ * auth.ts — User accounts and the magic-link login API.
+ *
+ * Users sign in without a password: they request a one-time link by email,
+ * and opening it exchanges the link's token for a JWT (the same JWT that
+ * middleware/auth.ts verifies on protected routes).
+ *
+ *   POST /api/auth/request-link  → RequestLoginLinkRequest → { sent: true }
+ *   POST /api/auth/verify        → VerifyLoginLinkRequest  → VerifyLoginLinkResponse
+ *   GET  /api/auth/me            → User (requires the JWT)
+ *
+ * The user's email is their identity — a meeting created while signed in
+ * gets the user's email as its hostEmail. The user's role is carried in the
+ * JWT and checked by requireRole() (middleware/auth.ts).
+ */
+
+// ─── Roles ────────────────────────────────────────────────────────
+//   admin       — everything, including deleting meetings and managing roles
+//   operator    — runs sessions: creates meetings, changes their status,
+//                 views stats; no deletes, no access to other recordings
+//   reviewer    — reads the recordings of meetings they hold a grant for
+//   participant — no back-office access (the default for new users)
+export const USER_ROLES = ['admin', 'operator', 'reviewer', 'participant'] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+// ─── User ─────────────────────────────────────────────────────────
+// Created the first time someone verifies a login link for their email.
+//
+// DynamoDB Table: AudioStudio_Users
+// Primary Key:    email (partition key, no sort key)
+export interface User {
+  email: string;                // Lowercased — the user's identity
+  userId: string;               // UUID — stable id carried in the JWT
+  name: string | null;          // Display name (from the first login request)
+  role: UserRole;               // 'participant' until an admin changes it
+  createdAt: string;            // ISO 8601 timestamp of the first login
+  lastLoginAt: string;          // ISO 8601 timestamp of the latest login
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Login API Types (/api/auth/*)
+// ═══════════════════════════════════════════════════════════════════
+
+/** Request body for POST /api/auth/request-link — email a one-time login link */
+export interface RequestLoginLinkRequest {
+  email: string;
+  name?: string;                // Stored as the display name if the user is new
+  redirectTo?: string;          // App path to open after signing in (e.g. "/")
+}
+
+/** Request body for POST /api/auth/verify — exchange a login link's token */
+export interface VerifyLoginLinkRequest {
+  token: string;                // The `token` query parameter of the emailed link
+}
+
+/** Response for POST /api/auth/verify */
+export interface VerifyLoginLinkResponse {
+  token: string;                // JWT — send as `Authorization: Bearer <token>`
+  user: User;
+  redirectTo: string | null;    // Path passed to /request-link, if any
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Role Management Types (/api/users/*)
+// ═══════════════════════════════════════════════════════════════════
+
+/** Request body for PUT /api/users/:email/role — admin only */
+export interface UpdateUserRoleRequest {
+  role: UserRole;
+}
@@ -0,0 +1,87 @@
+/**
+ * consent.ts — Recording consent: versioned consent documents and the
+ * consent each participant gives before being recorded.
+ *
+ * Admins publish the consent text per locale; every publish is a new
+ * version and old versions are kept, so a Consent always points at the exact
+ * text the participant agreed to. The GreenRoom shows the current document
+ * and records the participant's agreement, and START_RECORDING is refused
+ * until every active participant of the meeting has consented.
+ *
+ *   GET  /api/consent/documents/current?locale=  → ConsentDocument
+ *   GET  /api/consent/documents?locale=          → ConsentDocument[] (admin)
+ *   POST /api/consent/documents                  → PublishConsentDocumentRequest → ConsentDocument (admin)
+ *   POST /api/consent/meetings/:meetingId        → GiveConsentRequest → GiveConsentResponse
+ *   GET  /api/consent/meetings/:meetingId/export → ConsentExport (admin)
+ */
+
+// ─── Consent Document ─────────────────────────────────────────────
+// One published version of the consent text for a locale. Never updated
+// once published — a change is a new version.
+//
+// DynamoDB Table: AudioStudio_ConsentDocuments
+// Primary Key:    locale (partition) + version (sort, number)
+export interface ConsentDocument {
+  locale: string;                 // BCP 47 tag, e.g. "en", "de", "pt-BR"
+  version: number;                // 1, 2, 3… per locale — the highest is current
+  title: string;
+  body: string;                   // Consent text shown to participants (plain text)
+  bodyHash: string;               // Hex SHA-256 of body — stored with every Consent
+  publishedBy: string;            // Email of the admin who published it
+  publishedAt: string;            // ISO 8601
+}
+
+// ─── Consent ──────────────────────────────────────────────────────
+// A participant's agreement to be recorded in one meeting. The signature
+// is an HMAC over the agreed fields (everything but userId and
+// signature), so an exported record can be checked for tampering.
+//
+// DynamoDB Table: AudioStudio_Consents
+// Primary Key:    meetingId (partition) + consentId (sort)
+export interface Consent {
+  meetingId: string;              // FK → Meeting.meetingId
+  consentId: string;              // UUID
+  userId: string | null;          // Participant's userId — set when known (signed in,
+                                  //   meeting token, or at join-room from the consentId)
+  name: string;                   // Participant's display name as entered
+  email: string | null;           // Participant's email (the verified one when signed in)
+  documentLocale: string;         // FK → ConsentDocument.locale
+  documentVersion: number;        // FK → ConsentDocument.version
+  documentHash: string;           // ConsentDocument.bodyHash at the time of consent
+  consentedAt: string;            // ISO 8601
+  ip: string | null;              // Client IP of the consent request
+  userAgent: string | null;       // User-Agent header of the consent request
+  signature: string;              // Hex HMAC-SHA256 (CONSENT_SIGNING_SECRET)
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Consent API Types (/api/consent/*)
+// ═══════════════════════════════════════════════════════════════════
+
+/** Request body for POST /api/consent/documents — publish a new version (admin) */
+export interface PublishConsentDocumentRequest {
+  locale: string;
+  title: string;
+  body: string;
+}
+
+/** Request body for POST /api/consent/meetings/:meetingId — agree to be recorded */
+export interface GiveConsentRequest {
+  locale: string;                 // Locale of the document shown
+  version: number;                // Version of the document shown — must still be current
+  name: string;
+  email?: string;
+}
+
+/** Response for POST /api/consent/meetings/:meetingId */
+export interface GiveConsentResponse {
+  consent: Consent;               // Its consentId goes in the JOIN_ROOM payload
+}
+
+/** Response for GET /api/consent/meetings/:meetingId/export (admin) */
+export interface ConsentExport {
+  meetingId: string;
+  exportedAt: string;             // ISO 8601
+  consents: (Consent & { signatureValid: boolean })[];
+  documents: ConsentDocument[];   // Every document version the consents refer to
+}
@@ -0,0 +1,58 @@
+/**
+ * invite.ts — Signed invite links for a meeting's participant slots.
+ *
+ * A meeting created by a signed-in host (hostEmail set) is invite-only:
+ * its guest slot can only be claimed with an invite the host (or an admin)
+ * issued. The invite travels as a signed token in the link
+ * `{WEB_APP_URL}/?room={meetingId}&invite={token}`; Home passes it to
+ * assign-guest and JOIN_ROOM, which redeems it and gives the joiner the
+ * guest role.
+ *
+ *   GET    /api/meetings/:id/invites        → Invite[]
+ *   PUT    /api/meetings/:id/invites/:slot  → IssueInviteRequest → IssueInviteResponse
+ *   DELETE /api/meetings/:id/invites/:slot  → { success: true }
+ *
+ * Issuing again for a slot replaces its invite, so earlier links for that
+ * slot stop working (re-issue); DELETE revokes without a replacement.
+ */
+
+// ─── Invite Slots ─────────────────────────────────────────────────
+// The participant slots an invite can fill. The host slot is never
+// invited — it belongs to the meeting's hostEmail.
+export const INVITE_SLOTS = ['guest'] as const;
+
+export type InviteSlot = (typeof INVITE_SLOTS)[number];
+
+// ─── Invite ───────────────────────────────────────────────────────
+// The current invite for one slot of a meeting. The token itself is never
+// stored — only the inviteId it is signed over, which changes on re-issue.
+//
+// DynamoDB Table: AudioStudio_Invites
+// Primary Key:    meetingId (partition) + slot (sort)
+export interface Invite {
+  meetingId: string;              // FK → Meeting.meetingId
+  slot: InviteSlot;               // Slot the invite fills (its role on joining)
+  inviteId: string;               // UUID signed into the token — a new one revokes old links
+  singleUse: boolean;             // true: the first join redeems it; false: valid until expiresAt
+  issuedBy: string;               // Email of the host or admin who issued it
+  issuedAt: string;               // ISO 8601
+  expiresAt: string;              // ISO 8601 — the token expires at the same time
+  redeemedAt: string | null;      // ISO 8601 of the latest join with this invite
+  redeemedBy: string | null;      // userId that joined with it
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Invite API Types (/api/meetings/:id/invites/*)
+// ═══════════════════════════════════════════════════════════════════
+
+/** Request body for PUT /api/meetings/:id/invites/:slot */
+export interface IssueInviteRequest {
+  expiresInSeconds?: number;      // Default LIMITS.INVITE_EXPIRY, at most LIMITS.MAX_INVITE_EXPIRY
+  singleUse?: boolean;            // Default true
+}
+
+/** Response for PUT /api/meetings/:id/invites/:slot */
+export interface IssueInviteResponse {
+  invite: Invite;
+  token: string;                  // Signed invite token — the link's `invite` parameter
+}
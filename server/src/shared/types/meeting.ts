@@ -14,6 +14,8 @@
  * Participant is an ephemeral in-memory type used only when building
  * the current list of connected users for a room.
  */
+import type { Role } from '../constants/enums';
+import type { SpeakerProfile } from './speaker';
 
 // ─── Meeting Status Lifecycle ─────────────────────────────────────
 // A meeting transitions through these statuses:
@@ -44,11 +46,12 @@ export interface Meeting {
   title: string;                // Human-readable meeting title (max 255 chars)
   hostName: string | null;      // Display name for the host
   hostEmail: string | null;     // Email of the host; null until assigned
-  guestName: string | null;     // Display name for the guest
-  guestEmail: string | null;    // Email for the guest; null until assigned
+  guestName: string | null;     // Display name for the (first) guest
+  guestEmail: string | null;    // Email for the first guest; null until assigned
   scheduledTime: string | null; // ISO 8601 timestamp for when the meeting is scheduled
   status: MeetingStatus;        // Current lifecycle status
   createdAt: string;            // ISO 8601 timestamp when the meeting was created
+  blockedUserIds?: string[];    // userIds the host removed — refused on JOIN_ROOM
 }
 
 // ─── Session ──────────────────────────────────────────────────────
@@ -65,18 +68,21 @@ export interface Session {
   meetingId: string;                // FK → Meeting.meetingId
   sessionId: string;                // Composite key: `${userId}#${joinedAt}`
   userId: string;                   // Persistent user identifier (survives reconnects)
-  userRole: 'host' | 'guest';      // Role in the meeting
+  userRole: Role;                   // Role in the meeting ('observer' sessions take no seat)
   userEmail: string | null;         // User's email, if provided
   socketId: string;                 // Current Socket.IO socket ID (changes on reconnect)
   joinedAt: string;                 // ISO 8601 timestamp when the session started
   leftAt: string | null;            // ISO 8601 timestamp when the user left (null if still active)
   isActive: boolean;                // Whether the session is currently connected
+  speakerProfile?: SpeakerProfile | null; // Sent in JOIN_ROOM (see shared/types/speaker.ts)
+  speakerId?: string | null;        // FK → Speaker.speakerId (null for anonymous participants)
 }
 
 // ─── Recording ────────────────────────────────────────────────────
 // Represents a single audio recording file uploaded by one participant.
 // Each recording session (identified by sessionId) is expected to
-// produce exactly 2 recordings — one from the host and one from the guest.
+// produce one recording per participant in its recording set
+// (RecordingState.participantUserIds).
 // The recordingId encodes who recorded it: `{sessionId}#{participantName}`.
 //
 // DynamoDB Table: AudioStudio_Recordings
@@ -84,14 +90,19 @@ export interface Session {
 // GSI:            UploadIndex (uploadId) — for finding recordings by S3 multipart uploadId
 export interface Recording {
   meetingId: string;              // FK → Meeting.meetingId
-  recordingId: string;            // Composite: `{sessionId}#{sanitizedParticipantName}` or `multipart#...`
+  recordingId: string;            // Composite: `{sessionId}#{sanitizedParticipantName}` (same for simple + multipart)
   participantName: string;        // Display name of the person who recorded
-  sessionId: string;              // Recording session ID (links host + guest recordings together)
+  sessionId: string;              // Recording session ID (links the participants' recordings together)
   filePath: string;               // S3 key where the audio file is stored
   s3Url: string | null;           // Full S3 URL after multipart upload completes
   uploadedAt: string;             // ISO 8601 timestamp when the upload was initiated
   uploadId: string | null;        // S3 multipart upload ID (null for simple uploads)
-  status: 'uploading' | 'completed'; // Upload lifecycle status
+  status: 'uploading' | 'completed' | 'invalid' | 'abandoned'; // Upload lifecycle status
+  invalidReason?: string;         // Why server-side audio validation failed (status 'invalid' only)
+  checksumSHA256?: string;        // Base64 SHA-256 of the stored file ("-N" suffix = multipart composite)
+  speakerProfile?: SpeakerProfile | null; // Uploader's Session profile when the upload started
+  speakerId?: string | null;      // FK → Speaker.speakerId, from the uploader's Session
+  durationSec?: number;           // Audio length from the WAV header (set when the upload completes)
 }
 
 // ─── RecordingState ───────────────────────────────────────────────
@@ -109,7 +120,9 @@ export interface RecordingState {
   startedBySocketId: string | null; // Socket ID of the user who started recording
   startedByUserId: string | null;   // Persistent user ID of the user who started recording
   stoppedAt: string | null;       // ISO 8601 timestamp when recording was stopped
-  sessionId: string | null;       // UUID identifying this recording session (groups host+guest files)
+  sessionId: string | null;       // UUID identifying this recording session (groups its participants' files)
+  participantUserIds?: string[];  // userIds recording in this session — the files processing waits for
+  participantRoles?: Record<string, Role>; // Their roles at START_RECORDING, by userId (track labels)
 }
 
 // ─── Participant ──────────────────────────────────────────────────
@@ -119,6 +132,6 @@ export interface RecordingState {
 export interface Participant {
   socketId: string;               // Current Socket.IO socket ID
   userId: string;                 // Persistent user identifier
-  role: 'host' | 'guest';        // Role in the meeting
+  role: Role;                     // Role in the meeting
   userEmail: string | null;       // User's email, if provided
 }
@@ -99,7 +99,7 @@ export interface SpeakerMetricsAggregate {
 }
 
 /**
- * Aggregated metrics for an entire room (both speakers).
+ * Aggregated metrics for an entire room (all speakers).
  * One instance exists per active recording session, keyed by `{roomId}:{sessionId}`.
  * Updated every time any speaker's metrics are ingested.
  */
@@ -107,7 +107,7 @@ export interface RoomMetricsAggregate {
   roomId: string;                                  // Meeting ID
   sessionId: string;                               // Recording session ID
   speakers: Record<string, SpeakerMetricsAggregate>; // Per-speaker aggregates, keyed by email/userId
-  overlapPercent: number;                          // Estimated % of time both speakers talk simultaneously
+  overlapPercent: number;                          // Estimated % of time two or more speakers talk at once
   estimatedProfile: QualityProfile;                // Live quality estimate (P0=best, P4=worst)
   startedAt: number;                               // Unix timestamp (ms) when this session started
 }
@@ -119,7 +119,7 @@ export interface RoomMetricsAggregate {
  */
 export interface RecordingWarning {
   type: 'too-loud' | 'too-quiet' | 'clipping' | 'long-silence' | 'noise-increase' | 'overlap';
-  speaker: string;                // Who triggered the warning (email, userId, or 'both' for overlap)
+  speaker: string;                // Who triggered the warning (email, userId, or 'all' for overlap)
   message: string;                // Human-readable warning description
   severity: 'warning' | 'critical'; // Severity for UI treatment (yellow vs red)
 }
@@ -14,12 +14,17 @@
  *   6. Processing Pipeline — async processing status and results
  *   7. Chat — simple text message relay
  *   8. Error — generic error payloads
+ *   9. Producer — nudges and push-to-talk talkback to one participant
+ *  10. Waiting Room — new guests held until the host admits or denies them
+ *  11. Host Controls — host handoff, automatic promotion, participant removal
  *
  * The event names themselves are defined in ../constants/events.ts (SOCKET_EVENTS).
  * These payload types define the shape of the data sent with each event.
  */
 
 import type { Meeting, Participant, RecordingState } from './meeting';
+import type { SpeakerProfile } from './speaker';
+import type { Role, NudgeKind } from '../constants/enums';
 import type { QualityProfile } from '../constants/thresholds';
 import type { SpectralWarning } from './metrics';
 
@@ -49,12 +54,34 @@ export interface ICECandidate {
 //    Sent when users join/leave rooms and during reconnection flows.
 // ═══════════════════════════════════════════════════════════════════
 
-/** Client → Server: Request to join a meeting room */
+/**
+ * Client → Server: Credentials sent in the Socket.IO handshake (`auth`).
+ * They decide the socket's identity before any event is handled — a JWT
+ * gives the signed-in user's userId and email; a meeting token (the
+ * accessToken from ROOM_STATE) gives back the identity it was issued to,
+ * for that meeting only. Without either, the server assigns a new userId.
+ */
+export interface SocketAuthPayload {
+  token?: string;                 // User JWT (magic-link sign-in)
+  meetingToken?: string;          // Meeting token from an earlier ROOM_STATE
+}
+
+/**
+ * Client → Server: Request to join a meeting room. The identity comes from
+ * the handshake (SocketAuthPayload); userId and userEmail, if sent, must
+ * match it or the join is refused.
+ */
 export interface JoinRoomPayload {
   roomId: string;                 // Meeting ID to join (becomes the Socket.IO room)
-  role: 'host' | 'guest';        // Participant's role
-  userId: string;                 // Persistent user ID (survives tab refreshes)
-  userEmail?: string;             // Optional email for participant identification
+  role: Role;                     // Only 'observer' is honoured (operators/admins); otherwise assigned by the server
+  userId?: string;                // Must equal the handshake identity if sent
+  userEmail?: string;             // Email for participant identification (must match a verified one)
+  inviteToken?: string;           // Signed invite — required for the guest slot of invite-only meetings
+  consentId?: string;             // Consent given in the GreenRoom — linked to the joining userId
+  speakerProfile?: SpeakerProfile; // Stored on the Session; ignored if malformed
+  userName?: string;              // Display name, shown to the host while waiting to be admitted
+  admissionToken?: string;        // From ADMITTED — joins without waiting again
+  micCheck?: MicCheckPayload;     // The GreenRoom's last mic check — shown to the host while waiting
 }
 
 /** Server → Client: WebRTC offer relay (sender field added by server) */
@@ -89,8 +116,8 @@ export interface StopRecordingPayload {
 export interface ChatMessagePayload {
   roomId: string;                 // Meeting ID (target room)
   message: string;                // Message text content
-  sender: string;                 // Display name of the sender
-  role: 'host' | 'guest';        // Sender's role
+  sender?: string;                // Ignored — the server sends the socket's userId
+  role: Role;                     // Ignored — the server sends the socket's role
 }
 
 // ═══════════════════════════════════════════════════════════════════
@@ -153,13 +180,18 @@ export interface RoomStatePayload {
   meeting: Meeting;               // Full meeting details from DynamoDB
   participants: Participant[];    // Currently connected participants
   recordingState: RecordingState; // Whether recording is active and who started it
+  uploadToken: string | null;     // Upload token for recordingState.sessionId (null if none)
+  accessToken: string | null;     // Meeting token — read access to this meeting's recordings,
+                                  // and the joining user's identity on reconnect (SocketAuthPayload);
+                                  // null for observers
+  userId: string;                 // The joining user's identity, as assigned by the server
 }
 
 /** Server → Room: A new user has joined the room */
 export interface UserJoinedPayload {
   userId: string;                 // Socket ID of the new user (used as WebRTC target)
   persistentId: string;           // Persistent user ID (survives reconnects)
-  role: 'host' | 'guest';        // Role of the joining user
+  role: Role;                     // Role of the joining user
   userEmail: string | null;       // Email if provided
   isReconnection: boolean;        // True if this is a reconnect (not a first-time join)
 }
@@ -168,7 +200,7 @@ export interface UserJoinedPayload {
 export interface UserLeftPayload {
   userId: string;                 // Socket ID of the departing user
   persistentId: string;           // Persistent user ID
-  role: 'host' | 'guest';        // Role of the departing user
+  role: Role;                     // Role of the departing user
 }
 
 /**
@@ -181,7 +213,7 @@ export interface PeerReconnectedPayload {
   newSocketId: string;            // New socket ID to target for WebRTC signaling
 }
 
-/** Server → Client: Room is at maximum capacity (2 participants) */
+/** Server → Client: Room is at maximum capacity (LIMITS.MAX_PARTICIPANTS) */
 export interface RoomFullPayload {
   message: string;                // Human-readable rejection message
 }
@@ -195,9 +227,15 @@ export interface DuplicateSessionPayload {
   message: string;                // Human-readable message for the old tab
 }
 
-/** Server → Room: Recording has started; includes the new session ID */
+/** Server → Participant: Recording has started; includes the new session ID */
 export interface StartRecordingBroadcast {
   sessionId: string;              // UUID identifying this recording session
+  uploadToken: string | null;     // Scoped to this participant's recording (null for observers)
+}
+
+/** Server → Participant: Recording has stopped; the token covers finishing the upload */
+export interface StopRecordingBroadcast {
+  uploadToken?: string | null;    // Fresh upload token (absent if no session was recording, null for observers)
 }
 
 /**
@@ -209,6 +247,7 @@ export interface ResumeRecordingPayload {
   startedAt: number;              // Unix timestamp (ms) when recording originally started
   elapsedSeconds: number;         // Seconds elapsed since recording started
   sessionId: string;              // Current recording session ID
+  uploadToken: string | null;     // Upload token for this participant's recording
 }
 
 /** Server → Room: Recordings have been updated (e.g., upload completed) */
@@ -310,8 +349,8 @@ export interface RecordingRejectedPayload {
 /** Server → Room: Chat message broadcast (timestamp added server-side) */
 export interface ChatMessageBroadcast {
   message: string;                // Message text
-  sender: string;                 // Display name of the sender
-  role: 'host' | 'guest';        // Sender's role
+  sender: string;                 // userId of the sending socket (from its handshake)
+  role: Role;                     // Sender's role
   timestamp: string;              // ISO 8601 timestamp (added by server)
 }
 
@@ -319,3 +358,118 @@ export interface ChatMessageBroadcast {
 export interface ErrorPayload {
   message: string;                // Human-readable error description
 }
+
+// ═══════════════════════════════════════════════════════════════════
+// 8. Producer Payloads
+//    From the host or an observer to one participant. The server
+//    checks the sender may produce and routes to the target's socket.
+// ═══════════════════════════════════════════════════════════════════
+
+/** Client → Server: A structured cue for one participant */
+export interface NudgePayload {
+  roomId: string;                 // Meeting ID (the sender's room)
+  targetUserId: string;           // Persistent userId of the participant to nudge
+  kind: NudgeKind;                // Which cue to show
+}
+
+/** Server → Target: A nudge, shown as an overlay in Studio */
+export interface NudgeBroadcast {
+  kind: NudgeKind;                // Which cue to show
+  from: string;                   // userId of the producer who sent it
+  fromRole: Role;                 // 'host' or 'observer'
+  timestamp: string;              // ISO 8601 timestamp (added by server)
+}
+
+/**
+ * Client → Server: Push-to-talk to one participant started or stopped.
+ * The audio itself goes over the WebRTC connection to the target only.
+ */
+export interface TalkbackPayload {
+  roomId: string;                 // Meeting ID (the sender's room)
+  targetUserId: string;           // Persistent userId of the participant spoken to
+  active: boolean;                // true while the producer holds the talk button
+}
+
+/** Server → Target: The producer's talkback started or stopped */
+export interface TalkbackBroadcast {
+  from: string;                   // userId of the producer talking
+  fromRole: Role;                 // 'host' or 'observer'
+  active: boolean;                // true while they are talking
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// 9. Waiting Room Payloads
+//    A new guest's JOIN_ROOM is held until the host decides. Waiting
+//    sockets get no Session row and no ROOM_STATE; the host's pod finds
+//    them through the Socket.IO adapter, so host and guest may be on
+//    different pods.
+// ═══════════════════════════════════════════════════════════════════
+
+/** Server → Joining Client: Held in the waiting room until the host decides */
+export interface WaitingRoomPayload {
+  message: string;                // Human-readable status for the waiting screen
+}
+
+/** One person in a room's waiting room */
+export interface WaitingParticipant {
+  userId: string;                 // Persistent userId of the waiting user
+  userName: string | null;        // Display name from JoinRoomPayload.userName
+  userEmail: string | null;       // Verified (handshake) or given email
+  micStatus: MicStatusPayload | null; // Their latest GreenRoom mic check, if any
+  waitingSince: string;           // ISO 8601 timestamp of the held JOIN_ROOM
+}
+
+/** Server → Host: The room's waiting room — sent on join and on every change */
+export interface WaitingListPayload {
+  waiting: WaitingParticipant[];  // Oldest first
+}
+
+/** Client → Server: The host admits (ADMIT_PARTICIPANT) or denies (DENY_PARTICIPANT) a waiting user */
+export interface AdmissionDecisionPayload {
+  roomId: string;                 // Meeting ID (the host's room)
+  userId: string;                 // Persistent userId of the waiting user
+}
+
+/** Server → Waiting Client: Admitted — send JOIN_ROOM again with this token */
+export interface AdmittedPayload {
+  admissionToken: string;         // Valid for LIMITS.ADMISSION_TOKEN_EXPIRY seconds
+}
+
+/** Server → Waiting Client: The host didn't let them in */
+export interface JoinDeniedPayload {
+  message: string;                // Human-readable reason
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// 10. Host Controls Payloads
+//    The host hands the role to a guest, or removes a participant for
+//    the rest of the meeting. If the host stays disconnected, the
+//    server promotes a guest on its own (socket/host.ts).
+// ═══════════════════════════════════════════════════════════════════
+
+/** Why the room has a new host */
+export type HostChangeReason = 'transfer' | 'host-disconnected';
+
+/** Client → Server: The host makes a guest the host (and becomes a guest) */
+export interface TransferHostPayload {
+  roomId: string;                 // Meeting ID (the host's room)
+  targetUserId: string;           // Persistent userId of the guest to promote
+}
+
+/** Server → Room: The host changed — update participant roles */
+export interface HostChangedPayload {
+  hostUserId: string;             // Persistent userId of the new host
+  previousHostUserId: string | null; // Persistent userId of the old host (now a guest)
+  reason: HostChangeReason;       // Handed over, or promoted after the host was gone too long
+}
+
+/** Client → Server: The host removes a participant and blocks them from the meeting */
+export interface RemoveParticipantPayload {
+  roomId: string;                 // Meeting ID (the host's room)
+  targetUserId: string;           // Persistent userId of the participant to remove
+}
+
+/** Server → Removed Client: Removed by the host — don't reconnect */
+export interface RemovedFromRoomPayload {
+  message: string;                // Human-readable reason
+}
@@ -0,0 +1,91 @@
+/**
+ * speaker.ts — Speaker profile: self-reported attributes of the person
+ * behind a recording, kept for dataset provenance.
+ *
+ * Participants fill in their profile on the Home page (language, accent,
+ * age band, gender) and the GreenRoom (microphone type, plus the device
+ * label the browser reports). The client sends it in JOIN_ROOM; the
+ * server stores it on the participant's Session and copies it onto each
+ * Recording they upload, so the recording keeps the profile it was made
+ * with even if the participant edits theirs later. ProcessSessionMessage
+ * carries the host's and guest's profiles to the processing worker.
+ *
+ * Every attribute except language is optional — null means "not given".
+ *
+ * The Speakers registry ties one person's sessions and recordings together
+ * across meetings, for speaker-disjoint dataset splits. A speaker is a
+ * signed-in account — the email a magic link verified — and its speakerId
+ * is the account's userId. Sessions and recordings of a registered speaker
+ * carry its speakerId; anonymous participants' have speakerId null.
+ *
+ *   GET /api/speakers                      → Speaker[]       (admin)
+ *   GET /api/speakers/:speakerId           → Speaker         (admin or the speaker)
+ *   GET /api/speakers/:speakerId/history   → SpeakerHistory  (admin or the speaker)
+ */
+
+import type { Role } from '../constants/enums';
+import type { QualityProfile } from '../constants/thresholds';
+
+// ─── Age Bands ────────────────────────────────────────────────────
+// Bands rather than exact ages, so a profile alone doesn't identify anyone
+export const AGE_BANDS = ['18-24', '25-34', '35-44', '45-54', '55-64', '65+'] as const;
+
+export type AgeBand = (typeof AGE_BANDS)[number];
+
+// ─── Device Types ─────────────────────────────────────────────────
+//   built-in  — laptop / desktop internal microphone
+//   usb       — USB microphone
+//   interface — XLR microphone through an audio interface
+//   headset   — wired headset microphone
+//   bluetooth — Bluetooth headset or earbuds
+//   phone     — phone or tablet microphone
+export const DEVICE_TYPES = ['built-in', 'usb', 'interface', 'headset', 'bluetooth', 'phone', 'other'] as const;
+
+export type DeviceType = (typeof DEVICE_TYPES)[number];
+
+// ─── Speaker Profile ──────────────────────────────────────────────
+// Stored on Session.speakerProfile (as sent in JOIN_ROOM) and copied onto
+// Recording.speakerProfile when the recording's upload starts.
+export interface SpeakerProfile {
+  language: string;               // BCP 47 tag of the language spoken, e.g. "en-GB"
+  accent: string | null;          // Accent or dialect, free text (e.g. "Scottish", "Cantonese-accented")
+  ageBand: AgeBand | null;
+  gender: string | null;          // Self-described, free text
+  deviceType: DeviceType | null;  // Kind of microphone used
+  deviceLabel: string | null;     // Microphone label reported by the browser (e.g. "Blue Yeti")
+}
+
+// ─── Speaker ──────────────────────────────────────────────────────
+// Registered (or touched) whenever a signed-in account joins a meeting.
+//
+// DynamoDB Table: AudioStudio_Speakers
+// Primary Key:    speakerId (partition key, no sort key)
+export interface Speaker {
+  speakerId: string;              // The account's userId — stable across meetings
+  email: string;                  // Verified (lowercased) account email
+  firstSeenAt: string;            // ISO 8601 timestamp of the first join as this speaker
+  lastSeenAt: string;             // ISO 8601 timestamp of the latest join
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Speaker History API Types (/api/speakers/:speakerId/history)
+// ═══════════════════════════════════════════════════════════════════
+
+/** One meeting the speaker joined */
+export interface SpeakerMeeting {
+  meetingId: string;
+  title: string | null;           // null if the meeting has since been deleted
+  role: Role;                      // Role in the speaker's latest session in the meeting
+  firstJoinedAt: string;          // ISO 8601
+  recordings: number;             // Completed recordings the speaker uploaded
+  recordedMinutes: number;        // Their total audio length, rounded to 0.1
+}
+
+/** Response for GET /api/speakers/:speakerId/history */
+export interface SpeakerHistory {
+  speaker: Speaker;
+  meetings: SpeakerMeeting[];     // Oldest first
+  totalRecordedMinutes: number;   // Sum over meetings, rounded to 0.1
+  qualityProfiles: Record<QualityProfile, number>; // Completed recordings by their session's final profile
+  unprocessedRecordings: number;  // Completed recordings whose session has no processing result yet
+}
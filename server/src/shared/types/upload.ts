@@ -15,6 +15,12 @@
  *
  * Both strategies use S3 presigned URLs so the browser uploads directly to S3,
  * keeping audio data off the application server.
+ *
+ * Integrity: the client sends a base64 SHA-256 for the file (simple) or for
+ * every part (multipart). Each presigned URL is signed with that checksum,
+ * so S3 rejects bytes that don't match, and /complete checks the stored
+ * checksum — a composite "-N" checksum for multipart — before the Recording
+ * is written.
  */
 
 import type { AllowedContentType } from '../constants/limits';
@@ -29,6 +35,7 @@ export interface GetUploadUrlRequest {
   participantName: string;          // Display name of the uploader
   sessionId?: string;               // Recording session ID (optional, for path organization)
   contentType?: AllowedContentType; // MIME type (defaults to 'audio/wav')
+  checksumSHA256: string;           // Base64 SHA-256 of the file — client PUTs it as x-amz-checksum-sha256
 }
 
 /** Response for POST /api/upload/url */
@@ -39,6 +46,7 @@ export interface GetUploadUrlResponse {
   roomId: string;                   // Echo back for client reference
   participantName: string;          // Echo back for client reference
   sessionId: string | null;         // Echo back (null if not provided)
+  expiresAt: string;                // ISO 8601 expiry for the presigned URL
 }
 
 /** Request body for POST /api/upload/complete — confirm upload finished */
@@ -47,6 +55,7 @@ export interface UploadCompleteRequest {
   participantName: string;          // Who uploaded the file
   key: string;                      // S3 key of the uploaded file (returned by /url)
   sessionId?: string;               // Recording session ID
+  checksumSHA256: string;           // Same checksum as sent to /url (compared with S3's)
 }
 
 // ═══════════════════════════════════════════════════════════════════
@@ -64,6 +73,7 @@ export interface UploadCompleteRequest {
 export interface InitiateMultipartRequest {
   roomId: string;                   // Meeting ID
   participantName: string;          // Display name of the uploader
+  sessionId?: string;               // Recording session ID (same identity and key layout as simple upload)
   contentType?: AllowedContentType; // MIME type (defaults to 'audio/wav')
   fileSize?: number;                // Expected file size in bytes (for validation, optional)
 }
@@ -75,13 +85,14 @@ export interface InitiateMultipartResponse {
   bucket: string;                   // S3 bucket name
   roomId: string;                   // Echo back for client reference
   participantName: string;          // Echo back for client reference
-  sessionId: string | null;         // Recording session (null at initiation time)
+  sessionId: string | null;         // Echo back (null if not provided)
   expiresAt: string;                // ISO 8601 timestamp when the upload will expire
 }
 
 /** Request body for POST /api/multipart-upload/part-1 */
 export interface Part1Request {
   uploadId: string;                 // S3 multipart upload ID
+  checksumSHA256: string;           // Base64 SHA-256 of Part 1 — client PUTs it as x-amz-checksum-sha256
 }
 
 /**
@@ -103,6 +114,7 @@ export interface PartUrlRequest {
   key: string;                      // S3 object key (the final file key, not temp)
   uploadId: string;                 // S3 multipart upload ID
   partNumber: number;               // Part number (1–10000)
+  checksumSHA256: string;           // Base64 SHA-256 of this part — client PUTs it as x-amz-checksum-sha256
 }
 
 /** Response for POST /api/multipart-upload/part-url */
@@ -115,11 +127,13 @@ export interface PartUrlResponse {
 /**
  * Represents a completed part in the multipart upload.
  * After uploading each part, S3 returns an ETag that must be
- * included when completing the multipart upload.
+ * included when completing the multipart upload, along with the
+ * checksum the part was uploaded with.
  */
 export interface CompletePart {
   PartNumber: number;               // Part number (1-indexed)
   ETag: string;                     // S3 ETag returned after successful part upload
+  ChecksumSHA256: string;           // Base64 SHA-256 the part was uploaded with
 }
 
 /** Request body for POST /api/multipart-upload/complete */
@@ -130,6 +144,7 @@ export interface CompleteMultipartRequest {
   roomId: string;                   // Meeting ID (for recording entry)
   participantName: string;          // Who uploaded (for recording entry)
   sessionId?: string;               // Recording session ID
+  checksumSHA256: string;           // Composite checksum of `parts` ("{base64}-{partCount}")
 }
 
 /** Response for POST /api/multipart-upload/complete */
@@ -155,6 +170,7 @@ export interface ListPartsResponse {
   parts: Array<{
     PartNumber: number;             // Part number (1-indexed)
     ETag: string;                   // S3 ETag
+    ChecksumSHA256: string | null;  // Base64 SHA-256 stored with the part (null for pre-checksum uploads)
     Size: number;                   // Part size in bytes
     LastModified: string;           // ISO 8601 timestamp of last modification
   }>;
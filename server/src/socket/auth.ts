@@ -0,0 +1,62 @@
+/**
+ * socket/auth.ts — Socket.IO handshake authentication.
+ *
+ * Registered with io.use() in socket/index.ts, so it runs once per
+ * connection before any event handler. It decides who the socket is from
+ * the handshake credentials (SocketAuthPayload) and sets socket.userId and
+ * socket.userEmail — JOIN_ROOM and every other handler use those, never
+ * identity fields sent in event payloads:
+ *
+ *   token        — user JWT (middleware/auth.ts): the signed-in user's
+ *                  userId, email and platform role (socket.accountRole,
+ *                  which decides who may join as an observer), in any meeting
+ *   meetingToken — meeting token (middleware/meetingAccess.ts) from an
+ *                  earlier ROOM_STATE: the userId and email it was issued
+ *                  to, valid only for that meeting (socket.authMeetingId)
+ *   neither      — a new, server-generated userId
+ *
+ * An invalid JWT refuses the connection (the client only sends unexpired
+ * ones). An invalid or expired meeting token is only a lost reconnection:
+ * the socket gets a new identity, which can't take over anyone's session.
+ *
+ * This closes the reconnection takeover in socket/session.ts: reusing a
+ * session now requires the credential it was issued to, not just its userId.
+ */
+import type { Socket } from 'socket.io';
+import { v4 as uuid } from 'uuid';
+import type { SocketAuthPayload } from '../shared';
+import { verifyToken } from '../middleware/auth';
+import { verifyMeetingToken } from '../middleware/meetingAccess';
+import { logger } from '../utils/logger';
+
+export function authenticateSocket(socket: Socket, next: (err?: Error) => void): void {
+  const { token, meetingToken } = (socket.handshake.auth ?? {}) as SocketAuthPayload;
+
+  if (token) {
+    const user = verifyToken(token);
+    if (!user) {
+      logger.warn('Socket handshake rejected: invalid JWT', { socketId: socket.id });
+      return next(new Error('Invalid or expired token'));
+    }
+    socket.userId = user.userId;
+    socket.userEmail = user.email;
+    socket.accountRole = user.role;
+    socket.authMethod = 'jwt';
+    return next();
+  }
+
+  if (meetingToken) {
+    const claims = verifyMeetingToken(meetingToken);
+    if (claims) {
+      socket.userId = claims.userId;
+      socket.userEmail = claims.userEmail ?? undefined;
+      socket.authMethod = 'meeting-token';
+      socket.authMeetingId = claims.meetingId;
+      return next();
+    }
+  }
+
+  socket.userId = `user_${uuid()}`;
+  socket.authMethod = 'anonymous';
+  next();
+}
@@ -15,36 +15,35 @@
  *
  * The `fromUserId` field is added to the broadcast so the receiving client
  * can tell whose mic status it is (the sender vs. their partner).
+ *
+ * The latest result is also kept on the socket (socket.data.micStatus): a
+ * guest waiting to be admitted is listed to the host with it, and the
+ * host's waiting list is refreshed when it changes (socket/waitingRoom.ts).
+ * The GreenRoom's socket is gone by the time its user joins from the
+ * Studio, so JOIN_ROOM carries the GreenRoom's last check too (micCheck),
+ * evaluated the same way by recordMicCheck().
  */
 import type { Server as SocketIOServer, Socket } from 'socket.io';
 import { SOCKET_EVENTS } from '../shared';
+import type { MicCheckPayload, MicStatus } from '../shared';
 import * as greenRoomService from '../services/greenRoomService';
+import { sendWaitingList } from './waitingRoom';
 import { logger } from '../utils/logger';
 
 export function handleGreenRoom(io: SocketIOServer, socket: Socket): void {
-  socket.on(SOCKET_EVENTS.MIC_CHECK, (data) => {
+  socket.on(SOCKET_EVENTS.MIC_CHECK, async (data) => {
     try {
-      // Guard: RMS is the minimum required metric for evaluation
-      if (!data || typeof data.rms !== 'number') return;
-
-      // Evaluate mic quality against configured thresholds (see AUDIO_THRESHOLDS)
-      const status = greenRoomService.evaluate({
-        rms: data.rms,
-        peak: data.peak ?? 0,
-        noiseFloor: data.noiseFloor ?? -60,
-        isClipping: data.isClipping ?? false,
-        // Spectral analysis (new fields with backward-compatible defaults)
-        voiceBandEnergy: data.voiceBandEnergy ?? 0,
-        highFreqEnergy: data.highFreqEnergy ?? 0,
-        spectralFlatness: data.spectralFlatness ?? 1,
-        humDetected: data.humDetected ?? false,
-        rmsStability: data.rmsStability ?? 0,
-        speechLikely: data.speechLikely ?? false,
-      });
+      const status = recordMicCheck(socket, data);
+      if (!status) return;
 
       // Send result back to the sender (they see their own mic quality indicator)
       socket.emit(SOCKET_EVENTS.MIC_STATUS, status);
 
+      // Shown to the host if this socket waits to be admitted
+      if (socket.data.waiting) {
+        await sendWaitingList(io, socket.data.waiting.roomId);
+      }
+
       // Broadcast to room so the partner can see this user's mic status
       if (socket.roomId) {
         socket.to(socket.roomId).emit(SOCKET_EVENTS.MIC_STATUS, {
@@ -60,3 +59,30 @@ export function handleGreenRoom(io: SocketIOServer, socket: Socket): void {
     }
   });
 }
+
+/**
+ * Evaluate a mic check and keep the result as the socket's latest
+ * (socket.data.micStatus). Returns null, keeping nothing, if `data` has
+ * no RMS level.
+ */
+export function recordMicCheck(socket: Socket, data: Partial<MicCheckPayload> | undefined): MicStatus | null {
+  // Guard: RMS is the minimum required metric for evaluation
+  if (!data || typeof data.rms !== 'number') return null;
+
+  // Evaluate mic quality against configured thresholds (see AUDIO_THRESHOLDS)
+  const status = greenRoomService.evaluate({
+    rms: data.rms,
+    peak: data.peak ?? 0,
+    noiseFloor: data.noiseFloor ?? -60,
+    isClipping: data.isClipping ?? false,
+    // Spectral analysis (new fields with backward-compatible defaults)
+    voiceBandEnergy: data.voiceBandEnergy ?? 0,
+    highFreqEnergy: data.highFreqEnergy ?? 0,
+    spectralFlatness: data.spectralFlatness ?? 1,
+    humDetected: data.humDetected ?? false,
+    rmsStability: data.rmsStability ?? 0,
+    speechLikely: data.speechLikely ?? false,
+  });
+  socket.data.micStatus = status;
+  return status;
+}
@@ -0,0 +1,246 @@
+/**
+ * socket/host.ts — Host handoff, automatic promotion and participant removal.
+ *
+ * The host role starts with whoever socket/session.ts seats as host, but it
+ * isn't fixed to them:
+ *
+ *   TRANSFER_HOST { roomId, targetUserId }
+ *     The host makes an active guest the host and becomes a guest. Both
+ *     session rows are updated, and HOST_CHANGED { reason: 'transfer' }
+ *     goes to the room.
+ *
+ *   Automatic promotion
+ *     When a host's session ends (socket/session.ts disconnect), a timer
+ *     starts. If the room still has no active host when it fires, the guest
+ *     who joined earliest is promoted and HOST_CHANGED { reason:
+ *     'host-disconnected' } goes to the room. The old host's latest session
+ *     row is demoted too, so when they come back they keep the guest role
+ *     (the new host can hand it back). A host who returns in time finds
+ *     their role intact, and the timer finds a host and does nothing.
+ *
+ *   REMOVE_PARTICIPANT { roomId, targetUserId }
+ *     The host removes a guest: their userId is added to the meeting's
+ *     blockedUserIds (JOIN_ROOM refuses it from then on), each of their
+ *     active sessions is marked inactive, and their sockets get
+ *     REMOVED_FROM_ROOM and are disconnected — the disconnect handler in
+ *     socket/session.ts tells the room, as for anyone leaving. During a
+ *     recording they first get STOP_RECORDING with an upload token, so what
+ *     they captured is still uploaded, and are taken out of the take's
+ *     recording set — their file is cut short, and processing would
+ *     otherwise wait for a full-length one from them. Observers and the host
+ *     themselves can't be removed.
+ *
+ *     Their sockets go right after STOP_RECORDING, so the upload isn't
+ *     waited for: it runs over HTTP with the upload token, which removal
+ *     doesn't revoke (the upload routes check only the token), and can
+ *     still finish after they're gone. The file is kept with the take's
+ *     recordings but isn't one of its processed tracks.
+ *
+ *     The block holds for identities a client can't regenerate: signed-in
+ *     accounts and meeting tokens (which carry the same userId). An
+ *     anonymous guest gets a fresh userId on every handshake, so a removed
+ *     one who comes back without their meeting token isn't recognised — they
+ *     land in the waiting room as a new guest, and it's up to the host to
+ *     deny them. Once a meeting has removed anyone, an anonymous joiner
+ *     can't take an empty open room as host either (socket/session.ts).
+ *
+ * ─── Across Pods ────────────────────────────────────────────────
+ *   The role lives on the Session row. Host-only actions (here, recording,
+ *   producer and waiting room) check it with currentRole(), which refreshes
+ *   socket.userRole from the row — a handoff or promotion made on another
+ *   pod takes effect on the next action. The promotion timer is pod-local:
+ *   it runs on the pod that saw the host disconnect, and a DynamoDB lease
+ *   (lockRepo) keeps two pods from promoting in the same room at once. If
+ *   that pod goes away first, nobody is promoted — the room waits for its
+ *   host to return.
+ *
+ * Configuration (environment):
+ *   HOST_PROMOTION_DELAY_SECONDS — default 60; 0 disables automatic promotion
+ */
+import type { Server as SocketIOServer, Socket } from 'socket.io';
+import { SOCKET_EVENTS, ROLES } from '../shared';
+import type { HostChangedPayload, Role, Session } from '../shared';
+import * as sessionRepo from '../repositories/sessionRepo';
+import * as meetingRepo from '../repositories/meetingRepo';
+import * as recordingStateRepo from '../repositories/recordingStateRepo';
+import * as lockRepo from '../repositories/lockRepo';
+import * as waitingRoom from './waitingRoom';
+import { emitWithUploadTokens } from './recording';
+import { OWNER_ID, readNumberEnv } from '../utils/process';
+import { logger } from '../utils/logger';
+
+const PROMOTION_DELAY_MS = readNumberEnv('HOST_PROMOTION_DELAY_SECONDS', 60) * 1000;
+const PROMOTION_LEASE_MS = 30_000;
+
+/** Pending promotion timers on this pod, by roomId */
+const promotionTimers = new Map<string, NodeJS.Timeout>();
+
+export function handleHostControls(io: SocketIOServer, socket: Socket): void {
+  // ─── Transfer Host ───────────────────────────────────────────
+  socket.on(SOCKET_EVENTS.TRANSFER_HOST, async ({ roomId, targetUserId }) => {
+    try {
+      if (!roomId || !targetUserId) return;
+
+      if (socket.roomId !== roomId || (await currentRole(socket)) !== ROLES.HOST) {
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Only the host can hand over the host role' });
+        return;
+      }
+      if (targetUserId === socket.userId) return;
+
+      const sessions = await sessionRepo.getActiveSessionsByMeeting(roomId);
+      const own = sessions.find((s) => s.socketId === socket.id);
+      const targets = sessions.filter((s) => s.userId === targetUserId && s.userRole === ROLES.GUEST);
+      if (!own || targets.length === 0) {
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'That guest is no longer in the room' });
+        return;
+      }
+
+      // Promote first — the room is never without a host
+      for (const target of targets) {
+        await sessionRepo.updateRole(roomId, target.sessionId, ROLES.HOST);
+      }
+      await sessionRepo.updateRole(roomId, own.sessionId, ROLES.GUEST);
+      socket.userRole = ROLES.GUEST;
+
+      announceHostChange(io, roomId, { hostUserId: targetUserId, previousHostUserId: own.userId, reason: 'transfer' });
+      logger.info('Host transferred', { roomId, from: own.userId, to: targetUserId });
+      await waitingRoom.sendWaitingList(io, roomId);
+    } catch (err) {
+      logger.error('Error transferring host', {
+        roomId,
+        socketId: socket.id,
+        error: (err as Error).message,
+      });
+      socket.emit(SOCKET_EVENTS.ERROR, { message: 'Failed to hand over the host role' });
+    }
+  });
+
+  // ─── Remove Participant ──────────────────────────────────────
+  socket.on(SOCKET_EVENTS.REMOVE_PARTICIPANT, async ({ roomId, targetUserId }) => {
+    try {
+      if (!roomId || !targetUserId) return;
+
+      if (socket.roomId !== roomId || (await currentRole(socket)) !== ROLES.HOST) {
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Only the host can remove a participant' });
+        return;
+      }
+      if (targetUserId === socket.userId) {
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'You cannot remove yourself' });
+        return;
+      }
+
+      const sessions = await sessionRepo.getActiveSessionsByMeeting(roomId);
+      const targets = sessions.filter((s) => s.userId === targetUserId);
+      if (targets.some((s) => s.userRole === ROLES.OBSERVER)) {
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Observers cannot be removed' });
+        return;
+      }
+      if (targets.length === 0) {
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'That participant is no longer in the room' });
+        return;
+      }
+
+      // Blocked before they're disconnected, so an automatic reconnect is refused
+      const meeting = await meetingRepo.getMeetingById(roomId);
+      if (!meeting?.blockedUserIds?.includes(targetUserId)) {
+        await meetingRepo.blockUser(roomId, targetUserId);
+      }
+
+      // Mid-take: let them upload what they recorded, and stop waiting for it
+      const recordingState = await recordingStateRepo.getRecordingState(roomId);
+      if (recordingState?.isRecording && recordingState.sessionId) {
+        const recordingSet = recordingState.participantUserIds ?? null;
+        emitWithUploadTokens(io, targets, recordingSet, roomId, recordingState.sessionId, SOCKET_EVENTS.STOP_RECORDING, {});
+        await recordingStateRepo.removeParticipant(roomId, recordingState.sessionId, targetUserId);
+      }
+
+      for (const target of targets) {
+        await removeSession(io, roomId, target);
+      }
+      logger.info('Participant removed', { roomId, userId: targetUserId, by: socket.userId });
+    } catch (err) {
+      logger.error('Error removing participant', {
+        roomId,
+        socketId: socket.id,
+        error: (err as Error).message,
+      });
+      socket.emit(SOCKET_EVENTS.ERROR, { message: 'Failed to remove the participant' });
+    }
+  });
+}
+
+/**
+ * The socket's role in its room, from its Session row — which a handoff or
+ * promotion on another pod may have changed. Refreshes socket.userRole.
+ */
+export async function currentRole(socket: Socket): Promise<Role | undefined> {
+  if (!socket.roomId) return socket.userRole;
+  const session = await sessionRepo.findBySocketId(socket.id);
+  if (session?.isActive && session.meetingId === socket.roomId) {
+    socket.userRole = session.userRole;
+  }
+  return socket.userRole;
+}
+
+/**
+ * `previousHostUserId`'s host session in `roomId` just ended: promote a
+ * guest if the room still has no host after HOST_PROMOTION_DELAY_SECONDS.
+ */
+export function scheduleHostPromotion(io: SocketIOServer, roomId: string, previousHostUserId: string): void {
+  if (PROMOTION_DELAY_MS <= 0) return;
+
+  clearTimeout(promotionTimers.get(roomId));
+  const timer = setTimeout(() => {
+    promotionTimers.delete(roomId);
+    promoteIfHostGone(io, roomId, previousHostUserId).catch((err) => {
+      logger.error('Error promoting a new host', { roomId, error: (err as Error).message });
+    });
+  }, PROMOTION_DELAY_MS);
+  timer.unref();
+  promotionTimers.set(roomId, timer);
+}
+
+/** Promote the earliest-joined guest, unless a host is back or another pod got there first */
+async function promoteIfHostGone(io: SocketIOServer, roomId: string, previousHostUserId: string): Promise<void> {
+  const sessions = await sessionRepo.getActiveSessionsByMeeting(roomId);
+  if (sessions.some((s) => s.userRole === ROLES.HOST)) return;
+
+  const next = sessions
+    .filter((s) => s.userRole === ROLES.GUEST)
+    .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt))[0];
+  if (!next) return;
+
+  if (!(await lockRepo.acquireLease(`host-promotion:${roomId}`, OWNER_ID, PROMOTION_LEASE_MS))) return;
+
+  await sessionRepo.updateRole(roomId, next.sessionId, ROLES.HOST);
+
+  // The old host comes back as a guest (see Role Assignment in session.ts)
+  const previous = await sessionRepo.findLatestByMeetingAndUserId(roomId, previousHostUserId);
+  if (previous && !previous.isActive && previous.userRole === ROLES.HOST) {
+    await sessionRepo.updateRole(roomId, previous.sessionId, ROLES.GUEST);
+  }
+
+  announceHostChange(io, roomId, {
+    hostUserId: next.userId,
+    previousHostUserId,
+    reason: 'host-disconnected',
+  });
+  logger.info('Guest promoted to host', { roomId, userId: next.userId, previousHostUserId });
+  await waitingRoom.sendWaitingList(io, roomId);
+}
+
+/**
+ * Mark one of a removed participant's sessions inactive and disconnect its
+ * socket, wherever it lives. Its disconnect handler sends USER_LEFT.
+ */
+async function removeSession(io: SocketIOServer, roomId: string, session: Session): Promise<void> {
+  await sessionRepo.markSessionInactive(roomId, session.sessionId);
+  io.to(session.socketId).emit(SOCKET_EVENTS.REMOVED_FROM_ROOM, {
+    message: 'The host removed you from this session',
+  });
+  io.in(session.socketId).disconnectSockets(true);
+}
+
+function announceHostChange(io: SocketIOServer, roomId: string, payload: HostChangedPayload): void {
+  io.to(roomId).emit(SOCKET_EVENTS.HOST_CHANGED, payload);
+}
@@ -3,41 +3,56 @@
  *
  * Central entry point for all real-time communication. When a client
  * connects via WebSocket, this module attaches all event handlers to
- * the socket, organized into five handler groups:
+ * the socket, organized into eight handler groups:
  *
  *   1. Session    — join-room, reconnection, disconnect, room state
  *   2. Signaling  — WebRTC offer/answer/ICE relay for peer-to-peer audio
  *   3. Recording  — start/stop recording, recording state management
  *   4. Green Room — pre-recording mic check and quality evaluation
  *   5. Live Metrics — real-time audio quality metrics during recording
+ *   6. Producer   — nudges and talkback from the host/an observer to one participant
+ *   7. Waiting Room — the host admits or denies new guests
+ *   8. Host Controls — host handoff, automatic promotion, removing a participant
  *
  * Additionally handles:
+ *   - Handshake authentication (socket/auth.ts) — runs before any handler
  *   - Chat message relay (broadcast to all participants in the room)
  *   - Socket-level error logging
  *
- * The Socket interface is extended with custom properties (roomId, userId,
- * userRole, userEmail) that are set when a user joins a room and used by
- * all handler modules to identify the connected participant.
+ * The Socket interface is extended with custom properties: userId and
+ * userEmail are set from the handshake credentials, roomId and userRole
+ * when the user joins a room. All handler modules use them to identify
+ * the connected participant.
  */
 import type { Server as SocketIOServer, Socket } from 'socket.io';
 import { SOCKET_EVENTS } from '../shared';
+import type { Role, UserRole } from '../shared';
+import { authenticateSocket } from './auth';
 import { handleSession } from './session';
 import { handleSignaling } from './signaling';
 import { handleRecording } from './recording';
 import { handleGreenRoom } from './greenRoom';
 import { handleLiveMetrics } from './liveMetrics';
+import { handleProducer } from './producer';
+import { handleWaitingRoom } from './waitingRoom';
+import { handleHostControls } from './host';
 import { logger } from '../utils/logger';
 
 // ─── Socket Type Extension ───────────────────────────────────────
 // Augment the Socket.IO Socket interface with per-connection metadata.
-// These are set in session.ts when a user joins a room and read by
-// other handlers (e.g., greenRoom reads socket.roomId, socket.userId).
+// Identity (userId, userEmail, authMethod, authMeetingId, accountRole) is set
+// by auth.ts during the handshake; roomId and userRole are set in session.ts
+// when a user joins a room. All are read by other handlers (e.g., greenRoom
+// reads socket.userId).
 declare module 'socket.io' {
   interface Socket {
     roomId?: string;              // The meeting room this socket is connected to
     userId?: string;              // Persistent user identifier (survives reconnects)
-    userRole?: 'host' | 'guest'; // Role in the meeting
-    userEmail?: string;           // User's email address, if provided
+    userRole?: Role;              // Role in the meeting
+    userEmail?: string;           // User's email address, if known
+    authMethod?: 'jwt' | 'meeting-token' | 'anonymous'; // How the handshake identified the socket
+    authMeetingId?: string;       // Meeting the handshake's meeting token is limited to
+    accountRole?: UserRole;       // The JWT account's platform role (JWT sockets only)
   }
 }
 
@@ -46,6 +61,9 @@ declare module 'socket.io' {
  * Called once during server bootstrap (see server.ts).
  */
 export function setupSocketHandlers(io: SocketIOServer): void {
+  // Identity from handshake credentials — before any event handler runs
+  io.use(authenticateSocket);
+
   io.on('connection', (socket: Socket) => {
     logger.info('User connected', { socketId: socket.id });
 
@@ -64,15 +82,26 @@ export function setupSocketHandlers(io: SocketIOServer): void {
     // Live audio metrics ingestion and quality warnings during recording
     handleLiveMetrics(io, socket);
 
+    // Producer nudges and push-to-talk talkback to one participant
+    handleProducer(io, socket);
+
+    // Waiting room: the host's admit/deny, and leaving it by disconnecting
+    handleWaitingRoom(io, socket);
+
+    // Host handoff and removing a participant (promotion runs off session.ts's disconnect)
+    handleHostControls(io, socket);
+
     // ─── Chat Relay ────────────────────────────────────────────
     // Simple broadcast: sender's message is relayed to all participants
     // in the room (including the sender) with a server-generated timestamp.
-    socket.on(SOCKET_EVENTS.CHAT_MESSAGE, ({ roomId, message, sender, role }) => {
+    // The sender is the socket's own identity, not the one in the payload.
+    // Observers chat too — their messages are labelled with their role.
+    socket.on(SOCKET_EVENTS.CHAT_MESSAGE, ({ roomId, message }) => {
       if (!roomId || !message) return;
       io.to(roomId).emit(SOCKET_EVENTS.CHAT_MESSAGE, {
         message,
-        sender,
-        role,
+        sender: socket.userId,
+        role: socket.userRole,
         timestamp: new Date().toISOString(),
       });
     });
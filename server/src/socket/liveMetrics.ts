@@ -18,9 +18,12 @@
  * Also handles UPLOAD_PROGRESS relay — when one participant starts uploading
  * their recording, progress updates are forwarded to the other participant
  * so both users see upload status in the UI.
+ *
+ * Observers receive the room's warnings, quality updates and upload
+ * progress, but don't record — anything they send here is ignored.
  */
 import type { Server as SocketIOServer, Socket } from 'socket.io';
-import { SOCKET_EVENTS } from '../shared';
+import { SOCKET_EVENTS, ROLES } from '../shared';
 import * as metricsService from '../services/metricsService';
 import { logger } from '../utils/logger';
 
@@ -30,7 +33,7 @@ export function handleLiveMetrics(io: SocketIOServer, socket: Socket): void {
   // Each batch updates the running average and may trigger quality warnings.
   socket.on(SOCKET_EVENTS.AUDIO_METRICS, (data) => {
     try {
-      if (!socket.roomId || !data) return;
+      if (!socket.roomId || !data || socket.userRole === ROLES.OBSERVER) return;
 
       // Identify the speaker — prefer email for display, fall back to userId/socketId
       const speaker = socket.userEmail || socket.userId || socket.id;
@@ -69,7 +72,7 @@ export function handleLiveMetrics(io: SocketIOServer, socket: Socket): void {
   // When a participant is uploading their recording, relay progress
   // to the partner so both users see the upload status in the UI.
   socket.on(SOCKET_EVENTS.UPLOAD_PROGRESS, (data) => {
-    if (!socket.roomId || !data) return;
+    if (!socket.roomId || !data || socket.userRole === ROLES.OBSERVER) return;
     socket.to(socket.roomId).emit(SOCKET_EVENTS.UPLOAD_PROGRESS, data);
   });
 }
@@ -0,0 +1,127 @@
+/**
+ * socket/producer.ts — Producer nudges and talkback to one participant.
+ *
+ * The producer is whoever runs the session from the control side: the host,
+ * or an observer (socket/session.ts). When a RECORDING_WARNING points at one
+ * speaker, they can reach just that speaker instead of the shared chat:
+ *
+ *   NUDGE { roomId, targetUserId, kind }
+ *     A structured cue (NUDGE_KIND: move closer, reduce gain, pause, check
+ *     headphones). The target's Studio shows it as an overlay.
+ *
+ *   TALKBACK { roomId, targetUserId, active }
+ *     Push-to-talk started/stopped. The audio goes over the producer's
+ *     existing WebRTC connection to the target only — the client switches
+ *     its outgoing track there — so it plays in the target's headphones and
+ *     never reaches their recorder, which captures their own mic only. This
+ *     event just tells the target's Studio to show who is talking.
+ *     A host can't start talkback while a take is recording: it would come
+ *     from their recording mic, into their own track, and take their voice
+ *     away from everyone else in the room.
+ *
+ * The target is a participant's persistent userId. It is looked up among
+ * the room's active sessions (not the pod-local Socket.IO room), and the
+ * event goes to that session's socket, so it reaches other pods through the
+ * Redis adapter. Observers, and the sender themselves, can't be targeted.
+ */
+import type { Server as SocketIOServer, Socket } from 'socket.io';
+import { SOCKET_EVENTS, ROLES, NUDGE_KIND } from '../shared';
+import type { NudgeKind, Session } from '../shared';
+import * as sessionRepo from '../repositories/sessionRepo';
+import * as recordingStateRepo from '../repositories/recordingStateRepo';
+import { currentRole } from './host';
+import { logger } from '../utils/logger';
+
+const NUDGE_KINDS = Object.values(NUDGE_KIND) as string[];
+
+export function handleProducer(io: SocketIOServer, socket: Socket): void {
+  // ─── Nudge ───────────────────────────────────────────────────
+  socket.on(SOCKET_EVENTS.NUDGE, async ({ roomId, targetUserId, kind }) => {
+    try {
+      if (!roomId || !targetUserId) return;
+
+      const refusal = await checkProducer(socket, roomId);
+      if (refusal) {
+        socket.emit(SOCKET_EVENTS.ERROR, { message: refusal });
+        return;
+      }
+      if (!NUDGE_KINDS.includes(kind)) {
+        socket.emit(SOCKET_EVENTS.ERROR, { message: `Unknown nudge: ${kind}` });
+        return;
+      }
+
+      const target = await findTarget(roomId, targetUserId, socket);
+      if (!target) {
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'That participant is no longer in the room' });
+        return;
+      }
+
+      io.to(target.socketId).emit(SOCKET_EVENTS.NUDGE, {
+        kind: kind as NudgeKind,
+        from: socket.userId,
+        fromRole: socket.userRole,
+        timestamp: new Date().toISOString(),
+      });
+      logger.info('Nudge sent', { roomId, from: socket.userId, to: targetUserId, kind });
+    } catch (err) {
+      logger.error('Error sending nudge', {
+        roomId,
+        socketId: socket.id,
+        error: (err as Error).message,
+      });
+      socket.emit(SOCKET_EVENTS.ERROR, { message: 'Failed to send nudge' });
+    }
+  });
+
+  // ─── Talkback ────────────────────────────────────────────────
+  socket.on(SOCKET_EVENTS.TALKBACK, async ({ roomId, targetUserId, active }) => {
+    try {
+      if (!roomId || !targetUserId) return;
+
+      const refusal = await checkProducer(socket, roomId);
+      if (refusal) {
+        socket.emit(SOCKET_EVENTS.ERROR, { message: refusal });
+        return;
+      }
+      if (active && socket.userRole === ROLES.HOST) {
+        const recordingState = await recordingStateRepo.getRecordingState(roomId);
+        if (recordingState?.isRecording) {
+          socket.emit(SOCKET_EVENTS.ERROR, { message: "The host can't talk back while recording" });
+          return;
+        }
+      }
+
+      const target = await findTarget(roomId, targetUserId, socket);
+      if (!target) return; // Nobody to stop talking to — not worth an error
+
+      io.to(target.socketId).emit(SOCKET_EVENTS.TALKBACK, {
+        from: socket.userId,
+        fromRole: socket.userRole,
+        active: !!active,
+      });
+    } catch (err) {
+      logger.error('Error relaying talkback', {
+        roomId,
+        socketId: socket.id,
+        error: (err as Error).message,
+      });
+    }
+  });
+}
+
+/** Why this socket can't produce in `roomId`, or null if it can (the role may have changed hands) */
+async function checkProducer(socket: Socket, roomId: string): Promise<string | null> {
+  if (socket.roomId !== roomId) return 'Join the room first';
+  const role = await currentRole(socket);
+  if (role !== ROLES.HOST && role !== ROLES.OBSERVER) {
+    return 'Only the host or an observer can reach a participant';
+  }
+  return null;
+}
+
+/** The active, non-observer session of `targetUserId` in `roomId` — never the sender's own */
+async function findTarget(roomId: string, targetUserId: string, socket: Socket): Promise<Session | null> {
+  if (targetUserId === socket.userId) return null;
+  const sessions = await sessionRepo.getActiveSessionsByMeeting(roomId);
+  return sessions.find((s) => s.userId === targetUserId && s.userRole !== ROLES.OBSERVER) ?? null;
+}
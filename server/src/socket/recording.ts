@@ -3,23 +3,39 @@
  *
  * Handles the recording lifecycle for a meeting room.
  * Only the HOST can start/stop recording — guests receive the broadcast
- * but cannot initiate or halt a recording session.
+ * but cannot initiate or halt a recording session. The host is checked
+ * against the sender's Session row (currentRole, socket/host.ts), since the
+ * role can be handed over or promoted on another pod.
  *
  *   START_RECORDING:
  *     1. Validates the sender is the host (rejects guests)
- *     2. Generates a new UUID sessionId (groups the host + guest recordings together)
- *     3. Persists the recording state in DynamoDB (RecordingState table)
- *     4. Broadcasts START_RECORDING to all participants (they begin capturing audio)
- *     5. Updates the meeting status to 'recording' and increments global stats
+ *     2. Refuses while any active participant hasn't given recording consent
+ *        (services/consentService.ts — given in the GreenRoom)
+ *     3. Generates a new UUID sessionId (groups every participant's recording together)
+ *     4. Persists the recording state in DynamoDB (RecordingState table), with
+ *        the recording set — the userIds of the participants in the room now,
+ *        and each one's role, which labels their track even if the host role
+ *        changes hands before processing
+ *     5. Sends START_RECORDING to each of them with its own upload token
+ *        (they begin capturing audio and streaming it to S3), and to any
+ *        observers without one
+ *     6. Updates the meeting status to 'recording' and increments global stats
  *
  *   STOP_RECORDING:
  *     1. Validates the sender is the host (rejects guests)
  *     2. Updates RecordingState.isRecording → false, sets stoppedAt timestamp
- *     3. Broadcasts STOP_RECORDING to all participants (they stop capturing)
+ *     3. Sends STOP_RECORDING to each participant in the recording set with a
+ *        fresh upload token (they stop capturing and finish their upload);
+ *        anyone else in the room gets it with uploadToken null
  *     4. Reverts the meeting status back to 'active' and decrements global stats
  *
  * The sessionId is critical — it's sent to clients who then include it when
- * uploading their recording files, linking the host and guest audio together.
+ * uploading their recording files, linking every participant's audio together.
+ * Processing waits for a file from each userId in the recording set, so
+ * someone joining mid-take isn't waited for (they don't record it).
+ * Observers are never in the set, need no consent and get no upload token.
+ * The upload token (middleware/uploadToken.ts) binds that sessionId to the
+ * participant, so uploads can't be made for anyone else's recording.
  *
  * Only one recording can be active per meeting at a time (enforced by the
  * singleton RecordingState per meetingId).
@@ -27,9 +43,14 @@
 import { v4 as uuid } from 'uuid';
 import type { Server as SocketIOServer, Socket } from 'socket.io';
 import { SOCKET_EVENTS, ROLES, MEETING_STATUS } from '../shared';
+import type { Role, Session } from '../shared';
 import * as recordingStateRepo from '../repositories/recordingStateRepo';
+import * as sessionRepo from '../repositories/sessionRepo';
 import * as meetingService from '../services/meetingService';
+import * as consentService from '../services/consentService';
 import * as statsRepo from '../repositories/statsRepo';
+import { currentRole } from './host';
+import { generateUploadToken } from '../middleware/uploadToken';
 import { logger } from '../utils/logger';
 
 export function handleRecording(io: SocketIOServer, socket: Socket): void {
@@ -38,27 +59,44 @@ export function handleRecording(io: SocketIOServer, socket: Socket): void {
     try {
       if (!roomId) return;
 
-      // Only the host can start recording
-      if (socket.userRole !== ROLES.HOST) {
+      // Only the host of this room can start recording
+      if (socket.roomId !== roomId || (await currentRole(socket)) !== ROLES.HOST) {
         socket.emit(SOCKET_EVENTS.ERROR, { message: 'Only the host can start recording' });
         return;
       }
 
-      // Generate a unique session ID that groups host + guest recordings
+      // Everyone recorded must have consented — observers aren't recorded
+      const activeSessions = await sessionRepo.getActiveSessionsByMeeting(roomId);
+      const recorded = activeSessions.filter((s) => s.userRole !== ROLES.OBSERVER);
+      const missing = await consentService.findMissingConsents(roomId, recorded);
+      if (missing.length > 0) {
+        const who = missing.map((s) => s.userEmail || s.userRole).join(', ');
+        logger.warn('Recording refused: consent missing', { roomId, userIds: missing.map((s) => s.userId) });
+        socket.emit(SOCKET_EVENTS.ERROR, { message: `Waiting for recording consent from: ${who}` });
+        return;
+      }
+
+      // Generate a unique session ID that groups the participants' recordings
       const sessionId = uuid();
+      const participantRoles: Record<string, Role> = {};
+      for (const s of recorded) participantRoles[s.userId] = s.userRole;
 
-      // Persist recording state (who started it, when, session ID)
+      // Persist recording state (who started it, when, session ID, who records)
       await recordingStateRepo.startRecording(
         roomId,
         sessionId,
         socket.id,
         socket.userId || '',
+        participantRoles,
       );
 
-      logger.info('Recording started', { roomId, sessionId });
+      logger.info('Recording started', { roomId, sessionId, participants: recorded.length });
 
-      // Broadcast to all participants — clients start capturing audio locally
-      io.to(roomId).emit(SOCKET_EVENTS.START_RECORDING, { sessionId });
+      // Tell each participant — clients start capturing audio locally
+      const recordingSet = Object.keys(participantRoles);
+      emitWithUploadTokens(io, activeSessions, recordingSet, roomId, sessionId, SOCKET_EVENTS.START_RECORDING, {
+        sessionId,
+      });
 
       // Update meeting lifecycle status and global dashboard counters
       await meetingService.updateStatus(roomId, MEETING_STATUS.RECORDING);
@@ -80,18 +118,28 @@ export function handleRecording(io: SocketIOServer, socket: Socket): void {
     try {
       if (!roomId) return;
 
-      // Only the host can stop recording
-      if (socket.userRole !== ROLES.HOST) {
+      // Only the host of this room can stop recording
+      if (socket.roomId !== roomId || (await currentRole(socket)) !== ROLES.HOST) {
         socket.emit(SOCKET_EVENTS.ERROR, { message: 'Only the host can stop recording' });
         return;
       }
 
       // Mark recording as stopped in DynamoDB (sets stoppedAt, clears isRecording)
+      const recordingState = await recordingStateRepo.getRecordingState(roomId);
+      const sessionId = recordingState?.sessionId;
       await recordingStateRepo.stopRecording(roomId);
-      logger.info('Recording stopped', { roomId });
+      logger.info('Recording stopped', { roomId, sessionId });
 
-      // Broadcast to all participants — clients stop capturing and begin upload
-      io.to(roomId).emit(SOCKET_EVENTS.STOP_RECORDING, {});
+      // Tell each participant — clients stop capturing and finish their upload.
+      // The fresh token outlives the one from START_RECORDING, for long uploads;
+      // only the recording set gets one (not those who joined mid-take).
+      if (sessionId) {
+        const activeSessions = await sessionRepo.getActiveSessionsByMeeting(roomId);
+        const recordingSet = recordingState?.participantUserIds ?? null;
+        emitWithUploadTokens(io, activeSessions, recordingSet, roomId, sessionId, SOCKET_EVENTS.STOP_RECORDING, {});
+      } else {
+        io.to(roomId).emit(SOCKET_EVENTS.STOP_RECORDING, {});
+      }
 
       // Revert meeting status back to 'active' and update dashboard counters
       await meetingService.updateStatus(roomId, MEETING_STATUS.ACTIVE);
@@ -106,3 +154,34 @@ export function handleRecording(io: SocketIOServer, socket: Socket): void {
     }
   });
 }
+
+/**
+ * Emit `event` to each of the room's active `sessions`, with an upload
+ * token scoped to its own recording in `sessionId` — only for userIds in
+ * `recordingSet` (every non-observer when the state predates the set), and
+ * null for everyone else. Goes through the session rows (not the room)
+ * because each socket needs a different payload, and io.to(socketId)
+ * reaches sockets on other pods via the Redis adapter.
+ */
+export function emitWithUploadTokens(
+  io: SocketIOServer,
+  sessions: Session[],
+  recordingSet: string[] | null,
+  roomId: string,
+  sessionId: string,
+  event: string,
+  payload: object,
+): void {
+  for (const session of sessions) {
+    const outsideSet = !!recordingSet && !recordingSet.includes(session.userId);
+    const uploadToken = session.userRole === ROLES.OBSERVER || outsideSet
+      ? null
+      : generateUploadToken({
+        meetingId: roomId,
+        sessionId,
+        participantName: session.userId,
+        role: session.userRole,
+      });
+    io.to(session.socketId).emit(event, { ...payload, uploadToken });
+  }
+}
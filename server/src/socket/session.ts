@@ -5,25 +5,45 @@
  * of a user's connection to a meeting room, including:
  *
  * ─── JOIN_ROOM Flow ──────────────────────────────────────────────
- *   1. Auto-creates the meeting if it doesn't exist (lazy creation)
- *   2. Checks for an existing active session (reconnection detection):
+ *   0. Identity: the socket's userId and userEmail were set from its
+ *      handshake credentials (socket/auth.ts). A payload userId or
+ *      userEmail that differs from them — or a meeting token used for
+ *      another room — refuses the join
+ *   1. Auto-creates the meeting if it doesn't exist (lazy creation), and
+ *      refuses a userId the host removed from it (meeting.blockedUserIds)
+ *   2. Checks for an existing active session of the socket's userId
+ *      (reconnection detection):
  *      - If reconnecting: disconnects the old socket (ghost cleanup),
  *        updates the session's socketId, preserves role/email from the
- *        original session, and notifies the partner to reset WebRTC
- *      - If new user: checks room capacity (max 2 participants),
- *        creates a new Session in DynamoDB, increments global stats
- *   3. Joins the Socket.IO room and sets socket metadata (roomId, userId, etc.)
+ *        original session (replacing its speaker profile if one was sent),
+ *        and notifies the other participants to reset WebRTC
+ *      - If new user: checks room capacity (LIMITS.MAX_PARTICIPANTS — not
+ *        for observers), assigns the role (see Role Assignment), holds a
+ *        first-time guest in the waiting room until the host admits them
+ *        (see Waiting Room — the join ends there), creates a
+ *        new Session in DynamoDB (with the payload's speaker profile and, for
+ *        signed-in accounts, the speakerId from the Speakers registry),
+ *        increments global stats
+ *   3. Joins the Socket.IO room and sets socket metadata (roomId, role, email),
+ *      and links the GreenRoom consent (payload consentId) to the userId
  *   4. Fetches current recording state from DynamoDB
  *   5. Notifies other participants about the new/reconnected user
  *   6. Sends full room state (meeting info, participant list, recording state)
- *      back to the joining user
+ *      back to the joining user, with an upload token for the room's latest
+ *      recording session so an interrupted upload can finish after a reload,
+ *      and a meeting token (accessToken) for reading the meeting's recordings
+ *      that also restores this identity when sent in a later handshake
  *   7. If recording is active and this is a reconnection, sends RESUME_RECORDING
- *      with elapsed time so the client can resume its recording timer
+ *      with elapsed time (and the upload token) so the client can resume its
+ *      recording timer
+ *   8. A host is sent the room's waiting list (WAITING_LIST)
  *
  * ─── Disconnect Flow ────────────────────────────────────────────
  *   1. Marks the session as inactive in DynamoDB (sets leftAt, isActive=false)
  *   2. Notifies remaining participants via USER_LEFT
- *   3. Decrements global active session count
+ *   3. Decrements global active session count (observers were never counted)
+ *   4. If it was the host, schedules promoting a guest in case they don't
+ *      return (socket/host.ts)
  *
  * ─── Ghost Session Cleanup ──────────────────────────────────────
  *   When a user opens the meeting in a new tab (or their browser reconnects
@@ -33,17 +53,77 @@
  *     - Waits GHOST_SOCKET_DELAY_MS for the Socket.IO adapter to clean up
  *       (prevents both sockets being in the room simultaneously → double audio)
  *
+ * ─── Role Assignment ────────────────────────────────────────────
+ *   Never taken from the client, except that a signed-in operator or admin
+ *   may ask for 'observer' (see Observers). Otherwise, in order:
+ *     - A user who had a session in this meeting before keeps its role
+ *       (a reload after a one-time invite was used up still works)
+ *     - Open meeting (no hostEmail — lazily created): first joiner is
+ *       host, everyone after is a guest — except that once the host has
+ *       removed someone, an anonymous joiner is always a guest
+ *     - Invite-only meeting (hostEmail set): the host is the signed-in
+ *       account whose JWT email is hostEmail; guests are whoever redeems
+ *       the guest invite (payload inviteToken, services/inviteService.ts) —
+ *       a multi-use invite seats a panel. Anyone else is refused with ERROR
+ *   The host role can change hands later — handed over, or promoted when
+ *   the host stays away (socket/host.ts) — and a returning participant
+ *   gets the role their latest session ended with.
+ *
+ * ─── Observers ──────────────────────────────────────────────────
+ *   JOIN_ROOM with role 'observer' from a JWT socket whose account is an
+ *   operator or admin joins silently, to monitor a session live. An observer
+ *   takes no seat (getActiveSessionCount skips them), needs no invite or
+ *   consent, isn't a registered speaker and isn't in the global session
+ *   count. Clients connect to them receive-only over WebRTC; they get the
+ *   room's warnings, quality updates and chat, and are left out of every
+ *   recording set (socket/recording.ts). They get no meeting token
+ *   (accessToken is null): watching a session doesn't grant its recordings,
+ *   which stay behind the reviewer grants of middleware/meetingAccess.ts.
+ *
+ * ─── Waiting Room ───────────────────────────────────────────────
+ *   A guest without an earlier session in this meeting waits for the host
+ *   (socket/waitingRoom.ts): no Session row or ROOM_STATE until admitted.
+ *   Admission sends them an admission token, and their JOIN_ROOM with it
+ *   is seated as a guest straight away (the role was settled when they
+ *   were first held — including redeeming their invite). The host, observers
+ *   and returning participants never wait.
+ *
+ *   This is also what keeps a removed anonymous guest out: the block
+ *   (socket/host.ts) is on their userId, and an anonymous handshake gets a
+ *   new one each time, so their rejoin is a first-time guest the host
+ *   sees waiting and can deny.
+ *
  * Session IDs are composites of `${userId}#${joinedAt}` to allow multiple
  * sessions per user over time while keeping each unique.
  */
 import type { Server as SocketIOServer, Socket } from 'socket.io';
 import { SOCKET_EVENTS, LIMITS, ROLES } from '../shared';
+import type { Meeting, RecordingState, Role, UserRole } from '../shared';
 import * as sessionRepo from '../repositories/sessionRepo';
 import * as recordingStateRepo from '../repositories/recordingStateRepo';
 import * as statsRepo from '../repositories/statsRepo';
 import * as meetingService from '../services/meetingService';
+import * as inviteService from '../services/inviteService';
+import * as consentService from '../services/consentService';
+import * as speakerService from '../services/speakerService';
+import * as waitingRoom from './waitingRoom';
+import { recordMicCheck } from './greenRoom';
+import { scheduleHostPromotion } from './host';
+import { generateUploadToken } from '../middleware/uploadToken';
+import { generateMeetingToken } from '../middleware/meetingAccess';
+import { AppError, ForbiddenError } from '../utils/errors';
+import { validateSpeakerProfile } from '../utils/validators';
 import { logger } from '../utils/logger';
 
+/** Platform roles that may join a meeting as an observer */
+const OBSERVER_ACCOUNT_ROLES: UserRole[] = ['operator', 'admin'];
+
+/** A joining socket's role, and whether it had a session in the meeting before */
+interface RoleAssignment {
+  role: Role;
+  returning: boolean;
+}
+
 export function handleSession(io: SocketIOServer, socket: Socket): void {
   // Per-socket mutex: prevent concurrent join-room processing.
   // Without this, Socket.IO reconnection storms or React re-renders can fire
@@ -53,7 +133,9 @@ export function handleSession(io: SocketIOServer, socket: Socket): void {
   let joinInProgress = false;
 
   // ─── Join Room ─────────────────────────────────────────────────
-  socket.on(SOCKET_EVENTS.JOIN_ROOM, async ({ roomId, role, userId, userEmail }) => {
+  socket.on(SOCKET_EVENTS.JOIN_ROOM, async ({
+    roomId, role, userId, userEmail, inviteToken, consentId, speakerProfile, userName, admissionToken, micCheck,
+  }) => {
     try {
       // Validate required fields
       if (!roomId || !role) {
@@ -68,10 +150,27 @@ export function handleSession(io: SocketIOServer, socket: Socket): void {
       }
       joinInProgress = true;
 
+      // Identity comes from the handshake (socket/auth.ts) — the payload may only repeat it
+      const identityError = checkClaimedIdentity(socket, roomId, userId, userEmail);
+      if (identityError) {
+        logger.warn('Join refused: identity mismatch', {
+          socketId: socket.id, roomId, userId: socket.userId, claimedUserId: userId, reason: identityError,
+        });
+        socket.emit(SOCKET_EVENTS.ERROR, { message: identityError });
+        return;
+      }
+      const identityUserId = socket.userId as string;
+
+      // A malformed speaker profile doesn't refuse the join — the session just has none
+      const validProfile = validateSpeakerProfile(speakerProfile) ? speakerProfile : null;
+      if (speakerProfile !== undefined && !validProfile) {
+        logger.warn('Ignoring invalid speaker profile', { socketId: socket.id, roomId });
+      }
+
       // Guard: if this socket already joined this room, just re-send room state.
       // Prevents duplicate DynamoDB session rows from GreenRoom→Studio navigation,
       // React strict mode double-mounts, or accidental double calls.
-      if (socket.roomId === roomId && socket.userId) {
+      if (socket.roomId === roomId) {
         logger.info('Socket already in room, re-sending state', { socketId: socket.id, roomId });
         const meeting = await meetingService.getOrCreateMeeting(roomId);
         const recordingState = await recordingStateRepo.getOrCreateDefault(roomId);
@@ -79,27 +178,42 @@ export function handleSession(io: SocketIOServer, socket: Socket): void {
         const participants = activeSessions.map((s) => ({
           socketId: s.socketId, userId: s.userId, role: s.userRole, userEmail: s.userEmail,
         }));
-        socket.emit(SOCKET_EVENTS.ROOM_STATE, { meeting, participants, recordingState });
+        const uploadToken = uploadTokenFor(roomId, recordingState, socket);
+        const accessToken = socket.userRole === ROLES.OBSERVER
+          ? null
+          : generateMeetingToken(roomId, identityUserId, socket.userEmail || null);
+        socket.emit(SOCKET_EVENTS.ROOM_STATE, {
+          meeting, participants, recordingState, uploadToken, accessToken, userId: identityUserId,
+        });
+        if (socket.userRole === ROLES.HOST) {
+          await waitingRoom.sendWaitingList(io, roomId, socket.id);
+        }
         return;
       }
 
       // Lazy meeting creation — the first person to join creates the meeting
       const meeting = await meetingService.getOrCreateMeeting(roomId);
 
+      // Removed by the host (socket/host.ts) — not even as an observer
+      if (meeting.blockedUserIds?.includes(identityUserId)) {
+        logger.warn('Join refused: removed from meeting', { roomId, userId: identityUserId });
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'The host removed you from this session' });
+        return;
+      }
+
       // ─── Reconnection Detection ─────────────────────────────
-      // Look up existing sessions for this userId — both active AND recently
-      // deactivated (within 10s). This handles the page-refresh race where
-      // the disconnect handler fires before the new join-room arrives,
-      // marking the session inactive. Without checking recently-deactivated
-      // sessions, every refresh would create a new session row.
+      // Look up existing sessions for the socket's authenticated userId —
+      // both active AND recently deactivated (within 10s). This handles the
+      // page-refresh race where the disconnect handler fires before the new
+      // join-room arrives, marking the session inactive. Without checking
+      // recently-deactivated sessions, every refresh would create a new
+      // session row.
       let isReconnection = false;
       let effectiveRole = role;
-      let effectiveEmail = userEmail || '';
-      let effectiveUserId = userId || `user_${socket.id}`;
+      let effectiveEmail = socket.userEmail || userEmail || '';
+      const effectiveUserId = identityUserId;
 
-      const previousSessions = userId
-        ? await sessionRepo.findRecentByUserId(userId)
-        : [];
+      const previousSessions = await sessionRepo.findRecentByUserId(identityUserId);
 
       // Filter to sessions in THIS room
       const sessionsInRoom = previousSessions.filter((s) => s.meetingId === roomId);
@@ -111,7 +225,7 @@ export function handleSession(io: SocketIOServer, socket: Socket): void {
         if (stale.isActive) {
           await sessionRepo.markSessionInactive(stale.meetingId, stale.sessionId);
           logger.info('Cleaned up stale session in other room', {
-            meetingId: stale.meetingId, sessionId: stale.sessionId, userId,
+            meetingId: stale.meetingId, sessionId: stale.sessionId, userId: identityUserId,
           });
         }
       }
@@ -130,7 +244,7 @@ export function handleSession(io: SocketIOServer, socket: Socket): void {
 
             const oldSocket = io.sockets.sockets.get(oldSocketId);
             if (oldSocket) {
-              logger.info('Cleaning up ghost session', { oldSocketId, userId });
+              logger.info('Cleaning up ghost session', { oldSocketId, userId: identityUserId });
               oldSocket.disconnect(true);
             }
           }
@@ -150,29 +264,68 @@ export function handleSession(io: SocketIOServer, socket: Socket): void {
           previousSession.sessionId,
           socket.id,
         );
+        if (validProfile) {
+          await sessionRepo.updateSpeakerProfile(previousSession.meetingId, previousSession.sessionId, validProfile);
+        }
 
         // Preserve the original session's role and user info
         isReconnection = true;
         effectiveRole = previousSession.userRole;
-        effectiveEmail = userEmail || previousSession.userEmail || '';
-        effectiveUserId = previousSession.userId;
+        effectiveEmail = socket.userEmail || previousSession.userEmail || userEmail || '';
 
-        logger.info('User reconnected', { userId, roomId, role: effectiveRole });
+        logger.info('User reconnected', { userId: identityUserId, roomId, role: effectiveRole });
       } else {
         // ─── New User: Capacity Check ───────────────────────
+        // Observers take no seat — neither counted here nor refused when full
+        const wantsToObserve = role === ROLES.OBSERVER;
         const activeCount = await sessionRepo.getActiveSessionCount(roomId);
-        if (activeCount >= LIMITS.MAX_PARTICIPANTS) {
+        if (!wantsToObserve && activeCount >= LIMITS.MAX_PARTICIPANTS) {
           logger.warn('Room full', { roomId, activeCount });
           socket.emit(SOCKET_EVENTS.ROOM_FULL, {
-            message: 'Room is full. Maximum 2 participants allowed.',
+            message: `Room is full. Maximum ${LIMITS.MAX_PARTICIPANTS} participants allowed.`,
           });
           socket.disconnect(true);
           return;
         }
 
         // ─── Server-Side Role Assignment ──────────────────────
-        // First joiner is 'host', second is 'guest'. Don't trust the client.
-        effectiveRole = activeCount === 0 ? ROLES.HOST : ROLES.GUEST;
+        // Don't trust the client — see Role Assignment above. A guest the
+        // host admitted was assigned when first held (see Waiting Room).
+        const admitted =
+          !wantsToObserve && !!admissionToken && waitingRoom.verifyAdmissionToken(admissionToken, roomId, identityUserId);
+        if (admitted) {
+          effectiveRole = ROLES.GUEST;
+        } else {
+          let assignment: RoleAssignment;
+          try {
+            assignment = await assignRole(meeting, socket, activeCount, inviteToken, wantsToObserve);
+          } catch (err) {
+            if (!(err instanceof AppError)) throw err;
+            logger.warn('Join refused', { roomId, userId: identityUserId, code: err.code });
+            socket.emit(SOCKET_EVENTS.ERROR, { message: err.message });
+            return;
+          }
+          effectiveRole = assignment.role;
+
+          // ─── Waiting Room ─────────────────────────────────────
+          // First-time guests wait for the host — no session until admitted
+          if (effectiveRole === ROLES.GUEST && !assignment.returning) {
+            recordMicCheck(socket, micCheck); // The GreenRoom's, shown to the host
+            await waitingRoom.holdInWaitingRoom(io, socket, roomId, displayName(userName));
+            return;
+          }
+        }
+
+        // Registered speaker — signed-in accounts only (see speakerService).
+        // Observers never record, so they aren't speakers in this meeting.
+        const isObserver = effectiveRole === ROLES.OBSERVER;
+        const speakerId = isObserver
+          ? null
+          : await speakerService.resolveSpeakerId(
+            roomId,
+            effectiveUserId,
+            socket.authMethod === 'jwt' ? socket.userEmail ?? null : null,
+          );
 
         // ─── New User: Create Session in DynamoDB ───────────
         // sessionId is a composite key: `${userId}#${timestamp}` to allow
@@ -183,27 +336,36 @@ export function handleSession(io: SocketIOServer, socket: Socket): void {
           sessionId: `${effectiveUserId}#${now}`,
           userId: effectiveUserId,
           userRole: effectiveRole,
-          userEmail: userEmail || null,
+          userEmail: effectiveEmail || null,
           socketId: socket.id,
           joinedAt: now,
           leftAt: null,
           isActive: true,
+          speakerProfile: isObserver ? null : validProfile,
+          speakerId,
         });
 
-        // Update global dashboard counters
-        await statsRepo.incrementActiveSession();
+        // Update global dashboard counters (participants only)
+        if (!isObserver) {
+          await statsRepo.incrementActiveSession();
+        }
 
         logger.info('New user joined', { userId: effectiveUserId, roomId, role: effectiveRole });
       }
 
       // ─── Attach Metadata to Socket ──────────────────────────
       // These properties are read by other handlers (signaling, recording, etc.)
+      waitingRoom.leaveWaitingRoom(socket, roomId);
       socket.join(roomId);
       socket.roomId = roomId;
-      socket.userId = effectiveUserId;
       socket.userRole = effectiveRole;
       socket.userEmail = effectiveEmail;
 
+      // Consent given in the GreenRoom before this identity was known
+      if (consentId && effectiveRole !== ROLES.OBSERVER) {
+        await consentService.linkConsent(roomId, consentId, effectiveUserId);
+      }
+
       // Fetch current recording state (is someone recording right now?)
       const recordingState = await recordingStateRepo.getOrCreateDefault(roomId);
 
@@ -216,7 +378,7 @@ export function handleSession(io: SocketIOServer, socket: Socket): void {
         isReconnection,
       });
 
-      // On reconnection, tell the partner to tear down and re-establish
+      // On reconnection, tell the others to tear down and re-establish
       // the WebRTC peer connection (the old socket ID is no longer valid)
       if (isReconnection) {
         socket.to(roomId).emit(SOCKET_EVENTS.PEER_RECONNECTED, {
@@ -236,10 +398,16 @@ export function handleSession(io: SocketIOServer, socket: Socket): void {
         userEmail: s.userEmail,
       }));
 
+      const uploadToken = uploadTokenFor(roomId, recordingState, socket);
       socket.emit(SOCKET_EVENTS.ROOM_STATE, {
         meeting,
         participants,
         recordingState,
+        uploadToken,
+        accessToken: effectiveRole === ROLES.OBSERVER
+          ? null
+          : generateMeetingToken(roomId, effectiveUserId, effectiveEmail || null),
+        userId: effectiveUserId,
       });
 
       // If recording is active and this is a reconnect, send the elapsed time
@@ -250,12 +418,18 @@ export function handleSession(io: SocketIOServer, socket: Socket): void {
           startedAt: startedAtMs,
           elapsedSeconds: Math.floor((Date.now() - startedAtMs) / 1000),
           sessionId: recordingState.sessionId,
+          uploadToken,
         });
       }
+
+      // The host decides on whoever is already waiting
+      if (effectiveRole === ROLES.HOST) {
+        await waitingRoom.sendWaitingList(io, roomId, socket.id);
+      }
     } catch (err) {
       logger.error('Error joining room', {
         roomId,
-        userId,
+        userId: socket.userId,
         socketId: socket.id,
         error: (err as Error).message,
         stack: (err as Error).stack,
@@ -277,15 +451,22 @@ export function handleSession(io: SocketIOServer, socket: Socket): void {
       const session = await sessionRepo.markSessionInactiveBySocketId(socket.id);
 
       if (session && socket.roomId) {
-        // Let the partner know the other user left
+        // Let the others know this user left
         io.to(socket.roomId).emit(SOCKET_EVENTS.USER_LEFT, {
           userId: socket.id,
           persistentId: session.userId,
           role: session.userRole,
         });
 
-        // Update global dashboard counters
-        await statsRepo.decrementActiveSession();
+        // Update global dashboard counters — observers were never counted
+        if (session.userRole !== ROLES.OBSERVER) {
+          await statsRepo.decrementActiveSession();
+        }
+
+        // A guest takes over if the host doesn't come back in time
+        if (session.userRole === ROLES.HOST) {
+          scheduleHostPromotion(io, socket.roomId, session.userId);
+        }
       }
     } catch (err) {
       logger.error('Error handling disconnect', {
@@ -296,3 +477,98 @@ export function handleSession(io: SocketIOServer, socket: Socket): void {
     }
   });
 }
+
+/**
+ * Role for a socket joining `meeting` for the first time this visit, and
+ * whether it is returning to a role it had before. Throws
+ * OBSERVER_NOT_ALLOWED when `observe` is asked for by anyone but a signed-in
+ * operator or admin, and INVITE_REQUIRED / INVITE_INVALID (inviteService)
+ * when an invite-only meeting's guest slot is joined without a valid invite.
+ */
+async function assignRole(
+  meeting: Meeting,
+  socket: Socket,
+  activeCount: number,
+  inviteToken: string | undefined,
+  observe: boolean,
+): Promise<RoleAssignment> {
+  const userId = socket.userId as string;
+
+  if (observe) {
+    const mayObserve =
+      socket.authMethod === 'jwt' && !!socket.accountRole && OBSERVER_ACCOUNT_ROLES.includes(socket.accountRole);
+    if (!mayObserve) {
+      throw new ForbiddenError('Only signed-in operators and admins can observe a session', 'OBSERVER_NOT_ALLOWED');
+    }
+    return { role: ROLES.OBSERVER, returning: false };
+  }
+
+  // Returning participant — keeps the role they had in this meeting
+  // (an earlier visit as an observer doesn't make them one now)
+  const previous = await sessionRepo.findLatestByMeetingAndUserId(meeting.meetingId, userId);
+  if (previous && previous.userRole !== ROLES.OBSERVER) return { role: previous.userRole, returning: true };
+
+  // Open meeting: first joiner is 'host', everyone after is a 'guest'.
+  // Once the host has removed someone, an anonymous joiner never takes the
+  // empty room as host — a removed guest could come back that way under a
+  // fresh id — and waits like any other guest.
+  if (!inviteService.isInviteOnly(meeting)) {
+    const mayHost = activeCount === 0 && !(socket.authMethod === 'anonymous' && meeting.blockedUserIds?.length);
+    return { role: mayHost ? ROLES.HOST : ROLES.GUEST, returning: false };
+  }
+
+  // Invite-only: the host is the meeting's own (signed-in) account...
+  const isHostAccount =
+    socket.authMethod === 'jwt' && socket.userEmail?.toLowerCase() === meeting.hostEmail?.toLowerCase();
+  if (isHostAccount) return { role: ROLES.HOST, returning: false };
+
+  // ...and guests are whoever redeems its invite
+  return { role: await inviteService.redeemInvite(meeting.meetingId, inviteToken, userId), returning: false };
+}
+
+/** The JOIN_ROOM userName to show the host while waiting — null if missing or unusable */
+function displayName(userName: unknown): string | null {
+  if (typeof userName !== 'string') return null;
+  const name = userName.trim().slice(0, LIMITS.NAME_MAX_LENGTH);
+  return name || null;
+}
+
+/**
+ * Why a join's claimed identity doesn't match the socket's handshake
+ * identity, or null if it does. Emails compare case-insensitively; a claimed
+ * email is only checked when the handshake verified one (JWT or meeting token).
+ */
+function checkClaimedIdentity(
+  socket: Socket,
+  roomId: string,
+  userId: string | undefined,
+  userEmail: string | undefined,
+): string | null {
+  if (socket.authMeetingId && socket.authMeetingId !== roomId) {
+    return 'Your meeting token is for a different meeting';
+  }
+  if (userId && userId !== socket.userId) {
+    return 'userId does not match your credentials';
+  }
+  if (userEmail && socket.userEmail && userEmail.trim().toLowerCase() !== socket.userEmail.toLowerCase()) {
+    return 'userEmail does not match your credentials';
+  }
+  return null;
+}
+
+/**
+ * Upload token for this socket's recording in the room's latest take — null
+ * if the room never recorded, for an observer, or for anyone outside that
+ * take's recording set (they joined after it started)
+ */
+function uploadTokenFor(roomId: string, recordingState: RecordingState, socket: Socket): string | null {
+  const { sessionId, participantUserIds } = recordingState;
+  if (!sessionId || !socket.userId || !socket.userRole || socket.userRole === ROLES.OBSERVER) return null;
+  if (participantUserIds && !participantUserIds.includes(socket.userId)) return null;
+  return generateUploadToken({
+    meetingId: roomId,
+    sessionId,
+    participantName: socket.userId,
+    role: socket.userRole,
+  });
+}
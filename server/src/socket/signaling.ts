@@ -9,6 +9,11 @@
  * forwards them from the sender to the target socket by ID. The actual
  * audio stream flows directly between the two browsers via WebRTC.
  *
+ * Rooms with more than two participants are a full mesh: each pair of
+ * browsers has its own peer connection, negotiated through the same three
+ * targeted events (the `sender` tells a client which connection a message
+ * belongs to). Nothing here changes with the room size.
+ *
  * Three events are relayed:
  *   - OFFER:         Caller sends SDP offer → callee receives it
  *   - ANSWER:        Callee sends SDP answer → caller receives it
@@ -0,0 +1,230 @@
+/**
+ * socket/waitingRoom.ts — New guests wait for the host to let them in.
+ *
+ * A first-time guest's JOIN_ROOM (socket/session.ts) doesn't seat them. It
+ * is held here instead: no Session row, no ROOM_STATE, not in the meeting's
+ * Socket.IO room. The host sees who is waiting and decides:
+ *
+ *   WAITING_ROOM        → waiting user: you're held
+ *   WAITING_LIST        → host: everyone waiting, with name, email and the
+ *                         latest GreenRoom mic check (on join and every change)
+ *   ADMIT_PARTICIPANT   ← host  → ADMITTED { admissionToken } to the user,
+ *                         whose client sends JOIN_ROOM again with the token
+ *   DENY_PARTICIPANT    ← host  → JOIN_DENIED to the user
+ *
+ * ─── Across Pods ────────────────────────────────────────────────
+ *   The waiting set is a Socket.IO room (`waiting:{roomId}`), and each
+ *   waiting socket keeps its details in socket.data. fetchSockets() on
+ *   that room goes through the Redis adapter, so the host's pod lists —
+ *   and emits to, and removes — waiting sockets held on any pod. Nothing
+ *   is stored in DynamoDB until the admitted user rejoins.
+ *
+ * ─── Admission Tokens ───────────────────────────────────────────
+ *   The admitted socket may live on another pod, so it can't be seated
+ *   from here. Instead it gets a short-lived JWT over { meetingId, userId }
+ *   (own secret and audience, like upload and invite tokens), and its
+ *   rejoin with that token is seated as a guest without waiting again.
+ *   Its invite, if the meeting needed one, was already redeemed when it
+ *   was first held.
+ *
+ * Only first-time guests wait. The host, observers, and anyone who already
+ * had a session in the meeting (reloads, reconnects) join directly. With no
+ * host in the room, guests wait until one arrives.
+ */
+import jwt from 'jsonwebtoken';
+import type { Server as SocketIOServer, Socket } from 'socket.io';
+import { SOCKET_EVENTS, LIMITS, ROLES } from '../shared';
+import type { MicStatusPayload, WaitingParticipant } from '../shared';
+import * as sessionRepo from '../repositories/sessionRepo';
+import { currentRole } from './host';
+import { logger } from '../utils/logger';
+
+const ADMISSION_TOKEN_SECRET = process.env.ADMISSION_TOKEN_SECRET || 'dev-admission-secret-change-in-production';
+const ADMISSION_TOKEN_AUDIENCE = 'admission';
+
+/** What a waiting socket keeps in socket.data.waiting (read across pods) */
+interface WaitingEntry {
+  roomId: string;
+  userId: string;
+  userName: string | null;
+  userEmail: string | null;
+  waitingSince: string;
+}
+
+interface AdmissionTokenClaims {
+  meetingId: string;
+  userId: string;
+}
+
+export function handleWaitingRoom(io: SocketIOServer, socket: Socket): void {
+  socket.on(SOCKET_EVENTS.ADMIT_PARTICIPANT, ({ roomId, userId }) => decide(io, socket, roomId, userId, true));
+  socket.on(SOCKET_EVENTS.DENY_PARTICIPANT, ({ roomId, userId }) => decide(io, socket, roomId, userId, false));
+
+  // Gave up waiting — the adapter already dropped the socket from the waiting room
+  socket.on('disconnect', async () => {
+    const entry = socket.data.waiting as WaitingEntry | undefined;
+    if (!entry) return;
+    try {
+      await sendWaitingList(io, entry.roomId);
+    } catch (err) {
+      logger.error('Error updating waiting list', {
+        roomId: entry.roomId,
+        socketId: socket.id,
+        error: (err as Error).message,
+      });
+    }
+  });
+}
+
+/**
+ * Hold `socket` in `roomId`'s waiting room and tell the host. The JOIN_ROOM
+ * that got here ends without seating it.
+ */
+export async function holdInWaitingRoom(
+  io: SocketIOServer,
+  socket: Socket,
+  roomId: string,
+  userName: string | null,
+): Promise<void> {
+  const entry: WaitingEntry = {
+    roomId,
+    userId: socket.userId as string,
+    userName,
+    userEmail: socket.userEmail || null,
+    waitingSince: new Date().toISOString(),
+  };
+  socket.data.waiting = entry;
+  await socket.join(waitingRoomOf(roomId));
+
+  socket.emit(SOCKET_EVENTS.WAITING_ROOM, { message: 'Waiting for the host to let you in' });
+  logger.info('Guest waiting for admission', { roomId, userId: entry.userId });
+  await sendWaitingList(io, roomId);
+}
+
+/** Forget that `socket` was waiting — it's being seated */
+export function leaveWaitingRoom(socket: Socket, roomId: string): void {
+  if (!socket.data.waiting) return;
+  socket.data.waiting = undefined;
+  socket.leave(waitingRoomOf(roomId));
+}
+
+/**
+ * Send `roomId`'s waiting list to `toSocketId` (a host that just joined),
+ * or else to every host session in the room.
+ */
+export async function sendWaitingList(io: SocketIOServer, roomId: string, toSocketId?: string): Promise<void> {
+  const waiting = await listWaiting(io, roomId);
+  if (toSocketId) {
+    io.to(toSocketId).emit(SOCKET_EVENTS.WAITING_LIST, { waiting });
+    return;
+  }
+  const sessions = await sessionRepo.getActiveSessionsByMeeting(roomId);
+  for (const session of sessions) {
+    if (session.userRole === ROLES.HOST) {
+      io.to(session.socketId).emit(SOCKET_EVENTS.WAITING_LIST, { waiting });
+    }
+  }
+}
+
+/** True if `token` admits `userId` to `meetingId` */
+export function verifyAdmissionToken(token: string, meetingId: string, userId: string): boolean {
+  try {
+    const claims = jwt.verify(token, ADMISSION_TOKEN_SECRET, {
+      audience: ADMISSION_TOKEN_AUDIENCE,
+    }) as AdmissionTokenClaims;
+    return claims.meetingId === meetingId && claims.userId === userId;
+  } catch (err) {
+    logger.warn('Admission token verification failed', { meetingId, error: (err as Error).message });
+    return false;
+  }
+}
+
+/** The host's decision on `userId` — every socket they're waiting with (e.g. two tabs) gets it */
+async function decide(
+  io: SocketIOServer,
+  socket: Socket,
+  roomId: string,
+  userId: string,
+  admit: boolean,
+): Promise<void> {
+  try {
+    if (!roomId || !userId) return;
+    if (socket.roomId !== roomId || (await currentRole(socket)) !== ROLES.HOST) {
+      socket.emit(SOCKET_EVENTS.ERROR, { message: 'Only the host can admit or deny participants' });
+      return;
+    }
+
+    const sockets = (await io.in(waitingRoomOf(roomId)).fetchSockets())
+      .filter((s) => (s.data.waiting as WaitingEntry | undefined)?.userId === userId);
+    if (sockets.length === 0) {
+      socket.emit(SOCKET_EVENTS.ERROR, { message: 'That person is no longer waiting' });
+      await sendWaitingList(io, roomId, socket.id);
+      return;
+    }
+
+    if (admit) {
+      const activeCount = await sessionRepo.getActiveSessionCount(roomId);
+      if (activeCount >= LIMITS.MAX_PARTICIPANTS) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          message: `Room is full. Maximum ${LIMITS.MAX_PARTICIPANTS} participants allowed.`,
+        });
+        return;
+      }
+      const admissionToken = generateAdmissionToken(roomId, userId);
+      for (const waiting of sockets) {
+        waiting.leave(waitingRoomOf(roomId));
+        waiting.emit(SOCKET_EVENTS.ADMITTED, { admissionToken });
+      }
+    } else {
+      for (const waiting of sockets) {
+        waiting.leave(waitingRoomOf(roomId));
+        waiting.emit(SOCKET_EVENTS.JOIN_DENIED, { message: 'The host did not let you into this session' });
+      }
+    }
+
+    logger.info(admit ? 'Guest admitted' : 'Guest denied', { roomId, userId, by: socket.userId });
+    await sendWaitingList(io, roomId);
+  } catch (err) {
+    logger.error('Error deciding on waiting guest', {
+      roomId,
+      userId,
+      socketId: socket.id,
+      error: (err as Error).message,
+    });
+    socket.emit(SOCKET_EVENTS.ERROR, { message: 'Failed to update the waiting room' });
+  }
+}
+
+/** Everyone waiting to join `roomId`, oldest first — one entry per user */
+async function listWaiting(io: SocketIOServer, roomId: string): Promise<WaitingParticipant[]> {
+  const sockets = await io.in(waitingRoomOf(roomId)).fetchSockets();
+  const byUser = new Map<string, WaitingParticipant>();
+  for (const s of sockets) {
+    const entry = s.data.waiting as WaitingEntry | undefined;
+    if (!entry || entry.roomId !== roomId) continue;
+    const existing = byUser.get(entry.userId);
+    if (existing && existing.waitingSince >= entry.waitingSince) continue;
+    byUser.set(entry.userId, {
+      userId: entry.userId,
+      userName: entry.userName,
+      userEmail: entry.userEmail,
+      micStatus: (s.data.micStatus as MicStatusPayload | undefined) ?? null,
+      waitingSince: entry.waitingSince,
+    });
+  }
+  return [...byUser.values()].sort((a, b) => a.waitingSince.localeCompare(b.waitingSince));
+}
+
+/** Sign an admission to `meetingId` for `userId`, valid for LIMITS.ADMISSION_TOKEN_EXPIRY seconds */
+function generateAdmissionToken(meetingId: string, userId: string): string {
+  const claims: AdmissionTokenClaims = { meetingId, userId };
+  return jwt.sign(claims, ADMISSION_TOKEN_SECRET, {
+    audience: ADMISSION_TOKEN_AUDIENCE,
+    expiresIn: LIMITS.ADMISSION_TOKEN_EXPIRY,
+  });
+}
+
+/** Socket.IO room of the sockets waiting to join `roomId` */
+function waitingRoomOf(roomId: string): string {
+  return `waiting:${roomId}`;
+}
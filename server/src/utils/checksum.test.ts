@@ -0,0 +1,24 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { compositeSha256, sha256Base64 } from './checksum';
+
+// Digests of 'part-one' and 'part-two', and of the two concatenated (openssl dgst -sha256 -binary | base64)
+const PART_ONE = 'MGAqt574P31B31Ylr0HeTPjgh4ZImul6PVF9KDEBshs=';
+const PART_TWO = 'dCkeoUCC41NTQy9sjZjTrSW5D3YkAapaMh0Hj9gebOA=';
+const COMPOSITE = 'EaHDUhT5gll5ILF3vk6SkG7/Vk5LT6l1bsMWKnhi9OQ=';
+
+describe('sha256Base64', () => {
+  it('is the base64 SHA-256 of the bytes', () => {
+    assert.equal(sha256Base64(Buffer.from('part-one')), PART_ONE);
+  });
+});
+
+describe('compositeSha256', () => {
+  it('hashes the binary part digests in order and appends the part count', () => {
+    assert.equal(compositeSha256([PART_ONE, PART_TWO]), `${COMPOSITE}-2`);
+  });
+
+  it('depends on the part order', () => {
+    assert.notEqual(compositeSha256([PART_TWO, PART_ONE]), compositeSha256([PART_ONE, PART_TWO]));
+  });
+});
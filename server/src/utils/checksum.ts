@@ -0,0 +1,29 @@
+/**
+ * utils/checksum.ts — SHA-256 checksums in the form S3 reports them.
+ *
+ * S3 exchanges checksums base64-encoded (the x-amz-checksum-sha256 header,
+ * ChecksumSHA256 fields). Two kinds are used for recordings:
+ *
+ *   Single PUT  — SHA-256 of the object's bytes
+ *   Multipart   — composite "checksum of checksums": SHA-256 over the
+ *                 concatenated binary digests of every part, in part order,
+ *                 suffixed with "-{partCount}"
+ *
+ * The web client computes the same values before uploading, so the server
+ * can compare what the browser recorded against what S3 stored.
+ */
+import { createHash } from 'crypto';
+
+/** Base64 SHA-256 of a buffer */
+export function sha256Base64(data: Buffer): string {
+  return createHash('sha256').update(data).digest('base64');
+}
+
+/** Composite multipart checksum from base64 part checksums (already in part order) */
+export function compositeSha256(partChecksums: string[]): string {
+  const hash = createHash('sha256');
+  for (const checksum of partChecksums) {
+    hash.update(Buffer.from(checksum, 'base64'));
+  }
+  return `${hash.digest('base64')}-${partChecksums.length}`;
+}
@@ -10,6 +10,8 @@
  *   Error (native)
  *     └── AppError (base — any HTTP-aware error)
  *           ├── ValidationError  (400 — bad input, missing fields)
+ *           ├── UnauthorizedError (401 — missing, invalid or expired credentials)
+ *           ├── ForbiddenError   (403 — credentials don't cover this resource)
  *           ├── NotFoundError    (404 — resource doesn't exist)
  *           ├── ConflictError    (409 — duplicate/race condition)
  *           └── RateLimitError   (429 — too many requests)
@@ -38,6 +40,22 @@ export class ValidationError extends AppError {
   }
 }
 
+/** 401 Unauthorized — no credentials, or credentials that don't verify */
+export class UnauthorizedError extends AppError {
+  constructor(message = 'Unauthorized', code = 'UNAUTHORIZED') {
+    super(message, 401, code);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/** 403 Forbidden — valid credentials that don't grant access to this resource */
+export class ForbiddenError extends AppError {
+  constructor(message = 'Forbidden', code = 'FORBIDDEN') {
+    super(message, 403, code);
+    this.name = 'ForbiddenError';
+  }
+}
+
 /** 404 Not Found — requested resource (meeting, recording, etc.) doesn't exist */
 export class NotFoundError extends AppError {
   constructor(message: string, code = 'NOT_FOUND') {
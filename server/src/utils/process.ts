@@ -0,0 +1,22 @@
+/**
+ * utils/process.ts — This server process: its identity and its settings.
+ *
+ *   OWNER_ID        — names this pod as the owner of a lockRepo lease
+ *                     (hostname and pid, unique across running pods)
+ *   readNumberEnv() — numeric settings from the environment, falling back
+ *                     to a default when unset or not a number
+ *
+ * Used by the background jobs that take leases: services/uploadJanitorService
+ * and socket/host.ts (automatic host promotion).
+ */
+import os from 'os';
+
+/** This process, as the owner of the leases it takes */
+export const OWNER_ID = `${os.hostname()}:${process.pid}`;
+
+/** The environment variable `name` as a number, or `fallback` if unset or not numeric */
+export function readNumberEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const value = raw ? Number(raw) : NaN;
+  return Number.isFinite(value) ? value : fallback;
+}
@@ -14,12 +14,15 @@
  * sanitizeParticipantName() is used when building S3 keys and DynamoDB
  * recordingIds to ensure only safe characters appear in storage paths.
  */
-import { LIMITS, MEETING_STATUSES } from '../shared';
-import type { AllowedContentType, MeetingStatus } from '../shared';
+import { LIMITS, MEETING_STATUSES, USER_ROLES, AGE_BANDS, DEVICE_TYPES } from '../shared';
+import type { AllowedContentType, MeetingStatus, UserRole, SpeakerProfile } from '../shared';
 
 /** Basic email format validation (not RFC 5322 compliant, but sufficient for UX) */
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
+/** BCP 47 language tag — language subtag plus optional region/script/variant subtags */
+const LANGUAGE_TAG_REGEX = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
 export function validateEmail(email: string): boolean {
   return EMAIL_REGEX.test(email);
 }
@@ -41,6 +44,31 @@ export function validateMeetingStatus(status: unknown): status is MeetingStatus
   return typeof status === 'string' && (MEETING_STATUSES as readonly string[]).includes(status);
 }
 
+/** User role: must be one of the defined USER_ROLES (admin, operator, reviewer, participant) */
+export function validateUserRole(role: unknown): role is UserRole {
+  return typeof role === 'string' && (USER_ROLES as readonly string[]).includes(role);
+}
+
+/**
+ * Speaker profile (JOIN_ROOM): language is a BCP 47 tag; the other fields
+ * are null or, for the free-text ones, at most NAME_MAX_LENGTH characters.
+ */
+export function validateSpeakerProfile(profile: unknown): profile is SpeakerProfile {
+  if (typeof profile !== 'object' || profile === null) return false;
+  const p = profile as Record<string, unknown>;
+  const optionalText = (v: unknown) =>
+    v === null || (typeof v === 'string' && v.length <= LIMITS.NAME_MAX_LENGTH);
+  return (
+    typeof p.language === 'string' &&
+    LANGUAGE_TAG_REGEX.test(p.language) &&
+    optionalText(p.accent) &&
+    optionalText(p.gender) &&
+    optionalText(p.deviceLabel) &&
+    (p.ageBand === null || (AGE_BANDS as readonly unknown[]).includes(p.ageBand)) &&
+    (p.deviceType === null || (DEVICE_TYPES as readonly unknown[]).includes(p.deviceType))
+  );
+}
+
 /** Content type: must be one of the allowed audio MIME types (e.g., 'audio/wav', 'audio/webm') */
 export function validateContentType(contentType: unknown): contentType is AllowedContentType {
   return (
@@ -65,6 +93,11 @@ export function validatePartNumber(partNumber: unknown): partNumber is number {
   );
 }
 
+/** Base64-encoded SHA-256 digest (32 bytes → 43 chars + one '=' pad), as S3 expects it */
+export function validateSha256Checksum(checksum: unknown): checksum is string {
+  return typeof checksum === 'string' && /^[A-Za-z0-9+/]{43}=$/.test(checksum);
+}
+
 /** ISO 8601 date string validation (e.g., "2024-03-15T10:30:00.000Z") */
 export function validateISODate(date: unknown): boolean {
   if (!date || typeof date !== 'string') return false;
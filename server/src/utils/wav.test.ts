@@ -0,0 +1,144 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseWavHeader, patchWavHeader, RIFF_MAX_SIZE } from './wav';
+
+const SAMPLE_RATE = 48000;
+const FOUR_GB = 2 ** 32;
+
+/** fmt + data subchunks at `offset`: PCM, mono, 16-bit */
+function writeFmtAndData(header: Buffer, offset: number, dataSize: number): void {
+  header.write('fmt ', offset, 'ascii');
+  header.writeUInt32LE(16, offset + 4);
+  header.writeUInt16LE(1, offset + 8);
+  header.writeUInt16LE(1, offset + 10);
+  header.writeUInt32LE(SAMPLE_RATE, offset + 12);
+  header.writeUInt32LE(SAMPLE_RATE * 2, offset + 16);
+  header.writeUInt16LE(2, offset + 20);
+  header.writeUInt16LE(16, offset + 22);
+  header.write('data', offset + 24, 'ascii');
+  header.writeUInt32LE(dataSize, offset + 28);
+}
+
+/** The recorder's 44-byte header for `dataSize` bytes of samples */
+function riffHeader(dataSize: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataSize, 4);
+  header.write('WAVE', 8, 'ascii');
+  writeFmtAndData(header, 12, dataSize);
+  return header;
+}
+
+/** The recorder's streaming header: sizes zero, JUNK reserving the ds64 slot */
+function streamingHeader(): Buffer {
+  const header = Buffer.alloc(80);
+  header.write('RIFF', 0, 'ascii');
+  header.write('WAVE', 8, 'ascii');
+  header.write('JUNK', 12, 'ascii');
+  header.writeUInt32LE(28, 16);
+  writeFmtAndData(header, 48, 0);
+  return header;
+}
+
+describe('parseWavHeader', () => {
+  it('reads the layout and format of a RIFF header', () => {
+    const layout = parseWavHeader(riffHeader(96000));
+    assert.deepEqual(layout, {
+      container: 'RIFF',
+      ds64Offset: null,
+      junkOffset: null,
+      formatTag: 1,
+      channels: 1,
+      sampleRate: SAMPLE_RATE,
+      bitsPerSample: 16,
+      blockAlign: 2,
+      dataSizeOffset: 40,
+      dataOffset: 44,
+      dataSize: 96000,
+    });
+  });
+
+  it('finds the JUNK chunk reserving the ds64 slot', () => {
+    const layout = parseWavHeader(streamingHeader());
+    assert.equal(layout?.junkOffset, 20);
+    assert.equal(layout?.dataOffset, 80);
+  });
+
+  it('unwraps the format tag of an extensible fmt chunk', () => {
+    const header = Buffer.alloc(68);
+    header.write('RIFF', 0, 'ascii');
+    header.write('WAVE', 8, 'ascii');
+    header.write('fmt ', 12, 'ascii');
+    header.writeUInt32LE(40, 16);
+    header.writeUInt16LE(0xfffe, 20);
+    header.writeUInt16LE(1, 22);
+    header.writeUInt32LE(SAMPLE_RATE, 24);
+    header.writeUInt16LE(4, 32);
+    header.writeUInt16LE(32, 34);
+    header.writeUInt16LE(3, 44); // SubFormat: IEEE float
+    header.write('data', 60, 'ascii');
+
+    assert.equal(parseWavHeader(header)?.formatTag, 3);
+  });
+
+  it('returns null for anything but a WAVE file with fmt and data', () => {
+    assert.equal(parseWavHeader(Buffer.from('ID3\u0004 not a wav file')), null);
+    assert.equal(parseWavHeader(riffHeader(0).subarray(0, 36)), null);
+  });
+});
+
+describe('patchWavHeader', () => {
+  it('writes the 32-bit sizes of a RIFF header', () => {
+    const patched = patchWavHeader(riffHeader(0), 44 + 96000);
+    assert.equal(patched.readUInt32LE(4), 36 + 96000);
+    assert.equal(patched.readUInt32LE(40), 96000);
+  });
+
+  it('leaves the header it was given untouched', () => {
+    const header = streamingHeader();
+    patchWavHeader(header, 80 + 96000);
+    assert.deepEqual(header, streamingHeader());
+  });
+
+  it('keeps a streamed recording under 4 GB as RIFF', () => {
+    const patched = patchWavHeader(streamingHeader(), 80 + 96000);
+    assert.equal(patched.toString('ascii', 0, 4), 'RIFF');
+    assert.equal(patched.toString('ascii', 12, 16), 'JUNK');
+    assert.equal(patched.readUInt32LE(4), 72 + 96000);
+    assert.equal(patched.readUInt32LE(76), 96000);
+  });
+
+  it('promotes a streamed recording over 4 GB to RF64 through its JUNK chunk', () => {
+    const totalFileSize = FOUR_GB + 80 + 1000;
+    const dataSize = totalFileSize - 80;
+    const patched = patchWavHeader(streamingHeader(), totalFileSize);
+
+    assert.equal(patched.toString('ascii', 0, 4), 'RF64');
+    assert.equal(patched.toString('ascii', 12, 16), 'ds64');
+    assert.equal(patched.readUInt32LE(4), RIFF_MAX_SIZE);
+    assert.equal(patched.readUInt32LE(76), RIFF_MAX_SIZE);
+    assert.equal(patched.readBigUInt64LE(20), BigInt(totalFileSize - 8));
+    assert.equal(patched.readBigUInt64LE(28), BigInt(dataSize));
+    assert.equal(patched.readBigUInt64LE(36), BigInt(dataSize / 2));
+    assert.equal(patched.readUInt32LE(44), 0);
+
+    const layout = parseWavHeader(patched);
+    assert.equal(layout?.container, 'RF64');
+    assert.equal(layout?.ds64Offset, 20);
+    assert.equal(layout?.dataSize, dataSize);
+  });
+
+  it('updates the ds64 sizes of an RF64 header', () => {
+    const promoted = patchWavHeader(streamingHeader(), FOUR_GB + 80);
+    const patched = patchWavHeader(promoted, FOUR_GB + 80 + 4000);
+    assert.equal(parseWavHeader(patched)?.dataSize, FOUR_GB + 4000);
+  });
+
+  it('throws for a RIFF header with no room for ds64 past 4 GB', () => {
+    assert.throws(() => patchWavHeader(riffHeader(0), FOUR_GB + 44), /expected RF64/);
+  });
+
+  it('throws for an unreadable header', () => {
+    assert.throws(() => patchWavHeader(Buffer.alloc(44), 1000), /Unrecognized WAV header/);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * utils/wav.ts — WAV (RIFF / RF64) header helpers.
+ *
+ * The recorder writes a plain 44-byte RIFF header while the audio fits in
+ * 32-bit size fields, and switches to RF64 (EBU Tech 3306) past 4 GB:
+ *
+ *   RIFF                                 RF64
+ *   ────                                 ────
+ *   0   "RIFF"  riffSize (u32)           0   "RF64"  0xFFFFFFFF
+ *   8   "WAVE"                           8   "WAVE"
+ *   12  "fmt "  16  (PCM format body)    12  "ds64"  28
+ *   36  "data"  dataSize (u32)           20      riffSize    (u64)
+ *   44  samples…                         28      dataSize    (u64)
+ *                                        36      sampleCount (u64)
+ *                                        44      tableLength (u32) = 0
+ *                                        48  "fmt "  16  (PCM format body)
+ *                                        72  "data"  0xFFFFFFFF
+ *                                        80  samples…
+ *
+ * In RF64 the 32-bit riffSize and dataSize fields are fixed at 0xFFFFFFFF
+ * and readers take the real sizes from ds64.
+ *
+ * Recordings streamed to S3 while still in progress don't know their final
+ * size, so their header reserves the ds64 slot with a 28-byte JUNK chunk
+ * (the EBU-recommended layout). If the finished file turns out to need RF64,
+ * the patcher rewrites "RIFF" → "RF64" and "JUNK" → "ds64" in place.
+ *
+ * The helpers walk the chunk list rather than assuming fixed offsets, so
+ * headers with extra chunks (LIST, JUNK, extensible fmt) are handled too.
+ * parseWavHeader() also reports the format fields, which the upload
+ * validation in audioValidationService checks against LIMITS.
+ */
+
+/** Largest value a 32-bit RIFF size field can hold */
+export const RIFF_MAX_SIZE = 0xffffffff;
+
+/** Bytes to read from the start of a file to be sure the header is covered */
+export const WAV_HEADER_PROBE_BYTES = 4096;
+
+/** WAVE_FORMAT_EXTENSIBLE — the real format tag is in the SubFormat GUID */
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+/** Body size of a ds64 chunk with an empty table */
+const DS64_BODY_SIZE = 28;
+
+export interface WavHeaderLayout {
+  container: 'RIFF' | 'RF64';
+  ds64Offset: number | null;    // Byte offset of the ds64 chunk body (RF64 only)
+  junkOffset: number | null;    // Byte offset of a JUNK chunk reserving the ds64 slot (RIFF only)
+  formatTag: number;            // 1 = PCM, 3 = float (extensible unwrapped)
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  blockAlign: number;           // Bytes per sample frame, from the fmt chunk
+  dataSizeOffset: number;       // Byte offset of the data chunk's 32-bit size field
+  dataOffset: number;           // Byte offset of the first audio sample
+  dataSize: number;             // Declared audio payload size (from ds64 for RF64)
+}
+
+type WavFormat = Pick<WavHeaderLayout, 'formatTag' | 'channels' | 'sampleRate' | 'bitsPerSample' | 'blockAlign'>;
+
+/**
+ * Locate the size fields in a WAV header and read its format. Returns null
+ * when the buffer isn't a RIFF/RF64 WAVE file or the fmt/data chunks aren't
+ * within it.
+ */
+export function parseWavHeader(header: Buffer): WavHeaderLayout | null {
+  if (header.length < 12) return null;
+  const container = header.toString('ascii', 0, 4);
+  if ((container !== 'RIFF' && container !== 'RF64') || header.toString('ascii', 8, 12) !== 'WAVE') {
+    return null;
+  }
+
+  let ds64Offset: number | null = null;
+  let junkOffset: number | null = null;
+  let fmt: WavFormat | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= header.length) {
+    const chunkId = header.toString('ascii', offset, offset + 4);
+    const chunkSize = header.readUInt32LE(offset + 4);
+    const bodyOffset = offset + 8;
+
+    if (chunkId === 'ds64') {
+      ds64Offset = bodyOffset;
+    } else if (chunkId === 'JUNK' && offset === 12 && chunkSize === DS64_BODY_SIZE) {
+      junkOffset = bodyOffset;
+    } else if (chunkId === 'fmt ' && bodyOffset + 16 <= header.length) {
+      let formatTag = header.readUInt16LE(bodyOffset);
+      if (formatTag === FORMAT_EXTENSIBLE && chunkSize >= 26 && bodyOffset + 26 <= header.length) {
+        formatTag = header.readUInt16LE(bodyOffset + 24);
+      }
+      fmt = {
+        formatTag,
+        channels: header.readUInt16LE(bodyOffset + 2),
+        sampleRate: header.readUInt32LE(bodyOffset + 4),
+        blockAlign: header.readUInt16LE(bodyOffset + 12),
+        bitsPerSample: header.readUInt16LE(bodyOffset + 14),
+      };
+    } else if (chunkId === 'data') {
+      if (!fmt?.blockAlign) return null;
+      if (container === 'RF64' && (ds64Offset === null || ds64Offset + 16 > header.length)) return null;
+      const dataSize = container === 'RF64' && chunkSize === RIFF_MAX_SIZE
+        ? Number(header.readBigUInt64LE(ds64Offset! + 8))
+        : chunkSize;
+      return {
+        container,
+        ds64Offset,
+        junkOffset,
+        ...fmt,
+        dataSizeOffset: offset + 4,
+        dataOffset: bodyOffset,
+        dataSize,
+      };
+    }
+
+    // Chunks are word-aligned — odd sizes carry one pad byte
+    offset = bodyOffset + chunkSize + (chunkSize % 2);
+  }
+
+  return null;
+}
+
+/**
+ * Rewrite the size fields of a WAV header for a file of `totalFileSize`
+ * bytes. RIFF headers get their 32-bit fields; RF64 headers get the ds64
+ * 64-bit fields; a RIFF header that has outgrown 32 bits is promoted to
+ * RF64 through its reserved JUNK chunk. Throws if the header is unreadable,
+ * or if it needs RF64 and has no slot for ds64.
+ */
+export function patchWavHeader(header: Buffer, totalFileSize: number): Buffer {
+  const layout = parseWavHeader(header);
+  if (!layout) {
+    throw new Error('Unrecognized WAV header');
+  }
+
+  const patched = Buffer.from(header);
+  const riffSize = totalFileSize - 8;
+  const dataSize = totalFileSize - layout.dataOffset;
+
+  let ds64 = layout.ds64Offset;
+  if (layout.container === 'RIFF' && riffSize > RIFF_MAX_SIZE && layout.junkOffset !== null) {
+    patched.write('RF64', 0, 'ascii');
+    patched.write('ds64', layout.junkOffset - 8, 'ascii');
+    patched.writeUInt32LE(0, layout.junkOffset + 24); // Table length
+    ds64 = layout.junkOffset;
+  }
+
+  if (ds64 !== null) {
+    patched.writeBigUInt64LE(BigInt(riffSize), ds64);
+    patched.writeBigUInt64LE(BigInt(dataSize), ds64 + 8);
+    patched.writeBigUInt64LE(BigInt(Math.floor(dataSize / layout.blockAlign)), ds64 + 16);
+    patched.writeUInt32LE(RIFF_MAX_SIZE, 4);
+    patched.writeUInt32LE(RIFF_MAX_SIZE, layout.dataSizeOffset);
+    return patched;
+  }
+
+  if (riffSize > RIFF_MAX_SIZE) {
+    throw new Error(`RIFF header cannot describe a ${totalFileSize}-byte file — expected RF64`);
+  }
+  patched.writeUInt32LE(riffSize, 4);
+  patched.writeUInt32LE(dataSize, layout.dataSizeOffset);
+  return patched;
+}
@@ -63,6 +63,121 @@ awslocal dynamodb create-table \
   --billing-mode PAY_PER_REQUEST \
   --region $REGION
 
+awslocal dynamodb create-table \
+  --table-name stage-AudioStudio_ProcessingResults \
+  --attribute-definitions \
+    AttributeName=meetingId,AttributeType=S \
+    AttributeName=sessionId,AttributeType=S \
+  --key-schema \
+    AttributeName=meetingId,KeyType=HASH \
+    AttributeName=sessionId,KeyType=RANGE \
+  --billing-mode PAY_PER_REQUEST \
+  --region $REGION
+
+awslocal dynamodb create-table \
+  --table-name stage-AudioStudio_Locks \
+  --attribute-definitions AttributeName=lockName,AttributeType=S \
+  --key-schema AttributeName=lockName,KeyType=HASH \
+  --billing-mode PAY_PER_REQUEST \
+  --region $REGION
+
+awslocal dynamodb create-table \
+  --table-name stage-AudioStudio_AccessGrants \
+  --attribute-definitions \
+    AttributeName=meetingId,AttributeType=S \
+    AttributeName=email,AttributeType=S \
+  --key-schema \
+    AttributeName=meetingId,KeyType=HASH \
+    AttributeName=email,KeyType=RANGE \
+  --billing-mode PAY_PER_REQUEST \
+  --region $REGION
+
+awslocal dynamodb create-table \
+  --table-name stage-AudioStudio_AuditLog \
+  --attribute-definitions \
+    AttributeName=meetingId,AttributeType=S \
+    AttributeName=auditId,AttributeType=S \
+  --key-schema \
+    AttributeName=meetingId,KeyType=HASH \
+    AttributeName=auditId,KeyType=RANGE \
+  --billing-mode PAY_PER_REQUEST \
+  --region $REGION
+
+awslocal dynamodb create-table \
+  --table-name stage-AudioStudio_Users \
+  --attribute-definitions AttributeName=email,AttributeType=S \
+  --key-schema AttributeName=email,KeyType=HASH \
+  --billing-mode PAY_PER_REQUEST \
+  --region $REGION
+
+awslocal dynamodb create-table \
+  --table-name stage-AudioStudio_LoginLinks \
+  --attribute-definitions AttributeName=tokenHash,AttributeType=S \
+  --key-schema AttributeName=tokenHash,KeyType=HASH \
+  --billing-mode PAY_PER_REQUEST \
+  --region $REGION
+
+awslocal dynamodb update-time-to-live \
+  --table-name stage-AudioStudio_LoginLinks \
+  --time-to-live-specification Enabled=true,AttributeName=ttl \
+  --region $REGION
+
+awslocal dynamodb create-table \
+  --table-name stage-AudioStudio_Invites \
+  --attribute-definitions \
+    AttributeName=meetingId,AttributeType=S \
+    AttributeName=slot,AttributeType=S \
+  --key-schema \
+    AttributeName=meetingId,KeyType=HASH \
+    AttributeName=slot,KeyType=RANGE \
+  --billing-mode PAY_PER_REQUEST \
+  --region $REGION
+
+awslocal dynamodb create-table \
+  --table-name stage-AudioStudio_ConsentDocuments \
+  --attribute-definitions \
+    AttributeName=locale,AttributeType=S \
+    AttributeName=version,AttributeType=N \
+  --key-schema \
+    AttributeName=locale,KeyType=HASH \
+    AttributeName=version,KeyType=RANGE \
+  --billing-mode PAY_PER_REQUEST \
+  --region $REGION
+
+awslocal dynamodb create-table \
+  --table-name stage-AudioStudio_Consents \
+  --attribute-definitions \
+    AttributeName=meetingId,AttributeType=S \
+    AttributeName=consentId,AttributeType=S \
+  --key-schema \
+    AttributeName=meetingId,KeyType=HASH \
+    AttributeName=consentId,KeyType=RANGE \
+  --billing-mode PAY_PER_REQUEST \
+  --region $REGION
+
+awslocal dynamodb create-table \
+  --table-name stage-AudioStudio_Speakers \
+  --attribute-definitions AttributeName=speakerId,AttributeType=S \
+  --key-schema AttributeName=speakerId,KeyType=HASH \
+  --billing-mode PAY_PER_REQUEST \
+  --region $REGION
+
+echo "Seeding a development consent document (en, version 1)..."
+CONSENT_BODY="This is a development consent text. By continuing you agree that this session is recorded and that the recording is processed to produce the session's audio files."
+CONSENT_HASH=$(printf '%s' "$CONSENT_BODY" | sha256sum | cut -d' ' -f1)
+awslocal dynamodb put-item \
+  --table-name stage-AudioStudio_ConsentDocuments \
+  --item "{
+    \"locale\": {\"S\": \"en\"},
+    \"version\": {\"N\": \"1\"},
+    \"title\": {\"S\": \"Recording consent (development)\"},
+    \"body\": {\"S\": \"$CONSENT_BODY\"},
+    \"bodyHash\": {\"S\": \"$CONSENT_HASH\"},
+    \"publishedBy\": {\"S\": \"local-stack\"},
+    \"publishedAt\": {\"S\": \"$(date -u +%Y-%m-%dT%H:%M:%S.000Z)\"}
+  }" \
+  --region $REGION
+
 echo "Creating S3 bucket (stage- prefixed)..."
 awslocal s3 mb s3://stage-audio-studio-recordings --region $REGION
 
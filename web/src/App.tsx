@@ -4,8 +4,10 @@
  * Route structure mirrors the user journey through the recording flow:
  *
  *   /                          → Home: create or join a meeting session
+ *   /login                     → Login: email magic-link sign-in (hosts and admins)
  *   /room/:roomId/green-room   → GreenRoom: mic check + device selection before recording
  *   /room/:roomId              → Studio: live recording session with peer via WebRTC
+ *                                (?observe: operators/admins watch without a seat)
  *   /room/:roomId/results      → Results: view recordings, quality profile, and download files
  *
  * All routes are wrapped in an ErrorBoundary so that a React crash in any
@@ -14,10 +16,12 @@
  *
  * Note: There is no auth-gate on routes — the server's join-room handler
  * enforces capacity (max 2 participants) and duplicate-session logic.
+ * Only creating a session needs a signed-in user, which Home checks itself.
  */
 
 import { Routes, Route } from 'react-router-dom';
 import Home from './pages/Home';
+import Login from './pages/Login';
 import GreenRoom from './pages/GreenRoom';
 import Studio from './pages/Studio';
 import Results from './pages/Results';
@@ -29,6 +33,7 @@ export default function App() {
       <ErrorBoundary>
         <Routes>
           <Route path="/" element={<Home />} />
+          <Route path="/login" element={<Login />} />
           <Route path="/room/:roomId/green-room" element={<GreenRoom />} />
           <Route path="/room/:roomId" element={<Studio />} />
           <Route path="/room/:roomId/results" element={<Results />} />
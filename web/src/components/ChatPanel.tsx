@@ -1,7 +1,7 @@
 /**
  * ChatPanel.tsx — Real-time text chat sidebar for the recording studio.
  *
- * Provides a simple messaging UI between the host and guest participants
+ * Provides a simple messaging UI between the participants
  * during a recording session. Messages are relayed through the server's
  * Socket.IO `chat-message` event — there is no persistence (messages are
  * lost on page refresh).
@@ -16,7 +16,8 @@
  *    in the broadcast.
  * 4. Messages from the current user are right-aligned (blue), messages
  *    from the peer are left-aligned (gray) — identified by comparing
- *    `msg.sender` to `currentUserId`.
+ *    `msg.sender` to `currentUserId`. An observer's messages are labelled,
+ *    since observers aren't on the speaker list.
  *
  * ## Socket.IO event flow
  *
@@ -28,6 +29,7 @@
  */
 
 import { useState, useRef, useEffect } from 'react';
+import { ROLES } from '../shared';
 
 interface ChatMessage {
   message: string;
@@ -79,6 +81,9 @@ export default function ChatPanel({ messages, onSend, currentUserId }: ChatPanel
                   isMe ? 'bg-accent-400/20 text-surface-50 border border-accent-400/30' : 'bg-surface-800 text-surface-100'
                 }`}
               >
+                {!isMe && msg.role === ROLES.OBSERVER && (
+                  <div className="text-xs text-surface-500">observer</div>
+                )}
                 {msg.message}
               </div>
             </div>
@@ -0,0 +1,72 @@
+/**
+ * NudgeOverlay.tsx — A producer's cue, shown over the Studio.
+ *
+ * The host or an observer can nudge one participant (`nudge` socket event)
+ * instead of typing into the shared chat — typically in response to a
+ * recording warning about that speaker. The target sees the cue large and
+ * centred until they dismiss it or NUDGE_DISPLAY_MS passes; a new nudge
+ * replaces the current one.
+ *
+ * While the producer holds push-to-talk (`talkback` event), a strip says
+ * who is talking. That audio plays in this participant's headphones only —
+ * the recorder captures their own mic, never remote audio.
+ */
+
+import { useEffect } from 'react';
+import type { NudgeBroadcast, NudgeKind, TalkbackBroadcast } from '../shared';
+import { NUDGE_KIND, ROLES } from '../shared';
+
+/** How long a nudge stays up unless dismissed */
+const NUDGE_DISPLAY_MS = 8000;
+
+/** What each nudge asks of the participant */
+const NUDGE_MESSAGES: Record<NudgeKind, string> = {
+  [NUDGE_KIND.MOVE_CLOSER]: 'Move a little closer to your mic',
+  [NUDGE_KIND.REDUCE_GAIN]: 'Turn your mic gain down — you are too loud',
+  [NUDGE_KIND.PAUSE]: 'Please pause for a moment',
+  [NUDGE_KIND.CHECK_HEADPHONES]: 'Check your headphones — others may be leaking into your mic',
+};
+
+interface NudgeOverlayProps {
+  nudge: NudgeBroadcast | null;
+  talkback: TalkbackBroadcast | null;   // Set while the producer is talking to us
+  onDismiss: () => void;
+}
+
+export default function NudgeOverlay({ nudge, talkback, onDismiss }: NudgeOverlayProps) {
+  // Auto-dismiss — restarts when a new nudge arrives
+  useEffect(() => {
+    if (!nudge) return;
+    const timer = setTimeout(onDismiss, NUDGE_DISPLAY_MS);
+    return () => clearTimeout(timer);
+  }, [nudge]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  if (!nudge && !talkback) return null;
+
+  return (
+    <div className="fixed inset-x-0 z-50 flex flex-col items-center gap-3 pointer-events-none top-20">
+      {talkback && (
+        <div className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-full bg-accent-400 text-surface-950">
+          <div className="w-2 h-2 rounded-full bg-surface-950 animate-pulse" />
+          {producerName(talkback.fromRole)} is talking to you
+        </div>
+      )}
+      {nudge && (
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="px-8 py-6 text-center border shadow-lg pointer-events-auto rounded-xl bg-warning-dark/90 border-warning"
+        >
+          <p className="text-xs tracking-wide uppercase text-warning-light">From {producerName(nudge.fromRole).toLowerCase()}</p>
+          <p className="mt-1 text-2xl font-semibold text-surface-50">{NUDGE_MESSAGES[nudge.kind]}</p>
+          <p className="mt-2 text-xs text-warning-light">Click to dismiss</p>
+        </button>
+      )}
+    </div>
+  );
+}
+
+/** Observers are the session's producers; the host is just "the host" */
+function producerName(role: string): string {
+  return role === ROLES.OBSERVER ? 'The producer' : 'The host';
+}
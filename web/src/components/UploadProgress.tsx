@@ -7,7 +7,7 @@
  * ## States
  *
  * 1. **Hidden** — No upload in progress and no progress data (default)
- * 2. **Uploading** — Progress bar with percentage, animated fill
+ * 2. **Uploading** — Progress bar with percentage, time left, animated fill
  * 3. **Complete** — Shows "Upload complete" at 100%
  * 4. **Error** — Red error banner with the failure message
  *
@@ -20,10 +20,11 @@
  *
  * For files >10MB (multipart upload):
  *   1. POST /api/multipart-upload/initiate → get uploadId
- *   2. Upload parts concurrently (3 at a time, 10MB each)
+ *   2. Upload parts concurrently (part size and count adapt to throughput)
  *   3. POST /api/multipart-upload/complete → WAV header patching + assembly
  *
- * Progress callbacks fire after each part completes, updating the percent.
+ * Progress callbacks fire after each part completes, updating the percent
+ * and the estimated time left (`etaSeconds`).
  */
 
 import type { UploadProgress as UploadProgressType } from '@/services/uploadService';
@@ -48,12 +49,16 @@ export default function UploadProgress({ progress, isUploading, error }: UploadP
   if (!isUploading && !progress) return null;
 
   const percent = progress?.percent ?? 0;
+  const eta = isUploading && progress?.etaSeconds != null ? formatEta(progress.etaSeconds) : null;
 
   return (
     <div className="px-4 py-3 bg-surface-800 rounded-lg">
       <div className="flex justify-between mb-1 text-sm text-surface-200">
         <span>{isUploading ? 'Uploading recording...' : 'Upload complete'}</span>
-        <span>{percent}%</span>
+        <span>
+          {eta && <span className="mr-2 text-surface-400">{eta}</span>}
+          {percent}%
+        </span>
       </div>
       {/* Progress bar — width transitions smoothly via CSS */}
       <div className="h-2 overflow-hidden bg-surface-700 rounded-full">
@@ -65,3 +70,9 @@ export default function UploadProgress({ progress, isUploading, error }: UploadP
     </div>
   );
 }
+
+/** Human-readable time left, e.g. "~45s left", "~3 min left" */
+function formatEta(seconds: number): string {
+  if (seconds < 60) return `~${Math.max(seconds, 1)}s left`;
+  return `~${Math.round(seconds / 60)} min left`;
+}
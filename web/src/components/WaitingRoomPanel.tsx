@@ -0,0 +1,69 @@
+/**
+ * WaitingRoomPanel.tsx — The host's view of guests waiting to be let in.
+ *
+ * First-time guests don't join straight away: the server holds them in the
+ * room's waiting room and sends the host a `waiting-list` on every change.
+ * Each entry shows who is asking (name, email) and their last GreenRoom mic
+ * check, so the host can spot a bad setup before admitting them. Admitting
+ * seats the guest; denying sends them away. Hidden when nobody is waiting.
+ */
+
+import type { MicStatusPayload, WaitingParticipant } from '../shared';
+
+interface WaitingRoomPanelProps {
+  waiting: WaitingParticipant[];
+  onAdmit: (userId: string) => void;
+  onDeny: (userId: string) => void;
+}
+
+export default function WaitingRoomPanel({ waiting, onAdmit, onDeny }: WaitingRoomPanelProps) {
+  if (waiting.length === 0) return null;
+
+  return (
+    <div className="px-4 py-3 border rounded-lg bg-accent-400/10 border-accent-400">
+      <p className="mb-2 text-sm font-medium text-surface-50">Waiting to join ({waiting.length})</p>
+      <div className="space-y-2">
+        {waiting.map((w) => {
+          const mic = micSummary(w.micStatus);
+          return (
+            <div key={w.userId} className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="text-sm font-medium truncate text-surface-50">{w.userName || w.userEmail || 'Guest'}</div>
+                <div className="text-xs truncate text-surface-400">
+                  {w.userName && w.userEmail ? `${w.userEmail} · ` : ''}
+                  <span className={mic.ok ? 'text-success-light' : 'text-warning-light'}>{mic.label}</span>
+                </div>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => onAdmit(w.userId)}
+                  className="px-3 py-1 text-xs font-semibold rounded bg-accent-400 hover:bg-accent-500 text-surface-950"
+                >
+                  Admit
+                </button>
+                <button
+                  onClick={() => onDeny(w.userId)}
+                  className="px-3 py-1 text-xs font-medium rounded bg-surface-700 hover:bg-surface-600 text-surface-300"
+                >
+                  Deny
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/** One line on a guest's GreenRoom mic check */
+function micSummary(status: MicStatusPayload | null): { label: string; ok: boolean } {
+  if (!status) return { label: 'No mic check', ok: false };
+  const issues: string[] = [];
+  if (status.level !== 'good') issues.push(status.level === 'too-quiet' ? 'quiet' : 'loud');
+  if (status.noiseFloor !== 'clean') issues.push('noisy');
+  if (status.clipping) issues.push('clipping');
+  return issues.length === 0
+    ? { label: 'Mic check good', ok: true }
+    : { label: `Mic check: ${issues.join(', ')}`, ok: false };
+}
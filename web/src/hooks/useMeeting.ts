@@ -9,16 +9,18 @@
  * - `createMeeting(title, hostName, hostEmail)` → POST /api/meetings
  *   Body: { title, hostName, hostEmail }
  *   Response: Meeting object with meetingId (UUID), status: 'scheduled'
- *   Auth: Required in prod (JWT Bearer token), bypassed in dev
+ *   Auth: JWT Bearer token of the signed-in user (authService) — the server
+ *   makes their email the meeting's hostEmail. Bypassed in dev when signed out.
  *
  * - `fetchMeeting(meetingId)` → GET /api/meetings/:id
  *   Response: Meeting object
  *   Auth: Public (no auth required — guests need to view meeting details)
  *
- * - `assignGuest(meetingId, name, email)` → POST /api/meetings/:id/assign-guest
- *   Body: { name, email }
+ * - `assignGuest(meetingId, name, email, inviteToken?)` → POST /api/meetings/:id/assign-guest
+ *   Body: { name, email, inviteToken? }
  *   Response: { assigned: boolean }
- *   Auth: Public (self-serve guest assignment)
+ *   Auth: Public (self-serve guest assignment) — invite-only meetings
+ *   (created by a signed-in host) need the invite link's token
  *
  * ## State Management
  *
@@ -34,6 +36,7 @@
 
 import { useState, useCallback } from 'react';
 import type { Meeting } from '../shared';
+import { authHeaders } from '@/services/authService';
 
 const API_BASE = import.meta.env.VITE_API_URL || '/api';
 
@@ -43,7 +46,7 @@ export interface UseMeetingReturn {
   error: string | null;
   createMeeting: (title: string, hostName: string, hostEmail: string) => Promise<Meeting>;
   fetchMeeting: (meetingId: string) => Promise<Meeting>;
-  assignGuest: (meetingId: string, name: string, email: string) => Promise<boolean>;
+  assignGuest: (meetingId: string, name: string, email: string, inviteToken?: string) => Promise<boolean>;
 }
 
 export function useMeeting(): UseMeetingReturn {
@@ -61,7 +64,7 @@ export function useMeeting(): UseMeetingReturn {
     try {
       const res = await fetch(`${API_BASE}/meetings`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
         body: JSON.stringify({ title, hostName, hostEmail }),
       });
       if (!res.ok) throw new Error('Failed to create meeting');
@@ -104,18 +107,23 @@ export function useMeeting(): UseMeetingReturn {
    * Called when a guest joins an existing session. Uses a DynamoDB conditional
    * write for race safety — only the first guest to claim the slot wins.
    */
-  const assignGuest = useCallback(async (meetingId: string, name: string, email: string): Promise<boolean> => {
+  const assignGuest = useCallback(async (
+    meetingId: string,
+    name: string,
+    email: string,
+    inviteToken?: string,
+  ): Promise<boolean> => {
     setIsLoading(true);
     setError(null);
     try {
       const res = await fetch(`${API_BASE}/meetings/${meetingId}/assign-guest`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name, email }),
+        body: JSON.stringify({ name, email, inviteToken }),
       });
       if (!res.ok) {
         const errData = await res.json().catch(() => ({}));
-        throw new Error(errData.message || 'Failed to join meeting');
+        throw new Error(errData.error || 'Failed to join meeting');
       }
       const data = await res.json();
       return data.assigned;
@@ -8,8 +8,10 @@
  *
  * The actual recording happens in recorderService.ts:
  *   MediaStream → AudioContext (48kHz) → AudioWorklet → Float32Array chunks
- *   Chunks are stored in memory AND persisted to IndexedDB for crash recovery.
- *   On stop, chunks are encoded into a WAV blob (48kHz 16-bit PCM).
+ *   Chunks are persisted to IndexedDB for crash recovery. With an upload
+ *   target they are also streamed to S3 in 10MB parts while recording, so
+ *   stop only flushes the tail; without one they are kept in memory and
+ *   encoded into a WAV blob (48kHz 16-bit PCM) on stop.
  *
  * ## State Tracking
  *
@@ -26,8 +28,8 @@
  *
  * 1. On Studio mount, getPendingRecordings() checks IndexedDB for orphaned chunks
  * 2. User clicks "Recover & Upload" → recover(sessionKey) is called
- * 3. recoverRecording() reads chunks from IndexedDB, encodes to WAV blob
- * 4. Blob is then uploaded via the normal upload pipeline
+ * 3. recoverRecording() reads chunks from IndexedDB a batch at a time and
+ *    uploads them as a streaming multipart upload, one part at a time
  */
 
 import { useState, useCallback, useRef } from 'react';
@@ -36,13 +38,14 @@ import {
   stopRecording as stopRec,
   recoverRecording,
 } from '@/services/recorderService';
+import type { OnProgress, StreamingUploadTarget } from '@/services/uploadService';
 
 export interface UseRecorderReturn {
   isRecording: boolean;
   recordingDuration: number;
-  start: (stream: MediaStream, sessionKey?: string) => Promise<void>;
-  stop: () => Blob | null;
-  recover: (sessionKey: string) => Promise<Blob | null>;
+  start: (stream: MediaStream, sessionKey?: string, uploadTarget?: StreamingUploadTarget) => Promise<void>;
+  stop: (onProgress?: OnProgress) => Promise<Blob | null>;
+  recover: (sessionKey: string, target: StreamingUploadTarget, onProgress?: OnProgress) => Promise<void>;
 }
 
 export function useRecorder(): UseRecorderReturn {
@@ -57,11 +60,12 @@ export function useRecorder(): UseRecorderReturn {
 
   /**
    * Start recording from the given MediaStream.
-   * Delegates to recorderService which sets up AudioWorklet or ScriptProcessor.
+   * Delegates to recorderService which sets up AudioWorklet or ScriptProcessor
+   * (and the progressive upload, if `uploadTarget` is given).
    * Starts a 1-second interval timer for the duration display.
    */
-  const start = useCallback(async (stream: MediaStream, sessionKey?: string) => {
-    await startRec(stream, sessionKey);
+  const start = useCallback(async (stream: MediaStream, sessionKey?: string, uploadTarget?: StreamingUploadTarget) => {
+    await startRec(stream, sessionKey, uploadTarget);
     setIsRecording(true);
     startTimeRef.current = Date.now();
 
@@ -71,29 +75,32 @@ export function useRecorder(): UseRecorderReturn {
   }, []);
 
   /**
-   * Stop recording and return the encoded WAV blob.
+   * Stop recording and return the WAV blob that still needs uploading.
    * Clears the duration timer and resets state.
-   * Returns null if no chunks were captured.
+   * Returns null if the recording was streamed or no chunks were captured.
    */
-  const stop = useCallback((): Blob | null => {
+  const stop = useCallback(async (onProgress?: OnProgress): Promise<Blob | null> => {
     if (timerRef.current) {
       clearInterval(timerRef.current);
       timerRef.current = null;
     }
 
     setIsRecording(false);
-    const blob = stopRec();
+    const blob = await stopRec(onProgress);
     setRecordingDuration(0);
     return blob;
   }, []);
 
   /**
    * Recover a recording from IndexedDB after a crash.
-   * Reads stored Float32Array chunks, encodes to WAV, clears IndexedDB.
+   * Uploads the stored Float32Array chunks to `target`, clears IndexedDB.
    */
-  const recover = useCallback(async (sessionKey: string): Promise<Blob | null> => {
-    return recoverRecording(sessionKey);
-  }, []);
+  const recover = useCallback(
+    async (sessionKey: string, target: StreamingUploadTarget, onProgress?: OnProgress): Promise<void> => {
+      await recoverRecording(sessionKey, target, onProgress);
+    },
+    [],
+  );
 
   return { isRecording, recordingDuration, start, stop, recover };
 }
@@ -6,9 +6,12 @@
  *
  * ## Lifecycle
  *
- * 1. On mount, connects via `connectSocket()` (singleton from socketService)
+ * 1. On mount, connects via `connectSocket(roomId)` (singleton from socketService),
+ *    which authenticates the socket — the server assigns its userId
  * 2. Registers listeners for all Socket.IO events
- * 3. Provides action methods: joinRoom, startRecording, stopRecording, sendChat
+ * 3. Provides action methods: joinRoom, startRecording, stopRecording, sendChat,
+ *    the producer's sendNudge / sendTalkback, and the host's
+ *    admitParticipant / denyParticipant / transferHost / removeParticipant
  * 4. On unmount, removes all listeners and disconnects
  *
  * ## Event Categories
@@ -21,6 +24,16 @@
  * - `room-full` → Room at capacity, redirect user
  * - `duplicate-session` → Same user in another tab
  *
+ * ### Waiting Room
+ * - `waiting-room` → Our join is held until the host admits us (`waitingForHost`)
+ * - `admitted` → Rejoin at once with the admission token
+ * - `join-denied` → The host said no — shown as the error
+ * - `waiting-list` → (host) Who is waiting (`waitingList`)
+ *
+ * ### Host Controls
+ * - `host-changed` → Updates participant roles in roomState (handoff or promotion)
+ * - `removed-from-room` → The host removed us — stop reconnecting
+ *
  * ### Recording Events
  * - `start-recording` → Begin local AudioWorklet capture
  * - `stop-recording` → Stop capture, encode WAV, trigger upload
@@ -39,6 +52,10 @@
  * ### Chat
  * - `chat-message` → Text message from peer
  *
+ * ### Producer (to this participant only)
+ * - `nudge` → Structured cue from the host or an observer, shown as an overlay
+ * - `talkback` → The producer started/stopped talking to us
+ *
  * ## Callback Architecture
  *
  * Callbacks are passed in via the `callbacks` parameter and invoked directly
@@ -51,25 +68,42 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
 import type { Socket } from 'socket.io-client';
 import { connectSocket, disconnectSocket } from '@/services/socketService';
-import { SOCKET_EVENTS } from '../shared';
+import { SOCKET_EVENTS, ROLES } from '../shared';
 import type {
   RoomStatePayload,
   UserJoinedPayload,
   UserLeftPayload,
   PeerReconnectedPayload,
   StartRecordingBroadcast,
+  StopRecordingBroadcast,
   ResumeRecordingPayload,
   RecordingWarningPayload,
   QualityUpdatePayload,
+  MicCheckPayload,
   MicStatusPayload,
   ErrorPayload,
+  NudgeBroadcast,
+  TalkbackBroadcast,
+  NudgeKind,
+  WaitingListPayload,
+  WaitingParticipant,
+  AdmittedPayload,
+  JoinDeniedPayload,
+  HostChangedPayload,
+  RemovedFromRoomPayload,
+  SpeakerProfile,
+  Role,
 } from '../shared';
 
 export interface UseSocketOptions {
   roomId: string;
-  role: 'host' | 'guest';
-  userId: string;
+  role: Role;                   // ROLES.OBSERVER to watch silently; otherwise the server assigns it
   userEmail?: string;
+  userName?: string;            // Shown to the host while we wait to be admitted
+  inviteToken?: string;         // Signed guest invite, redeemed by the server at join-room
+  consentId?: string;           // Recording consent from the GreenRoom
+  speakerProfile?: SpeakerProfile; // From Home + GreenRoom, stored on the session
+  micCheck?: MicCheckPayload;   // GreenRoom's last mic check, shown to the host while we wait
 }
 
 export interface UseSocketReturn {
@@ -77,10 +111,18 @@ export interface UseSocketReturn {
   isConnected: boolean;
   roomState: RoomStatePayload | null;
   error: string | null;
+  waitingForHost: boolean;      // Our join is held in the waiting room
+  waitingList: WaitingParticipant[]; // (host) Guests waiting to be admitted
   joinRoom: () => void;
   startRecording: () => void;
   stopRecording: () => void;
   sendChat: (message: string) => void;
+  sendNudge: (targetUserId: string, kind: NudgeKind) => void;
+  sendTalkback: (targetUserId: string, active: boolean) => void;
+  admitParticipant: (userId: string) => void;
+  denyParticipant: (userId: string) => void;
+  transferHost: (targetUserId: string) => void;
+  removeParticipant: (targetUserId: string) => void;
 }
 
 export function useSocket(
@@ -90,7 +132,7 @@ export function useSocket(
     onUserLeft?: (data: UserLeftPayload) => void;
     onPeerReconnected?: (data: PeerReconnectedPayload) => void;
     onStartRecording?: (data: StartRecordingBroadcast) => void;
-    onStopRecording?: () => void;
+    onStopRecording?: (data: StopRecordingBroadcast) => void;
     onResumeRecording?: (data: ResumeRecordingPayload) => void;
     onRecordingWarning?: (data: RecordingWarningPayload) => void;
     onQualityUpdate?: (data: QualityUpdatePayload) => void;
@@ -101,11 +143,17 @@ export function useSocket(
     onRoomFull?: () => void;
     onDuplicateSession?: () => void;
     onChatMessage?: (data: { message: string; sender: string; role: string; timestamp: string }) => void;
+    onNudge?: (data: NudgeBroadcast) => void;
+    onTalkback?: (data: TalkbackBroadcast) => void;
+    onJoinDenied?: (data: JoinDeniedPayload) => void;
+    onRemoved?: (data: RemovedFromRoomPayload) => void;
   },
 ): UseSocketReturn {
   const [isConnected, setIsConnected] = useState(false);
   const [roomState, setRoomState] = useState<RoomStatePayload | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [waitingForHost, setWaitingForHost] = useState(false);
+  const [waitingList, setWaitingList] = useState<WaitingParticipant[]>([]);
   const socketRef = useRef<Socket | null>(null);
 
   // Guard: prevent joinRoom from being called more than once.
@@ -131,7 +179,7 @@ export function useSocket(
    * All callbacks go through callbacksRef so they always see current state.
    */
   useEffect(() => {
-    const socket = connectSocket();
+    const socket = connectSocket(options.roomId);
     socketRef.current = socket;
 
     // Connection state — check immediately in case socket was already connected
@@ -143,7 +191,10 @@ export function useSocket(
     socket.on('disconnect', () => setIsConnected(false));
 
     // Room state — full snapshot sent after join-room
-    socket.on(SOCKET_EVENTS.ROOM_STATE, (data: RoomStatePayload) => setRoomState(data));
+    socket.on(SOCKET_EVENTS.ROOM_STATE, (data: RoomStatePayload) => {
+      setWaitingForHost(false);
+      setRoomState(data);
+    });
     socket.on(SOCKET_EVENTS.ERROR, (data: ErrorPayload) => setError(data.message));
 
     // Session lifecycle events — all go through callbacksRef for latest closure
@@ -174,7 +225,20 @@ export function useSocket(
       });
       callbacksRef.current?.onUserLeft?.(data);
     });
-    socket.on(SOCKET_EVENTS.PEER_RECONNECTED, (data: PeerReconnectedPayload) => callbacksRef.current?.onPeerReconnected?.(data));
+    socket.on(SOCKET_EVENTS.PEER_RECONNECTED, (data: PeerReconnectedPayload) => {
+      callbacksRef.current?.onPeerReconnected?.(data);
+      // Point the participant at its new socket (after the callback, which
+      // still sees the old one in roomState to close that connection)
+      setRoomState((prev) => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          participants: prev.participants.map((p) =>
+            p.userId === data.userId ? { ...p, socketId: data.newSocketId } : p,
+          ),
+        };
+      });
+    });
     socket.on(SOCKET_EVENTS.ROOM_FULL, () => {
       // Disable auto-reconnection BEFORE the server force-disconnects us.
       // Without this: server emits room-full → disconnects socket → Socket.IO
@@ -188,9 +252,41 @@ export function useSocket(
       callbacksRef.current?.onDuplicateSession?.();
     });
 
+    // Waiting room — held until the host admits us, who then sends a token to rejoin with
+    socket.on(SOCKET_EVENTS.WAITING_ROOM, () => setWaitingForHost(true));
+    socket.on(SOCKET_EVENTS.ADMITTED, (data: AdmittedPayload) => emitJoin(data.admissionToken));
+    socket.on(SOCKET_EVENTS.JOIN_DENIED, (data: JoinDeniedPayload) => {
+      setWaitingForHost(false);
+      setError(data.message);
+      callbacksRef.current?.onJoinDenied?.(data);
+    });
+    socket.on(SOCKET_EVENTS.WAITING_LIST, (data: WaitingListPayload) => setWaitingList(data.waiting));
+
+    // Host controls — the host role moved, or the host removed us
+    socket.on(SOCKET_EVENTS.HOST_CHANGED, (data: HostChangedPayload) => {
+      setRoomState((prev) => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          participants: prev.participants.map((p) =>
+            p.userId === data.hostUserId
+              ? { ...p, role: ROLES.HOST }
+              : p.userId === data.previousHostUserId
+                ? { ...p, role: ROLES.GUEST }
+                : p,
+          ),
+        };
+      });
+    });
+    socket.on(SOCKET_EVENTS.REMOVED_FROM_ROOM, (data: RemovedFromRoomPayload) => {
+      // The server disconnects us next — reconnecting would only be refused
+      socket.io.opts.reconnection = false;
+      callbacksRef.current?.onRemoved?.(data);
+    });
+
     // Recording lifecycle events
     socket.on(SOCKET_EVENTS.START_RECORDING, (data: StartRecordingBroadcast) => callbacksRef.current?.onStartRecording?.(data));
-    socket.on(SOCKET_EVENTS.STOP_RECORDING, () => callbacksRef.current?.onStopRecording?.());
+    socket.on(SOCKET_EVENTS.STOP_RECORDING, (data: StopRecordingBroadcast) => callbacksRef.current?.onStopRecording?.(data));
     socket.on(SOCKET_EVENTS.RESUME_RECORDING, (data: ResumeRecordingPayload) => callbacksRef.current?.onResumeRecording?.(data));
 
     // WebRTC signaling relay — server adds `sender` field when forwarding
@@ -206,9 +302,13 @@ export function useSocket(
     // Chat relay
     socket.on(SOCKET_EVENTS.CHAT_MESSAGE, (data: any) => callbacksRef.current?.onChatMessage?.(data));
 
+    // Producer cues and talkback, addressed to this participant
+    socket.on(SOCKET_EVENTS.NUDGE, (data: NudgeBroadcast) => callbacksRef.current?.onNudge?.(data));
+    socket.on(SOCKET_EVENTS.TALKBACK, (data: TalkbackBroadcast) => callbacksRef.current?.onTalkback?.(data));
+
     return () => {
       socket.removeAllListeners();
-      // Restore reconnection setting in case it was disabled by room-full/duplicate-session
+      // Restore reconnection setting in case it was disabled by room-full/duplicate-session/removal
       socket.io.opts.reconnection = true;
       hasJoinedRef.current = false;
       disconnectSocket();
@@ -223,25 +323,39 @@ export function useSocket(
   optionsRef.current = options;
 
   /**
-   * Join the room — emits `join-room` with the user's identity.
-   * Guarded: only emits once per mount. The server's duplicate-join guard
-   * is a safety net, but we should never hit it — this ref prevents the
-   * client from flooding the server with concurrent join-room events.
+   * Emit `join-room` with the user's identity — and, once the host admitted
+   * us from the waiting room, the admission token.
+   * No userId: the server takes it from the handshake and returns it in room-state.
    */
-  const joinRoom = useCallback(() => {
-    if (hasJoinedRef.current) return;
-    hasJoinedRef.current = true;
+  function emitJoin(admissionToken?: string) {
     socketRef.current?.emit(SOCKET_EVENTS.JOIN_ROOM, {
       roomId: optionsRef.current.roomId,
       role: optionsRef.current.role,
-      userId: optionsRef.current.userId,
       userEmail: optionsRef.current.userEmail,
+      userName: optionsRef.current.userName,
+      inviteToken: optionsRef.current.inviteToken,
+      consentId: optionsRef.current.consentId,
+      speakerProfile: optionsRef.current.speakerProfile,
+      micCheck: optionsRef.current.micCheck,
+      admissionToken,
     });
-  }, []);
+  }
+
+  /**
+   * Join the room. Guarded: only emits once per mount. The server's
+   * duplicate-join guard is a safety net, but we should never hit it — this
+   * ref prevents the client from flooding the server with concurrent
+   * join-room events.
+   */
+  const joinRoom = useCallback(() => {
+    if (hasJoinedRef.current) return;
+    hasJoinedRef.current = true;
+    emitJoin();
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
   /**
-   * Request recording start — server generates sessionId and broadcasts
-   * `start-recording { sessionId }` to all participants.
+   * Request recording start — server generates sessionId and sends
+   * `start-recording { sessionId, uploadToken }` to every participant.
    */
   const startRecording = useCallback(() => {
     socketRef.current?.emit(SOCKET_EVENTS.START_RECORDING, { roomId: optionsRef.current.roomId });
@@ -264,21 +378,61 @@ export function useSocket(
       socketRef.current?.emit(SOCKET_EVENTS.CHAT_MESSAGE, {
         roomId: optionsRef.current.roomId,
         message,
-        sender: optionsRef.current.userId,
         role: optionsRef.current.role,
       });
     },
     [],
   );
 
+  /**
+   * Nudge one participant (host or observer only — the server refuses
+   * anyone else). Only the target receives it.
+   */
+  const sendNudge = useCallback((targetUserId: string, kind: NudgeKind) => {
+    socketRef.current?.emit(SOCKET_EVENTS.NUDGE, { roomId: optionsRef.current.roomId, targetUserId, kind });
+  }, []);
+
+  /** Tell one participant our push-to-talk started/stopped (the audio goes over WebRTC) */
+  const sendTalkback = useCallback((targetUserId: string, active: boolean) => {
+    socketRef.current?.emit(SOCKET_EVENTS.TALKBACK, { roomId: optionsRef.current.roomId, targetUserId, active });
+  }, []);
+
+  /** (Host) Let a waiting guest in — they rejoin and get their seat */
+  const admitParticipant = useCallback((userId: string) => {
+    socketRef.current?.emit(SOCKET_EVENTS.ADMIT_PARTICIPANT, { roomId: optionsRef.current.roomId, userId });
+  }, []);
+
+  /** (Host) Turn a waiting guest away */
+  const denyParticipant = useCallback((userId: string) => {
+    socketRef.current?.emit(SOCKET_EVENTS.DENY_PARTICIPANT, { roomId: optionsRef.current.roomId, userId });
+  }, []);
+
+  /** (Host) Make a guest the host — we become a guest */
+  const transferHost = useCallback((targetUserId: string) => {
+    socketRef.current?.emit(SOCKET_EVENTS.TRANSFER_HOST, { roomId: optionsRef.current.roomId, targetUserId });
+  }, []);
+
+  /** (Host) Remove a participant — disconnected and blocked from this meeting */
+  const removeParticipant = useCallback((targetUserId: string) => {
+    socketRef.current?.emit(SOCKET_EVENTS.REMOVE_PARTICIPANT, { roomId: optionsRef.current.roomId, targetUserId });
+  }, []);
+
   return {
     socket: socketRef.current,
     isConnected,
     roomState,
     error,
+    waitingForHost,
+    waitingList,
     joinRoom,
     startRecording,
     stopRecording,
     sendChat,
+    sendNudge,
+    sendTalkback,
+    admitParticipant,
+    denyParticipant,
+    transferHost,
+    removeParticipant,
   };
 }
@@ -4,6 +4,11 @@
  * Wraps the uploadService to provide React state for upload progress,
  * loading state, and error handling. Used by Studio after recording stops.
  *
+ * Recordings are normally streamed to S3 while they're captured, so after
+ * stop only the tail is left. Studio runs that flush through `track()` so
+ * it drives the same progress bar as a full upload; `upload()` is used for
+ * blobs that still have to go up whole (stream fallback, crash recovery).
+ *
  * ## Upload Flow
  *
  * The uploadService automatically chooses the upload strategy based on file size:
@@ -18,7 +23,7 @@
  * 2. POST /api/multipart-upload/part-1 → Upload Part 1 to temp location
  *    (needed for WAV header patching — the header has placeholder sizes)
  * 3. POST /api/multipart-upload/part-url (×N) → Get presigned URLs for parts 2-N
- * 4. PUT parts to S3 (3 concurrent uploads, 10MB per part)
+ * 4. PUT parts to S3 (part size and concurrency adapt to measured throughput)
  * 5. POST /api/multipart-upload/complete → Server patches WAV header with
  *    correct file size, reassembles parts, creates Recording entry
  *
@@ -27,6 +32,11 @@
  * falls back to simple upload. Upload state is persisted in IndexedDB for
  * resume support.
  *
+ * ### Background
+ * When the upload service worker is active, `upload()` hands the blob to it
+ * (backgroundUploadService) and relays its progress, so the upload finishes
+ * even if the tab is closed. Otherwise it uploads in the page.
+ *
  * ## State
  *
  * - `isUploading` — True during upload (used for progress bar visibility)
@@ -35,8 +45,9 @@
  */
 
 import { useState, useCallback } from 'react';
-import { uploadFile } from '@/services/uploadService';
-import type { UploadProgress } from '@/services/uploadService';
+import { uploadFile, uploadStateKey } from '@/services/uploadService';
+import { isBackgroundUploadAvailable, uploadInBackground } from '@/services/backgroundUploadService';
+import type { OnProgress, UploadProgress } from '@/services/uploadService';
 import { getSocket } from '@/services/socketService';
 import { SOCKET_EVENTS } from '../shared';
 
@@ -45,6 +56,7 @@ export interface UseUploadReturn {
   progress: UploadProgress | null;
   uploadError: string | null;
   upload: (blob: Blob, roomId: string, participantName: string, sessionId?: string) => Promise<void>;
+  track: <T>(participantName: string, task: (onProgress: OnProgress) => Promise<T>) => Promise<T>;
 }
 
 export function useUpload(): UseUploadReturn {
@@ -53,17 +65,17 @@ export function useUpload(): UseUploadReturn {
   const [uploadError, setUploadError] = useState<string | null>(null);
 
   /**
-   * Upload a recorded WAV blob to S3.
+   * Run any upload task with this hook's progress/error state.
    * Progress callbacks update the progress state for the UploadProgress component.
    */
-  const upload = useCallback(
-    async (blob: Blob, roomId: string, participantName: string, sessionId?: string) => {
+  const track = useCallback(
+    async <T,>(participantName: string, task: (onProgress: OnProgress) => Promise<T>): Promise<T> => {
       setIsUploading(true);
       setUploadError(null);
       setProgress(null);
 
       try {
-        await uploadFile(blob, roomId, participantName, sessionId, (p) => {
+        return await task((p) => {
           setProgress(p);
           // Relay upload progress to partner via Socket.IO
           const socket = getSocket();
@@ -84,5 +96,29 @@ export function useUpload(): UseUploadReturn {
     [],
   );
 
-  return { isUploading, progress, uploadError, upload };
+  /** Upload a recorded WAV blob to S3 (in the background when possible) */
+  const upload = useCallback(
+    async (blob: Blob, roomId: string, participantName: string, sessionId?: string) => {
+      await track(participantName, (onProgress) => {
+        if (!isBackgroundUploadAvailable()) {
+          return uploadFile(blob, roomId, participantName, sessionId, onProgress);
+        }
+        return uploadInBackground(
+          {
+            sessionKey: uploadStateKey(roomId, participantName, sessionId),
+            roomId,
+            participantName,
+            sessionId: sessionId || '',
+            blob,
+            firstPartNumber: null,
+            recoveryKey: null,
+          },
+          onProgress,
+        );
+      });
+    },
+    [track],
+  );
+
+  return { isUploading, progress, uploadError, upload, track };
 }
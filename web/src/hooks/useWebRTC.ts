@@ -2,21 +2,33 @@
  * useWebRTC.ts — WebRTC peer connection management hook.
  *
  * Manages the RTCPeerConnection lifecycle for live audio monitoring between
- * the host and guest. This is SEPARATE from the recording pipeline — WebRTC
+ * the participants. This is SEPARATE from the recording pipeline — WebRTC
  * provides real-time audio playback so participants can hear each other,
  * while recorderService captures lossless local audio for the dataset.
  *
+ * ## Mesh
+ *
+ * Rooms hold up to LIMITS.MAX_PARTICIPANTS, and every pair of participants
+ * has its own connection: one RTCPeerConnection per remote participant,
+ * keyed by that participant's socket ID. Signaling messages carry the
+ * sender's socket ID, which picks the connection they belong to. With N
+ * participants each browser uploads its mic N-1 times — fine for audio at
+ * panel sizes.
+ *
+ * Observers pass a null local stream: their connections only receive,
+ * until the producer's talkback sends on one (setOutgoingTrack).
+ *
  * ## Connection Flow
  *
- * ### Initiator (existing user when peer joins):
+ * ### Initiator (each existing user when a peer joins):
  * 1. `initConnection(socket, targetSocketId, localStream)`
  * 2. Creates RTCPeerConnection with ICE servers
  * 3. Adds local audio tracks
  * 4. Creates SDP offer → sends via Socket.IO `offer` event
- * 5. Receives answer → sets remote description
+ * 5. Receives answer → `handleIncomingAnswer(sdp, sender)` sets remote description
  * 6. ICE candidates exchanged until connection established
  *
- * ### Responder (newly joining user):
+ * ### Responder (newly joining user — answers every existing user):
  * 1. Receives `offer` event → `handleIncomingOffer(socket, sdp, sender, localStream)`
  * 2. Creates RTCPeerConnection with ICE servers
  * 3. Sets remote description from offer
@@ -26,7 +38,7 @@
  *
  * ### Reconnection (peer refreshes page or network drops):
  * 1. Server emits `peer-reconnected` with new socket ID
- * 2. `closeConnection()` tears down old RTCPeerConnection
+ * 2. `closeConnection(oldSocketId)` tears down that peer's old RTCPeerConnection
  * 3. `initConnection()` creates new one targeting the new socket ID
  * 4. New offer/answer exchange happens
  *
@@ -44,8 +56,8 @@
  *
  * ## State
  *
- * - `remoteStream` — The peer's audio MediaStream (attached to <audio> element)
- * - `connectionState` — RTCPeerConnectionState for UI indicators
+ * - `remoteStreams` — Each peer's audio MediaStream by socket ID (one <audio> each)
+ * - `connectionStates` — Each peer's RTCPeerConnectionState by socket ID, for UI indicators
  */
 
 import { useRef, useState, useCallback } from 'react';
@@ -57,50 +69,79 @@ import {
   handleAnswer,
   handleIceCandidate,
   cleanupPeerConnection,
+  setOutgoingAudio,
 } from '@/services/webrtcService';
 
 export interface UseWebRTCReturn {
-  remoteStream: MediaStream | null;
-  connectionState: RTCPeerConnectionState | null;
-  initConnection: (socket: Socket, targetSocketId: string, localStream: MediaStream) => void;
-  handleIncomingOffer: (socket: Socket, sdp: RTCSessionDescriptionInit, senderSocketId: string, localStream: MediaStream) => Promise<void>;
-  handleIncomingAnswer: (sdp: RTCSessionDescriptionInit) => Promise<void>;
-  handleIncomingIceCandidate: (candidate: RTCIceCandidateInit) => Promise<void>;
-  closeConnection: () => void;
+  remoteStreams: Record<string, MediaStream>;
+  connectionStates: Record<string, RTCPeerConnectionState>;
+  initConnection: (socket: Socket, targetSocketId: string, localStream: MediaStream | null) => void;
+  handleIncomingOffer: (socket: Socket, sdp: RTCSessionDescriptionInit, senderSocketId: string, localStream: MediaStream | null) => Promise<void>;
+  handleIncomingAnswer: (sdp: RTCSessionDescriptionInit, senderSocketId: string) => Promise<void>;
+  handleIncomingIceCandidate: (candidate: RTCIceCandidateInit, senderSocketId: string) => Promise<void>;
+  setOutgoingTrack: (socketId: string, track: MediaStreamTrack | null) => Promise<void>;
+  closeConnection: (socketId: string) => void;
+  closeAllConnections: () => void;
 }
 
 export function useWebRTC(): UseWebRTCReturn {
-  /** The remote peer's audio stream — null until WebRTC connection establishes */
-  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  /** Each remote peer's audio stream, by socket ID — absent until its connection establishes */
+  const [remoteStreams, setRemoteStreams] = useState<Record<string, MediaStream>>({});
+
+  /** Each connection's state, by the remote peer's socket ID */
+  const [connectionStates, setConnectionStates] = useState<Record<string, RTCPeerConnectionState>>({});
+
+  /** The open RTCPeerConnections, one per remote peer socket ID */
+  const pcsRef = useRef(new Map<string, RTCPeerConnection>());
 
-  /** Current connection state — tracks the RTCPeerConnection state machine */
-  const [connectionState, setConnectionState] = useState<RTCPeerConnectionState | null>(null);
+  /** Close the connection to `socketId` (if any) and drop its state */
+  const closeConnection = useCallback((socketId: string) => {
+    const pc = pcsRef.current.get(socketId);
+    if (pc) {
+      cleanupPeerConnection(pc);
+      pc.close();
+      pcsRef.current.delete(socketId);
+    }
+    setRemoteStreams(({ [socketId]: _, ...rest }) => rest);
+    setConnectionStates(({ [socketId]: _, ...rest }) => rest);
+  }, []);
+
+  /**
+   * Open a fresh connection to `peerSocketId`, replacing any existing one.
+   * Events from a replaced connection are ignored, so they can't overwrite
+   * the new connection's state.
+   */
+  const openConnection = useCallback(
+    (socket: Socket, peerSocketId: string, localStream: MediaStream | null): RTCPeerConnection => {
+      closeConnection(peerSocketId);
 
-  /** Ref to the active RTCPeerConnection — only one connection at a time */
-  const pcRef = useRef<RTCPeerConnection | null>(null);
+      const isCurrent = () => pcsRef.current.get(peerSocketId) === pc;
+      const pc = createPeerConnection(socket, peerSocketId, localStream, {
+        onRemoteStream: (stream) => {
+          if (isCurrent()) setRemoteStreams((prev) => ({ ...prev, [peerSocketId]: stream }));
+        },
+        onConnectionStateChange: (state) => {
+          if (isCurrent()) setConnectionStates((prev) => ({ ...prev, [peerSocketId]: state }));
+        },
+      });
+      pcsRef.current.set(peerSocketId, pc);
+      return pc;
+    },
+    [closeConnection],
+  );
 
   /**
    * Initiate a WebRTC connection to a peer (we are the offerer).
    * Called when a new user joins the room.
    */
   const initConnection = useCallback(
-    (socket: Socket, targetSocketId: string, localStream: MediaStream) => {
-      // Clean up any existing connection first
-      if (pcRef.current) {
-        cleanupPeerConnection(pcRef.current);
-        pcRef.current.close();
-      }
-
-      const pc = createPeerConnection(socket, targetSocketId, localStream, {
-        onRemoteStream: setRemoteStream,
-        onConnectionStateChange: setConnectionState,
-      });
-      pcRef.current = pc;
+    (socket: Socket, targetSocketId: string, localStream: MediaStream | null) => {
+      const pc = openConnection(socket, targetSocketId, localStream);
 
       // Create and send offer via Socket.IO signaling
       createOffer(pc, socket, targetSocketId);
     },
-    [],
+    [openConnection],
   );
 
   /**
@@ -112,64 +153,58 @@ export function useWebRTC(): UseWebRTCReturn {
       socket: Socket,
       sdp: RTCSessionDescriptionInit,
       senderSocketId: string,
-      localStream: MediaStream,
+      localStream: MediaStream | null,
     ) => {
-      // Clean up any existing connection first
-      if (pcRef.current) {
-        cleanupPeerConnection(pcRef.current);
-        pcRef.current.close();
-      }
-
-      const pc = createPeerConnection(socket, senderSocketId, localStream, {
-        onRemoteStream: setRemoteStream,
-        onConnectionStateChange: setConnectionState,
-      });
-      pcRef.current = pc;
-
+      const pc = openConnection(socket, senderSocketId, localStream);
       await handleOffer(pc, sdp, socket, senderSocketId);
     },
-    [],
+    [openConnection],
   );
 
-  /** Set the remote answer on our PeerConnection */
-  const handleIncomingAnswer = useCallback(async (sdp: RTCSessionDescriptionInit) => {
-    if (pcRef.current) {
-      await handleAnswer(pcRef.current, sdp);
+  /** Set the remote answer on the connection to the peer that sent it */
+  const handleIncomingAnswer = useCallback(async (sdp: RTCSessionDescriptionInit, senderSocketId: string) => {
+    const pc = pcsRef.current.get(senderSocketId);
+    if (pc) {
+      await handleAnswer(pc, sdp);
     }
   }, []);
 
   /**
-   * Add an ICE candidate from the peer.
+   * Add an ICE candidate from a peer to its connection.
    * If remote description isn't set yet, the candidate is queued
    * in webrtcService and flushed after setRemoteDescription.
    */
-  const handleIncomingIceCandidate = useCallback(async (candidate: RTCIceCandidateInit) => {
-    if (pcRef.current) {
-      await handleIceCandidate(pcRef.current, candidate);
+  const handleIncomingIceCandidate = useCallback(async (candidate: RTCIceCandidateInit, senderSocketId: string) => {
+    const pc = pcsRef.current.get(senderSocketId);
+    if (pc) {
+      await handleIceCandidate(pc, candidate);
     }
   }, []);
 
-  /**
-   * Close the WebRTC connection and clean up all resources.
-   * Called on peer disconnect or before creating a new connection.
-   */
-  const closeConnection = useCallback(() => {
-    if (pcRef.current) {
-      cleanupPeerConnection(pcRef.current);
-      pcRef.current.close();
+  /** Send `track` (null: nothing) to one peer instead of what we send it now — talkback */
+  const setOutgoingTrack = useCallback(async (socketId: string, track: MediaStreamTrack | null) => {
+    const pc = pcsRef.current.get(socketId);
+    if (pc) {
+      await setOutgoingAudio(pc, track);
     }
-    pcRef.current = null;
-    setRemoteStream(null);
-    setConnectionState(null);
   }, []);
 
+  /** Close every connection — e.g. when leaving the room */
+  const closeAllConnections = useCallback(() => {
+    for (const socketId of [...pcsRef.current.keys()]) {
+      closeConnection(socketId);
+    }
+  }, [closeConnection]);
+
   return {
-    remoteStream,
-    connectionState,
+    remoteStreams,
+    connectionStates,
     initConnection,
     handleIncomingOffer,
     handleIncomingAnswer,
     handleIncomingIceCandidate,
+    setOutgoingTrack,
     closeConnection,
+    closeAllConnections,
   };
 }
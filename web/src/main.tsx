@@ -2,8 +2,13 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
 import App from './App';
+import { registerUploadWorker } from './services/backgroundUploadService';
 import './index.css';
 
+// Every page registers the upload worker, which resumes uploads left
+// unfinished when a tab was closed
+registerUploadWorker();
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <BrowserRouter>
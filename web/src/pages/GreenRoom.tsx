@@ -9,24 +9,47 @@
  * Uses accumulated evidence (rolling window of server responses) instead of
  * single-snapshot evaluation, so pauses between sentences don't reset progress.
  *
+ * Consent: below the checks, the participant reads the current consent
+ * document (for the browser's language) and agrees to be recorded, which
+ * records a signed consent on the server (consentService). "I'm Ready"
+ * stays disabled until then — the server won't start a recording while
+ * anyone in the room hasn't consented. A consent already given for this
+ * room in this browser is not asked for again.
+ *
+ * Speaker profile: the microphone's label and a self-reported device type
+ * ("USB mic", "headset", ...) are added to the profile Home started
+ * (speakerProfileService), which Studio sends with join-room.
+ *
+ * Mic check for the host: the metrics of the last check that heard speech
+ * at a good level (or else the last one sent) are kept for the Studio
+ * (micCheckService), which sends them with join-room — a guest waiting to
+ * be admitted is listed to the host with the result.
+ *
  * Flow: Home → GreenRoom (this page) → Studio → Results
  *
  * Identity gate: If the user hasn't entered their name/email on the Home page
  * (e.g., they followed an invite link directly), they are redirected to Home
  * with `?room=roomId` so the Join Session tab is pre-filled.
+ *
+ * Backend endpoints used:
+ *   GET  /api/consent/documents/current?locale=  → Consent text to show
+ *   POST /api/consent/meetings/:meetingId        → Record the consent
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import {
   SOCKET_EVENTS, MIC_LEVEL, NOISE_FLOOR_LEVEL, SNR_LEVEL,
-  SIGNAL_STABILITY, SPECTRAL_WARNING,
+  SIGNAL_STABILITY, SPECTRAL_WARNING, LIMITS, DEVICE_TYPES,
 } from '../shared';
-import type { MicStatus } from '../shared';
+import type { ConsentDocument, DeviceType, MicCheckPayload, MicStatus } from '../shared';
 import { useAudioMetrics } from '@/hooks/useAudioMetrics';
 import VolumeIndicator from '@/components/VolumeIndicator';
 import DeviceSelector from '@/components/DeviceSelector';
 import { connectSocket, disconnectSocket } from '@/services/socketService';
+import { getConsentDocument, giveConsent, getConsentId } from '@/services/consentService';
+import { getSpeakerProfile, saveSpeakerProfile } from '@/services/speakerProfileService';
+import { rememberMicCheck } from '@/services/micCheckService';
 
 // ── Types ────────────────────────────────────────────────────
 
@@ -58,12 +81,19 @@ export default function GreenRoom() {
   const { roomId } = useParams<{ roomId: string }>();
   const navigate = useNavigate();
 
-  // ── Dev skip — bypass all green room checks ──────────────
+  // ── Consent state ──────────────────────────────────────────
+  const [consentGiven, setConsentGiven] = useState(() => !!roomId && !!getConsentId(roomId));
+  const [consentDoc, setConsentDoc] = useState<ConsentDocument | null>(null);
+  const [consentAgreed, setConsentAgreed] = useState(false);
+  const [consentBusy, setConsentBusy] = useState(false);
+  const [consentError, setConsentError] = useState<string | null>(null);
+
+  // ── Dev skip — bypass the sound checks (consent is still required) ──
   useEffect(() => {
-    if (DEV_SKIP && roomId) {
+    if (DEV_SKIP && roomId && consentGiven) {
       navigate(`/room/${roomId}`, { replace: true });
     }
-  }, [roomId, navigate]);
+  }, [roomId, navigate, consentGiven]);
 
   // ── Identity gate ─────────────────────────────────────────
   // Redirect to Home if user hasn't entered name/email yet.
@@ -79,21 +109,22 @@ export default function GreenRoom() {
   // ── Device state ───────────────────────────────────────────
   const [deviceId, setDeviceId] = useState<string>('');
   const [deviceLabel, setDeviceLabel] = useState<string>('');
+  const [deviceType, setDeviceType] = useState<DeviceType | ''>(() => getSpeakerProfile().deviceType ?? '');
   const [stream, setStream] = useState<MediaStream | null>(null);
 
   // ── Phase state machine ────────────────────────────────────
-  const [phase, setPhase] = useState<CheckPhase>('device');
-  const [checkState, setCheckState] = useState<CheckState>({
-    device: 'active',
-    level: 'pending',
-    environment: 'pending',
-  });
+  const [phase, setPhase] = useState<CheckPhase>(DEV_SKIP ? 'ready' : 'device');
+  const [checkState, setCheckState] = useState<CheckState>(
+    DEV_SKIP
+      ? { device: 'passed', level: 'passed', environment: 'passed' }
+      : { device: 'active', level: 'pending', environment: 'pending' },
+  );
 
   // ── Audio metrics ──────────────────────────────────────────
   const { metrics, startMetrics, stopMetrics } = useAudioMetrics();
 
   // ── Socket ─────────────────────────────────────────────────
-  const socketRef = useRef(connectSocket());
+  const socketRef = useRef(connectSocket(roomId));
 
   // ── Refs for interval access ───────────────────────────────
   const metricsRef = useRef(metrics);
@@ -115,6 +146,8 @@ export default function GreenRoom() {
 
   // ── Evidence accumulation ──────────────────────────────────
   const statusHistoryRef = useRef<MicStatus[]>([]);
+  const lastCheckRef = useRef<MicCheckPayload | null>(null);
+  const goodCheckRef = useRef<MicCheckPayload | null>(null);
   const [goodFrameCount, setGoodFrameCount] = useState(0);
   const [latestStatus, setLatestStatus] = useState<MicStatus | null>(null);
   const [noiseResult, setNoiseResult] = useState<MicStatus['noiseFloor'] | null>(null);
@@ -163,6 +196,9 @@ export default function GreenRoom() {
       // Capture device label for display
       const track = s.getAudioTracks()[0];
       setDeviceLabel(track?.label || 'Microphone');
+      if (track?.label) {
+        saveSpeakerProfile({ deviceLabel: track.label.slice(0, LIMITS.NAME_MAX_LENGTH) });
+      }
     }
 
     getMic();
@@ -181,7 +217,7 @@ export default function GreenRoom() {
       const m = metricsRef.current;
       if (!m) return;
 
-      socket.emit(SOCKET_EVENTS.MIC_CHECK, {
+      const check: MicCheckPayload = {
         rms: m.rms,
         peak: m.peak,
         noiseFloor: noiseFloorRef.current,
@@ -193,7 +229,9 @@ export default function GreenRoom() {
         humDetected: m.humDetected,
         rmsStability: m.rmsStability,
         speechLikely: m.speechLikely,
-      });
+      };
+      lastCheckRef.current = check;
+      socket.emit(SOCKET_EVENTS.MIC_CHECK, check);
     }, 1000);
 
     return () => clearInterval(interval);
@@ -204,6 +242,8 @@ export default function GreenRoom() {
     const socket = socketRef.current;
     const handler = (data: MicStatus) => {
       setLatestStatus(data);
+      // Answers arrive well within the 1s send interval — this is the last check sent
+      if (data.level === MIC_LEVEL.GOOD && data.speechVerified) goodCheckRef.current = lastCheckRef.current;
 
       // Only accumulate during level/environment phases
       if (phase !== 'level' && phase !== 'environment') return;
@@ -276,9 +316,42 @@ export default function GreenRoom() {
     }
   }, [phase, noiseResult, latestStatus]);
 
+  // ── Load the consent document ──────────────────────────────
+  useEffect(() => {
+    if (consentGiven) return;
+    getConsentDocument()
+      .then(setConsentDoc)
+      .catch((err) => setConsentError((err as Error).message));
+  }, [consentGiven]);
+
+  // ── Record consent ─────────────────────────────────────────
+  const handleGiveConsent = useCallback(async () => {
+    if (!roomId || !consentDoc) return;
+    setConsentBusy(true);
+    setConsentError(null);
+    try {
+      await giveConsent(roomId, {
+        locale: consentDoc.locale,
+        version: consentDoc.version,
+        name: localStorage.getItem('userName') || '',
+        email: localStorage.getItem('userEmail') || undefined,
+      });
+      setConsentGiven(true);
+    } catch (err) {
+      setConsentError((err as Error).message);
+      // The document may have been replaced — show the current one
+      getConsentDocument().then(setConsentDoc).catch(() => {});
+      setConsentAgreed(false);
+    } finally {
+      setConsentBusy(false);
+    }
+  }, [roomId, consentDoc]);
+
   // ── Navigate to Studio ─────────────────────────────────────
   const handleReady = useCallback(() => {
     navigatingToStudioRef.current = true;
+    const check = goodCheckRef.current ?? lastCheckRef.current;
+    if (roomId && check) rememberMicCheck(roomId, check);
     stopMetrics();
     stream?.getTracks().forEach((t) => t.stop());
     navigate(`/room/${roomId}`);
@@ -450,19 +523,77 @@ export default function GreenRoom() {
             )}
           </StepItem>
 
-          {/* Ready button */}
+          {/* Microphone type (speaker profile) */}
           <div className="pt-4 mt-2 border-t border-surface-700">
+            <label htmlFor="deviceType" className="block mb-1.5 text-sm font-medium text-surface-300">
+              What kind of microphone is this? <span className="text-surface-500">(optional)</span>
+            </label>
+            <select
+              id="deviceType"
+              value={deviceType}
+              onChange={(e) => {
+                const value = e.target.value as DeviceType | '';
+                setDeviceType(value);
+                saveSpeakerProfile({ deviceType: value || null });
+              }}
+              className="w-full bg-surface-800 border border-surface-600 rounded-lg px-4 py-2.5 text-surface-50 focus:outline-none focus:border-accent-400"
+            >
+              <option value="">Not sure</option>
+              {DEVICE_TYPES.map((type) => (
+                <option key={type} value={type}>{DEVICE_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Recording consent */}
+          <div className="pt-4 mt-2 space-y-3 border-t border-surface-700">
+            <h2 className="text-sm font-semibold text-surface-50">Recording Consent</h2>
+            {consentGiven ? (
+              <p className="text-sm text-success">You have agreed to be recorded in this session.</p>
+            ) : (
+              <>
+                {consentDoc && (
+                  <>
+                    <div className="p-3 overflow-y-auto text-sm border rounded-lg max-h-48 bg-surface-800 border-surface-600">
+                      <p className="mb-2 font-medium text-surface-50">{consentDoc.title}</p>
+                      <p className="whitespace-pre-wrap text-surface-300">{consentDoc.body}</p>
+                    </div>
+                    <label className="flex items-start gap-2 text-sm text-surface-200">
+                      <input
+                        type="checkbox"
+                        checked={consentAgreed}
+                        onChange={(e) => setConsentAgreed(e.target.checked)}
+                        className="mt-0.5"
+                      />
+                      I have read the above and agree to this session being recorded.
+                    </label>
+                    <button
+                      onClick={handleGiveConsent}
+                      disabled={!consentAgreed || consentBusy}
+                      className="px-3 py-1.5 text-sm text-surface-50 rounded-md bg-surface-700 hover:bg-surface-600 disabled:opacity-50"
+                    >
+                      {consentBusy ? 'Saving...' : 'Give consent'}
+                    </button>
+                  </>
+                )}
+                {consentError && <p className="text-sm text-danger-light">{consentError}</p>}
+              </>
+            )}
+          </div>
+
+          {/* Ready button */}
+          <div className="pt-4 mt-4 border-t border-surface-700">
             <button
               onClick={handleReady}
-              disabled={phase !== 'ready'}
+              disabled={phase !== 'ready' || !consentGiven}
               className={`w-full py-3 font-semibold rounded-lg transition-all ${
-                phase === 'ready'
+                phase === 'ready' && consentGiven
                   ? 'bg-accent-400 hover:bg-accent-500 text-surface-950 shadow-lg shadow-accent-400/20'
                   : 'bg-surface-700 text-surface-50 opacity-60 cursor-not-allowed'
               }`}
             >
               {phase === 'ready'
-                ? "I'm Ready"
+                ? consentGiven ? "I'm Ready" : 'Give your consent above to continue'
                 : phase === 'device'
                   ? 'Select a microphone'
                   : checkState.environment === 'failed'
@@ -476,6 +607,18 @@ export default function GreenRoom() {
   );
 }
 
+// ── Device Types ─────────────────────────────────────────────
+
+const DEVICE_TYPE_LABELS: Record<DeviceType, string> = {
+  'built-in': 'Built-in (laptop or webcam)',
+  usb: 'USB microphone',
+  interface: 'XLR mic via audio interface',
+  headset: 'Wired headset',
+  bluetooth: 'Bluetooth headset or earbuds',
+  phone: 'Phone',
+  other: 'Other',
+};
+
 // ── StepItem Component ───────────────────────────────────────
 
 function StepItem({
@@ -3,13 +3,30 @@
  *
  * Provides a tabbed interface with two modes:
  *
- * 1. **Create Session** — Collects host name, email, and optional title.
- *    Calls POST /api/meetings with host identity. On success, stores user
+ * 1. **Create Session** — Requires signing in (Login page, email magic
+ *    link) as an operator or admin — other roles are told to ask an admin
+ *    for access. Collects host name and optional title; the email is the
+ *    signed-in user's. Calls POST /api/meetings with the user's JWT, so the
+ *    server records them as the meeting's hostEmail. On success, stores user
  *    info in localStorage and navigates to the GreenRoom for mic testing.
  *
- * 2. **Join Session** — Collects guest name, email, and meeting ID.
+ * 2. **Join Session** — Collects guest name, email, and meeting ID (the
+ *    email is fixed to the account's when signed in, since the server
+ *    refuses a join whose email differs from the socket's JWT).
  *    Calls POST /api/meetings/:id/assign-guest to claim the guest slot,
- *    then navigates to the GreenRoom.
+ *    then navigates to the GreenRoom. Meetings with a signed-in host are
+ *    invite-only: the host's invite link (`/?room=<id>&invite=<token>`)
+ *    opens this mode, and its token is sent with assign-guest and kept
+ *    (inviteService) until Studio redeems it at join-room.
+ *
+ * Signed-in operators and admins can also observe a session from Join mode:
+ * "Observe silently" goes straight to the Studio (`/room/:id?observe`),
+ * skipping assign-guest and the GreenRoom — observers take no seat, have no
+ * mic and are never recorded.
+ *
+ * Both modes also collect the speaker profile for dataset provenance —
+ * language (defaults to the browser's), and optionally accent, age band and
+ * gender. It is saved by speakerProfileService and sent with join-room.
  *
  * User identity (name, email) is persisted in localStorage so it survives
  * navigation to GreenRoom → Studio and can be passed to the socket join-room.
@@ -23,10 +40,20 @@
  */
 
 import { useState } from 'react';
-import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { useMeeting } from '@/hooks/useMeeting';
+import { getCurrentUser, signOut } from '@/services/authService';
+import { rememberInviteToken } from '@/services/inviteService';
+import { getSpeakerProfile, saveSpeakerProfile } from '@/services/speakerProfileService';
+import { AGE_BANDS } from '../shared';
+import type { AgeBand, UserRole } from '../shared';
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+/** BCP 47 language tag, e.g. "en", "en-GB", "pt-BR" (same check as the server) */
+const LANGUAGE_REGEX = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+/** Roles allowed to create meetings (POST /api/meetings) */
+const CREATOR_ROLES: UserRole[] = ['operator', 'admin'];
 
 type Mode = 'create' | 'join';
 
@@ -37,12 +64,17 @@ export default function Home() {
 
   // If ?room=<id> is present (from invite link redirect), start in Join mode
   const roomFromUrl = searchParams.get('room') || '';
+  // Signed invite link — only valid for the room it was issued for
+  const inviteFromUrl = searchParams.get('invite') || undefined;
 
   const [mode, setMode] = useState<Mode>(roomFromUrl ? 'join' : 'create');
 
-  // Shared fields — always start empty, user must enter each time
-  const [name, setName] = useState('');
-  const [email, setEmail] = useState('');
+  // Signed-in user — required to create a session, and their email is the host's
+  const [user, setUser] = useState(getCurrentUser);
+
+  // Shared fields — start empty unless signed in
+  const [name, setName] = useState(user?.name ?? '');
+  const [email, setEmail] = useState(user?.email ?? '');
 
   // Create-specific
   const [title, setTitle] = useState('');
@@ -50,6 +82,13 @@ export default function Home() {
   // Join-specific — pre-filled from ?room= query param if present
   const [joinId, setJoinId] = useState(roomFromUrl);
 
+  // Speaker profile — pre-filled from the last session in this browser
+  const [savedProfile] = useState(getSpeakerProfile);
+  const [language, setLanguage] = useState(savedProfile.language);
+  const [accent, setAccent] = useState(savedProfile.accent ?? '');
+  const [ageBand, setAgeBand] = useState<AgeBand | ''>(savedProfile.ageBand ?? '');
+  const [gender, setGender] = useState(savedProfile.gender ?? '');
+
   // Validation
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
@@ -68,6 +107,9 @@ export default function Home() {
     if (mode === 'join' && !joinId.trim()) {
       errors.joinId = 'Meeting ID is required';
     }
+    if (!LANGUAGE_REGEX.test(language.trim())) {
+      errors.language = 'Enter a language code such as en or en-GB';
+    }
 
     setFieldErrors(errors);
     return Object.keys(errors).length === 0;
@@ -77,6 +119,12 @@ export default function Home() {
   const persistIdentity = () => {
     localStorage.setItem('userName', name.trim());
     localStorage.setItem('userEmail', email.trim());
+    saveSpeakerProfile({
+      language: language.trim(),
+      accent: accent.trim() || null,
+      ageBand: ageBand || null,
+      gender: gender.trim() || null,
+    });
   };
 
   /**
@@ -103,17 +151,46 @@ export default function Home() {
     if (!validate()) return;
 
     const meetingId = joinId.trim();
-    await assignGuest(meetingId, name.trim(), email.trim());
+    const inviteToken = meetingId === roomFromUrl ? inviteFromUrl : undefined;
+    await assignGuest(meetingId, name.trim(), email.trim(), inviteToken);
+    if (inviteToken) rememberInviteToken(meetingId, inviteToken);
     persistIdentity();
     navigate(`/room/${meetingId}/green-room`);
   };
 
+  /**
+   * Observe an existing meeting (operators and admins) — only the meeting ID
+   * is needed. The account's email goes to join-room, which must match the JWT.
+   */
+  const handleObserve = () => {
+    const meetingId = joinId.trim();
+    if (!user || !meetingId) {
+      setFieldErrors({ joinId: 'Meeting ID is required' });
+      return;
+    }
+    localStorage.setItem('userEmail', user.email);
+    navigate(`/room/${meetingId}?observe`);
+  };
+
   /** Switch between Create and Join modes */
   const switchMode = (newMode: Mode) => {
     setMode(newMode);
     setFieldErrors({});
+    if (user) setEmail(user.email);
   };
 
+  const handleSignOut = () => {
+    signOut();
+    setUser(null);
+    setEmail('');
+  };
+
+  /** Creating a session needs a signed-in host with a role that may run sessions */
+  const needsSignIn = mode === 'create' && !user;
+  const needsRole = mode === 'create' && !!user && !CREATOR_ROLES.includes(user.role);
+  /** The roles that may create sessions may also observe them */
+  const canObserve = mode === 'join' && !!user && CREATOR_ROLES.includes(user.role);
+
   return (
     <div className="flex items-center justify-center min-h-screen p-4">
       <div className="w-full max-w-md space-y-6">
@@ -121,6 +198,20 @@ export default function Home() {
         <div className="text-center">
           <h1 className="mb-2 text-4xl font-bold text-surface-50">Audio Studio</h1>
           <p className="text-surface-400">High-quality audio recording for dataset collection</p>
+          <p className="mt-2 text-sm text-surface-500">
+            {user ? (
+              <>
+                Signed in as {user.email} ·{' '}
+                <button type="button" onClick={handleSignOut} className="text-accent-400 hover:text-accent-500">
+                  Sign out
+                </button>
+              </>
+            ) : (
+              <Link to="/login" className="text-accent-400 hover:text-accent-500">
+                Sign in
+              </Link>
+            )}
+          </p>
         </div>
 
         {/* Main card */}
@@ -151,115 +242,223 @@ export default function Home() {
             </button>
           </div>
 
-          {/* Form */}
-          <form onSubmit={mode === 'create' ? handleCreate : handleJoin} className="p-6 space-y-4">
-            {/* Global error banner */}
-            {error && (
-              <div className="px-4 py-3 text-sm text-danger-light border border-danger rounded-lg bg-danger-dark/50">
-                {error}
-              </div>
-            )}
+          {/* Hosts sign in before creating a session */}
+          {needsSignIn && (
+            <div className="p-6 space-y-4 text-center">
+              <p className="text-sm text-surface-400">Sign in to create a session as its host.</p>
+              <Link
+                to="/login?next=/"
+                className="block w-full font-semibold py-2.5 rounded-lg bg-accent-400 hover:bg-accent-500 text-surface-950"
+              >
+                Sign in
+              </Link>
+            </div>
+          )}
 
-            {/* Name */}
-            <div>
-              <label htmlFor="name" className="block mb-1.5 text-sm font-medium text-surface-300">
-                Your Name
-              </label>
-              <input
-                id="name"
-                type="text"
-                placeholder="Enter your name"
-                value={name}
-                onChange={(e) => {
-                  setName(e.target.value);
-                  setFieldErrors((prev) => ({ ...prev, name: '' }));
-                }}
-                className={`w-full bg-surface-800 border rounded-lg px-4 py-2.5 text-surface-50 placeholder-surface-500 focus:outline-none focus:border-accent-400 ${
-                  fieldErrors.name ? 'border-danger' : 'border-surface-600'
-                }`}
-              />
-              {fieldErrors.name && (
-                <p className="mt-1 text-xs text-danger-light">{fieldErrors.name}</p>
-              )}
+          {/* Signed in, but without a role that can create sessions */}
+          {needsRole && (
+            <div className="p-6 text-center">
+              <p className="text-sm text-surface-400">
+                Your account can't create sessions. Ask an admin for the operator role, then sign in again.
+              </p>
             </div>
+          )}
 
-            {/* Email */}
-            <div>
-              <label htmlFor="email" className="block mb-1.5 text-sm font-medium text-surface-300">
-                Your Email
-              </label>
-              <input
-                id="email"
-                type="email"
-                placeholder="you@example.com"
-                value={email}
-                onChange={(e) => {
-                  setEmail(e.target.value);
-                  setFieldErrors((prev) => ({ ...prev, email: '' }));
-                }}
-                className={`w-full bg-surface-800 border rounded-lg px-4 py-2.5 text-surface-50 placeholder-surface-500 focus:outline-none focus:border-accent-400 ${
-                  fieldErrors.email ? 'border-danger' : 'border-surface-600'
-                }`}
-              />
-              {fieldErrors.email && (
-                <p className="mt-1 text-xs text-danger-light">{fieldErrors.email}</p>
+          {/* Form */}
+          {!needsSignIn && !needsRole && (
+            <form onSubmit={mode === 'create' ? handleCreate : handleJoin} className="p-6 space-y-4">
+              {/* Global error banner */}
+              {error && (
+                <div className="px-4 py-3 text-sm text-danger-light border border-danger rounded-lg bg-danger-dark/50">
+                  {error}
+                </div>
               )}
-            </div>
 
-            {/* Mode-specific field */}
-            {mode === 'create' ? (
+              {/* Name */}
               <div>
-                <label htmlFor="title" className="block mb-1.5 text-sm font-medium text-surface-300">
-                  Session Title <span className="text-surface-500">(optional)</span>
+                <label htmlFor="name" className="block mb-1.5 text-sm font-medium text-surface-300">
+                  Your Name
                 </label>
                 <input
-                  id="title"
+                  id="name"
                   type="text"
-                  placeholder="e.g. Interview with Alex"
-                  value={title}
-                  onChange={(e) => setTitle(e.target.value)}
-                  className="w-full bg-surface-800 border border-surface-600 rounded-lg px-4 py-2.5 text-surface-50 placeholder-surface-500 focus:outline-none focus:border-accent-400"
+                  placeholder="Enter your name"
+                  value={name}
+                  onChange={(e) => {
+                    setName(e.target.value);
+                    setFieldErrors((prev) => ({ ...prev, name: '' }));
+                  }}
+                  className={`w-full bg-surface-800 border rounded-lg px-4 py-2.5 text-surface-50 placeholder-surface-500 focus:outline-none focus:border-accent-400 ${
+                    fieldErrors.name ? 'border-danger' : 'border-surface-600'
+                  }`}
                 />
+                {fieldErrors.name && (
+                  <p className="mt-1 text-xs text-danger-light">{fieldErrors.name}</p>
+                )}
               </div>
-            ) : (
+
+              {/* Email */}
               <div>
-                <label htmlFor="joinId" className="block mb-1.5 text-sm font-medium text-surface-300">
-                  Meeting ID
+                <label htmlFor="email" className="block mb-1.5 text-sm font-medium text-surface-300">
+                  Your Email
                 </label>
                 <input
-                  id="joinId"
-                  type="text"
-                  placeholder="Enter meeting ID or paste link"
-                  value={joinId}
+                  id="email"
+                  type="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  readOnly={!!user}
                   onChange={(e) => {
-                    setJoinId(e.target.value);
-                    setFieldErrors((prev) => ({ ...prev, joinId: '' }));
+                    setEmail(e.target.value);
+                    setFieldErrors((prev) => ({ ...prev, email: '' }));
                   }}
                   className={`w-full bg-surface-800 border rounded-lg px-4 py-2.5 text-surface-50 placeholder-surface-500 focus:outline-none focus:border-accent-400 ${
-                    fieldErrors.joinId ? 'border-danger' : 'border-surface-600'
+                    fieldErrors.email ? 'border-danger' : 'border-surface-600'
                   }`}
                 />
-                {fieldErrors.joinId && (
-                  <p className="mt-1 text-xs text-danger-light">{fieldErrors.joinId}</p>
+                {fieldErrors.email && (
+                  <p className="mt-1 text-xs text-danger-light">{fieldErrors.email}</p>
                 )}
               </div>
-            )}
 
-            {/* Submit */}
-            <button
-              type="submit"
-              disabled={isLoading}
-              className={`w-full font-semibold py-2.5 rounded-lg transition-colors disabled:opacity-50 ${
-                mode === 'create'
-                  ? 'bg-accent-400 hover:bg-accent-500 text-surface-950'
-                  : 'bg-surface-700 hover:bg-surface-600 text-surface-50'
-              }`}
-            >
-              {isLoading
-                ? mode === 'create' ? 'Creating...' : 'Joining...'
-                : mode === 'create' ? 'Create Session' : 'Join Session'}
-            </button>
-          </form>
+              {/* Mode-specific field */}
+              {mode === 'create' ? (
+                <div>
+                  <label htmlFor="title" className="block mb-1.5 text-sm font-medium text-surface-300">
+                    Session Title <span className="text-surface-500">(optional)</span>
+                  </label>
+                  <input
+                    id="title"
+                    type="text"
+                    placeholder="e.g. Interview with Alex"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    className="w-full bg-surface-800 border border-surface-600 rounded-lg px-4 py-2.5 text-surface-50 placeholder-surface-500 focus:outline-none focus:border-accent-400"
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label htmlFor="joinId" className="block mb-1.5 text-sm font-medium text-surface-300">
+                    Meeting ID
+                  </label>
+                  <input
+                    id="joinId"
+                    type="text"
+                    placeholder="Enter meeting ID or paste link"
+                    value={joinId}
+                    onChange={(e) => {
+                      setJoinId(e.target.value);
+                      setFieldErrors((prev) => ({ ...prev, joinId: '' }));
+                    }}
+                    className={`w-full bg-surface-800 border rounded-lg px-4 py-2.5 text-surface-50 placeholder-surface-500 focus:outline-none focus:border-accent-400 ${
+                      fieldErrors.joinId ? 'border-danger' : 'border-surface-600'
+                    }`}
+                  />
+                  {fieldErrors.joinId && (
+                    <p className="mt-1 text-xs text-danger-light">{fieldErrors.joinId}</p>
+                  )}
+                </div>
+              )}
+
+              {/* Speaker profile (dataset provenance) */}
+              <fieldset className="pt-4 space-y-4 border-t border-surface-700">
+                <legend className="text-sm font-medium text-surface-300">
+                  About your voice <span className="text-surface-500">(stored with your recordings)</span>
+                </legend>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label htmlFor="language" className="block mb-1.5 text-sm font-medium text-surface-300">
+                      Language
+                    </label>
+                    <input
+                      id="language"
+                      type="text"
+                      placeholder="en-GB"
+                      value={language}
+                      onChange={(e) => {
+                        setLanguage(e.target.value);
+                        setFieldErrors((prev) => ({ ...prev, language: '' }));
+                      }}
+                      className={`w-full bg-surface-800 border rounded-lg px-4 py-2.5 text-surface-50 placeholder-surface-500 focus:outline-none focus:border-accent-400 ${
+                        fieldErrors.language ? 'border-danger' : 'border-surface-600'
+                      }`}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="accent" className="block mb-1.5 text-sm font-medium text-surface-300">
+                      Accent <span className="text-surface-500">(optional)</span>
+                    </label>
+                    <input
+                      id="accent"
+                      type="text"
+                      placeholder="e.g. Scottish"
+                      value={accent}
+                      onChange={(e) => setAccent(e.target.value)}
+                      className="w-full bg-surface-800 border border-surface-600 rounded-lg px-4 py-2.5 text-surface-50 placeholder-surface-500 focus:outline-none focus:border-accent-400"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="ageBand" className="block mb-1.5 text-sm font-medium text-surface-300">
+                      Age <span className="text-surface-500">(optional)</span>
+                    </label>
+                    <select
+                      id="ageBand"
+                      value={ageBand}
+                      onChange={(e) => setAgeBand(e.target.value as AgeBand | '')}
+                      className="w-full bg-surface-800 border border-surface-600 rounded-lg px-4 py-2.5 text-surface-50 placeholder-surface-500 focus:outline-none focus:border-accent-400"
+                    >
+                      <option value="">Prefer not to say</option>
+                      {AGE_BANDS.map((band) => (
+                        <option key={band} value={band}>{band}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="gender" className="block mb-1.5 text-sm font-medium text-surface-300">
+                      Gender <span className="text-surface-500">(optional)</span>
+                    </label>
+                    <input
+                      id="gender"
+                      type="text"
+                      placeholder="Self-described"
+                      value={gender}
+                      onChange={(e) => setGender(e.target.value)}
+                      className="w-full bg-surface-800 border border-surface-600 rounded-lg px-4 py-2.5 text-surface-50 placeholder-surface-500 focus:outline-none focus:border-accent-400"
+                    />
+                  </div>
+                </div>
+                {fieldErrors.language && (
+                  <p className="text-xs text-danger-light">{fieldErrors.language}</p>
+                )}
+              </fieldset>
+
+              {/* Submit */}
+              <button
+                type="submit"
+                disabled={isLoading}
+                className={`w-full font-semibold py-2.5 rounded-lg transition-colors disabled:opacity-50 ${
+                  mode === 'create'
+                    ? 'bg-accent-400 hover:bg-accent-500 text-surface-950'
+                    : 'bg-surface-700 hover:bg-surface-600 text-surface-50'
+                }`}
+              >
+                {isLoading
+                  ? mode === 'create' ? 'Creating...' : 'Joining...'
+                  : mode === 'create' ? 'Create Session' : 'Join Session'}
+              </button>
+
+              {/* Operators and admins: watch without taking a seat or being recorded */}
+              {canObserve && (
+                <button
+                  type="button"
+                  onClick={handleObserve}
+                  className="w-full text-sm font-medium text-accent-400 hover:text-accent-500"
+                >
+                  Observe silently
+                </button>
+              )}
+            </form>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,177 @@
+/**
+ * Login.tsx — Passwordless sign-in with an email magic link.
+ *
+ * Two states, picked by the URL:
+ *
+ * 1. **Sign-in form** — /login, optionally with `?next=/path`. Collects
+ *    email and an optional display name and calls POST
+ *    /api/auth/request-link. The server emails a one-time link back to
+ *    /login; the page then asks the user to check their inbox. `next` is
+ *    sent as redirectTo so the link returns the user to where they started.
+ *
+ * 2. **Link opened** — /login?token=... from the email. Exchanges the
+ *    token via POST /api/auth/verify, which stores the JWT and user (authService),
+ *    then navigates to redirectTo (or Home). Links are single-use and
+ *    expire after LOGIN_LINK_EXPIRY, so a failure offers to send a new one.
+ *
+ * Signing in gives hosts and admins a real identity: meetings created
+ * while signed in get the user's email as their hostEmail.
+ *
+ * Backend endpoints used:
+ *   POST /api/auth/request-link  → Email the login link
+ *   POST /api/auth/verify        → Exchange the link's token for a JWT
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { LIMITS } from '../shared';
+import { requestLoginLink, verifyLoginLink } from '@/services/authService';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type Status = 'idle' | 'sending' | 'sent' | 'verifying' | 'failed';
+
+export default function Login() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const next = searchParams.get('next') || undefined;
+
+  const [status, setStatus] = useState<Status>(token ? 'verifying' : 'idle');
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+
+  /** Guards against verifying twice (React strict mode double-mounts) — links are single-use */
+  const verifyStarted = useRef(false);
+
+  /** Opened from the email: exchange the token, then continue where the user started */
+  useEffect(() => {
+    if (!token || verifyStarted.current) return;
+    verifyStarted.current = true;
+
+    verifyLoginLink(token)
+      .then((result) => navigate(result.redirectTo || '/', { replace: true }))
+      .catch((err) => {
+        setError((err as Error).message);
+        setStatus('failed');
+      });
+  }, [token, navigate]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!EMAIL_REGEX.test(email.trim())) {
+      setError('Please enter a valid email');
+      return;
+    }
+
+    setError(null);
+    setStatus('sending');
+    try {
+      await requestLoginLink({
+        email: email.trim(),
+        ...(name.trim() && { name: name.trim() }),
+        ...(next && { redirectTo: next }),
+      });
+      setStatus('sent');
+    } catch (err) {
+      setError((err as Error).message);
+      setStatus('idle');
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen p-4">
+      <div className="w-full max-w-md space-y-6">
+        {/* Header */}
+        <div className="text-center">
+          <h1 className="mb-2 text-4xl font-bold text-surface-50">Sign in</h1>
+          <p className="text-surface-400">We'll email you a one-time sign-in link</p>
+        </div>
+
+        <div className="p-6 space-y-4 bg-surface-900 border border-surface-700 rounded-xl">
+          {error && (
+            <div className="px-4 py-3 text-sm text-danger-light border border-danger rounded-lg bg-danger-dark/50">
+              {error}
+            </div>
+          )}
+
+          {status === 'verifying' && (
+            <p className="text-center text-surface-300">Signing you in...</p>
+          )}
+
+          {status === 'sent' && (
+            <div className="space-y-2 text-center">
+              <p className="font-semibold text-surface-50">Check your inbox</p>
+              <p className="text-sm text-surface-400">
+                We sent a sign-in link to {email.trim()}. It works once and expires in{' '}
+                {Math.round(LIMITS.LOGIN_LINK_EXPIRY / 60)} minutes.
+              </p>
+              <button
+                type="button"
+                onClick={() => setStatus('idle')}
+                className="text-sm text-accent-400 hover:text-accent-500"
+              >
+                Use a different email
+              </button>
+            </div>
+          )}
+
+          {status === 'failed' && (
+            <button
+              type="button"
+              onClick={() => {
+                setError(null);
+                setStatus('idle');
+                navigate('/login', { replace: true });
+              }}
+              className="w-full font-semibold py-2.5 rounded-lg bg-surface-700 hover:bg-surface-600 text-surface-50"
+            >
+              Send a new link
+            </button>
+          )}
+
+          {(status === 'idle' || status === 'sending') && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="email" className="block mb-1.5 text-sm font-medium text-surface-300">
+                  Email
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="w-full bg-surface-800 border border-surface-600 rounded-lg px-4 py-2.5 text-surface-50 placeholder-surface-500 focus:outline-none focus:border-accent-400"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="name" className="block mb-1.5 text-sm font-medium text-surface-300">
+                  Your Name <span className="text-surface-500">(optional, first sign-in only)</span>
+                </label>
+                <input
+                  id="name"
+                  type="text"
+                  placeholder="Enter your name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-full bg-surface-800 border border-surface-600 rounded-lg px-4 py-2.5 text-surface-50 placeholder-surface-500 focus:outline-none focus:border-accent-400"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={status === 'sending'}
+                className="w-full font-semibold py-2.5 rounded-lg transition-colors disabled:opacity-50 bg-accent-400 hover:bg-accent-500 text-surface-950"
+              >
+                {status === 'sending' ? 'Sending...' : 'Email me a sign-in link'}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
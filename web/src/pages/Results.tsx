@@ -6,48 +6,65 @@
  *
  * ## What it does
  *
- * 1. **Fetches recordings** — On mount, calls GET /api/recordings/:meetingId
- *    to retrieve all Recording entries for this room from DynamoDB.
- *    Each recording has: participantName, sessionId, status, uploadedAt.
+ * 1. **Fetches recordings** — Once there is a meeting token (stored from an
+ *    earlier visit, or from this visit's `room-state`), calls
+ *    GET /api/recordings/:meetingId to retrieve all Recording entries for
+ *    this room from DynamoDB.
+ *    Each recording has: participantName, sessionId, status, uploadedAt —
+ *    plus invalidReason when server-side audio validation rejected the file.
  *
- * 2. **Listens for processing results** — Connects to Socket.IO and joins
+ * 2. **Loads the stored processing result** — Once recordings are known, calls
+ *    GET /api/recordings/:meetingId/session/:sessionId/result for the most
+ *    recent session. Results are persisted server-side, so the quality report
+ *    shows up even if this page wasn't open when processing finished.
+ *
+ * 3. **Listens for processing results** — Connects to Socket.IO and joins
  *    the room to receive real-time `processing-complete` and `recording-rejected`
  *    events from the server's SQS result consumer. These events arrive after
- *    the external processing pipeline finishes analyzing both audio files.
+ *    the processing worker finishes analyzing every participant's track.
  *
- * 3. **Displays quality profile** — When processing results arrive, shows
+ * 4. **Displays quality profile** — When processing results arrive, shows
  *    the quality classification (P0-P4) via QualityBadge, detailed metrics
  *    (SNR, RMS, SRMR, overlap, speaker balance, echo), and any warnings.
  *
- * 4. **Download recordings** — Each completed recording has a download button
+ * 5. **Download recordings** — Each completed recording has a download button
  *    that calls GET /api/recordings/:meetingId/download/:recordingId to get
  *    a presigned S3 download URL (valid for 1 hour), then opens it.
  *
+ * Every recordings request carries the meeting token (X-Meeting-Token) the
+ * server sent in `room-state` — see meetingAccessService. Recordings are
+ * refetched when a fresh token arrives, in case the stored one had expired.
+ *
  * ## Backend Endpoints Used
  *
  *   GET /api/recordings/:meetingId
  *     → Returns Recording[] for this room
  *
+ *   GET /api/recordings/:meetingId/session/:sessionId/result
+ *     → Returns StoredProcessingResult, or 404 if not processed yet
+ *
  *   GET /api/recordings/:meetingId/download/:recordingId
  *     → Returns { downloadUrl } (presigned S3 URL, 1-hour expiry)
  *
  * ## Socket.IO Events
  *
  *   Client → Server:
- *     `join-room` — { roomId, role, userId } (to receive processing updates)
+ *     `join-room` — { roomId, role } (to receive processing updates)
  *
  *   Server → Client:
+ *     `room-state`          — { ..., accessToken } (meeting token for the API)
  *     `processing-status`   — { step, progress, estimatedTimeLeft }
  *     `processing-complete`  — { profile, metrics, variants, warnings }
  *     `recording-rejected`   — { reason, suggestions }
  */
 
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import type { ProcessingCompletePayload, Recording } from '../shared';
+import type { ProcessingCompletePayload, Recording, RoomStatePayload, StoredProcessingResult } from '../shared';
 import { SOCKET_EVENTS, ROLES, RECORDING_STATUS } from '../shared';
 import QualityBadge from '@/components/QualityBadge';
 import { connectSocket, disconnectSocket } from '@/services/socketService';
+import { rememberMeetingToken, getMeetingToken, meetingAccessHeaders } from '@/services/meetingAccessService';
 
 const API_BASE = import.meta.env.VITE_API_URL || '/api';
 
@@ -72,17 +89,23 @@ export default function Results() {
 
   const [isLoading, setIsLoading] = useState(true);
 
-  /** Persistent userId for socket join */
-  const userId = useRef(localStorage.getItem('userId') || `user_${crypto.randomUUID()}`);
+  /** Meeting token from this visit's room-state — null until it arrives */
+  const [accessToken, setAccessToken] = useState<string | null>(null);
 
   /**
-   * Fetch recordings from the REST API on mount.
+   * Fetch recordings from the REST API once we have a meeting token — a
+   * stored one right away, otherwise when room-state brings one (without
+   * it the request would only be refused).
    * This returns all Recording entries for the meetingId regardless of session.
    */
   useEffect(() => {
+    if (!accessToken && !getMeetingToken(roomId!)) return;
+
     async function fetchRecordings() {
       try {
-        const res = await fetch(`${API_BASE}/recordings/${roomId}`);
+        const res = await fetch(`${API_BASE}/recordings/${roomId}`, {
+          headers: meetingAccessHeaders(roomId!),
+        });
         if (res.ok) {
           setRecordings(await res.json());
         }
@@ -93,7 +116,48 @@ export default function Results() {
       }
     }
     fetchRecordings();
-  }, [roomId]);
+  }, [roomId, accessToken]);
+
+  /** Session of the most recently uploaded recording — the one the report is about */
+  const latestSessionId = recordings
+    .filter((r) => r.sessionId)
+    .sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt))[0]?.sessionId;
+
+  /**
+   * Load the persisted processing result for the latest session.
+   * A 404 just means the pipeline hasn't reported back yet — the live
+   * socket events below will fill in the result when it arrives.
+   */
+  useEffect(() => {
+    if (!latestSessionId) return;
+    let cancelled = false;
+
+    fetch(`${API_BASE}/recordings/${roomId}/session/${encodeURIComponent(latestSessionId)}/result`, {
+      headers: meetingAccessHeaders(roomId!),
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((stored: StoredProcessingResult | null) => {
+        if (cancelled || !stored) return;
+        if (stored.status === 'rejected') {
+          setRejection({
+            reason: stored.rejectionReason || 'Quality too low',
+            suggestions: stored.suggestions || [],
+          });
+        } else {
+          setProcessingResult({
+            profile: stored.profile,
+            metrics: stored.metrics,
+            variants: stored.variants || {},
+            warnings: stored.suggestions || [],
+          });
+        }
+      })
+      .catch(() => {});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, latestSessionId, accessToken]);
 
   /**
    * Connect to Socket.IO and join the room to receive processing results.
@@ -107,15 +171,24 @@ export default function Results() {
    * during the pipeline execution.
    */
   useEffect(() => {
-    const socket = connectSocket();
+    // Handshake with this room's meeting token — the server resumes our identity from it
+    const socket = connectSocket(roomId);
 
     // Join the room so we receive events targeted at this room
     socket.emit(SOCKET_EVENTS.JOIN_ROOM, {
       roomId,
       role: ROLES.HOST,
-      userId: userId.current,
     });
 
+    // Meeting token for the recordings API
+    socket.on(SOCKET_EVENTS.ROOM_STATE, (data: RoomStatePayload) => {
+      rememberMeetingToken(roomId!, data.accessToken);
+      setAccessToken(data.accessToken);
+    });
+
+    // Join refused — no room-state and no token coming, so nothing to load
+    socket.on(SOCKET_EVENTS.ERROR, () => setIsLoading(false));
+
     // Processing pipeline progress updates
     socket.on(SOCKET_EVENTS.PROCESSING_STATUS, (data: any) => {
       setProcessingStatus({ step: data.step, progress: data.progress });
@@ -135,7 +208,7 @@ export default function Results() {
 
     // Also refresh recordings list when processing triggers an update
     socket.on(SOCKET_EVENTS.RECORDINGS_UPDATED, () => {
-      fetch(`${API_BASE}/recordings/${roomId}`)
+      fetch(`${API_BASE}/recordings/${roomId}`, { headers: meetingAccessHeaders(roomId!) })
         .then((res) => (res.ok ? res.json() : []))
         .then(setRecordings)
         .catch(() => {});
@@ -155,6 +228,7 @@ export default function Results() {
   const handleDownload = async (recording: Recording) => {
     const res = await fetch(
       `${API_BASE}/recordings/${roomId}/download/${encodeURIComponent(recording.recordingId)}`,
+      { headers: meetingAccessHeaders(roomId!) },
     );
     if (res.ok) {
       const { downloadUrl } = await res.json();
@@ -256,6 +330,9 @@ export default function Results() {
                     <div className="text-sm text-surface-400">
                       {rec.status} &middot; {new Date(rec.uploadedAt).toLocaleString()}
                     </div>
+                    {rec.status === RECORDING_STATUS.INVALID && rec.invalidReason && (
+                      <div className="text-sm text-danger-light">{rec.invalidReason}</div>
+                    )}
                   </div>
                   {/* Download button — only shown for completed uploads */}
                   {rec.status === RECORDING_STATUS.COMPLETED && (
@@ -14,7 +14,8 @@
  *    WebRTC signaling, recording warnings, quality updates, and chat.
  *
  * 2. **WebRTC (useWebRTC)** — Establishes a peer-to-peer audio connection
- *    with the other participant so both can hear each other in real-time.
+ *    with every other participant (a mesh — rooms hold up to
+ *    LIMITS.MAX_PARTICIPANTS) so everyone hears each other in real-time.
  *    This is separate from the recording — WebRTC is for live monitoring,
  *    while the recorder captures lossless local audio.
  *
@@ -27,49 +28,101 @@
  *    analysis displayed in the VolumeIndicator, and sent to the server
  *    every 5 seconds during recording for live quality monitoring.
  *
- * 5. **Upload (useUpload)** — After recording stops, uploads the WAV blob
- *    to S3 via the server's presigned URL flow. Supports multipart upload
- *    for large files (>10MB) with resume capability.
+ * 5. **Upload (useUpload)** — The recording is streamed to S3 in 10MB
+ *    multipart parts while it's captured; after stop, useUpload tracks the
+ *    flush of the last part. If streaming fails, the full WAV blob is
+ *    uploaded via the server's presigned URL flow instead (multipart for
+ *    files >10MB, with resume capability).
  *
  * ## Recording Flow
  *
  * 1. Host clicks "Start Recording"
  * 2. Client emits `start-recording { roomId }` to server
- * 3. Server generates a sessionId UUID and broadcasts `start-recording { sessionId }`
- * 4. Both clients begin local recording via AudioWorklet
+ *    (refused with an `error` until every participant has consented in the GreenRoom)
+ * 3. Server generates a sessionId UUID and sends `start-recording { sessionId, uploadToken }`
+ *    to each participant — the token is required by every upload request
+ * 4. Every client begins local recording via AudioWorklet and opens a
+ *    multipart upload for it
  * 5. Every 5s, clients send `audio-metrics` with RMS/peak/clip/silence data
  * 6. Server analyzes metrics and may send `recording-warning` or `quality-update`
  * 7. Host clicks "Stop Recording"
  * 8. Client emits `stop-recording { roomId }` to server
- * 9. Server broadcasts `stop-recording` to all
- * 10. Both clients stop recording, encode WAV, and upload to S3
- * 11. After both uploads complete, server triggers processing pipeline via SQS
+ * 9. Server sends `stop-recording { uploadToken }` to all (a fresh token for the final upload)
+ * 10. Every client stops recording, uploads the last part, and completes the upload
+ * 11. After every participant's upload completes, server triggers processing pipeline via SQS
+ *
+ * ## Observers
+ *
+ * `/room/:roomId?observe` (linked from Home for operators and admins) joins
+ * with role `observer`: no mic, no recording, no seat. The page hears every
+ * speaker over receive-only WebRTC connections, shows recording status,
+ * warnings and the quality badge, and can chat. Speakers see who is
+ * observing under the speaker list.
+ *
+ * ## Waiting Room
+ *
+ * A first-time guest's join is held until the host lets them in: the page
+ * shows a waiting screen (`waiting-room`), rejoins by itself once admitted,
+ * and says so if the host denies them. The host sees who is waiting — name,
+ * email, last mic check — above the speaker list, with Admit / Deny.
+ *
+ * ## Host Handoff & Removal
+ *
+ * The host gets two more controls on each guest's card: "Make host" hands
+ * over the role (`transfer-host` — we become a guest, and the Start/Stop
+ * Recording controls move with it), and "Remove" (clicked twice) disconnects
+ * the guest and blocks them from the meeting. If the host stays disconnected,
+ * the server promotes the longest-seated guest; `host-changed` updates
+ * everyone's roles either way. A removed participant finishes uploading any
+ * take they were in and sees why they were sent away.
+ *
+ * ## Producer Nudges & Talkback
+ *
+ * The host and observers get controls on each other speaker's card: nudge
+ * buttons (`nudge` — the target sees a NudgeOverlay) and "Hold to talk".
+ * Push-to-talk sends our audio on that speaker's WebRTC connection only —
+ * an observer opens a mic for it on first use; a host goes silent to everyone
+ * else meanwhile — and `talkback` shows the target who is talking. It plays
+ * in the target's headphones and never reaches their WAV (the recorder only
+ * takes their own mic). A host talks through their recording mic, so they
+ * only get push-to-talk between takes: a take that starts ends their
+ * talkback, and the server refuses it until the take stops.
  *
  * ## Backend Events Used
  *
  * Client → Server:
- *   `join-room`        — { roomId, role, userId, userEmail? }
+ *   `join-room`        — { roomId, role, userEmail?, inviteToken?, consentId?, speakerProfile?, micCheck? } (userId comes from the socket handshake)
  *   `start-recording`  — { roomId }
  *   `stop-recording`   — { roomId }
  *   `audio-metrics`    — { sessionId, timestamp, rms, peak, clipCount, silenceDuration, speechDetected }
- *   `chat-message`     — { roomId, message, sender, role }
+ *   `chat-message`     — { roomId, message, role }
+ *   `nudge`            — { roomId, targetUserId, kind } (host/observer)
+ *   `talkback`         — { roomId, targetUserId, active } (host/observer)
+ *   `admit-participant` / `deny-participant` — { roomId, userId } (host)
+ *   `transfer-host` / `remove-participant` — { roomId, targetUserId } (host)
  *   `upload-progress`  — { percent, participantName }
  *   `offer/answer/ice-candidate` — WebRTC signaling (relayed by server)
  *
  * Server → Client:
- *   `room-state`         — Full room snapshot on join
+ *   `room-state`         — Full room snapshot on join (with an upload token for the latest session)
  *   `user-joined`        — When peer joins
  *   `user-left`          — When peer disconnects
  *   `peer-reconnected`   — When peer reconnects (new socket ID)
- *   `start-recording`    — Recording begun with { sessionId }
- *   `stop-recording`     — Recording ended
- *   `resume-recording`   — Sent to reconnecting client if recording is active
+ *   `start-recording`    — Recording begun with { sessionId, uploadToken }
+ *   `stop-recording`     — Recording ended, with { uploadToken }
+ *   `resume-recording`   — Sent to reconnecting client if recording is active (with uploadToken)
  *   `recording-warning`  — Real-time quality alerts (clipping, too loud, silence, etc.)
  *   `quality-update`     — Aggregated quality profile estimate (P0-P4)
- *   `room-full`          — Room at capacity (2), client should redirect
+ *   `room-full`          — Room at capacity (LIMITS.MAX_PARTICIPANTS), client should redirect
  *   `duplicate-session`  — Same user opened a second tab
+ *   `nudge` / `talkback` — A producer's cue / push-to-talk, to this participant only
+ *   `waiting-room`       — Our join is held until the host decides
+ *   `admitted` / `join-denied` — The host's decision (admitted → rejoin with its token)
+ *   `waiting-list`       — (host) Who is waiting to be admitted
+ *   `host-changed`       — The host role moved (handoff, or promotion after the host left)
+ *   `removed-from-room`  — The host removed us
  *
- * ## REST Endpoints Used (via upload)
+ * ## REST Endpoints Used (via upload, each with the X-Upload-Token header)
  *   POST /api/upload/url       — Get presigned S3 PUT URL (simple upload)
  *   POST /api/upload/complete  — Mark upload as complete in DynamoDB
  *   POST /api/multipart-upload/initiate  — Start multipart upload
@@ -79,9 +132,15 @@
  */
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import type { RecordingWarningPayload, QualityUpdatePayload } from '../shared';
-import { ROLES } from '../shared';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import type {
+  RecordingWarningPayload,
+  QualityUpdatePayload,
+  NudgeBroadcast,
+  NudgeKind,
+  TalkbackBroadcast,
+} from '../shared';
+import { ROLES, LIMITS, NUDGE_KIND } from '../shared';
 import { useSocket } from '@/hooks/useSocket';
 import { useWebRTC } from '@/hooks/useWebRTC';
 import { useRecorder } from '@/hooks/useRecorder';
@@ -91,18 +150,34 @@ import QualityBadge from '@/components/QualityBadge';
 import WarningBanner from '@/components/WarningBanner';
 import UploadProgress from '@/components/UploadProgress';
 import ChatPanel from '@/components/ChatPanel';
+import NudgeOverlay from '@/components/NudgeOverlay';
+import WaitingRoomPanel from '@/components/WaitingRoomPanel';
 import { useAudioMetrics } from '@/hooks/useAudioMetrics';
 import { SOCKET_EVENTS } from '../shared';
-import { getPendingRecordings, clearChunks } from '@/services/storageService';
+import { getPendingRecordings, getAllPendingUploads, clearChunks } from '@/services/storageService';
+import { setUploadToken, uploadStateKey } from '@/services/uploadService';
+import { rememberMeetingToken } from '@/services/meetingAccessService';
+import { getCurrentUser } from '@/services/authService';
+import { getConsentId } from '@/services/consentService';
+import { getSpeakerProfile } from '@/services/speakerProfileService';
+import { getMicCheck } from '@/services/micCheckService';
+import { getInviteToken, forgetInviteToken, issueInvite, revokeInvite } from '@/services/inviteService';
 import type { PendingRecording } from '@/services/storageService';
 
 export default function Studio() {
   const { roomId } = useParams<{ roomId: string }>();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+
+  /** Watching silently (operators/admins) — see Observers above */
+  const observing = searchParams.has('observe');
 
   /** Local mic MediaStream — acquired on mount, used for metrics + recording + WebRTC */
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
 
+  /** Ready for WebRTC — observers have no mic, so their connections only receive */
+  const canConnect = observing || !!localStream;
+
   /** Active recording warnings from server (kept to last 5) */
   const [warnings, setWarnings] = useState<RecordingWarningPayload[]>([]);
 
@@ -112,6 +187,24 @@ export default function Studio() {
   /** Chat message history for this session */
   const [chatMessages, setChatMessages] = useState<any[]>([]);
 
+  /** Set when the host turned us away from the waiting room, or removed us */
+  const [sentAway, setSentAway] = useState<{ heading: string; message: string } | null>(null);
+
+  /** The producer's latest nudge to us, until dismissed */
+  const [nudge, setNudge] = useState<NudgeBroadcast | null>(null);
+
+  /** Set while a producer's talkback to us is live */
+  const [talkback, setTalkback] = useState<TalkbackBroadcast | null>(null);
+
+  /**
+   * As producer: the speaker (userId) we're holding push-to-talk for. The
+   * ref lets a release that lands while the mic is still opening win.
+   */
+  const [talkingTo, setTalkingTo] = useState<string | null>(null);
+  const talkingToRef = useRef<string | null>(null);
+  /** An observer's talkback mic — opened on first use (they join without one) */
+  const talkbackStream = useRef<MediaStream | null>(null);
+
   /**
    * Current recording session ID — set when recording starts, cleared on stop.
    * Used as a ref too so async callbacks always see the latest value.
@@ -122,28 +215,37 @@ export default function Studio() {
   /** Recoverable recordings from IndexedDB (from a previous crashed session) */
   const [pendingRecovery, setPendingRecovery] = useState<PendingRecording[]>([]);
 
-  /** Audio elements for remote peer playback */
-  const remoteAudioRef = useRef<HTMLAudioElement>(null);
-
   /**
-   * Persistent user identity — stored in localStorage so the server can detect
-   * reconnections (same userId, new socketId) vs. new users. Name and email
-   * are set by the Home page when creating/joining a session.
+   * This participant's identity, assigned by the server from the socket
+   * handshake (JWT or this room's meeting token) and received in room-state.
+   * Reconnects resume the same session because the handshake resends the
+   * meeting token. Email is set by the Home page when creating/joining a session.
    */
-  const userId = useRef(localStorage.getItem('userId') || `user_${crypto.randomUUID()}`);
+  const userId = useRef('');
   const userEmail = useRef(localStorage.getItem('userEmail') || undefined);
-  useEffect(() => {
-    localStorage.setItem('userId', userId.current);
-  }, []);
+  /** Display name from Home — the host sees it while we wait to be admitted */
+  const userName = useRef(localStorage.getItem('userName') || undefined);
+  /** Guest invite from Home — invite-only meetings need it for the first join */
+  const inviteToken = useRef(getInviteToken(roomId || '') || undefined);
+  /** Recording consent given in the GreenRoom — the server won't record anyone without one */
+  const consentId = useRef(getConsentId(roomId || '') || undefined);
+  /** Speaker profile from Home + GreenRoom — stored with this session's recordings */
+  const speakerProfile = useRef(getSpeakerProfile());
+  /** GreenRoom mic check — the host sees it while we wait to be admitted */
+  const micCheck = useRef(getMicCheck(roomId || '') || undefined);
 
   /**
    * On mount, check IndexedDB for recording chunks from a crashed session.
    * If found, show a recovery banner so the user can re-encode and upload.
+   * Chunks of a recording the upload worker is still finishing are skipped —
+   * the worker clears them once its upload completes.
    */
   useEffect(() => {
-    getPendingRecordings().then((pending) => {
-      if (pending.length > 0) {
-        setPendingRecovery(pending);
+    Promise.all([getPendingRecordings(), getAllPendingUploads()]).then(([pending, uploads]) => {
+      const inBackground = new Set(uploads.map((u) => u.recoveryKey));
+      const recoverable = pending.filter((p) => !inBackground.has(p.sessionKey));
+      if (recoverable.length > 0) {
+        setPendingRecovery(recoverable);
       }
     }).catch(() => {});
   }, []);
@@ -154,16 +256,26 @@ export default function Studio() {
   const webrtc = useWebRTC();
 
   /**
-   * Recover a crashed recording: re-encode chunks from IndexedDB into
-   * a WAV blob and upload it via the normal upload pipeline.
+   * Recover a crashed recording: upload its chunks from IndexedDB, one part
+   * at a time, under the room and session it was recorded in (from its
+   * `roomId:userId:sessionId` key). The upload needs that session's token,
+   * which the server sends in room-state for the room's latest session.
    */
   const handleRecover = useCallback(async (sessionKey: string) => {
-    const blob = await recorder.recover(sessionKey);
-    if (blob && roomId) {
-      await upload.upload(blob, roomId, userId.current, sessionIdRef.current || undefined);
+    const [recordedRoomId, , recordedSessionId] = sessionKey.split(':');
+    if (recordedRoomId && recordedSessionId) {
+      const target = { roomId: recordedRoomId, participantName: userId.current, sessionId: recordedSessionId };
+      await upload.track(userId.current, (onProgress) => recorder.recover(sessionKey, target, onProgress));
     }
     setPendingRecovery((prev) => prev.filter((p) => p.sessionKey !== sessionKey));
-  }, [roomId, upload, recorder]);
+  }, [upload, recorder]);
+
+  /** Keep the upload token the server issued for this user's recording in `recordingSessionId` */
+  const rememberUploadToken = (recordingSessionId: string | null, token: string | null | undefined) => {
+    if (roomId && recordingSessionId && token) {
+      setUploadToken(uploadStateKey(roomId, userId.current, recordingSessionId), token);
+    }
+  };
 
   /** Discard a crashed recording — clears its chunks from IndexedDB */
   const handleDismissRecovery = useCallback(async (sessionKey: string) => {
@@ -180,11 +292,11 @@ export default function Studio() {
    *   - Providing emit methods (joinRoom, startRecording, etc.)
    *
    * Callbacks are wired to orchestrate the other subsystems:
-   *   - onUserJoined → create WebRTC connection (send offer)
-   *   - onUserLeft → close WebRTC connection
-   *   - onPeerReconnected → tear down old connection, create new one
+   *   - onUserJoined → create a WebRTC connection to the newcomer (send offer)
+   *   - onUserLeft → close the connection to that peer
+   *   - onPeerReconnected → tear down that peer's old connection, create new one
    *   - onStartRecording → begin local recording via AudioWorklet
-   *   - onStopRecording → stop recording, encode WAV, upload to S3
+   *   - onStopRecording → stop recording, flush the streamed upload to S3
    *   - onOffer/onAnswer/onIceCandidate → WebRTC signaling
    */
   const {
@@ -192,42 +304,63 @@ export default function Studio() {
     isConnected,
     roomState,
     error,
+    waitingForHost,
+    waitingList,
     joinRoom,
     startRecording: emitStartRecording,
     stopRecording: emitStopRecording,
     sendChat,
+    sendNudge,
+    sendTalkback,
+    admitParticipant,
+    denyParticipant,
+    transferHost,
+    removeParticipant,
   } = useSocket(
     {
       roomId: roomId || '',
-      role: ROLES.HOST, // Initial role — server reassigns based on join order
-      userId: userId.current,
+      role: observing ? ROLES.OBSERVER : ROLES.HOST, // Otherwise the server assigns the role
       userEmail: userEmail.current,
+      userName: userName.current,
+      inviteToken: inviteToken.current,
+      consentId: consentId.current,
+      speakerProfile: speakerProfile.current,
+      micCheck: micCheck.current,
     },
     {
       /**
        * When a new peer joins (not reconnection), initiate a WebRTC connection.
-       * The joining user creates an offer; the existing user will receive it
-       * and respond with an answer.
+       * Every existing user creates an offer to the newcomer (data.userId is
+       * its socket ID), who answers each — so every pair ends up connected,
+       * except observers, who have nothing to send each other.
        */
       onUserJoined: (data) => {
-        if (!data.isReconnection && localStream && socket) {
+        if (observing && data.role === ROLES.OBSERVER) return;
+        if (!data.isReconnection && canConnect && socket) {
           webrtc.initConnection(socket, data.userId, localStream);
         }
       },
 
-      /** Peer disconnected — clean up WebRTC resources */
-      onUserLeft: () => {
-        webrtc.closeConnection();
+      /** Peer disconnected — clean up the connection to its socket (and any talkback with it) */
+      onUserLeft: (data) => {
+        if (talkingToRef.current === data.persistentId) stopTalkback();
+        setTalkback((prev) => (prev?.from === data.persistentId ? null : prev));
+        webrtc.closeConnection(data.userId);
       },
 
       /**
        * Peer reconnected with a new socket ID (e.g. page refresh, network drop).
-       * Must tear down the old RTCPeerConnection and create a new one targeting
-       * the new socket ID — the old one is now invalid.
+       * Must tear down its old RTCPeerConnection and create a new one targeting
+       * the new socket ID — the old one is now invalid. roomState still lists
+       * the peer under its old socket ID at this point.
        */
       onPeerReconnected: (data) => {
-        if (localStream && socket) {
-          webrtc.closeConnection();
+        const peer = roomState?.participants.find((p) => p.userId === data.userId);
+        if (peer && peer.socketId !== data.newSocketId) {
+          webrtc.closeConnection(peer.socketId);
+        }
+        if (observing && peer?.role === ROLES.OBSERVER) return;
+        if (canConnect && socket) {
           webrtc.initConnection(socket, data.newSocketId, localStream);
         }
       },
@@ -238,21 +371,37 @@ export default function Studio() {
        * is `roomId:userId:sessionId` for IndexedDB recovery identification.
        */
       onStartRecording: async (data) => {
+        if (!observing) stopTalkback(); // A host's mic now belongs to the take
         setSessionId(data.sessionId);
         sessionIdRef.current = data.sessionId;
+        rememberUploadToken(data.sessionId, data.uploadToken);
         setWarnings([]);
-        if (localStream) {
+        if (localStream && roomId) {
           const key = `${roomId}:${userId.current}:${data.sessionId}`;
-          await recorder.start(localStream, key);
+          await recorder.start(localStream, key, {
+            roomId,
+            participantName: userId.current,
+            sessionId: data.sessionId,
+          });
         }
       },
 
       /**
-       * Recording stopped — encode WAV blob and upload to S3.
+       * Recording stopped — flush the last streamed part and complete the
+       * upload (via the upload service worker when available, so it still
+       * finishes if the tab is closed). If streaming failed, the recorder
+       * uploads the take again from its IndexedDB backup, one part at a time;
+       * a blob only comes back when recording without an upload target.
        * Uses sessionIdRef (not sessionId state) to avoid stale closure issues.
        */
-      onStopRecording: async () => {
-        const blob = recorder.stop();
+      onStopRecording: async (data) => {
+        if (observing) {
+          setSessionId(null);
+          sessionIdRef.current = null;
+          return;
+        }
+        rememberUploadToken(sessionIdRef.current, data.uploadToken);
+        const blob = await upload.track(userId.current, (onProgress) => recorder.stop(onProgress));
         if (blob && roomId) {
           await upload.upload(blob, roomId, userId.current, sessionIdRef.current || undefined);
         }
@@ -267,9 +416,14 @@ export default function Studio() {
       onResumeRecording: async (data) => {
         setSessionId(data.sessionId);
         sessionIdRef.current = data.sessionId;
-        if (localStream && !recorder.isRecording) {
+        rememberUploadToken(data.sessionId, data.uploadToken);
+        if (localStream && roomId && !recorder.isRecording) {
           const key = `${roomId}:${userId.current}:${data.sessionId}`;
-          await recorder.start(localStream, key);
+          await recorder.start(localStream, key, {
+            roomId,
+            participantName: userId.current,
+            sessionId: data.sessionId,
+          });
         }
       },
 
@@ -292,22 +446,22 @@ export default function Studio() {
        * set remote description, and send back an answer.
        */
       onOffer: async (data) => {
-        if (localStream && socket) {
+        if (canConnect && socket) {
           await webrtc.handleIncomingOffer(socket, data.sdp, data.sender, localStream);
         }
       },
 
-      /** Set the remote answer on our PeerConnection */
+      /** Set the remote answer on the sender's PeerConnection */
       onAnswer: async (data) => {
-        await webrtc.handleIncomingAnswer(data.sdp);
+        await webrtc.handleIncomingAnswer(data.sdp, data.sender);
       },
 
       /** Add an ICE candidate (or queue it if remote description not set yet) */
       onIceCandidate: async (data) => {
-        await webrtc.handleIncomingIceCandidate(data.candidate);
+        await webrtc.handleIncomingIceCandidate(data.candidate, data.sender);
       },
 
-      /** Room is full (2 participants already) — redirect to home */
+      /** Room is full (LIMITS.MAX_PARTICIPANTS already) — redirect to home */
       onRoomFull: () => {
         navigate('/');
       },
@@ -316,6 +470,30 @@ export default function Studio() {
       onChatMessage: (data) => {
         setChatMessages((prev) => [...prev, data]);
       },
+
+      /** A producer's cue for us — replaces any nudge still showing */
+      onNudge: (data) => {
+        setNudge(data);
+      },
+
+      /** A producer started/stopped talking to us */
+      onTalkback: (data) => {
+        setTalkback(data.active ? data : null);
+      },
+
+      /** The host didn't let us in from the waiting room */
+      onJoinDenied: (data) => {
+        setSentAway({ heading: 'Not admitted', message: data.message });
+      },
+
+      /**
+       * The host removed us. Any take we were in already got its
+       * stop-recording, and its upload goes on over HTTP after the socket
+       * is gone — the removed screen says so until it's done.
+       */
+      onRemoved: (data) => {
+        setSentAway({ heading: 'Removed from the session', message: data.message });
+      },
     },
   );
 
@@ -330,9 +508,12 @@ export default function Studio() {
    * The stream is used by three systems simultaneously:
    *   1. useAudioMetrics — for real-time level visualization
    *   2. useRecorder — for lossless WAV capture
-   *   3. useWebRTC — for live monitoring by the peer
+   *   3. useWebRTC — for live monitoring by the other participants
+   *
+   * Observers skip this — they never send audio.
    */
   useEffect(() => {
+    if (observing) return;
     async function getMic() {
       const stream = await navigator.mediaDevices.getUserMedia({
         audio: {
@@ -352,24 +533,48 @@ export default function Studio() {
     };
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
+  /** Release an observer's talkback mic when leaving */
+  useEffect(() => {
+    return () => {
+      talkbackStream.current?.getTracks().forEach((t) => t.stop());
+    };
+  }, []);
+
   /**
    * Join the room once socket is connected AND mic stream is ready.
-   * Both conditions must be met — the server needs the userId to create
-   * a DynamoDB Session entry, and we need the stream ready for WebRTC
-   * offer/answer flows that may happen immediately after join.
+   * Both conditions must be met — the server needs the authenticated socket
+   * to create a DynamoDB Session entry, and we need the stream ready for WebRTC
+   * offer/answer flows that may happen immediately after join. Observers
+   * don't wait for a mic.
    */
   useEffect(() => {
-    if (isConnected && localStream) {
+    if (isConnected && canConnect) {
       joinRoom();
     }
-  }, [isConnected, localStream, joinRoom]);
+  }, [isConnected, canConnect, joinRoom]);
 
-  /** Attach remote peer's audio stream to the hidden <audio> element for playback */
+  /**
+   * room-state carries this participant's server-assigned userId, an upload
+   * token for the room's latest recording session, so an upload interrupted
+   * by a reload (or a crash recovery of that session) can still authenticate
+   * — and the meeting token the Results page needs to read this room's
+   * recordings, which also resumes this identity on the next handshake.
+   */
   useEffect(() => {
-    if (webrtc.remoteStream && remoteAudioRef.current) {
-      remoteAudioRef.current.srcObject = webrtc.remoteStream;
+    if (!roomState) return;
+    userId.current = roomState.userId;
+    rememberUploadToken(roomState.recordingState.sessionId, roomState.uploadToken);
+    // An observer arriving mid-take shows it as in progress
+    if (observing && roomState.recordingState.isRecording) {
+      setSessionId(roomState.recordingState.sessionId);
+      sessionIdRef.current = roomState.recordingState.sessionId;
     }
-  }, [webrtc.remoteStream]);
+    if (roomId) {
+      rememberMeetingToken(roomId, roomState.accessToken);
+      // Redeemed — the meeting token restores this identity from now on
+      forgetInviteToken(roomId);
+    }
+  }, [roomState]); // eslint-disable-line react-hooks/exhaustive-deps
 
   /**
    * During an active recording, send audio metrics to the server every 5 seconds.
@@ -406,9 +611,104 @@ export default function Studio() {
   };
 
   const participants = roomState?.participants || [];
-  const peerConnected = participants.length > 1;
-  const myRole = participants.find((p) => p.userId === userId.current)?.role;
+  /** Observers take no seat — listed separately under the speakers */
+  const speakers = participants.filter((p) => p.role !== ROLES.OBSERVER);
+  const observers = participants.filter((p) => p.role === ROLES.OBSERVER);
+  const peerConnected = speakers.length > 1;
+  const hasOpenSeat = speakers.length < LIMITS.MAX_PARTICIPANTS;
+  const myRole = participants.find((p) => p.userId === roomState?.userId)?.role;
   const isHost = myRole === ROLES.HOST;
+  /** Host and observers can nudge and talk back to the speakers */
+  const isProducer = isHost || observing;
+  /** A host's talkback is their recording mic — only between takes */
+  const canTalkBack = observing || !recorder.isRecording;
+
+  /** The track talkback sends: a host's recording mic; an observer opens one on first use */
+  const talkbackTrack = async (): Promise<MediaStreamTrack | null> => {
+    if (!observing) return localStream?.getAudioTracks()[0] ?? null;
+    if (!talkbackStream.current) {
+      try {
+        talkbackStream.current = await navigator.mediaDevices.getUserMedia({ audio: true });
+      } catch {
+        return null; // Mic refused — no talkback
+      }
+    }
+    return talkbackStream.current.getAudioTracks()[0] ?? null;
+  };
+
+  /**
+   * Route our outgoing audio. Talking to `targetUserId`: only their
+   * connection carries `track`. Stopped (null): back to normal — the mic to
+   * everyone for a host, nothing for an observer.
+   */
+  const routeOutgoingAudio = (targetUserId: string | null, track: MediaStreamTrack | null) => {
+    const normal = observing ? null : localStream?.getAudioTracks()[0] ?? null;
+    for (const p of speakers) {
+      if (p.userId === roomState?.userId) continue;
+      const outgoing = targetUserId === null ? normal : p.userId === targetUserId ? track : null;
+      webrtc.setOutgoingTrack(p.socketId, outgoing).catch((err) => console.warn('Talkback routing failed:', err));
+    }
+  };
+
+  /** Push-to-talk pressed on a speaker's card */
+  const startTalkback = async (targetUserId: string) => {
+    if (talkingToRef.current || !canTalkBack) return;
+    talkingToRef.current = targetUserId;
+    setTalkingTo(targetUserId);
+
+    const track = await talkbackTrack();
+    if (talkingToRef.current !== targetUserId) return; // Released while the mic was opening
+    if (!track) {
+      stopTalkback();
+      return;
+    }
+    routeOutgoingAudio(targetUserId, track);
+    sendTalkback(targetUserId, true);
+  };
+
+  /** Push-to-talk released (or its target left) */
+  function stopTalkback() {
+    const targetUserId = talkingToRef.current;
+    if (!targetUserId) return;
+    talkingToRef.current = null;
+    setTalkingTo(null);
+    routeOutgoingAudio(null, null);
+    sendTalkback(targetUserId, false);
+  }
+
+  // ── Waiting room: held before getting a seat, or sent away ──
+  if (waitingForHost || sentAway) {
+    return (
+      <div className="flex items-center justify-center min-h-screen p-4">
+        <div className="w-full max-w-md p-8 space-y-4 text-center border bg-surface-900 border-surface-700 rounded-xl">
+          {sentAway ? (
+            <>
+              <h1 className="text-xl font-semibold text-surface-50">{sentAway.heading}</h1>
+              <p className="text-sm text-surface-400">{sentAway.message}</p>
+              {upload.isUploading && (
+                <p className="text-sm text-surface-400">Your recording is still uploading — keep this page open.</p>
+              )}
+              <UploadProgress progress={upload.progress} isUploading={upload.isUploading} error={upload.uploadError} />
+              <button
+                onClick={() => navigate('/')}
+                className="w-full py-2.5 font-semibold rounded-lg bg-accent-400 hover:bg-accent-500 text-surface-950"
+              >
+                Back to home
+              </button>
+            </>
+          ) : (
+            <>
+              <div className="w-3 h-3 mx-auto rounded-full bg-accent-400 animate-pulse" />
+              <h1 className="text-xl font-semibold text-surface-50">Waiting for the host</h1>
+              <p className="text-sm text-surface-400">
+                The host has been told you're here and will let you in shortly. Keep this page open.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className="flex flex-col min-h-screen">
@@ -463,20 +763,72 @@ export default function Studio() {
       <div className="flex flex-1">
         {/* Left panel — recording controls + metrics */}
         <div className="flex-1 p-6 space-y-6">
-          {/* ── Participant cards ─────────────────────────────────── */}
-          <div className="flex gap-4">
-            {participants.map((p) => (
-              <div key={p.socketId} className="flex-1 px-4 py-3 bg-surface-900 border border-surface-700 rounded-lg">
-                <div className="mb-1 text-sm text-surface-400">{p.role}</div>
-                <div className="font-medium text-surface-50">{p.userEmail || p.userId}</div>
-              </div>
-            ))}
-            {/* Placeholder shown when waiting for the second participant */}
-            {participants.length < 2 && (
-              <div className="flex-1 px-4 py-3 bg-surface-900 border border-surface-700 border-dashed rounded-lg">
-                <p className="mb-2 text-sm text-surface-500">Waiting for partner...</p>
-                <InviteLink roomId={roomId || ''} />
-              </div>
+          {/* ── Waiting room (host) ───────────────────────────────── */}
+          {isHost && (
+            <WaitingRoomPanel waiting={waitingList} onAdmit={admitParticipant} onDeny={denyParticipant} />
+          )}
+
+          {/* ── Speaker list ─────────────────────────────────────── */}
+          <div>
+            <label className="block mb-2 text-sm text-surface-400">
+              Speakers ({speakers.length}/{LIMITS.MAX_PARTICIPANTS})
+            </label>
+            <div className="grid grid-cols-2 gap-4 xl:grid-cols-3">
+              {speakers.map((p) => {
+                const isMe = p.userId === roomState?.userId;
+                const peerState = webrtc.connectionStates[p.socketId];
+                return (
+                  <div key={p.userId} className="px-4 py-3 bg-surface-900 border border-surface-700 rounded-lg">
+                    <div className="flex items-center justify-between mb-1 text-sm text-surface-400">
+                      <span>{p.role}{isMe && ' (you)'}</span>
+                      {/* Live audio link to this speaker: green = connected, red = lost */}
+                      {!isMe && (
+                        <span
+                          title={peerState ?? 'connecting'}
+                          className={`w-2 h-2 rounded-full ${
+                            peerState === 'connected'
+                              ? 'bg-success'
+                              : peerState === 'failed' || peerState === 'disconnected'
+                                ? 'bg-danger'
+                                : 'bg-warning'
+                          }`}
+                        />
+                      )}
+                    </div>
+                    <div className="font-medium truncate text-surface-50">{p.userEmail || p.userId}</div>
+                    {isProducer && !isMe && (
+                      <ProducerControls
+                        talking={talkingTo === p.userId}
+                        canTalk={canTalkBack}
+                        onNudge={(kind) => sendNudge(p.userId, kind)}
+                        onTalkStart={() => startTalkback(p.userId)}
+                        onTalkEnd={stopTalkback}
+                      />
+                    )}
+                    {isHost && !isMe && p.role === ROLES.GUEST && (
+                      <HostControls
+                        onMakeHost={() => transferHost(p.userId)}
+                        onRemove={() => removeParticipant(p.userId)}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+              {/* Open seat — invite the partner, or more speakers for a panel */}
+              {hasOpenSeat && !observing && (
+                <div className="px-4 py-3 bg-surface-900 border border-surface-700 border-dashed rounded-lg">
+                  <p className="mb-2 text-sm text-surface-500">
+                    {peerConnected ? 'Invite more speakers' : 'Waiting for partner...'}
+                  </p>
+                  <InviteLink roomId={roomId || ''} hostEmail={roomState?.meeting?.hostEmail ?? null} />
+                </div>
+              )}
+            </div>
+            {observers.length > 0 && (
+              <p className="mt-2 text-xs text-surface-500">
+                Observing (not recorded):{' '}
+                {observers.map((p) => (p.userId === roomState?.userId ? 'you' : p.userEmail || p.userId)).join(', ')}
+              </p>
             )}
           </div>
 
@@ -492,9 +844,16 @@ export default function Studio() {
             </div>
           )}
 
-          {/* ── Recording controls (host) / status (guest) ─────── */}
+          {/* ── Recording controls (host) / status (guest, observer) ── */}
           <div className="flex items-center gap-4">
-            {recorder.isRecording ? (
+            {observing ? (
+              <div className="flex items-center gap-2 text-sm text-surface-400">
+                {sessionId && <div className="w-3 h-3 bg-danger rounded-full animate-pulse" />}
+                <span>
+                  {sessionId ? 'Recording in progress — you are observing and not recorded' : 'Observing — you are not recorded'}
+                </span>
+              </div>
+            ) : recorder.isRecording ? (
               <>
                 {isHost && (
                   <button
@@ -558,44 +917,223 @@ export default function Studio() {
           <ChatPanel
             messages={chatMessages}
             onSend={sendChat}
-            currentUserId={userId.current}
+            currentUserId={roomState?.userId ?? ''}
           />
         </div>
       </div>
 
-      {/* Hidden audio element for playing the remote peer's stream */}
-      <audio ref={remoteAudioRef} autoPlay />
+      {/* A producer's nudge / talkback for us */}
+      <NudgeOverlay nudge={nudge} talkback={talkback} onDismiss={() => setNudge(null)} />
+
+      {/* Hidden audio elements, one per remote speaker's stream */}
+      {Object.entries(webrtc.remoteStreams).map(([socketId, stream]) => (
+        <RemoteAudio key={socketId} stream={stream} />
+      ))}
+    </div>
+  );
+}
+
+// ── RemoteAudio Component ───────────────────────────────────
+
+/** Plays one remote speaker's live stream */
+function RemoteAudio({ stream }: { stream: MediaStream }) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  return <audio ref={audioRef} autoPlay />;
+}
+
+// ── ProducerControls Component ──────────────────────────────
+
+/** Short labels for the nudge buttons (the overlay words them in full) */
+const NUDGE_BUTTONS: [NudgeKind, string][] = [
+  [NUDGE_KIND.MOVE_CLOSER, 'Closer'],
+  [NUDGE_KIND.REDUCE_GAIN, 'Gain down'],
+  [NUDGE_KIND.PAUSE, 'Pause'],
+  [NUDGE_KIND.CHECK_HEADPHONES, 'Headphones'],
+];
+
+/** Nudges and push-to-talk for one speaker, on their card (host/observers) */
+function ProducerControls({
+  talking,
+  canTalk,
+  onNudge,
+  onTalkStart,
+  onTalkEnd,
+}: {
+  talking: boolean;
+  canTalk: boolean;
+  onNudge: (kind: NudgeKind) => void;
+  onTalkStart: () => void;
+  onTalkEnd: () => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mt-2">
+      {NUDGE_BUTTONS.map(([kind, label]) => (
+        <button
+          key={kind}
+          onClick={() => onNudge(kind)}
+          className="px-2 py-0.5 text-xs rounded bg-surface-800 hover:bg-surface-700 text-surface-300"
+        >
+          {label}
+        </button>
+      ))}
+      {/* Held, not toggled — releasing (or sliding off) ends the talkback */}
+      <button
+        onPointerDown={onTalkStart}
+        onPointerUp={onTalkEnd}
+        onPointerLeave={onTalkEnd}
+        disabled={!canTalk}
+        title={canTalk ? undefined : 'Not while recording — your mic is in the take'}
+        className={`px-2 py-0.5 text-xs font-medium rounded select-none disabled:opacity-50 ${
+          talking ? 'bg-danger text-surface-50' : 'bg-surface-700 hover:bg-surface-600 text-surface-300'
+        }`}
+      >
+        {talking ? 'Talking...' : 'Hold to talk'}
+      </button>
+    </div>
+  );
+}
+
+// ── HostControls Component ──────────────────────────────────
+
+/** Hand over the host role to a guest, or remove them (asks for a second click) */
+function HostControls({ onMakeHost, onRemove }: { onMakeHost: () => void; onRemove: () => void }) {
+  const [confirmingRemove, setConfirmingRemove] = useState(false);
+
+  return (
+    <div className="flex items-center gap-1.5 mt-2">
+      <button
+        onClick={onMakeHost}
+        className="px-2 py-0.5 text-xs rounded bg-surface-800 hover:bg-surface-700 text-surface-300"
+      >
+        Make host
+      </button>
+      <button
+        onClick={() => (confirmingRemove ? onRemove() : setConfirmingRemove(true))}
+        onBlur={() => setConfirmingRemove(false)}
+        className={`px-2 py-0.5 text-xs rounded ${
+          confirmingRemove ? 'bg-danger text-surface-50' : 'bg-surface-800 hover:bg-surface-700 text-danger-light'
+        }`}
+      >
+        {confirmingRemove ? 'Remove and block?' : 'Remove'}
+      </button>
     </div>
   );
 }
 
 // ── InviteLink Component ────────────────────────────────────
 
-function InviteLink({ roomId }: { roomId: string }) {
+/**
+ * Open meetings (no hostEmail) share the plain green-room link. Invite-only
+ * meetings need a signed link: the signed-in host creates it here, and can
+ * re-issue it (the old link stops working) or revoke it. A link works once
+ * unless the host makes it reusable, which seats a panel from one link.
+ * The invite token can't be read back from the server, so the link is only
+ * shown after creating it.
+ */
+function InviteLink({ roomId, hostEmail }: { roomId: string; hostEmail: string | null }) {
   const [copied, setCopied] = useState(false);
-  const inviteUrl = `${window.location.origin}/room/${roomId}/green-room`;
+  const [signedUrl, setSignedUrl] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  /** Let several guests join with the same link (panel recordings) */
+  const [reusable, setReusable] = useState(false);
+
+  const isHost = !!hostEmail && getCurrentUser()?.email === hostEmail;
+  const inviteUrl = hostEmail ? signedUrl : `${window.location.origin}/room/${roomId}/green-room`;
 
   const handleCopy = async () => {
+    if (!inviteUrl) return;
     await navigator.clipboard.writeText(inviteUrl);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const handleIssue = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const { url } = await issueInvite(roomId, { singleUse: !reusable });
+      setSignedUrl(url);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await revokeInvite(roomId);
+      setSignedUrl(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (hostEmail && !isHost) {
+    return <p className="text-xs text-surface-500">This session is invite-only — the host sends the invite link.</p>;
+  }
+
   return (
-    <div className="flex items-center gap-2">
-      <input
-        type="text"
-        readOnly
-        value={inviteUrl}
-        className="flex-1 px-3 py-1.5 text-xs bg-surface-800 border border-surface-600 rounded text-surface-300 truncate"
-        onFocus={(e) => e.target.select()}
-      />
-      <button
-        onClick={handleCopy}
-        className="px-3 py-1.5 text-xs font-medium rounded bg-surface-700 hover:bg-surface-600 text-surface-300 whitespace-nowrap"
-      >
-        {copied ? 'Copied!' : 'Copy Link'}
-      </button>
+    <div className="space-y-2">
+      {inviteUrl && (
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            readOnly
+            value={inviteUrl}
+            className="flex-1 px-3 py-1.5 text-xs bg-surface-800 border border-surface-600 rounded text-surface-300 truncate"
+            onFocus={(e) => e.target.select()}
+          />
+          <button
+            onClick={handleCopy}
+            className="px-3 py-1.5 text-xs font-medium rounded bg-surface-700 hover:bg-surface-600 text-surface-300 whitespace-nowrap"
+          >
+            {copied ? 'Copied!' : 'Copy Link'}
+          </button>
+        </div>
+      )}
+      {isHost && (
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1.5 text-xs text-surface-400">
+            <input
+              type="checkbox"
+              checked={reusable}
+              onChange={(e) => setReusable(e.target.checked)}
+              disabled={busy}
+            />
+            Reusable
+          </label>
+          <button
+            onClick={handleIssue}
+            disabled={busy}
+            className="text-xs font-medium text-accent-400 hover:text-accent-500 disabled:opacity-50"
+          >
+            {signedUrl ? 'Re-issue link' : 'Create invite link'}
+          </button>
+          {signedUrl && (
+            <button
+              onClick={handleRevoke}
+              disabled={busy}
+              className="text-xs font-medium text-danger-light hover:text-danger disabled:opacity-50"
+            >
+              Revoke
+            </button>
+          )}
+        </div>
+      )}
+      {error && <p className="text-xs text-danger-light">{error}</p>}
     </div>
   );
 }
@@ -0,0 +1,101 @@
+/**
+ * authService.ts — Signed-in user session (email magic-link login).
+ *
+ * Hosts and admins sign in on the Login page: they request a one-time link
+ * by email, and opening it exchanges the link's token for a JWT. This
+ * module makes those two API calls and keeps the result in localStorage:
+ *
+ *   authToken — the JWT, sent as `Authorization: Bearer <token>`
+ *   authUser  — the signed-in User (JSON)
+ *
+ * The JWT expires after 24 hours. getAuthToken() checks its `exp` claim and
+ * clears the session once it has passed, so callers never send a token the
+ * server is about to reject.
+ *
+ * ## Backend Endpoints Used
+ *
+ *   POST /api/auth/request-link  → { sent: true }
+ *   POST /api/auth/verify        → { token, user, redirectTo }
+ */
+
+import type { RequestLoginLinkRequest, User, VerifyLoginLinkResponse } from '../shared';
+
+const API_BASE = import.meta.env.VITE_API_URL || '/api';
+
+const TOKEN_KEY = 'authToken';
+const USER_KEY = 'authUser';
+
+/** Ask the server to email a one-time login link */
+export async function requestLoginLink(request: RequestLoginLinkRequest): Promise<void> {
+  const res = await fetch(`${API_BASE}/auth/request-link`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  if (!res.ok) {
+    const errData = await res.json().catch(() => ({}));
+    throw new Error(errData.error || 'Failed to send sign-in link');
+  }
+}
+
+/** Exchange a login link's token for a JWT and start the session */
+export async function verifyLoginLink(token: string): Promise<VerifyLoginLinkResponse> {
+  const res = await fetch(`${API_BASE}/auth/verify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token }),
+  });
+  if (!res.ok) {
+    const errData = await res.json().catch(() => ({}));
+    throw new Error(errData.error || 'Sign-in failed');
+  }
+
+  const result: VerifyLoginLinkResponse = await res.json();
+  localStorage.setItem(TOKEN_KEY, result.token);
+  localStorage.setItem(USER_KEY, JSON.stringify(result.user));
+  return result;
+}
+
+/** The JWT of the signed-in user, or null if signed out or expired */
+export function getAuthToken(): string | null {
+  const token = localStorage.getItem(TOKEN_KEY);
+  if (!token) return null;
+  if (isExpired(token)) {
+    signOut();
+    return null;
+  }
+  return token;
+}
+
+/** The signed-in user, or null */
+export function getCurrentUser(): User | null {
+  if (!getAuthToken()) return null;
+  try {
+    return JSON.parse(localStorage.getItem(USER_KEY) || 'null');
+  } catch {
+    return null;
+  }
+}
+
+export function signOut(): void {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(USER_KEY);
+}
+
+/** Authorization header for JWT-protected endpoints (empty when signed out) */
+export function authHeaders(): Record<string, string> {
+  const token = getAuthToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+/** True once the JWT's `exp` claim has passed (or it can't be decoded) */
+function isExpired(token: string): boolean {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' && payload.exp * 1000 <= Date.now();
+  } catch {
+    return true;
+  }
+}
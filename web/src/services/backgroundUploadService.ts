@@ -0,0 +1,176 @@
+/**
+ * backgroundUploadService.ts — Hands uploads to a Service Worker so they
+ * survive the tab being closed.
+ *
+ * Guests often close the tab right after the host stops recording. An
+ * upload running in the page dies with it; one running in the upload
+ * service worker (src/sw/uploadServiceWorker.ts) doesn't.
+ *
+ * ## Hand-off
+ *
+ * 1. The page writes a PendingUploadRecord to IndexedDB (storageService):
+ *    the encoded WAV — or, for a streamed recording, the parts S3 doesn't
+ *    have yet next to the upload-state record (uploadId, key, parts) — and
+ *    the recording's upload token, since the worker can't get one itself,
+ *    and the room's meeting token, which renews it (uploadService.
+ *    freshUploadToken()) when the upload is resumed after it expired.
+ * 2. It posts `{ type: 'start', sessionKey }` to the worker and registers a
+ *    Background Sync, where supported, so the browser wakes the worker to
+ *    retry once it's back online.
+ * 3. The worker runs uploadService.uploadPending() and broadcasts
+ *    `progress` / `complete` / `failed` messages to every open page.
+ *
+ * The page keeps re-posting `start` while it waits. The worker ignores
+ * uploads it is already running, so this is only a nudge, but each message
+ * extends the worker's lifetime and restarts it if the browser stopped it.
+ *
+ * ## Resume on Next Visit
+ *
+ * registerUploadWorker() is called from main.tsx, so every page of the app
+ * registers the worker and posts `{ type: 'resume' }`, which restarts
+ * every upload still in IndexedDB.
+ *
+ * ## Fallback
+ *
+ * Without Service Worker support (or before the worker has activated),
+ * isBackgroundUploadAvailable() is false and callers upload in the page
+ * as before.
+ */
+
+import { savePendingUpload } from './storageService';
+import type { PendingUploadRecord } from './storageService';
+import { getUploadToken } from './uploadService';
+import { getMeetingToken } from './meetingAccessService';
+import type { OnProgress, UploadProgress } from './uploadService';
+
+/** Messages the page posts to the upload service worker */
+export type UploadWorkerRequest =
+  | { type: 'start'; sessionKey: string }   // Run (or keep running) one pending upload
+  | { type: 'resume' };                     // Run every pending upload in IndexedDB
+
+/** Messages the upload service worker broadcasts to open pages */
+export type UploadWorkerEvent =
+  | { type: 'progress'; sessionKey: string; progress: UploadProgress }
+  | { type: 'complete'; sessionKey: string }
+  | { type: 'failed'; sessionKey: string; error: string; willRetry: boolean };
+
+/** Background Sync tag the worker retries pending uploads under */
+export const UPLOAD_SYNC_TAG = 'pending-uploads';
+
+/** Worker script — Vite serves the TS source in dev; the build emits it at the root */
+const WORKER_URL = import.meta.env.DEV ? '/src/sw/uploadServiceWorker.ts' : '/upload-sw.js';
+
+/** How often a waiting page re-posts `start` to the worker */
+const NUDGE_INTERVAL_MS = 30_000;
+
+/** Registration of the upload worker — null until registerUploadWorker() succeeds */
+let registration: ServiceWorkerRegistration | null = null;
+
+/** Pages waiting on an upload, by sessionKey */
+const listeners = new Map<string, Set<(event: UploadWorkerEvent) => void>>();
+
+/**
+ * Register the upload service worker and ask it to resume any uploads left
+ * over from earlier visits. Safe to call on every page load; failures are
+ * logged and leave background uploads unavailable.
+ */
+export async function registerUploadWorker(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+
+  try {
+    navigator.serviceWorker.addEventListener('message', (event: MessageEvent<UploadWorkerEvent>) => {
+      listeners.get(event.data?.sessionKey)?.forEach((listener) => listener(event.data));
+    });
+    navigator.serviceWorker.startMessages();
+
+    const reg = await navigator.serviceWorker.register(WORKER_URL, { type: 'module' });
+    await whenActive(reg);
+    registration = reg;
+    postToWorker({ type: 'resume' });
+  } catch (err) {
+    console.warn('Upload service worker unavailable, uploading in the page:', (err as Error).message);
+  }
+}
+
+/** True once the upload worker is active and can take uploads */
+export function isBackgroundUploadAvailable(): boolean {
+  return registration?.active != null;
+}
+
+/**
+ * Persist an upload and hand it to the worker. From here on the worker
+ * owns it, whether or not this page stays open.
+ */
+export async function startBackgroundUpload(upload: HandOff): Promise<void> {
+  await savePendingUpload({
+    ...upload,
+    uploadToken: getUploadToken(upload.sessionKey),
+    meetingToken: getMeetingToken(upload.roomId),
+    attempts: 0,
+    createdAt: Date.now(),
+  });
+  postToWorker({ type: 'start', sessionKey: upload.sessionKey });
+
+  // Let the browser retry when connectivity returns (Chromium only)
+  const sync = (registration as SyncCapableRegistration | null)?.sync;
+  sync?.register(UPLOAD_SYNC_TAG).catch(() => {});
+}
+
+/**
+ * Wait for a handed-off upload to finish, relaying its progress. Rejects
+ * if the worker reports a failure — it may still retry later (on the next
+ * visit or when Background Sync fires), so the audio isn't lost.
+ */
+export function waitForBackgroundUpload(sessionKey: string, onProgress?: OnProgress): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const nudge = setInterval(() => postToWorker({ type: 'start', sessionKey }), NUDGE_INTERVAL_MS);
+
+    const listener = (event: UploadWorkerEvent) => {
+      if (event.type === 'progress') {
+        onProgress?.(event.progress);
+        return;
+      }
+      clearInterval(nudge);
+      listeners.get(sessionKey)?.delete(listener);
+      if (event.type === 'complete') resolve();
+      else reject(new Error(event.error));
+    };
+
+    if (!listeners.has(sessionKey)) listeners.set(sessionKey, new Set());
+    listeners.get(sessionKey)!.add(listener);
+  });
+}
+
+/** Hand off an upload and wait for it — the background equivalent of uploadFile() */
+export async function uploadInBackground(upload: HandOff, onProgress?: OnProgress): Promise<void> {
+  await startBackgroundUpload(upload);
+  return waitForBackgroundUpload(upload.sessionKey, onProgress);
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+/** What a page hands off — the rest of the PendingUploadRecord is filled in here */
+type HandOff = Omit<PendingUploadRecord, 'uploadToken' | 'meetingToken' | 'attempts' | 'createdAt'>;
+
+/** ServiceWorkerRegistration with the Background Sync API (not in lib.dom) */
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+function postToWorker(message: UploadWorkerRequest): void {
+  registration?.active?.postMessage(message);
+}
+
+/** Resolve once the registration has an active worker (first install included) */
+function whenActive(reg: ServiceWorkerRegistration): Promise<void> {
+  if (reg.active) return Promise.resolve();
+  const worker = reg.installing ?? reg.waiting;
+  if (!worker) return Promise.reject(new Error('No service worker to activate'));
+
+  return new Promise((resolve, reject) => {
+    worker.addEventListener('statechange', () => {
+      if (worker.state === 'activated') resolve();
+      if (worker.state === 'redundant') reject(new Error('Service worker failed to install'));
+    });
+  });
+}
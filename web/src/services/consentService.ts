@@ -0,0 +1,61 @@
+/**
+ * consentService.ts — Recording consent.
+ *
+ * The GreenRoom shows the current consent document for the browser's
+ * language and, once the participant agrees, records a signed consent on
+ * the server. The consent's id is kept per room (`consentId:{roomId}`) and
+ * sent with join-room, which ties it to the participant's userId; the
+ * server refuses start-recording until everyone in the room has consented.
+ *
+ * The request carries this room's meeting token or the signed-in user's
+ * JWT when there is one, so returning participants are recorded against
+ * their identity right away.
+ *
+ * ## Backend Endpoints Used
+ *
+ *   GET  /api/consent/documents/current?locale=  → ConsentDocument
+ *   POST /api/consent/meetings/:meetingId        → { consent }
+ */
+
+import type { Consent, ConsentDocument, GiveConsentRequest, GiveConsentResponse } from '../shared';
+import { authHeaders } from './authService';
+import { meetingAccessHeaders } from './meetingAccessService';
+
+const API_BASE = import.meta.env.VITE_API_URL || '/api';
+
+const STORAGE_PREFIX = 'consentId:';
+
+/** The current consent document for `locale` (the server falls back to its default locale) */
+export async function getConsentDocument(locale: string = navigator.language): Promise<ConsentDocument> {
+  const res = await fetch(`${API_BASE}/consent/documents/current?${new URLSearchParams({ locale })}`);
+  if (!res.ok) {
+    const errData = await res.json().catch(() => ({}));
+    throw new Error(errData.error || 'Failed to load the consent form');
+  }
+  return res.json();
+}
+
+/** Record consent to be recorded in `roomId`, and keep its id for join-room */
+export async function giveConsent(roomId: string, request: GiveConsentRequest): Promise<Consent> {
+  const res = await fetch(`${API_BASE}/consent/meetings/${roomId}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders(), ...meetingAccessHeaders(roomId) },
+    body: JSON.stringify(request),
+  });
+  if (!res.ok) {
+    const errData = await res.json().catch(() => ({}));
+    throw new Error(errData.error || 'Failed to record consent');
+  }
+  const { consent }: GiveConsentResponse = await res.json();
+  try {
+    localStorage.setItem(STORAGE_PREFIX + roomId, consent.consentId);
+  } catch {
+    // Storage full or disabled — join-room goes out without the consent
+  }
+  return consent;
+}
+
+/** The consent given for `roomId` in this browser, or null */
+export function getConsentId(roomId: string): string | null {
+  return localStorage.getItem(STORAGE_PREFIX + roomId);
+}
@@ -0,0 +1,79 @@
+/**
+ * inviteService.ts — Signed guest invite links.
+ *
+ * Meetings created by a signed-in host are invite-only: the guest role
+ * goes to whoever joins with the host's invite link,
+ * `{origin}/?room={meetingId}&invite={token}`. A link works once unless it
+ * was issued reusable (`singleUse: false`) — one link for a panel's guests.
+ *
+ * Host side (Studio's InviteLink, with the host's JWT):
+ *   issueInvite()  — PUT    /api/meetings/:id/invites/guest → new link
+ *                    (replaces the previous one — re-issue)
+ *   revokeInvite() — DELETE /api/meetings/:id/invites/guest
+ *
+ * Guest side: Home keeps the link's token per room (`inviteToken:{roomId}`
+ * in localStorage) and sends it with assign-guest; Studio sends it with
+ * join-room, where the server redeems it, then forgets it. Later visits
+ * resume the guest's identity from the meeting token instead.
+ */
+
+import type { IssueInviteRequest, IssueInviteResponse } from '../shared';
+import { authHeaders } from './authService';
+
+const API_BASE = import.meta.env.VITE_API_URL || '/api';
+
+const STORAGE_PREFIX = 'inviteToken:';
+
+/** Create a new guest invite link for `meetingId` (earlier links stop working) */
+export async function issueInvite(
+  meetingId: string,
+  request: IssueInviteRequest = {},
+): Promise<IssueInviteResponse & { url: string }> {
+  const res = await fetch(`${API_BASE}/meetings/${meetingId}/invites/guest`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify(request),
+  });
+  if (!res.ok) {
+    const errData = await res.json().catch(() => ({}));
+    throw new Error(errData.error || 'Failed to create invite link');
+  }
+  const result: IssueInviteResponse = await res.json();
+  return { ...result, url: inviteUrl(meetingId, result.token) };
+}
+
+/** Revoke the guest invite link for `meetingId` */
+export async function revokeInvite(meetingId: string): Promise<void> {
+  const res = await fetch(`${API_BASE}/meetings/${meetingId}/invites/guest`, {
+    method: 'DELETE',
+    headers: authHeaders(),
+  });
+  if (!res.ok) {
+    const errData = await res.json().catch(() => ({}));
+    throw new Error(errData.error || 'Failed to revoke invite link');
+  }
+}
+
+/** Keep the invite token a guest arrived with, until join-room uses it */
+export function rememberInviteToken(roomId: string, token: string): void {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + roomId, token);
+  } catch {
+    // Storage full or disabled — join-room goes out without the invite
+  }
+}
+
+export function getInviteToken(roomId: string): string | null {
+  return localStorage.getItem(STORAGE_PREFIX + roomId);
+}
+
+export function forgetInviteToken(roomId: string): void {
+  localStorage.removeItem(STORAGE_PREFIX + roomId);
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+function inviteUrl(meetingId: string, token: string): string {
+  const params = new URLSearchParams({ room: meetingId, invite: token });
+  return `${window.location.origin}/?${params}`;
+}
@@ -0,0 +1,39 @@
+/**
+ * meetingAccessService.ts — Meeting tokens for the recordings API.
+ *
+ * /api/recordings/:meetingId/* only answers the meeting's participants,
+ * admins and granted reviewers. Participants prove they joined the room
+ * with the meeting token the server sends in `room-state` (accessToken),
+ * passed back in the X-Meeting-Token header.
+ *
+ * Tokens are kept in localStorage per room (`meetingToken:{roomId}`), so
+ * the Results page still has one after a reload or when opened later from
+ * the same browser. They expire server-side after MEETING_TOKEN_EXPIRY; a
+ * stale one is simply replaced by the next `room-state`.
+ *
+ * The same token is the participant's identity for the room: socketService
+ * sends it in the Socket.IO handshake so a reconnect resumes their session.
+ */
+
+const STORAGE_PREFIX = 'meetingToken:';
+
+/** Keep the meeting token issued for `roomId` */
+export function rememberMeetingToken(roomId: string, token: string | null | undefined): void {
+  if (!token) return;
+  try {
+    localStorage.setItem(STORAGE_PREFIX + roomId, token);
+  } catch {
+    // Storage full or disabled — requests go out without the token
+  }
+}
+
+/** The meeting token kept for `roomId`, or null */
+export function getMeetingToken(roomId: string): string | null {
+  return localStorage.getItem(STORAGE_PREFIX + roomId);
+}
+
+/** Headers that authorize a recordings API request for `roomId` (empty if no token) */
+export function meetingAccessHeaders(roomId: string): Record<string, string> {
+  const token = getMeetingToken(roomId);
+  return token ? { 'X-Meeting-Token': token } : {};
+}
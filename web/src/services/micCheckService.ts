@@ -0,0 +1,31 @@
+/**
+ * micCheckService.ts — The GreenRoom's mic check, carried into the Studio.
+ *
+ * The GreenRoom's socket closes when it navigates to the Studio, and with
+ * it the server's record of the check. So the GreenRoom keeps the metrics
+ * of its last check per room (`micCheck:{roomId}`, sessionStorage — it
+ * only describes this visit's setup) and Studio sends them with join-room.
+ * A guest held in the waiting room is listed to the host with the result.
+ */
+
+import type { MicCheckPayload } from '../shared';
+
+const STORAGE_PREFIX = 'micCheck:';
+
+/** Keep the GreenRoom's mic check for `roomId` */
+export function rememberMicCheck(roomId: string, check: MicCheckPayload): void {
+  try {
+    sessionStorage.setItem(STORAGE_PREFIX + roomId, JSON.stringify(check));
+  } catch {
+    // Storage full or disabled — the host sees no mic check
+  }
+}
+
+/** The mic check kept for `roomId`, or null */
+export function getMicCheck(roomId: string): MicCheckPayload | null {
+  try {
+    return JSON.parse(sessionStorage.getItem(STORAGE_PREFIX + roomId) || 'null');
+  } catch {
+    return null;
+  }
+}
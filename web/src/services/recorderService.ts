@@ -12,11 +12,13 @@
  *                                              ↓
  *                                     Float32Array chunks
  *                                       ↓              ↓
- *                                   Memory array    IndexedDB
+ *                              10MB PCM segments    IndexedDB
  *                                       ↓              (crash recovery)
- *                                   encodeWAV()
- *                                       ↓
- *                                   Blob (audio/wav)
+ *                              S3 multipart parts
+ *                              (uploaded as recorded)
+ *
+ * Without an upload target, chunks are kept in a memory array instead and
+ * encodeWAV() turns them into a Blob (audio/wav) on stop.
  *
  * ## AudioWorklet vs ScriptProcessor
  *
@@ -24,25 +26,61 @@
  * audio thread with guaranteed timing. Falls back to ScriptProcessorNode
  * (deprecated but widely supported) if AudioWorklet fails to load.
  *
+ * ## Progressive Upload
+ *
+ * When started with an upload target (roomId, userId, sessionId), the
+ * recorder opens an S3 multipart upload right away and converts each chunk
+ * straight to Int16 PCM in a 10MB segment buffer. Every full segment is
+ * queued and uploaded as the next part while recording continues, so memory
+ * stays at roughly one segment and "stop" only has to flush the tail and
+ * call /complete. Part 1 starts with a placeholder header (see
+ * writeStreamingHeader) that the server patches from its temp copy.
+ *
+ * If a part can't be uploaded after retries, the stream is abandoned and
+ * stop uploads the take again from the IndexedDB backup (see Rebuilding
+ * From the Backup).
+ *
+ * ## Background Hand-off
+ *
+ * When the upload service worker is available, stop doesn't upload the tail
+ * itself: it saves the parts S3 doesn't have yet (the tail plus any still
+ * queued) and the upload state to IndexedDB, and hands them to the worker
+ * (backgroundUploadService), which completes the upload even if the tab is
+ * closed right away. The IndexedDB chunk backup is then left for the worker
+ * to clear once the upload has completed.
+ *
  * ## IndexedDB Persistence
  *
  * Every chunk is written to IndexedDB (fire-and-forget, non-blocking) so that
  * if the browser crashes mid-recording, the chunks can be recovered and
- * re-encoded into a WAV file on the next session.
+ * uploaded on the next session.
+ *
+ * ## Rebuilding From the Backup
+ *
+ * Crash recovery and a failed stream both upload the take from its
+ * IndexedDB chunks through a fresh streaming upload: the chunks are read
+ * back a batch at a time and fed through the same PART_SIZE segments as a
+ * live recording, each batch's parts uploaded before the next is read. So
+ * memory stays at about one part however long the take — the whole file
+ * never has to fit in one Blob or ArrayBuffer, and a take over 4 GB gets
+ * its RF64 header from the server exactly as when streamed live.
  *
  * ## WAV Encoding
  *
- * On stop, all Float32Array chunks are concatenated and encoded into a
- * standard WAV file with:
+ * Used on stop when recording without an upload target. All Float32Array
+ * chunks are concatenated and encoded into a standard WAV file with:
  *   - RIFF header (44 bytes)
  *   - fmt chunk: PCM, 1 channel, 48kHz, 16-bit
  *   - data chunk: interleaved Int16 samples
  *
+ * RIFF size fields are 32-bit, so a take whose file would exceed 4 GB
+ * (~12.4 hours at 48kHz/16-bit mono) is written as RF64 instead: an 80-byte
+ * header whose ds64 chunk carries 64-bit sizes, with the 32-bit fields
+ * set to 0xFFFFFFFF.
+ *
  * The WAV header contains the correct file size, so simple uploads work
- * out of the box. For multipart uploads, the server patches bytes 4-7
- * (ChunkSize) and 40-43 (Subchunk2Size) because the client knows the
- * total size at encoding time but the multipart upload API needs them
- * adjusted after Part 1 is cached in a temp location.
+ * out of the box. For multipart uploads, the server re-patches the size
+ * fields (RIFF or ds64) after Part 1 is cached in a temp location.
  *
  * ## Module State
  *
@@ -52,7 +90,24 @@
  * 3. Only one recording can be active at a time (single-instance service)
  */
 
-import { storeChunk, getChunks, clearChunks } from './storageService';
+import { storeChunk, getChunkBatch, clearChunks } from './storageService';
+import {
+  PART_SIZE,
+  estimateEta,
+  initiateStreamingUpload,
+  uploadStreamingPart,
+  completeStreamingUpload,
+  abortStreamingUpload,
+  uploadStateKey,
+} from './uploadService';
+import {
+  isBackgroundUploadAvailable,
+  startBackgroundUpload,
+  waitForBackgroundUpload,
+} from './backgroundUploadService';
+import { saveUploadState } from './storageService';
+import type { OnProgress, StreamingUploadHandle, StreamingUploadTarget } from './uploadService';
+import type { CompletePart } from '../shared';
 
 export interface RecorderState {
   isRecording: boolean;
@@ -84,32 +139,73 @@ let state: RecorderState = {
   sampleRate: 48000,
 };
 
+/** Most recent IndexedDB chunk write — awaited before reading chunks back */
+let lastChunkWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Progressive upload of the recording in progress — null when recording
+ * without an upload target (chunks are then kept in `state.chunks`).
+ */
+interface StreamingState {
+  target: StreamingUploadTarget;          // Where the recording goes
+  handle: Promise<StreamingUploadHandle>;  // Resolves once /initiate returns
+  segment: DataView<ArrayBuffer>;         // Part currently being filled (PART_SIZE bytes)
+  segmentLength: number;                  // Bytes written into `segment`
+  partNumber: number;                     // Part number `segment` will be uploaded as
+  queue: Promise<void>;                   // Serial chain of part uploads
+  parts: CompletePart[];                  // Uploaded parts with their SHA-256 checksums
+  pending: Map<number, Blob>;             // Queued parts not yet confirmed, by part number
+  totalBytes: number;                     // Header + PCM bytes captured so far
+  uploadedBytes: number;                  // Bytes confirmed by S3
+  failed: boolean;                        // A part failed for good — fall back at stop
+  handedOff: boolean;                     // The upload worker took over the remaining parts
+  onProgress: OnProgress | null;          // Set at stop to report the flush
+  flushStartedAt: number;                 // performance.now() when stop began the flush
+  flushStartBytes: number;                // uploadedBytes when stop began the flush
+}
+
+let streaming: StreamingState | null = null;
+
 /**
  * Start recording from the given MediaStream.
  *
  * Sets up the audio pipeline (AudioWorklet preferred, ScriptProcessor fallback)
- * and begins collecting Float32Array chunks in memory + IndexedDB.
+ * and begins collecting Float32Array chunks in memory + IndexedDB. With an
+ * upload target, chunks are converted to PCM and streamed to S3 in 10MB
+ * parts instead of being kept in memory.
  *
  * @param stream — MediaStream from getUserMedia (should have raw audio constraints)
  * @param sessionKey — Identifier for IndexedDB persistence (roomId:userId:sessionId)
+ * @param uploadTarget — Where to upload progressively (omit to encode everything at stop)
  */
-export async function startRecording(stream: MediaStream, sessionKey?: string): Promise<void> {
+export async function startRecording(
+  stream: MediaStream,
+  sessionKey?: string,
+  uploadTarget?: StreamingUploadTarget,
+): Promise<void> {
   currentSessionKey = sessionKey || `recording:${Date.now()}`;
   chunkIndex = 0;
+  state.chunks = [];
 
   audioContext = new AudioContext({ sampleRate: 48000 });
   state.sampleRate = audioContext.sampleRate;
+  streaming = uploadTarget ? beginStreaming(uploadTarget, state.sampleRate) : null;
 
   mediaStreamSource = audioContext.createMediaStreamSource(stream);
 
   /**
    * Chunk handler — called for every audio buffer from the worklet/processor.
-   * Stores in memory (for encoding) and IndexedDB (for crash recovery).
+   * Streams (or stores in memory, for encoding) and writes to IndexedDB
+   * (for crash recovery).
    */
   const onChunk = (chunk: Float32Array) => {
-    state.chunks.push(chunk);
+    if (streaming) {
+      appendToStream(streaming, chunk);
+    } else {
+      state.chunks.push(chunk);
+    }
     // Fire-and-forget IndexedDB write — non-blocking to avoid audio glitches
-    storeChunk(currentSessionKey!, chunkIndex++, chunk).catch((err) =>
+    lastChunkWrite = storeChunk(currentSessionKey!, chunkIndex++, chunk).catch((err) =>
       console.warn('Failed to persist chunk to IndexedDB:', err),
     );
   };
@@ -143,18 +239,26 @@ export async function startRecording(stream: MediaStream, sessionKey?: string):
 
   state.isRecording = true;
   state.startedAt = Date.now();
-  state.chunks = [];
 }
 
 /**
- * Stop recording and return the encoded WAV blob.
+ * Stop recording and return whatever still needs uploading.
+ *
+ * Disconnects all audio nodes and closes the AudioContext. When streaming,
+ * uploads the tail segment and completes the multipart upload (reporting
+ * progress via `onProgress`) — through the upload service worker when it's
+ * available, so closing the tab doesn't lose the tail; otherwise encodes
+ * the accumulated chunks into a WAV file. The IndexedDB backup is cleared
+ * once the audio is safe (by the worker, for a hand-off).
  *
- * Disconnects all audio nodes, closes the AudioContext, encodes accumulated
- * Float32Array chunks into a WAV file, and clears the IndexedDB backup.
+ * If the streaming upload failed along the way, the recording is uploaded
+ * again from the IndexedDB backup, one part at a time (see Rebuilding From
+ * the Backup). If that fails too, the backup is kept for crash recovery.
  *
- * @returns WAV Blob (audio/wav, 48kHz 16-bit PCM), or null if no audio was captured
+ * @returns WAV Blob (audio/wav, 48kHz 16-bit PCM) still to be uploaded, or
+ *          null if it was already uploaded or no audio was captured
  */
-export function stopRecording(): Blob | null {
+export async function stopRecording(onProgress?: OnProgress): Promise<Blob | null> {
   state.isRecording = false;
 
   // Disconnect and clean up audio nodes
@@ -171,17 +275,42 @@ export function stopRecording(): Blob | null {
     audioContext = null;
   }
 
-  if (state.chunks.length === 0) return null;
-
-  // Encode all chunks into a single WAV file
-  const wavBlob = encodeWAV(state.chunks, state.sampleRate);
-  state.chunks = [];
+  const sessionKey = currentSessionKey;
+  const stream = streaming;
+  const sampleRate = state.sampleRate;
+  currentSessionKey = null;
+  streaming = null;
   state.startedAt = null;
 
-  // Clear IndexedDB backup after successful encoding
-  if (currentSessionKey) {
-    clearChunks(currentSessionKey).catch(() => {});
-    currentSessionKey = null;
+  let wavBlob: Blob | null = null;
+  let handOffKey: string | null = null;
+
+  if (stream) {
+    try {
+      handOffKey = await handOffStreaming(stream, sessionKey);
+      if (!handOffKey) await finishStreaming(stream, onProgress);
+    } catch (err) {
+      console.warn('Streaming upload failed, uploading again from local backup:', (err as Error).message);
+      stream.handle.then(abortStreamingUpload, () => {});
+      await lastChunkWrite;
+      if (sessionKey) await uploadFromBackup(sessionKey, stream.target, sampleRate, onProgress);
+    }
+  } else if (state.chunks.length > 0) {
+    // Encode all chunks into a single WAV file
+    wavBlob = encodeWAV(state.chunks, sampleRate);
+    state.chunks = [];
+  }
+
+  if (handOffKey) {
+    // The worker clears the backup itself once the upload has completed
+    await waitForBackgroundUpload(handOffKey, onProgress);
+    return null;
+  }
+
+  // Clear IndexedDB backup now that the audio is uploaded or encoded
+  if (sessionKey) {
+    await lastChunkWrite;
+    clearChunks(sessionKey).catch(() => {});
   }
 
   return wavBlob;
@@ -190,18 +319,20 @@ export function stopRecording(): Blob | null {
 /**
  * Recover a recording from IndexedDB after a browser crash.
  *
- * Reads all stored Float32Array chunks for the given session key,
- * re-encodes them into a WAV blob, and clears the IndexedDB entries.
+ * Uploads the stored Float32Array chunks for the given session key to
+ * `target`, one part at a time (see Rebuilding From the Backup), then
+ * clears the IndexedDB entries. Nothing is uploaded if no chunks are found.
  *
  * @param sessionKey — The session key used when startRecording was called
- * @returns WAV Blob, or null if no chunks found
+ * @param target — The room, participant and session it was recorded in
  */
-export async function recoverRecording(sessionKey: string): Promise<Blob | null> {
-  const chunks = await getChunks(sessionKey);
-  if (chunks.length === 0) return null;
-  const blob = encodeWAV(chunks, 48000);
+export async function recoverRecording(
+  sessionKey: string,
+  target: StreamingUploadTarget,
+  onProgress?: OnProgress,
+): Promise<void> {
+  await uploadFromBackup(sessionKey, target, 48000, onProgress);
   await clearChunks(sessionKey);
-  return blob;
 }
 
 /** Get a snapshot of the current recording state (for debugging/testing) */
@@ -209,8 +340,210 @@ export function getRecorderState(): RecorderState {
   return { ...state };
 }
 
+// ─── Progressive Upload ───────────────────────────────────────────
+// PCM is written straight into a PART_SIZE buffer. Each time it fills, the
+// buffer is copied into a Blob and queued for upload as the next part; the
+// queue runs one part at a time, in order, in the background. Part 1 starts
+// with a streaming WAV header whose sizes are patched by the server.
+
+/** Bytes per 16-bit mono sample */
+const BYTES_PER_SAMPLE = 2;
+
+/** Size of the streaming header (RIFF + JUNK + fmt + data) — same as RF64 */
+const STREAMING_HEADER_SIZE = 80;
+
+/** IndexedDB chunks read per batch when uploading from the backup — one part of 4096-sample chunks */
+const BACKUP_BATCH_CHUNKS = PART_SIZE / (4096 * BYTES_PER_SAMPLE);
+
+function beginStreaming(target: StreamingUploadTarget, sampleRate: number): StreamingState {
+  const handle = initiateStreamingUpload(target);
+  const stream: StreamingState = {
+    target,
+    handle,
+    segment: new DataView(new ArrayBuffer(PART_SIZE)),
+    segmentLength: STREAMING_HEADER_SIZE,
+    partNumber: 1,
+    queue: Promise.resolve(),
+    parts: [],
+    pending: new Map(),
+    totalBytes: STREAMING_HEADER_SIZE,
+    uploadedBytes: 0,
+    failed: false,
+    handedOff: false,
+    onProgress: null,
+    flushStartedAt: 0,
+    flushStartBytes: 0,
+  };
+
+  writeStreamingHeader(stream.segment, sampleRate);
+  stream.queue = handle.then(
+    () => {},
+    (err) => {
+      stream.failed = true;
+      console.warn('Could not start streaming upload:', (err as Error).message);
+    },
+  );
+  return stream;
+}
+
+/** Convert a chunk to Int16 PCM and append it, queueing every full segment */
+function appendToStream(stream: StreamingState, chunk: Float32Array): void {
+  for (let i = 0; i < chunk.length; i++) {
+    const sample = Math.max(-1, Math.min(1, chunk[i])); // Clamp to valid range
+    stream.segment.setInt16(stream.segmentLength, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
+    stream.segmentLength += BYTES_PER_SAMPLE;
+    if (stream.segmentLength === PART_SIZE) queueSegment(stream);
+  }
+  stream.totalBytes += chunk.length * BYTES_PER_SAMPLE;
+}
+
+/** Hand the current segment to the upload queue and start a new one */
+function queueSegment(stream: StreamingState): void {
+  const partNumber = stream.partNumber++;
+  // Blob copies the bytes, so the segment buffer can be reused right away
+  const blob = new Blob([new Uint8Array(stream.segment.buffer, 0, stream.segmentLength)]);
+  stream.segmentLength = 0;
+  if (stream.failed) return;
+
+  stream.pending.set(partNumber, blob);
+  stream.queue = stream.queue.then(async () => {
+    if (stream.failed || stream.handedOff) return;
+    try {
+      const handle = await stream.handle;
+      stream.parts.push(await uploadStreamingPart(handle, partNumber, blob));
+      stream.pending.delete(partNumber);
+      stream.uploadedBytes += blob.size;
+      reportStreamingProgress(stream, partNumber);
+    } catch (err) {
+      stream.failed = true;
+      console.warn(`Streaming upload of part ${partNumber} failed:`, (err as Error).message);
+    }
+  });
+}
+
+/** Upload the tail segment, wait for the queue to drain, and complete the upload */
+async function finishStreaming(stream: StreamingState, onProgress?: OnProgress): Promise<void> {
+  stream.onProgress = onProgress ?? null;
+  stream.flushStartedAt = performance.now();
+  stream.flushStartBytes = stream.uploadedBytes;
+
+  if (stream.totalBytes === STREAMING_HEADER_SIZE) {
+    // Nothing was captured — drop the upload rather than store an empty file
+    stream.handle.then(abortStreamingUpload, () => {});
+    return;
+  }
+
+  if (stream.segmentLength > 0) queueSegment(stream);
+  reportStreamingProgress(stream, 0);
+  await stream.queue;
+  if (stream.failed) throw new Error('A part could not be uploaded');
+
+  await completeStreamingUpload(await stream.handle, stream.parts);
+  reportStreamingProgress(stream, stream.partNumber - 1);
+}
+
+/**
+ * Give the rest of a streaming upload to the upload service worker: the
+ * parts not yet confirmed (queued segments plus the tail) become one blob
+ * starting at the first of them, saved with the upload state so the worker
+ * can finish the multipart upload on its own. The in-page queue stops
+ * picking up parts; one already in flight may finish, which the worker
+ * sees when it lists the uploaded parts.
+ *
+ * @returns The pending-upload sessionKey, or null to finish in the page
+ *          (worker unavailable, stream failed, or nothing was captured)
+ */
+async function handOffStreaming(stream: StreamingState, recoveryKey: string | null): Promise<string | null> {
+  if (!isBackgroundUploadAvailable() || stream.failed || stream.totalBytes === STREAMING_HEADER_SIZE) {
+    return null;
+  }
+  const handle = await stream.handle;
+
+  stream.handedOff = true;
+  if (stream.segmentLength > 0) {
+    const tail = new Blob([new Uint8Array(stream.segment.buffer, 0, stream.segmentLength)]);
+    stream.pending.set(stream.partNumber++, tail);
+    stream.segmentLength = 0;
+  }
+
+  const partNumbers = [...stream.pending.keys()].sort((a, b) => a - b);
+  const sessionKey = uploadStateKey(handle.roomId, handle.participantName, handle.sessionId);
+  await saveUploadState({
+    sessionKey,
+    uploadId: handle.uploadId,
+    key: handle.key,
+    roomId: handle.roomId,
+    participantName: handle.participantName,
+    sessionId: handle.sessionId,
+    totalParts: stream.partNumber - 1,
+    completedParts: [...stream.parts],
+    blobSize: stream.totalBytes,
+    createdAt: Date.now(),
+  });
+  await startBackgroundUpload({
+    sessionKey,
+    roomId: handle.roomId,
+    participantName: handle.participantName,
+    sessionId: handle.sessionId,
+    blob: new Blob(partNumbers.map((pn) => stream.pending.get(pn)!)),
+    firstPartNumber: partNumbers[0] ?? stream.partNumber,
+    recoveryKey,
+  });
+  return sessionKey;
+}
+
+/**
+ * Upload a recording from its IndexedDB chunks as a new streaming upload.
+ * Reads a batch of chunks, converts them into segments as appendToStream
+ * does while recording, and waits for their parts before reading the next,
+ * so only about a part's worth is ever held. Progress covers the whole take.
+ */
+async function uploadFromBackup(
+  sessionKey: string,
+  target: StreamingUploadTarget,
+  sampleRate: number,
+  onProgress?: OnProgress,
+): Promise<void> {
+  const stream = beginStreaming(target, sampleRate);
+  stream.onProgress = onProgress ?? null;
+  stream.flushStartedAt = performance.now();
+
+  let afterId: number | null = null;
+  for (;;) {
+    const batch = await getChunkBatch(sessionKey, afterId, BACKUP_BATCH_CHUNKS);
+    if (batch.chunks.length === 0) break;
+    for (const chunk of batch.chunks) appendToStream(stream, chunk);
+    afterId = batch.lastId;
+
+    await stream.queue;
+    if (stream.failed) {
+      stream.handle.then(abortStreamingUpload, () => {});
+      throw new Error('A part could not be uploaded');
+    }
+  }
+
+  await finishStreaming(stream, onProgress);
+}
+
+function reportStreamingProgress(stream: StreamingState, partNumber: number): void {
+  stream.onProgress?.({
+    loaded: stream.uploadedBytes,
+    total: stream.totalBytes,
+    percent: Math.round((stream.uploadedBytes / stream.totalBytes) * 100),
+    partNumber,
+    etaSeconds: estimateEta(
+      stream.flushStartedAt,
+      stream.uploadedBytes - stream.flushStartBytes,
+      stream.totalBytes - stream.uploadedBytes,
+    ),
+  });
+}
+
 // ─── WAV Encoding ─────────────────────────────────────────────────
 
+/** Largest value a 32-bit RIFF size field can hold */
+const RIFF_MAX_SIZE = 0xFFFFFFFF;
+
 /**
  * Encode Float32Array audio chunks into a WAV file.
  *
@@ -230,48 +563,122 @@ export function getRecorderState(): RecorderState {
  *   Bytes 40-43: Subchunk2Size = total_samples × bytes_per_sample
  *   Bytes 44+:   PCM sample data (Int16, little-endian)
  *
- * Note: For multipart uploads, the server patches bytes 4-7 and 40-43
- * with the correct sizes after reassembling all parts.
+ * RF64 format (when ChunkSize would overflow 32 bits):
+ *   Bytes 0-3:   "RF64" magic
+ *   Bytes 4-7:   0xFFFFFFFF (real size in ds64)
+ *   Bytes 8-11:  "WAVE" format
+ *   Bytes 12-15: "ds64" subchunk
+ *   Bytes 16-19: ds64 size = 28
+ *   Bytes 20-27: RiffSize (u64) = file_size - 8
+ *   Bytes 28-35: DataSize (u64) = total_samples × bytes_per_sample
+ *   Bytes 36-43: SampleCount (u64) = total_samples
+ *   Bytes 44-47: TableLength = 0
+ *   Bytes 48-71: "fmt " subchunk (same as RIFF bytes 12-35)
+ *   Bytes 72-75: "data" subchunk
+ *   Bytes 76-79: 0xFFFFFFFF (real size in ds64)
+ *   Bytes 80+:   PCM sample data (Int16, little-endian)
+ *
+ * The samples are converted chunk by chunk and assembled as Blob parts, so
+ * no single ArrayBuffer has to hold the whole file (browsers cap those well
+ * below 4 GB).
+ *
+ * Note: For multipart uploads, the server patches the size fields
+ * again after reassembling all parts.
  */
 function encodeWAV(chunks: Float32Array[], sampleRate: number): Blob {
   const totalSamples = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
-  const bytesPerSample = 2; // 16-bit
-  const numChannels = 1;    // Mono
-  const dataSize = totalSamples * bytesPerSample;
-  const headerSize = 44;
-  const buffer = new ArrayBuffer(headerSize + dataSize);
-  const view = new DataView(buffer);
-
-  // RIFF header
-  writeString(view, 0, 'RIFF');
-  view.setUint32(4, headerSize + dataSize - 8, true); // ChunkSize
-  writeString(view, 8, 'WAVE');
-
-  // fmt subchunk
-  writeString(view, 12, 'fmt ');
-  view.setUint32(16, 16, true);                                     // Subchunk1Size (16 for PCM)
-  view.setUint16(20, 1, true);                                      // AudioFormat (1 = PCM)
-  view.setUint16(22, numChannels, true);                             // NumChannels
-  view.setUint32(24, sampleRate, true);                              // SampleRate
-  view.setUint32(28, sampleRate * numChannels * bytesPerSample, true); // ByteRate
-  view.setUint16(32, numChannels * bytesPerSample, true);            // BlockAlign
-  view.setUint16(34, bytesPerSample * 8, true);                     // BitsPerSample
+  const dataSize = totalSamples * BYTES_PER_SAMPLE;
+  const isRF64 = 44 + dataSize - 8 > RIFF_MAX_SIZE;
+  const headerSize = isRF64 ? 80 : 44;
+  const header = new ArrayBuffer(headerSize);
+  const view = new DataView(header);
+
+  // RIFF / RF64 header
+  const offset = isRF64 ? 48 : 12;
+  if (isRF64) {
+    writeString(view, 0, 'RF64');
+    view.setUint32(4, RIFF_MAX_SIZE, true);                                       // ChunkSize (see ds64)
+    writeString(view, 8, 'WAVE');
+
+    // ds64 subchunk — 64-bit sizes
+    writeString(view, 12, 'ds64');
+    view.setUint32(16, 28, true);                                                 // ds64 size
+    setUint64(view, 20, headerSize + dataSize - 8);                               // RiffSize
+    setUint64(view, 28, dataSize);                                                // DataSize
+    setUint64(view, 36, totalSamples);                                            // SampleCount
+    view.setUint32(44, 0, true);                                                  // TableLength
+  } else {
+    writeString(view, 0, 'RIFF');
+    view.setUint32(4, headerSize + dataSize - 8, true);                           // ChunkSize
+    writeString(view, 8, 'WAVE');
+  }
 
-  // data subchunk
-  writeString(view, 36, 'data');
-  view.setUint32(40, dataSize, true); // Subchunk2Size
+  writeFmtAndDataHeaders(view, offset, sampleRate, isRF64 ? RIFF_MAX_SIZE : dataSize);
 
   // Write PCM samples — convert Float32 [-1.0, 1.0] to Int16 [-32768, 32767]
-  let offset = headerSize;
+  // (Int16Array uses platform byte order, which is little-endian in every browser)
+  const parts: BlobPart[] = [header];
   for (const chunk of chunks) {
+    const pcm = new Int16Array(chunk.length);
     for (let i = 0; i < chunk.length; i++) {
       const sample = Math.max(-1, Math.min(1, chunk[i])); // Clamp to valid range
-      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
-      offset += bytesPerSample;
+      pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
     }
+    parts.push(pcm);
   }
 
-  return new Blob([buffer], { type: 'audio/wav' });
+  return new Blob(parts, { type: 'audio/wav' });
+}
+
+/**
+ * Write the fmt and data subchunk headers (32 bytes) at `offset`:
+ * PCM, mono, 16-bit at `sampleRate`, followed by "data" + its size field.
+ */
+function writeFmtAndDataHeaders(
+  view: DataView,
+  offset: number,
+  sampleRate: number,
+  dataSizeField: number,
+): void {
+  const numChannels = 1; // Mono
+
+  // fmt subchunk
+  writeString(view, offset, 'fmt ');
+  view.setUint32(offset + 4, 16, true);                                            // Subchunk1Size (16 for PCM)
+  view.setUint16(offset + 8, 1, true);                                             // AudioFormat (1 = PCM)
+  view.setUint16(offset + 10, numChannels, true);                                  // NumChannels
+  view.setUint32(offset + 12, sampleRate, true);                                   // SampleRate
+  view.setUint32(offset + 16, sampleRate * numChannels * BYTES_PER_SAMPLE, true);  // ByteRate
+  view.setUint16(offset + 20, numChannels * BYTES_PER_SAMPLE, true);               // BlockAlign
+  view.setUint16(offset + 22, BYTES_PER_SAMPLE * 8, true);                         // BitsPerSample
+
+  // data subchunk
+  writeString(view, offset + 24, 'data');
+  view.setUint32(offset + 28, dataSizeField, true);                                // Subchunk2Size
+}
+
+/**
+ * Write the header for a progressively uploaded recording. The final size
+ * isn't known yet, so the size fields stay zero for the server to patch,
+ * and a 28-byte JUNK chunk reserves the ds64 slot in case the take ends up
+ * over 4 GB (same 80-byte layout as RF64):
+ *   Bytes 0-11:  "RIFF", ChunkSize = 0, "WAVE"
+ *   Bytes 12-47: "JUNK", size 28, zeroed body (becomes ds64 if needed)
+ *   Bytes 48-79: fmt + data subchunks, Subchunk2Size = 0
+ */
+function writeStreamingHeader(view: DataView, sampleRate: number): void {
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 0, true);   // ChunkSize (patched by the server)
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'JUNK');
+  view.setUint32(16, 28, true); // Reserved for ds64
+  writeFmtAndDataHeaders(view, 48, sampleRate, 0);
+}
+
+/** Write a 64-bit little-endian unsigned integer (exact up to 2^53) */
+function setUint64(view: DataView, offset: number, value: number): void {
+  view.setUint32(offset, value % 0x100000000, true);
+  view.setUint32(offset + 4, Math.floor(value / 0x100000000), true);
 }
 
 /** Write an ASCII string into a DataView at the given byte offset */
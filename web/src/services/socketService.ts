@@ -12,6 +12,8 @@
  * - **Credentials**: Enabled for cross-origin cookie/session support
  * - **Auto-connect**: Disabled — caller must explicitly call connectSocket()
  * - **Reconnection**: Up to 5 attempts, 1-5 second exponential backoff
+ * - **Auth**: Handshake credentials (SocketAuthPayload), re-read on every
+ *   (re)connect — see Identity below
  *
  * ## Usage Pattern
  *
@@ -31,6 +33,15 @@
  *   unmount → disconnectSocket()
  * ```
  *
+ * ## Identity
+ *
+ * The server decides who a socket is from its handshake, not from join-room:
+ * the signed-in user's JWT if there is one, else the meeting token
+ * (room-state's accessToken) stored for the room passed to connectSocket(),
+ * else nothing — and the server assigns a new userId, returned in room-state.
+ * Sending the meeting token is what lets a reload or reconnect resume the
+ * same participant session.
+ *
  * ## Why Singleton?
  *
  * Socket.IO's server matches sockets by ID. If multiple connections existed,
@@ -46,6 +57,9 @@
  */
 
 import { io, Socket } from 'socket.io-client';
+import type { SocketAuthPayload } from '../shared';
+import { getAuthToken } from './authService';
+import { getMeetingToken } from './meetingAccessService';
 
 /** Server URL — empty string means same-origin (Vite proxy in dev) */
 const SERVER_URL = import.meta.env.VITE_SERVER_URL || '';
@@ -53,6 +67,9 @@ const SERVER_URL = import.meta.env.VITE_SERVER_URL || '';
 /** Singleton socket instance — null until first getSocket() call */
 let socket: Socket | null = null;
 
+/** Room whose meeting token the handshake sends — set by connectSocket() */
+let authRoomId: string | null = null;
+
 /**
  * Get or create the singleton Socket.IO instance.
  * Does NOT auto-connect — call connectSocket() to establish the connection.
@@ -67,16 +84,19 @@ export function getSocket(): Socket {
       reconnectionAttempts: 5,           // Give up after 5 failed attempts
       reconnectionDelay: 1000,           // Start with 1s delay
       reconnectionDelayMax: 5000,        // Max 5s between attempts
+      auth: (cb) => cb(handshakeAuth()), // Evaluated on every (re)connect
     });
   }
   return socket;
 }
 
 /**
- * Connect the socket if not already connected.
+ * Connect the socket if not already connected, authenticating as the
+ * participant of `roomId` (see Identity above).
  * Returns the socket instance for immediate use.
  */
-export function connectSocket(): Socket {
+export function connectSocket(roomId?: string): Socket {
+  if (roomId) authRoomId = roomId;
   const s = getSocket();
   if (!s.connected) {
     s.connect();
@@ -93,3 +113,11 @@ export function disconnectSocket(): void {
     socket.disconnect();
   }
 }
+
+/** Credentials for the next handshake: JWT if signed in, else this room's meeting token */
+function handshakeAuth(): SocketAuthPayload {
+  const token = getAuthToken();
+  if (token) return { token };
+  const meetingToken = authRoomId ? getMeetingToken(authRoomId) : null;
+  return meetingToken ? { meetingToken } : {};
+}
@@ -0,0 +1,43 @@
+/**
+ * speakerProfileService.ts — The participant's speaker profile.
+ *
+ * Home collects language, accent, age band and gender; the GreenRoom adds
+ * the microphone (device type and label). The profile is kept in this
+ * browser (`speakerProfile`, JSON) so returning participants don't fill it
+ * in again, and is sent with join-room. The server stores it on the
+ * Session and copies it onto each Recording for dataset provenance.
+ *
+ * Everything but language is optional.
+ */
+
+import type { SpeakerProfile } from '../shared';
+
+const STORAGE_KEY = 'speakerProfile';
+
+/** The saved profile, with language defaulting to the browser's */
+export function getSpeakerProfile(): SpeakerProfile {
+  const empty: SpeakerProfile = {
+    language: navigator.language || 'en',
+    accent: null,
+    ageBand: null,
+    gender: null,
+    deviceType: null,
+    deviceLabel: null,
+  };
+  try {
+    return { ...empty, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return empty;
+  }
+}
+
+/** Merge `changes` into the saved profile and return the result */
+export function saveSpeakerProfile(changes: Partial<SpeakerProfile>): SpeakerProfile {
+  const profile = { ...getSpeakerProfile(), ...changes };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch {
+    // Storage full or disabled — join-room sends the browser defaults
+  }
+  return profile;
+}
@@ -1,13 +1,13 @@
 /**
  * storageService.ts — IndexedDB persistence for recording recovery and upload resume.
  *
- * Provides two object stores for crash-resilient data persistence:
+ * Provides three object stores for crash-resilient data persistence:
  *
  * ## 1. recording-chunks Store
  *
  * Stores raw Float32Array audio chunks during an active recording. If the
  * browser crashes or the tab is closed, these chunks can be re-read and
- * encoded into a WAV file on the next session.
+ * uploaded on the next session.
  *
  * Schema:
  *   - id (auto-increment primary key)
@@ -29,22 +29,42 @@
  *   - uploadId: string — S3 multipart upload ID
  *   - key: string — S3 object key
  *   - roomId, participantName, sessionId — upload metadata
- *   - totalParts: number — total number of parts expected
+ *   - totalParts: number — parts planned so far (the total once all are planned)
+ *   - partRanges?: Array<{PartNumber, start, end}> — byte range of each planned
+ *     part (whole-file uploads size parts adaptively)
  *   - completedParts: Array<{PartNumber, ETag}> — already uploaded parts
  *   - blobSize: number — total file size (for validation on resume)
  *   - createdAt: number — timestamp
  *
+ * ## 3. pending-uploads Store
+ *
+ * Uploads handed to the upload service worker, so they finish even if the
+ * tab is closed. The blob is either a whole encoded WAV or, for a recording
+ * streamed while it was captured, the parts of it S3 doesn't have yet.
+ *
+ * Schema:
+ *   - sessionKey (primary key) — same key as the upload-state record
+ *   - roomId, participantName, sessionId — upload metadata
+ *   - blob: Blob — the encoded WAV (or its not-yet-uploaded parts)
+ *   - firstPartNumber: number | null — part the blob starts at (streamed only)
+ *   - recoveryKey: string | null — recording-chunks to clear once uploaded
+ *   - uploadToken: string | null — the server-issued upload token to send
+ *   - meetingToken: string | null — renews uploadToken once it has expired
+ *   - attempts: number — failed background attempts so far
+ *   - createdAt: number — timestamp
+ *
  * ## Database
  *
  * - Name: 'audio-studio'
- * - Version: 1
+ * - Version: 2 (v2 added pending-uploads)
  * - Lazy initialization via singleton Promise (opened once, reused)
  *
  * ## Usage
  *
  * Recording chunks:
  *   storeChunk() — called by recorderService on each AudioWorklet buffer
- *   getChunks() — called during recovery to rebuild the WAV
+ *   getChunkBatch() — called during recovery to rebuild the WAV one part
+ *     at a time
  *   clearChunks() — called after successful encoding or user dismiss
  *   getPendingRecordings() — called on Studio mount to detect recoverable sessions
  *
@@ -52,12 +72,20 @@
  *   saveUploadState() — called by uploadService after each part completes
  *   getUploadState() — called at upload start to check for resumable state
  *   clearUploadState() — called after successful upload completion
+ *
+ * Pending uploads:
+ *   savePendingUpload() — called by backgroundUploadService on hand-off
+ *   getPendingUpload() / getAllPendingUploads() — read by the service worker
+ *   clearPendingUpload() — called by the service worker once uploaded
  */
 
+import type { CompletePart } from '../shared';
+
 const DB_NAME = 'audio-studio';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const CHUNKS_STORE = 'recording-chunks';
 const UPLOAD_STATE_STORE = 'upload-state';
+const PENDING_UPLOADS_STORE = 'pending-uploads';
 
 interface RecordingChunkRecord {
   id?: number;            // Auto-increment primary key
@@ -74,6 +102,13 @@ export interface PendingRecording {
   startedAt: number;      // Timestamp of first chunk
 }
 
+/** Byte range [start, end) of the blob a multipart part was planned to cover */
+export interface UploadPartRange {
+  PartNumber: number;
+  start: number;
+  end: number;
+}
+
 export interface UploadStateRecord {
   sessionKey: string;     // Primary key
   uploadId: string;       // S3 multipart upload ID
@@ -81,18 +116,33 @@ export interface UploadStateRecord {
   roomId: string;
   participantName: string;
   sessionId: string;
-  totalParts: number;     // Expected total parts
-  completedParts: Array<{ PartNumber: number; ETag: string }>; // Already uploaded
+  totalParts: number;     // Parts planned so far (fixed up front for streamed uploads)
+  partRanges?: UploadPartRange[]; // Planned byte ranges (adaptive whole-file uploads only)
+  completedParts: CompletePart[]; // Already uploaded (with SHA-256 checksums)
   blobSize: number;       // Total file size (for validation)
   createdAt: number;      // When upload started
 }
 
+export interface PendingUploadRecord {
+  sessionKey: string;     // Primary key — same as the upload-state record
+  roomId: string;
+  participantName: string;
+  sessionId: string;      // '' when the recording had no session
+  blob: Blob;             // Encoded WAV, or its parts not yet in S3 (streamed)
+  firstPartNumber: number | null; // Part `blob` starts at; null = whole file
+  recoveryKey: string | null;     // recording-chunks sessionKey to clear once uploaded
+  uploadToken: string | null;     // X-Upload-Token for the recording (the worker has no socket)
+  meetingToken: string | null;    // The room's meeting token — renews uploadToken when it expires
+  attempts: number;       // Failed background attempts so far
+  createdAt: number;      // When the upload was handed off
+}
+
 /** Singleton Promise — database opened once and reused for all operations */
 let dbPromise: Promise<IDBDatabase> | null = null;
 
 /**
  * Open (or return cached) the IndexedDB database.
- * Creates object stores on first open (version 1 upgrade).
+ * Creates missing object stores on upgrade (v1: chunks + upload state, v2: pending uploads).
  */
 function openDB(): Promise<IDBDatabase> {
   if (dbPromise) return dbPromise;
@@ -116,9 +166,23 @@ function openDB(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(UPLOAD_STATE_STORE)) {
         db.createObjectStore(UPLOAD_STATE_STORE, { keyPath: 'sessionKey' });
       }
+
+      // Pending uploads store — keyed by the same sessionKey as upload state
+      if (!db.objectStoreNames.contains(PENDING_UPLOADS_STORE)) {
+        db.createObjectStore(PENDING_UPLOADS_STORE, { keyPath: 'sessionKey' });
+      }
     };
 
-    request.onsuccess = () => resolve(request.result);
+    request.onsuccess = () => {
+      const db = request.result;
+      // The page and the upload service worker each hold a connection —
+      // let go of ours so a newer version can upgrade, and reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
     request.onerror = () => reject(request.error);
   });
 
@@ -155,21 +219,42 @@ export async function storeChunk(
 }
 
 /**
- * Retrieve all chunks for a recording, sorted by chunkIndex.
- * Used during recovery to rebuild the WAV file.
+ * Read the next `limit` chunks of a recording, in the order they were stored,
+ * starting after record `afterId` (from the start when null). Used to rebuild
+ * a recording one batch at a time, without holding the whole take in memory.
+ *
+ * @returns The batch's chunks and the id to continue after (null when empty)
  */
-export async function getChunks(sessionKey: string): Promise<Float32Array[]> {
+export async function getChunkBatch(
+  sessionKey: string,
+  afterId: number | null,
+  limit: number,
+): Promise<{ chunks: Float32Array[]; lastId: number | null }> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(CHUNKS_STORE, 'readonly');
     const index = tx.objectStore(CHUNKS_STORE).index('sessionKey');
-    const request = index.getAll(sessionKey);
+    const request = index.openCursor(sessionKey);
+    const records: RecordingChunkRecord[] = [];
     request.onsuccess = () => {
-      const records = request.result as RecordingChunkRecord[];
+      const cursor = request.result;
+      if (!cursor || records.length === limit) return;
+      if (afterId !== null && (cursor.primaryKey as number) <= afterId) {
+        cursor.continuePrimaryKey(sessionKey, afterId + 1); // Skip what was already read
+        return;
+      }
+      records.push(cursor.value as RecordingChunkRecord);
+      cursor.continue();
+    };
+    tx.oncomplete = () => {
+      // Ids follow storage order; chunkIndex settles any tie within the batch
       records.sort((a, b) => a.chunkIndex - b.chunkIndex);
-      resolve(records.map((r) => new Float32Array(r.data)));
+      resolve({
+        chunks: records.map((r) => new Float32Array(r.data)),
+        lastId: records.length > 0 ? Math.max(...records.map((r) => r.id!)) : null,
+      });
     };
-    request.onerror = () => reject(request.error);
+    tx.onerror = () => reject(tx.error);
   });
 }
 
@@ -198,36 +283,37 @@ export async function clearChunks(sessionKey: string): Promise<void> {
 
 /**
  * Scan IndexedDB for any orphaned recording chunks (from crashed sessions).
- * Groups chunks by sessionKey and returns metadata for the recovery banner.
+ * Returns metadata per sessionKey for the recovery banner — its first chunk
+ * and a count, without reading the rest of the recording.
  */
 export async function getPendingRecordings(): Promise<PendingRecording[]> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(CHUNKS_STORE, 'readonly');
-    const request = tx.objectStore(CHUNKS_STORE).getAll();
-    request.onsuccess = () => {
-      const records = request.result as RecordingChunkRecord[];
-
-      // Group chunks by sessionKey
-      const grouped = new Map<string, RecordingChunkRecord[]>();
-      for (const r of records) {
-        if (!grouped.has(r.sessionKey)) grouped.set(r.sessionKey, []);
-        grouped.get(r.sessionKey)!.push(r);
-      }
+    const index = tx.objectStore(CHUNKS_STORE).index('sessionKey');
+    const pending: PendingRecording[] = [];
 
-      // Convert to PendingRecording metadata
-      const pending: PendingRecording[] = [];
-      for (const [sessionKey, chunks] of grouped) {
-        pending.push({
-          sessionKey,
-          chunkCount: chunks.length,
-          sampleRate: 48000,
-          startedAt: chunks[0]?.timestamp ?? 0,
-        });
-      }
-      resolve(pending);
+    // One cursor step per sessionKey, landing on its first chunk
+    const request = index.openCursor(null, 'nextunique');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const first = cursor.value as RecordingChunkRecord;
+      const entry: PendingRecording = {
+        sessionKey: first.sessionKey,
+        chunkCount: 0,
+        sampleRate: 48000,
+        startedAt: first.timestamp,
+      };
+      pending.push(entry);
+      const count = index.count(first.sessionKey);
+      count.onsuccess = () => {
+        entry.chunkCount = count.result;
+      };
+      cursor.continue();
     };
-    request.onerror = () => reject(request.error);
+    tx.oncomplete = () => resolve(pending);
+    tx.onerror = () => reject(tx.error);
   });
 }
 
@@ -273,3 +359,60 @@ export async function clearUploadState(sessionKey: string): Promise<void> {
     tx.onerror = () => reject(tx.error);
   });
 }
+
+// ─── Pending Upload Operations ───────────────────────────────────
+
+/**
+ * Save an upload for the service worker to run (or update its attempt count).
+ * Uses `put()` (upsert), keyed by the upload-state sessionKey.
+ */
+export async function savePendingUpload(record: PendingUploadRecord): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PENDING_UPLOADS_STORE, 'readwrite');
+    tx.objectStore(PENDING_UPLOADS_STORE).put(record);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Retrieve a pending upload by session key.
+ * Returns null once it has been uploaded (or given up on).
+ */
+export async function getPendingUpload(sessionKey: string): Promise<PendingUploadRecord | null> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PENDING_UPLOADS_STORE, 'readonly');
+    const request = tx.objectStore(PENDING_UPLOADS_STORE).get(sessionKey);
+    request.onsuccess = () => resolve(request.result ?? null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * List every pending upload — the service worker resumes them all when a
+ * page of the app is opened again.
+ */
+export async function getAllPendingUploads(): Promise<PendingUploadRecord[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PENDING_UPLOADS_STORE, 'readonly');
+    const request = tx.objectStore(PENDING_UPLOADS_STORE).getAll();
+    request.onsuccess = () => resolve(request.result as PendingUploadRecord[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Remove a pending upload after it finished (or was given up on).
+ */
+export async function clearPendingUpload(sessionKey: string): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PENDING_UPLOADS_STORE, 'readwrite');
+    tx.objectStore(PENDING_UPLOADS_STORE).delete(sessionKey);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
@@ -7,13 +7,13 @@
  * ## Simple Upload Flow (files ≤ 10MB)
  *
  * 1. POST /api/upload/url → Get presigned S3 PUT URL (15-min expiry)
- *    Body: { roomId, participantName, sessionId, contentType: 'audio/wav' }
- *    Response: { uploadUrl, key }
+ *    Body: { roomId, participantName, sessionId, contentType: 'audio/wav', checksumSHA256 }
+ *    Response: { uploadUrl, key, expiresAt }
  *
  * 2. PUT blob to uploadUrl (direct to S3, bypasses server)
  *
  * 3. POST /api/upload/complete → Mark upload finished in DynamoDB
- *    Body: { roomId, participantName, key, sessionId }
+ *    Body: { roomId, participantName, key, sessionId, checksumSHA256 }
  *    This creates a Recording entry with status='completed' and triggers
  *    `triggerProcessingIfReady()` which checks if both host+guest uploads
  *    are done, then publishes to SQS for processing.
@@ -21,13 +21,15 @@
  * ## Multipart Upload Flow (files > 10MB)
  *
  * 1. POST /api/multipart-upload/initiate → Start multipart upload
- *    Body: { roomId, participantName, contentType, fileSize }
+ *    Body: { roomId, participantName, sessionId, contentType, fileSize }
  *    Response: { uploadId, key, expiresAt }
+ *    The sessionId gives the file the same recordingId and S3 key layout
+ *    as a simple upload.
  *
  * 2. **Part 1 (special handling):**
  *    POST /api/multipart-upload/part-1 → Get temp presigned URL
- *    Body: { uploadId }
- *    Response: { url, tempKey }
+ *    Body: { uploadId, checksumSHA256 }
+ *    Response: { url, tempKey, expiresAt }
  *    Upload Part 1 to temp location (for WAV header patching later).
  *    ALSO upload Part 1 to the actual multipart upload location.
  *
@@ -38,13 +40,76 @@
  *
  * 3. **Parts 2-N (parallel):**
  *    POST /api/multipart-upload/part-url → Get presigned URL per part
- *    Body: { key, uploadId, partNumber }
- *    Response: { url }
- *    PUT each 10MB part directly to S3 (3 concurrent uploads)
+ *    Body: { key, uploadId, partNumber, checksumSHA256 }
+ *    Response: { url, expiresAt }
+ *    PUT each part directly to S3 — part size and the number of parts in
+ *    flight adapt to the measured throughput (see below)
  *
  * 4. POST /api/multipart-upload/complete → Finalize
- *    Body: { key, uploadId, parts: [{PartNumber, ETag}], roomId, participantName, sessionId }
- *    Server: patches WAV header from temp, completes S3 multipart, creates Recording entry
+ *    Body: { key, uploadId, parts: [{PartNumber, ETag, ChecksumSHA256}], roomId,
+ *            participantName, sessionId, checksumSHA256 }
+ *    Server: verifies checksums, patches WAV header from temp, completes S3
+ *    multipart, creates Recording entry
+ *
+ * ## Adaptive Part Size and Concurrency
+ *
+ * A whole-file multipart upload starts with 10MB parts, 3 at a time, and
+ * times every part. From the smoothed per-connection throughput it sizes
+ * the next part to take about TARGET_PART_SECONDS (within LIMITS'
+ * MIN_PART_SIZE–MAX_PART_SIZE), and changes the number of parts in flight:
+ *   - even a MAX_PART_SIZE part would finish early → one more connection
+ *     (up to MAX_CONCURRENCY)
+ *   - even a MIN_PART_SIZE part would run long → one fewer (down to 1), so
+ *     a slow uplink isn't split into parts that each crawl
+ * Part boundaries therefore vary, so the planned byte range of every part
+ * is kept in the upload-state record for resume.
+ *
+ * ## Presigned URL Refresh
+ *
+ * Every presigned URL comes with `expiresAt`. A PUT must start before then,
+ * so each attempt (parts are retried with backoff) asks for a new URL when
+ * the current one expires within URL_REFRESH_MARGIN_MS instead of reusing it.
+ *
+ * ## Progress and ETA
+ *
+ * UploadProgress carries `etaSeconds`: the bytes left divided by the
+ * average rate since this upload (or resume) started.
+ *
+ * ## Integrity Checksums
+ *
+ * Every PUT to S3 — the simple upload, Part 1's temp copy and every part —
+ * is hashed with SHA-256 first. The base64 checksum is sent when asking for
+ * the presigned URL (which is signed with it) and again as the
+ * x-amz-checksum-sha256 header, so S3 rejects any bytes that changed on the
+ * way. The file's checksum sent to /complete is the checksum itself for a
+ * simple upload, and the S3 composite of the part checksums for multipart.
+ *
+ * ## Streaming Upload (during recording)
+ *
+ * recorderService uploads each 10MB segment of a recording as soon as it
+ * is captured, through the same multipart routes (initiateStreamingUpload,
+ * uploadStreamingPart, completeStreamingUpload). Part 1 starts with a WAV
+ * header whose sizes are placeholders; the server patches it from the temp
+ * copy at /complete, so stopping a recording only has to send the tail.
+ *
+ * ## Background Upload
+ *
+ * uploadPending() runs a PendingUploadRecord from IndexedDB. It is what the
+ * upload service worker calls (see backgroundUploadService), so an upload
+ * handed off by the page keeps going after the tab is closed: a whole WAV
+ * goes through uploadFile(), and the remainder of a streamed recording is
+ * uploaded into its existing multipart upload and completed.
+ *
+ * ## Upload Token
+ *
+ * Every request to /api/upload and /api/multipart-upload carries an
+ * `X-Upload-Token` header. The server issues one token per participant per
+ * recording session over Socket.IO (start/stop/resume-recording, room-state),
+ * scoped to that participant's recording; Studio stores it with
+ * setUploadToken() and the upload worker gets it from the pending-upload
+ * record. Without a valid token the server answers 401, and a token for a
+ * different recording gets 403. Tokens expire after UPLOAD_TOKEN_EXPIRY, so
+ * the worker renews an old one with freshUploadToken() before resuming.
  *
  * ## Resume Support
  *
@@ -52,7 +117,8 @@
  * storageService. If the upload is interrupted:
  * 1. On retry, check IndexedDB for saved state
  * 2. Verify with server: GET /api/multipart-upload/parts?key=...&uploadId=...
- * 3. Skip already-uploaded parts, resume from where we left off
+ * 3. Skip already-uploaded parts, re-upload planned parts S3 doesn't have
+ *    (same byte ranges), then continue from where we left off
  *
  * ## Fallback
  *
@@ -70,6 +136,9 @@ import {
   getUploadState,
   clearUploadState,
 } from './storageService';
+import type { PendingUploadRecord, UploadPartRange } from './storageService';
+import { LIMITS } from '../shared';
+import type { CompletePart } from '../shared';
 
 const API_BASE = import.meta.env.VITE_API_URL || '/api';
 
@@ -78,15 +147,34 @@ export interface UploadProgress {
   total: number;        // Total file size in bytes
   percent: number;      // 0-100 integer
   partNumber: number;   // Current part being uploaded (0 for initial state)
+  etaSeconds: number | null; // Estimated time left (null until a part has been measured)
 }
 
 export type OnProgress = (progress: UploadProgress) => void;
 
-/** Part size for multipart uploads — 10MB (S3 minimum is 5MB) */
-const PART_SIZE = 10 * 1024 * 1024;
+/** Streaming segment size, and the first part size of a whole-file upload — 10MB */
+export const PART_SIZE = 10 * 1024 * 1024;
+
+/** Attempts per part PUT before the upload (or stream) is given up */
+const PART_ATTEMPTS = 3;
+
+/** Parts in flight when a whole-file upload starts */
+const INITIAL_CONCURRENCY = 3;
 
-/** Maximum concurrent part uploads — balances speed vs. browser connection limits */
-const CONCURRENT_UPLOADS = 3;
+/** Most parts in flight — browsers allow about 6 connections per host */
+const MAX_CONCURRENCY = 6;
+
+/** How long one part should take — part size is scaled toward this */
+const TARGET_PART_SECONDS = 30;
+
+/** Weight of the newest part in the smoothed throughput (EWMA) */
+const THROUGHPUT_SMOOTHING = 0.3;
+
+/** A presigned URL expiring within this window is requested again before a PUT */
+const URL_REFRESH_MARGIN_MS = 60_000;
+
+/** An upload token expiring within this window is renewed before a background upload */
+const TOKEN_RENEW_MARGIN_MS = 10 * 60_000;
 
 /**
  * Upload a recorded audio blob to S3.
@@ -132,28 +220,40 @@ async function simpleUpload(
   sessionId: string | undefined,
   onProgress?: OnProgress,
 ): Promise<void> {
-  // Step 1: Get presigned PUT URL from server
-  const res = await fetch(`${API_BASE}/upload/url`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ roomId, participantName, sessionId, contentType: 'audio/wav' }),
-  });
-  const { uploadUrl, key } = await res.json();
+  const stateKey = uploadStateKey(roomId, participantName, sessionId);
+  const checksumSHA256 = await sha256Base64(blob);
+
+  // Step 1: Get presigned PUT URL from server (again if it's about to expire on a retry)
+  const getTarget = presignedUrlSource(() =>
+    postJson<{ uploadUrl: string; key: string; expiresAt: string }>(
+      '/upload/url',
+      { roomId, participantName, sessionId, contentType: 'audio/wav', checksumSHA256 },
+      stateKey,
+    ),
+  );
 
   // Step 2: Upload directly to S3
-  await uploadWithProgress(uploadUrl, blob, 1, blob.size, onProgress);
+  let key = '';
+  await putPart(
+    async () => {
+      const target = await getTarget();
+      key = target.key;
+      return target.uploadUrl;
+    },
+    blob,
+    checksumSHA256,
+    'audio/wav',
+  );
+  onProgress?.({ loaded: blob.size, total: blob.size, percent: 100, partNumber: 1, etaSeconds: 0 });
 
   // Step 3: Notify server of completion — creates Recording entry + triggers processing
-  await fetch(`${API_BASE}/upload/complete`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ roomId, participantName, key, sessionId }),
-  });
+  await postJson('/upload/complete', { roomId, participantName, key, sessionId, checksumSHA256 }, stateKey);
 }
 
 /**
  * Multipart upload for large files (>10MB).
- * Splits the blob into 10MB parts, uploads 3 concurrently, with resume support.
+ * Plans parts as it goes (adaptive size), uploads several at once
+ * (adaptive concurrency), with resume support.
  */
 async function multipartUpload(
   blob: Blob,
@@ -162,174 +262,452 @@ async function multipartUpload(
   sessionId: string | undefined,
   onProgress?: OnProgress,
 ): Promise<void> {
-  const stateKey = `upload:${roomId}:${participantName}:${sessionId || 'none'}`;
+  const stateKey = uploadStateKey(roomId, participantName, sessionId);
 
-  let uploadId: string;
-  let key: string;
-  let completedParts: Array<{ PartNumber: number; ETag: string }> = [];
-  const skipPartNumbers = new Set<number>();
+  let uploadId = '';
+  let key = '';
+  let partRanges: UploadPartRange[] = [];
+  const completed = new Map<number, CompletePart>();
 
   // ── Check for resumable upload state in IndexedDB ────────────────
   const savedState = await getUploadState(stateKey);
-  if (savedState && savedState.blobSize === blob.size) {
+  if (savedState?.partRanges && savedState.blobSize === blob.size) {
     try {
       // Verify with server that the upload is still valid
-      const serverParts = await fetchUploadedParts(savedState.key, savedState.uploadId);
+      const serverParts = await fetchUploadedParts(savedState.key, savedState.uploadId, stateKey);
+      if (serverParts.parts.some((p) => !p.ChecksumSHA256)) {
+        throw new Error('Upload was started without checksums');
+      }
       uploadId = savedState.uploadId;
       key = savedState.key;
-      completedParts = serverParts.parts.map((p: { PartNumber: number; ETag: string }) => ({
-        PartNumber: p.PartNumber,
-        ETag: p.ETag,
-      }));
-      for (const p of completedParts) skipPartNumbers.add(p.PartNumber);
-
-      // Report resumed progress
-      onProgress?.({
-        loaded: serverParts.totalUploaded,
-        total: blob.size,
-        percent: Math.round((serverParts.totalUploaded / blob.size) * 100),
-        partNumber: 0,
-      });
+      partRanges = savedState.partRanges;
+
+      // A part counts only if S3 has all of its planned range
+      for (const p of serverParts.parts) {
+        const range = partRanges.find((r) => r.PartNumber === p.PartNumber);
+        if (range && range.end - range.start === p.Size) {
+          completed.set(p.PartNumber, {
+            PartNumber: p.PartNumber,
+            ETag: p.ETag,
+            ChecksumSHA256: p.ChecksumSHA256!,
+          });
+        }
+      }
     } catch {
-      // Saved state is stale (upload expired or aborted); start fresh
+      // Saved state is stale (upload expired, aborted or pre-checksum); start fresh
       await clearUploadState(stateKey);
+      uploadId = '';
+      partRanges = [];
+      completed.clear();
     }
   }
 
   // ── Initiate new multipart upload if needed ─────────────────────
-  if (skipPartNumbers.size === 0) {
-    const initRes = await fetch(`${API_BASE}/multipart-upload/initiate`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ roomId, participantName, contentType: 'audio/wav', fileSize: blob.size }),
-    });
-    const initData = await initRes.json();
-    uploadId = initData.uploadId;
-    key = initData.key;
-    completedParts = [];
+  if (!uploadId) {
+    ({ uploadId, key } = await postMultipart<{ uploadId: string; key: string }>(
+      'initiate',
+      { roomId, participantName, sessionId, contentType: 'audio/wav', fileSize: blob.size },
+      stateKey,
+    ));
   }
 
-  const totalParts = Math.ceil(blob.size / PART_SIZE);
+  const saveState = () =>
+    saveUploadState({
+      sessionKey: stateKey,
+      uploadId,
+      key,
+      roomId,
+      participantName,
+      sessionId: sessionId || '',
+      totalParts: partRanges.length,
+      partRanges: [...partRanges],
+      completedParts: [...completed.values()],
+      blobSize: blob.size,
+      createdAt: Date.now(),
+    });
 
-  // Save state for future resume
-  await saveUploadState({
-    sessionKey: stateKey,
-    uploadId: uploadId!,
-    key: key!,
-    roomId,
-    participantName,
-    sessionId: sessionId || '',
-    totalParts,
-    completedParts: [...completedParts],
-    blobSize: blob.size,
-    createdAt: Date.now(),
-  });
+  // ── Progress ──────────────────────────────────────────────────────
+  const resumedBytes = partRanges
+    .filter((r) => completed.has(r.PartNumber))
+    .reduce((sum, r) => sum + r.end - r.start, 0);
+  const startedAt = performance.now();
+  let sentBytes = 0;
+
+  const reportProgress = (partNumber: number) => {
+    const loaded = resumedBytes + sentBytes;
+    onProgress?.({
+      loaded,
+      total: blob.size,
+      percent: Math.round((loaded / blob.size) * 100),
+      partNumber,
+      etaSeconds: estimateEta(startedAt, sentBytes, blob.size - loaded),
+    });
+  };
+  if (resumedBytes > 0) reportProgress(0);
+
+  // ── Plan parts as they're needed ──────────────────────────────────
+  // Planned parts S3 doesn't have go first, with their original ranges;
+  // after that each new part is sized from the throughput measured so far.
+  const tuning: TransferTuning = {
+    partSize: PART_SIZE,
+    concurrency: INITIAL_CONCURRENCY,
+    bytesPerSecond: null,
+  };
+  const retries = partRanges.filter((r) => !completed.has(r.PartNumber));
+  let nextOffset = partRanges.reduce((end, r) => Math.max(end, r.end), 0);
+
+  const nextPart = (): UploadPartRange | null => {
+    const retry = retries.shift();
+    if (retry) return retry;
+    if (nextOffset >= blob.size) return null;
+
+    // Never plan more parts than S3 allows for the rest of the file
+    const minSize = Math.ceil((blob.size - nextOffset) / (LIMITS.MAX_PARTS - partRanges.length));
+    const size = Math.max(tuning.partSize, minSize);
+    const range = {
+      PartNumber: partRanges.length + 1,
+      start: nextOffset,
+      end: Math.min(nextOffset + size, blob.size),
+    };
+    partRanges.push(range);
+    nextOffset = range.end;
+    return range;
+  };
+
+  // ── Upload one part (Part 1 also goes to temp for WAV header patching) ──
+  const uploadPart = async (range: UploadPartRange): Promise<void> => {
+    const { PartNumber } = range;
+    const partBlob = blob.slice(range.start, range.end);
+    const checksumSHA256 = await sha256Base64(partBlob);
+    const partStartedAt = performance.now();
+    let bytesSent = partBlob.size;
+
+    if (PartNumber === 1) {
+      const getTempUrl = presignedUrlSource(() =>
+        postMultipart<{ url: string; expiresAt: string }>('part-1', { uploadId, checksumSHA256 }, stateKey),
+      );
+      await putPart(async () => (await getTempUrl()).url, partBlob, checksumSHA256, 'audio/wav');
+      bytesSent += partBlob.size;
+    }
 
-  // ── Upload Part 1 (special: also goes to temp for WAV header patching) ──
-  if (!skipPartNumbers.has(1)) {
-    const part1Blob = blob.slice(0, PART_SIZE);
+    const getPartUrl = presignedUrlSource(() =>
+      postMultipart<{ url: string; expiresAt: string }>(
+        'part-url',
+        { key, uploadId, partNumber: PartNumber, checksumSHA256 },
+        stateKey,
+      ),
+    );
+    const etag = await putPart(async () => (await getPartUrl()).url, partBlob, checksumSHA256);
 
-    // Get temp presigned URL for Part 1
-    const part1Res = await fetch(`${API_BASE}/multipart-upload/part-1`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ uploadId: uploadId! }),
-    });
-    const { url: part1Url } = await part1Res.json();
+    recordThroughput(tuning, bytesSent, performance.now() - partStartedAt);
+    completed.set(PartNumber, { PartNumber, ETag: etag, ChecksumSHA256: checksumSHA256 });
+    sentBytes += partBlob.size;
+    reportProgress(PartNumber);
 
-    // Upload Part 1 to temp location (for WAV header extraction later)
-    await uploadWithProgress(part1Url, part1Blob, 1, blob.size, onProgress);
+    // Persist progress after each part
+    await saveState();
+  };
 
-    // Also upload Part 1 to the actual multipart upload
-    const partUrlRes = await fetch(`${API_BASE}/multipart-upload/part-url`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ key: key!, uploadId: uploadId!, partNumber: 1 }),
-    });
-    const { url: actualPart1Url } = await partUrlRes.json();
-    const etag1 = await uploadPartAndGetEtag(actualPart1Url, part1Blob);
-    completedParts.push({ PartNumber: 1, ETag: etag1 });
+  await saveState();
+  await runAdaptive(nextPart, uploadPart, tuning);
 
-    // Persist progress after Part 1
-    await saveUploadState({
-      sessionKey: stateKey,
-      uploadId: uploadId!,
-      key: key!,
+  // ── Complete the multipart upload ─────────────────────────────────
+  // Server verifies checksums, patches WAV header, assembles parts, creates Recording entry.
+  // S3 requires ordered completion.
+  const parts = [...completed.values()].sort((a, b) => a.PartNumber - b.PartNumber);
+  await postMultipart(
+    'complete',
+    {
+      key,
+      uploadId,
+      parts,
       roomId,
       participantName,
-      sessionId: sessionId || '',
-      totalParts,
-      completedParts: [...completedParts],
-      blobSize: blob.size,
-      createdAt: Date.now(),
-    });
+      sessionId,
+      checksumSHA256: await compositeChecksum(parts),
+    },
+    stateKey,
+  );
+
+  // Clear saved state on success
+  await clearUploadState(stateKey);
+}
+
+// ─── Adaptive Transfer ────────────────────────────────────────────
+
+/** Live settings of a whole-file multipart upload, retuned after every part */
+interface TransferTuning {
+  partSize: number;               // Size of the next part planned
+  concurrency: number;            // Parts allowed in flight
+  bytesPerSecond: number | null;  // Smoothed per-connection throughput; null before the first part
+}
+
+/**
+ * Fold one part's throughput into the tuning: size the next part to take
+ * about TARGET_PART_SECONDS, and add or drop a connection when even the
+ * largest part would be quick or even the smallest one slow.
+ */
+function recordThroughput(tuning: TransferTuning, bytes: number, elapsedMs: number): void {
+  const sample = (bytes / Math.max(elapsedMs, 1)) * 1000;
+  tuning.bytesPerSecond =
+    tuning.bytesPerSecond === null
+      ? sample
+      : tuning.bytesPerSecond + THROUGHPUT_SMOOTHING * (sample - tuning.bytesPerSecond);
+
+  const idealPartSize = tuning.bytesPerSecond * TARGET_PART_SECONDS;
+  const megabytes = Math.round(idealPartSize / (1024 * 1024)) * 1024 * 1024;
+  tuning.partSize = Math.min(Math.max(megabytes, LIMITS.MIN_PART_SIZE), LIMITS.MAX_PART_SIZE);
+
+  if (idealPartSize > LIMITS.MAX_PART_SIZE) {
+    tuning.concurrency = Math.min(tuning.concurrency + 1, MAX_CONCURRENCY);
+  } else if (idealPartSize < LIMITS.MIN_PART_SIZE) {
+    tuning.concurrency = Math.max(tuning.concurrency - 1, 1);
   }
+}
 
-  // ── Upload remaining parts concurrently (3 at a time) ─────────────
-  const partTasks: Array<() => Promise<{ PartNumber: number; ETag: string }>> = [];
-
-  for (let partNumber = 2; partNumber <= totalParts; partNumber++) {
-    if (skipPartNumbers.has(partNumber)) continue;
-
-    const pn = partNumber; // Capture for closure
-    partTasks.push(async () => {
-      const start = (pn - 1) * PART_SIZE;
-      const end = Math.min(start + PART_SIZE, blob.size);
-      const partBlob = blob.slice(start, end);
-
-      // Get presigned URL for this part
-      const partRes = await fetch(`${API_BASE}/multipart-upload/part-url`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ key: key!, uploadId: uploadId!, partNumber: pn }),
-      });
-      const { url: partUrl } = await partRes.json();
-
-      // Upload part directly to S3
-      const etag = await uploadPartAndGetEtag(partUrl, partBlob);
-
-      // Report progress
-      onProgress?.({
-        loaded: end,
-        total: blob.size,
-        percent: Math.round((end / blob.size) * 100),
-        partNumber: pn,
-      });
-
-      return { PartNumber: pn, ETag: etag };
-    });
+/**
+ * Upload parts from `nextPart` until it runs out, keeping up to
+ * `tuning.concurrency` in flight — re-read each time a part finishes, so
+ * the pool grows and shrinks with it. Rejects on the first failed part.
+ */
+function runAdaptive(
+  nextPart: () => UploadPartRange | null,
+  uploadPart: (range: UploadPartRange) => Promise<void>,
+  tuning: TransferTuning,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let active = 0;
+    let failed = false;
+
+    const fill = () => {
+      while (!failed && active < tuning.concurrency) {
+        const range = nextPart();
+        if (!range) break;
+        active++;
+        uploadPart(range).then(
+          () => {
+            active--;
+            fill();
+          },
+          (err) => {
+            failed = true;
+            reject(err);
+          },
+        );
+      }
+      if (active === 0 && !failed) resolve();
+    };
+
+    fill();
+  });
+}
+
+/** Seconds left at the average rate since `startedAt` (performance.now()), or null before any bytes */
+export function estimateEta(startedAt: number, sentBytes: number, remainingBytes: number): number | null {
+  const elapsedSeconds = (performance.now() - startedAt) / 1000;
+  if (sentBytes <= 0 || elapsedSeconds <= 0) return null;
+  return Math.round(remainingBytes / (sentBytes / elapsedSeconds));
+}
+
+// ─── Streaming Upload ─────────────────────────────────────────────
+// Used by recorderService to upload a recording while it is still being
+// captured. The recorder owns the buffering and ordering; these functions
+// are the REST/S3 calls for each step. Same routes as multipartUpload(),
+// except the file size is unknown at /initiate and each part is sent as
+// soon as its 10MB segment is full.
+
+export interface StreamingUploadTarget {
+  roomId: string;
+  participantName: string;
+  sessionId: string;
+}
+
+export interface StreamingUploadHandle extends StreamingUploadTarget {
+  uploadId: string;
+  key: string;
+}
+
+/** Start a multipart upload for a recording that hasn't finished yet */
+export async function initiateStreamingUpload(
+  target: StreamingUploadTarget,
+): Promise<StreamingUploadHandle> {
+  const { uploadId, key } = await postMultipart<{ uploadId: string; key: string }>(
+    'initiate',
+    { ...target, contentType: 'audio/wav' },
+    targetKey(target),
+  );
+  return { ...target, uploadId, key };
+}
+
+/**
+ * Upload one segment as part `partNumber`, retrying transient failures.
+ * Part 1 also goes to the temp location so the server can patch its
+ * WAV header at /complete, exactly as in multipartUpload().
+ */
+export async function uploadStreamingPart(
+  handle: StreamingUploadHandle,
+  partNumber: number,
+  blob: Blob,
+): Promise<CompletePart> {
+  const stateKey = targetKey(handle);
+  const checksumSHA256 = await sha256Base64(blob);
+
+  if (partNumber === 1) {
+    const getTempUrl = presignedUrlSource(() =>
+      postMultipart<{ url: string; expiresAt: string }>(
+        'part-1',
+        { uploadId: handle.uploadId, checksumSHA256 },
+        stateKey,
+      ),
+    );
+    await putPart(async () => (await getTempUrl()).url, blob, checksumSHA256, 'audio/wav');
+  }
+
+  const getPartUrl = presignedUrlSource(() =>
+    postMultipart<{ url: string; expiresAt: string }>(
+      'part-url',
+      { key: handle.key, uploadId: handle.uploadId, partNumber, checksumSHA256 },
+      stateKey,
+    ),
+  );
+  const etag = await putPart(async () => (await getPartUrl()).url, blob, checksumSHA256);
+  return { PartNumber: partNumber, ETag: etag, ChecksumSHA256: checksumSHA256 };
+}
+
+/** Finish the upload — the server patches the header and creates the Recording */
+export async function completeStreamingUpload(
+  handle: StreamingUploadHandle,
+  parts: CompletePart[],
+): Promise<void> {
+  const { roomId, participantName, sessionId, key, uploadId } = handle;
+  await postMultipart(
+    'complete',
+    {
+      key,
+      uploadId,
+      parts: [...parts].sort((a, b) => a.PartNumber - b.PartNumber),
+      roomId,
+      participantName,
+      sessionId,
+      checksumSHA256: await compositeChecksum(parts),
+    },
+    targetKey(handle),
+  );
+}
+
+/** Cancel a streaming upload that the recorder has given up on (best-effort) */
+export async function abortStreamingUpload(handle: StreamingUploadHandle): Promise<void> {
+  const { key, uploadId } = handle;
+  await postMultipart('abort', { key, uploadId }, targetKey(handle)).catch(() => {});
+}
+
+// ─── Background Upload ────────────────────────────────────────────
+// Runs inside the upload service worker. Everything it needs is in
+// IndexedDB, so it can pick an upload up again on any later visit.
+
+/**
+ * Upload a pending record. A whole WAV (firstPartNumber null) goes through
+ * uploadFile(), which resumes from its upload-state record if one exists.
+ * A streamed remainder continues the recording's own multipart upload:
+ * parts before firstPartNumber must already be in S3, the rest are sliced
+ * from the blob, and the upload is completed with all of them.
+ */
+export async function uploadPending(record: PendingUploadRecord, onProgress?: OnProgress): Promise<void> {
+  const { roomId, participantName, sessionId, blob, firstPartNumber } = record;
+  if (record.uploadToken) setUploadToken(record.sessionKey, record.uploadToken);
+  if (firstPartNumber === null) {
+    return uploadFile(blob, roomId, participantName, sessionId || undefined, onProgress);
   }
 
-  const remainingParts = await runWithConcurrency(partTasks, CONCURRENT_UPLOADS);
+  const state = await getUploadState(record.sessionKey);
+  if (!state) throw new Error('No upload state for the streamed recording');
 
-  // Merge results and persist final state
-  completedParts.push(...remainingParts);
-  await saveUploadState({
-    sessionKey: stateKey,
-    uploadId: uploadId!,
-    key: key!,
+  const handle: StreamingUploadHandle = {
     roomId,
     participantName,
-    sessionId: sessionId || '',
-    totalParts,
-    completedParts: [...completedParts],
-    blobSize: blob.size,
-    createdAt: Date.now(),
-  });
+    sessionId,
+    uploadId: state.uploadId,
+    key: state.key,
+  };
+
+  // Parts already in S3 (uploaded while recording, or by an earlier attempt)
+  const serverParts = await fetchUploadedParts(state.key, state.uploadId, record.sessionKey);
+  const parts = new Map<number, CompletePart>();
+  for (const p of serverParts.parts) {
+    if (!p.ChecksumSHA256) continue;
+    parts.set(p.PartNumber, { PartNumber: p.PartNumber, ETag: p.ETag, ChecksumSHA256: p.ChecksumSHA256 });
+  }
+  for (let partNumber = 1; partNumber < firstPartNumber; partNumber++) {
+    if (!parts.has(partNumber)) {
+      throw new Error(`Part ${partNumber} of the streamed recording is missing from S3`);
+    }
+  }
 
-  // Sort parts by number — S3 requires ordered completion
-  completedParts.sort((a, b) => a.PartNumber - b.PartNumber);
+  const startedAt = performance.now();
+  let loaded = serverParts.totalUploaded;
+  for (let partNumber = firstPartNumber; partNumber <= state.totalParts; partNumber++) {
+    if (parts.has(partNumber)) continue;
+    const start = (partNumber - firstPartNumber) * PART_SIZE;
+    const partBlob = blob.slice(start, start + PART_SIZE);
+    parts.set(partNumber, await uploadStreamingPart(handle, partNumber, partBlob));
+
+    loaded += partBlob.size;
+    onProgress?.({
+      loaded,
+      total: state.blobSize,
+      percent: Math.round((loaded / state.blobSize) * 100),
+      partNumber,
+      etaSeconds: estimateEta(startedAt, loaded - serverParts.totalUploaded, state.blobSize - loaded),
+    });
+  }
 
-  // ── Complete the multipart upload ─────────────────────────────────
-  // Server patches WAV header, assembles parts, creates Recording entry
-  await fetch(`${API_BASE}/multipart-upload/complete`, {
+  await completeStreamingUpload(handle, [...parts.values()]);
+  await clearUploadState(record.sessionKey);
+}
+
+/** IndexedDB key of the upload-state (and pending-upload) record for a recording */
+export function uploadStateKey(
+  roomId: string,
+  participantName: string,
+  sessionId: string | undefined,
+): string {
+  return `upload:${roomId}:${participantName}:${sessionId || 'none'}`;
+}
+
+// ─── Upload Tokens ────────────────────────────────────────────────
+// Every upload request carries the participant's upload token, which the
+// server issues over Socket.IO per recording session. Tokens are looked up
+// per request, so a fresher one (e.g. from STOP_RECORDING) takes over
+// mid-upload.
+
+/** Upload tokens by uploadStateKey() */
+const uploadTokens = new Map<string, string>();
+
+/** Remember the upload token for a recording (key from uploadStateKey()) */
+export function setUploadToken(stateKey: string, token: string): void {
+  uploadTokens.set(stateKey, token);
+}
+
+/** The upload token for a recording, or null if none was issued to this page */
+export function getUploadToken(stateKey: string): string | null {
+  return uploadTokens.get(stateKey) ?? null;
+}
+
+/**
+ * `token`, or a renewed one if it is about to expire. Renewal (POST
+ * /api/upload/token) is authorized by the participant's meeting token;
+ * without one the old token is returned as is.
+ */
+export async function freshUploadToken(token: string, meetingToken: string | null): Promise<string> {
+  if (!meetingToken || !expiresWithin(token, TOKEN_RENEW_MARGIN_MS)) return token;
+
+  const res = await fetch(`${API_BASE}/upload/token`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ key: key!, uploadId: uploadId!, parts: completedParts, roomId, participantName, sessionId }),
+    headers: { 'X-Upload-Token': token, 'X-Meeting-Token': meetingToken },
   });
-
-  // Clear saved state on success
-  await clearUploadState(stateKey);
+  if (!res.ok) throw new Error(`Upload token renewal failed (${res.status})`);
+  const { uploadToken } = (await res.json()) as { uploadToken: string };
+  return uploadToken;
 }
 
 // ─── Helpers ──────────────────────────────────────────────────────
@@ -341,77 +719,140 @@ async function multipartUpload(
 async function fetchUploadedParts(
   key: string,
   uploadId: string,
-): Promise<{ parts: Array<{ PartNumber: number; ETag: string; Size: number }>; totalUploaded: number }> {
+  stateKey: string,
+): Promise<{
+  parts: Array<{ PartNumber: number; ETag: string; ChecksumSHA256: string | null; Size: number }>;
+  totalUploaded: number;
+}> {
   const res = await fetch(
     `${API_BASE}/multipart-upload/parts?key=${encodeURIComponent(key)}&uploadId=${encodeURIComponent(uploadId)}`,
+    { headers: uploadTokenHeader(stateKey) },
   );
   if (!res.ok) throw new Error('Failed to fetch uploaded parts');
   return res.json();
 }
 
 /**
- * Run async tasks with bounded concurrency.
- * Spawns N workers that each pull from the task queue until empty.
- *
- * @param tasks — Array of async factory functions
- * @param concurrency — Max simultaneous tasks
- * @returns Results in the same order as input tasks
+ * Wrap a presigned-URL request so its result is reused until it is about
+ * to expire (within URL_REFRESH_MARGIN_MS of `expiresAt`), then requested
+ * again. Call the returned function right before every PUT attempt.
  */
-async function runWithConcurrency<T>(
-  tasks: Array<() => Promise<T>>,
-  concurrency: number,
-): Promise<T[]> {
-  const results: T[] = new Array(tasks.length);
-  let nextIndex = 0;
-
-  async function worker(): Promise<void> {
-    while (nextIndex < tasks.length) {
-      const index = nextIndex++;
-      results[index] = await tasks[index]();
+function presignedUrlSource<T extends { expiresAt: string }>(request: () => Promise<T>): () => Promise<T> {
+  let current: T | null = null;
+  return async () => {
+    if (!current || Date.parse(current.expiresAt) - Date.now() < URL_REFRESH_MARGIN_MS) {
+      current = await request();
     }
-  }
+    return current;
+  };
+}
 
-  const workers = Array.from(
-    { length: Math.min(concurrency, tasks.length) },
-    () => worker(),
-  );
-  await Promise.all(workers);
-  return results;
+/**
+ * PUT a blob to a presigned URL, retrying transient failures with backoff,
+ * and return its ETag. `getUrl` is called on every attempt so a retry never
+ * starts on an expired URL.
+ */
+async function putPart(
+  getUrl: () => Promise<string>,
+  blob: Blob,
+  checksumSHA256: string,
+  contentType?: string,
+): Promise<string> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await uploadPartAndGetEtag(await getUrl(), blob, checksumSHA256, contentType);
+    } catch (err) {
+      if (attempt >= PART_ATTEMPTS) throw err;
+      await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** attempt));
+    }
+  }
 }
 
 /**
- * Upload a blob to a presigned URL and report progress.
- * Used for simple uploads and Part 1 temp upload.
+ * Upload a part to a presigned URL and extract the ETag from the response.
+ * The ETag is required for the S3 CompleteMultipartUpload call. S3 answers
+ * 400 BadDigest if the body doesn't hash to `checksumSHA256`. URLs signed
+ * with a content type (simple upload, Part 1's temp copy) need it sent too.
  */
-async function uploadWithProgress(
+async function uploadPartAndGetEtag(
   url: string,
   blob: Blob,
-  partNumber: number,
-  totalSize: number,
-  onProgress?: OnProgress,
-): Promise<void> {
-  await fetch(url, {
+  checksumSHA256: string,
+  contentType?: string,
+): Promise<string> {
+  const response = await fetch(url, {
     method: 'PUT',
     body: blob,
-    headers: { 'Content-Type': 'audio/wav' },
+    headers: {
+      ...(contentType && { 'Content-Type': contentType }),
+      'x-amz-checksum-sha256': checksumSHA256,
+    },
   });
+  if (!response.ok) throw new Error(`Upload failed (${response.status})`);
+  return response.headers.get('ETag') || '';
+}
 
-  onProgress?.({
-    loaded: blob.size,
-    total: totalSize,
-    percent: Math.round((blob.size / totalSize) * 100),
-    partNumber,
+/**
+ * POST a JSON body to the upload API and return the parsed response.
+ * `stateKey` picks the upload token sent with it (see setUploadToken()).
+ */
+async function postJson<T>(path: string, body: unknown, stateKey: string): Promise<T> {
+  const res = await fetch(`${API_BASE}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...uploadTokenHeader(stateKey) },
+    body: JSON.stringify(body),
   });
+  if (!res.ok) throw new Error(`POST ${path} failed (${res.status})`);
+  return res.json();
+}
+
+/** POST a JSON body to the multipart API and return the parsed response */
+function postMultipart<T>(path: string, body: unknown, stateKey: string): Promise<T> {
+  return postJson<T>(`/multipart-upload/${path}`, body, stateKey);
+}
+
+/** True if the JWT's `exp` claim is less than `marginMs` away (or it can't be decoded) */
+function expiresWithin(token: string, marginMs: number): boolean {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' && payload.exp * 1000 - Date.now() < marginMs;
+  } catch {
+    return true;
+  }
+}
+
+/** The X-Upload-Token header for a recording — empty if no token is known (the server answers 401) */
+function uploadTokenHeader(stateKey: string): Record<string, string> {
+  const token = uploadTokens.get(stateKey);
+  return token ? { 'X-Upload-Token': token } : {};
+}
+
+function targetKey(target: StreamingUploadTarget): string {
+  return uploadStateKey(target.roomId, target.participantName, target.sessionId);
+}
+
+/** Base64 SHA-256 of a blob, as S3 expects it in x-amz-checksum-sha256 */
+async function sha256Base64(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return bytesToBase64(new Uint8Array(digest));
 }
 
 /**
- * Upload a part to a presigned URL and extract the ETag from the response.
- * The ETag is required for the S3 CompleteMultipartUpload call.
+ * S3's composite checksum for a multipart object: SHA-256 over the binary
+ * part digests in part order, followed by "-{partCount}".
  */
-async function uploadPartAndGetEtag(url: string, blob: Blob): Promise<string> {
-  const response = await fetch(url, {
-    method: 'PUT',
-    body: blob,
-  });
-  return response.headers.get('ETag') || '';
+async function compositeChecksum(parts: CompletePart[]): Promise<string> {
+  const sorted = [...parts].sort((a, b) => a.PartNumber - b.PartNumber);
+  const digests = new Uint8Array(sorted.length * 32);
+  sorted.forEach((p, i) => digests.set(base64ToBytes(p.ChecksumSHA256), i * 32));
+  const digest = await crypto.subtle.digest('SHA-256', digests);
+  return `${bytesToBase64(new Uint8Array(digest))}-${sorted.length}`;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
 }
@@ -2,7 +2,7 @@
  * webrtcService.ts — WebRTC peer connection factory and signaling helpers.
  *
  * Creates and manages RTCPeerConnection instances for live audio monitoring
- * between host and guest participants. The signaling (offer/answer/ICE) is
+ * between participants — one per remote participant (see useWebRTC). The signaling (offer/answer/ICE) is
  * relayed through the server's Socket.IO — the server does NOT inspect or
  * modify WebRTC payloads, it simply forwards them to the target socket.
  *
@@ -14,6 +14,11 @@
  *
  * Both use the same MediaStream but serve different purposes.
  *
+ * Observers have no mic: their connections carry an audio transceiver with
+ * no track, so they hear every speaker and send nothing. It is negotiated
+ * sendrecv so the producer's talkback can start later with
+ * setOutgoingAudio() — replaceTrack() needs no renegotiation.
+ *
  * ## ICE Servers
  *
  * - **STUN** (always): Google public STUN servers for NAT traversal
@@ -45,6 +50,9 @@
  * 4. handleIceCandidate() — Add/queue ICE candidates
  * 5. cleanupPeerConnection() — Remove from candidate queue map
  *
+ * setOutgoingAudio() swaps (or silences) the track a connection sends —
+ * used for push-to-talk talkback to one peer.
+ *
  * Note: The caller (useWebRTC hook) is responsible for calling `pc.close()`
  * after cleanup to release the connection's resources.
  *
@@ -131,13 +139,13 @@ export interface WebRTCCallbacks {
  *
  * @param socket — Socket.IO client for signaling
  * @param targetSocketId — The peer's socket ID for targeting signaling messages
- * @param localStream — The user's mic MediaStream to add as local tracks
+ * @param localStream — The user's mic MediaStream to add as local tracks (null: receive only)
  * @param callbacks — Handlers for remote stream and connection state
  */
 export function createPeerConnection(
   socket: Socket,
   targetSocketId: string,
-  localStream: MediaStream,
+  localStream: MediaStream | null,
   callbacks: WebRTCCallbacks,
 ): RTCPeerConnection {
   const pc = new RTCPeerConnection({ iceServers: getIceServers() });
@@ -145,8 +153,9 @@ export function createPeerConnection(
   // Initialize the candidate queue for this connection
   candidateQueues.set(pc, []);
 
-  // Add local audio tracks to the connection
-  localStream.getTracks().forEach((track) => {
+  // Add local audio tracks to the connection. An observer has none — its
+  // audio transceiver is set up by createOffer() or handleOffer()
+  localStream?.getTracks().forEach((track) => {
     pc.addTrack(track, localStream);
   });
 
@@ -160,11 +169,10 @@ export function createPeerConnection(
     }
   };
 
-  // Capture the remote peer's audio stream
+  // Capture the remote peer's audio stream. An observer's track belongs to
+  // no stream (it had no mic when negotiating), so wrap it in one
   pc.ontrack = (event) => {
-    if (event.streams[0]) {
-      callbacks.onRemoteStream(event.streams[0]);
-    }
+    callbacks.onRemoteStream(event.streams[0] ?? new MediaStream([event.track]));
   };
 
   // Monitor connection state for UI indicators
@@ -184,6 +192,10 @@ export async function createOffer(
   socket: Socket,
   targetSocketId: string,
 ): Promise<void> {
+  // Nothing to send yet (observer): still offer an audio section, both ways
+  if (pc.getTransceivers().length === 0) {
+    pc.addTransceiver('audio', { direction: 'sendrecv' });
+  }
   const offer = await pc.createOffer();
   await pc.setLocalDescription(offer);
   socket.emit(SOCKET_EVENTS.OFFER, {
@@ -205,6 +217,13 @@ export async function handleOffer(
 ): Promise<void> {
   await pc.setRemoteDescription(new RTCSessionDescription(sdp));
   await flushCandidateQueue(pc); // Process any candidates that arrived early
+  // Without local tracks (observer) the answer would be recvonly — keep it
+  // sendrecv so talkback can start without renegotiating
+  if (!pc.getSenders().some((sender) => sender.track)) {
+    pc.getTransceivers().forEach((transceiver) => {
+      transceiver.direction = 'sendrecv';
+    });
+  }
   const answer = await pc.createAnswer();
   await pc.setLocalDescription(answer);
   socket.emit(SOCKET_EVENTS.ANSWER, {
@@ -213,6 +232,16 @@ export async function handleOffer(
   });
 }
 
+/**
+ * Send `track` on the connection's audio sender instead of what it sends
+ * now — null sends nothing. Used for talkback: an observer sends its mic to
+ * one peer, and a host silences every other peer while talking to one.
+ */
+export async function setOutgoingAudio(pc: RTCPeerConnection, track: MediaStreamTrack | null): Promise<void> {
+  const transceiver = pc.getTransceivers().find((t) => t.receiver.track.kind === 'audio');
+  await transceiver?.sender.replaceTrack(track);
+}
+
 /**
  * Handle an incoming SDP answer: set remote description and flush
  * any queued ICE candidates.
@@ -17,6 +17,19 @@
  *   - ROOM_FULL — Server → Client: Rejected (max 2 participants)
  *   - DUPLICATE_SESSION — Server → Client: Same userId already in room
  *
+ * ### Waiting Room (new guests wait for the host)
+ *   - WAITING_ROOM — Server → Client: Join held until the host admits you
+ *   - WAITING_LIST — Server → Host: Who is waiting, sent on every change
+ *   - ADMIT_PARTICIPANT / DENY_PARTICIPANT — Host → Server: Decide on a waiting user
+ *   - ADMITTED — Server → Waiting Client: Rejoin with the admission token
+ *   - JOIN_DENIED — Server → Waiting Client: The host said no
+ *
+ * ### Host Controls
+ *   - TRANSFER_HOST — Host → Server: Hand the host role to a guest
+ *   - HOST_CHANGED — Server → Room: New host (handoff, or promotion after the host left)
+ *   - REMOVE_PARTICIPANT — Host → Server: Remove a participant and block them
+ *   - REMOVED_FROM_ROOM — Server → Removed Client: Removed; don't reconnect
+ *
  * ### WebRTC Signaling (relay-only, server does not inspect payloads)
  *   - OFFER — SDP offer (initiator → responder)
  *   - ANSWER — SDP answer (responder → initiator)
@@ -30,6 +43,10 @@
  * ### Chat
  *   - CHAT_MESSAGE — Bidirectional text chat within room
  *
+ * ### Producer (host or observer → one participant)
+ *   - NUDGE — Structured cue shown as an overlay on the target's Studio
+ *   - TALKBACK — Push-to-talk started/stopped (the audio itself goes over WebRTC)
+ *
  * ### Audio Quality (GreenRoom)
  *   - MIC_CHECK — Client → Server: Send mic test metrics
  *   - MIC_STATUS — Server → Client: Mic quality assessment response
@@ -59,6 +76,20 @@ export const SOCKET_EVENTS = {
   ROOM_FULL: 'room-full',
   DUPLICATE_SESSION: 'duplicate-session',
 
+  // ── Waiting Room ─────────────────────────────────────────────────
+  WAITING_ROOM: 'waiting-room',
+  WAITING_LIST: 'waiting-list',
+  ADMIT_PARTICIPANT: 'admit-participant',
+  DENY_PARTICIPANT: 'deny-participant',
+  ADMITTED: 'admitted',
+  JOIN_DENIED: 'join-denied',
+
+  // ── Host Controls ────────────────────────────────────────────────
+  TRANSFER_HOST: 'transfer-host',
+  HOST_CHANGED: 'host-changed',
+  REMOVE_PARTICIPANT: 'remove-participant',
+  REMOVED_FROM_ROOM: 'removed-from-room',
+
   // ── WebRTC Signaling ─────────────────────────────────────────────
   OFFER: 'offer',
   ANSWER: 'answer',
@@ -72,6 +103,10 @@ export const SOCKET_EVENTS = {
   // ── Chat ─────────────────────────────────────────────────────────
   CHAT_MESSAGE: 'chat-message',
 
+  // ── Producer ─────────────────────────────────────────────────────
+  NUDGE: 'nudge',
+  TALKBACK: 'talkback',
+
   // ── Audio Quality (GreenRoom mic check) ──────────────────────────
   MIC_CHECK: 'mic-check',
   MIC_STATUS: 'mic-status',
@@ -6,9 +6,10 @@
  *
  * ## Categories
  *
- * - **Room limits**: Max 2 participants per room
+ * - **Room limits**: Max 6 participants per room
  * - **File size limits**: S3 upload constraints (5GB max, 5MB–100MB parts)
  * - **URL expiry**: Presigned URL lifetimes for S3 operations
+ * - **Recording format**: WAV format + duration checks on uploaded files
  * - **Socket timing**: Ping interval, timeout, ghost socket delay
  * - **Input validation**: Max lengths for user input fields
  * - **Rate limiting**: Per-endpoint request limits (enforced server-side)
@@ -17,7 +18,7 @@
 export const LIMITS = {
   // ── Room ──────────────────────────────────────────────────────────
   /** Maximum participants per room — enforced by server on join-room */
-  MAX_PARTICIPANTS: 2,
+  MAX_PARTICIPANTS: 6,
 
   // ── File Size (S3) ────────────────────────────────────────────────
   /** Maximum upload file size — 5GB (S3 single-object limit for presigned PUT) */
@@ -34,6 +35,33 @@ export const LIMITS = {
   PRESIGNED_URL_EXPIRY: 3600, // 1 hour
   /** Presigned URL expiry for simple upload — 15 minutes (seconds) */
   UPLOAD_URL_EXPIRY: 900, // 15 minutes
+  /** Upload token lifetime — covers a recording plus its upload (seconds) */
+  UPLOAD_TOKEN_EXPIRY: 6 * 3600, // 6 hours
+  /** Meeting access token lifetime — participants' access to the meeting's recordings (seconds) */
+  MEETING_TOKEN_EXPIRY: 7 * 24 * 3600, // 7 days
+  /** Magic login link lifetime — one-time use (seconds) */
+  LOGIN_LINK_EXPIRY: 15 * 60, // 15 minutes
+  /** Guest invite link lifetime — default, and the most a host can choose (seconds) */
+  INVITE_EXPIRY: 7 * 24 * 3600, // 7 days
+  MAX_INVITE_EXPIRY: 30 * 24 * 3600, // 30 days
+  /** Admission token lifetime — the rejoin after the host admits from the waiting room (seconds) */
+  ADMISSION_TOKEN_EXPIRY: 10 * 60, // 10 minutes
+
+  // ── Recording Format (enforced server-side) ───────────────────────
+  /** Sample rate every uploaded WAV must have — matches recorderService's AudioContext */
+  RECORDING_SAMPLE_RATE: 48_000,
+  /** Channel count every uploaded WAV must have (mono) */
+  RECORDING_CHANNELS: 1,
+  /** Bit depth every uploaded WAV must have (16-bit PCM) */
+  RECORDING_BITS_PER_SAMPLE: 16,
+  /**
+   * How far a file's duration may differ from the RecordingState
+   * startedAt → stoppedAt window before it is marked invalid: the larger
+   * of a fixed margin (start/stop broadcast latency) and a fraction of
+   * the window (clock drift on long takes).
+   */
+  RECORDING_DURATION_TOLERANCE_SEC: 5,
+  RECORDING_DURATION_TOLERANCE_RATIO: 0.02,
 
   // ── Socket Timing ─────────────────────────────────────────────────
   /**
@@ -52,6 +80,9 @@ export const LIMITS = {
   TITLE_MAX_LENGTH: 255,
   /** Maximum participant name length (characters) */
   NAME_MAX_LENGTH: 255,
+  /** Maximum consent document title and text length (characters) */
+  CONSENT_TITLE_MAX_LENGTH: 255,
+  CONSENT_BODY_MAX_LENGTH: 100_000,
 
   // ── Rate Limiting (enforced server-side) ──────────────────────────
   /** General API rate limit — 100 requests per window per IP */
@@ -32,6 +32,14 @@
  *   - P3 "Degraded"  — SNR ≥ 10 dB, significant quality issues
  *   - P4 "Reject"   — SNR < 10 dB, unusable for dataset
  *
+ * ## Processing Pipeline Thresholds
+ *
+ * Used by the processing worker when grading the uploaded files:
+ *   - P0_OVERLAP_MAX (5%) — Overlap above this demotes a P0 session to P1
+ *   - ECHO_CORRELATION_MAX (0.6) — Mic-to-mic correlation above this = echo/bleed
+ *   - SRMR_MIN (4) — Below this the room is too reverberant
+ *   - MIN_SPEECH_SECONDS (10s) — Less speech than this from either side → reject
+ *
  * ## Target Levels
  *
  * Ideal recording levels for professional audio:
@@ -99,6 +107,16 @@ export const AUDIO_THRESHOLDS = {
   RMS_STABILITY_MAX_STDDEV: 6,
   /** Min ratio of energy above 2kHz. Below this = muffled audio */
   HIGH_FREQ_ENERGY_MIN: 0.05,
+
+  // ── Processing Pipeline (post-recording analysis) ───────────────
+  /** Max overlap (%) still eligible for P0 */
+  P0_OVERLAP_MAX: 5,
+  /** Envelope cross-correlation between the two mics above this = echo/bleed (0–1) */
+  ECHO_CORRELATION_MAX: 0.6,
+  /** SRMR below this indicates a reverberant room (ratio) */
+  SRMR_MIN: 4,
+  /** Min detected speech per participant for a usable session (seconds) */
+  MIN_SPEECH_SECONDS: 10,
 } as const;
 
 /**
@@ -19,6 +19,10 @@
  *   - upload.ts — REST API request/response shapes for S3 upload endpoints
  *   - metrics.ts — Audio analysis types (mic check, per-speaker, room-level)
  *   - processing.ts — SQS message and processing result shapes
+ *   - auth.ts — User accounts and magic-link login request/response shapes
+ *   - invite.ts — Signed guest invite links
+ *   - consent.ts — Consent documents and participants' recording consent
+ *   - speaker.ts — Speaker profile (language, accent, age band, gender, mic) + registry
  *
  * ## Shared Between Client and Server
  *
@@ -40,9 +44,9 @@ export type { SocketEvent } from './constants/events';
 export {
   ROLES, MEETING_STATUS, RECORDING_STATUS,
   MIC_LEVEL, NOISE_FLOOR_LEVEL, SNR_LEVEL, SIGNAL_STABILITY, SPECTRAL_WARNING,
-  WARNING_TYPE, SEVERITY, QUALITY_PROFILE,
+  WARNING_TYPE, SEVERITY, QUALITY_PROFILE, NUDGE_KIND,
 } from './constants/enums';
-export type { Role } from './constants/enums';
+export type { Role, NudgeKind } from './constants/enums';
 
 export type {
   Meeting,
@@ -54,9 +58,37 @@ export type {
 } from './types/meeting';
 export { MEETING_STATUSES } from './types/meeting';
 
+export type {
+  Invite,
+  InviteSlot,
+  IssueInviteRequest,
+  IssueInviteResponse,
+} from './types/invite';
+export { INVITE_SLOTS } from './types/invite';
+
+export type {
+  SpeakerProfile,
+  AgeBand,
+  DeviceType,
+  Speaker,
+  SpeakerMeeting,
+  SpeakerHistory,
+} from './types/speaker';
+export { AGE_BANDS, DEVICE_TYPES } from './types/speaker';
+
+export type {
+  ConsentDocument,
+  Consent,
+  PublishConsentDocumentRequest,
+  GiveConsentRequest,
+  GiveConsentResponse,
+  ConsentExport,
+} from './types/consent';
+
 export type {
   SDPDescription,
   ICECandidate,
+  SocketAuthPayload,
   JoinRoomPayload,
   OfferPayload,
   AnswerPayload,
@@ -74,6 +106,7 @@ export type {
   RoomFullPayload,
   DuplicateSessionPayload,
   StartRecordingBroadcast,
+  StopRecordingBroadcast,
   ResumeRecordingPayload,
   RecordingsUpdatedPayload,
   MicStatusPayload,
@@ -84,6 +117,21 @@ export type {
   RecordingRejectedPayload,
   ChatMessageBroadcast,
   ErrorPayload,
+  NudgePayload,
+  NudgeBroadcast,
+  TalkbackPayload,
+  TalkbackBroadcast,
+  WaitingRoomPayload,
+  WaitingParticipant,
+  WaitingListPayload,
+  AdmissionDecisionPayload,
+  AdmittedPayload,
+  JoinDeniedPayload,
+  HostChangeReason,
+  TransferHostPayload,
+  HostChangedPayload,
+  RemoveParticipantPayload,
+  RemovedFromRoomPayload,
 } from './types/socket';
 
 export type {
@@ -115,6 +163,18 @@ export type {
 } from './types/metrics';
 
 export type {
+  ProcessingTrack,
   ProcessSessionMessage,
   ProcessingResult,
+  StoredProcessingResult,
 } from './types/processing';
+
+export type {
+  User,
+  UserRole,
+  RequestLoginLinkRequest,
+  VerifyLoginLinkRequest,
+  VerifyLoginLinkResponse,
+  UpdateUserRoleRequest,
+} from './types/auth';
+export { USER_ROLES } from './types/auth';
@@ -0,0 +1,61 @@
+/**
+ * types/auth.ts — User accounts and magic-link login API shapes.
+ *
+ * The Login page (pages/Login.tsx) requests a one-time link by email and,
+ * when the link is opened, exchanges its token for a JWT. authService.ts
+ * keeps the JWT and the signed-in User in localStorage.
+ *
+ * ## Login Flow
+ *
+ *   POST /api/auth/request-link  → RequestLoginLinkRequest → { sent: true }
+ *   (user opens the emailed link: /login?token=...)
+ *   POST /api/auth/verify        → VerifyLoginLinkRequest  → VerifyLoginLinkResponse
+ *   GET  /api/auth/me            → User (Authorization: Bearer <JWT>)
+ *
+ * ## Roles
+ *
+ *   PUT  /api/users/:email/role  → UpdateUserRoleRequest → User (admin only)
+ */
+
+/**
+ * Back-office roles, carried in the JWT.
+ * admin: everything · operator: runs sessions (create, status, stats) ·
+ * reviewer: granted meetings' recordings · participant: none (default)
+ */
+export const USER_ROLES = ['admin', 'operator', 'reviewer', 'participant'] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+/** A signed-in user — their email is their identity (and a meeting's hostEmail) */
+export interface User {
+  email: string;                // Lowercased
+  userId: string;               // UUID carried in the JWT
+  name: string | null;          // Display name
+  role: UserRole;
+  createdAt: string;            // ISO 8601
+  lastLoginAt: string;          // ISO 8601
+}
+
+/** POST /api/auth/request-link — Email a one-time login link */
+export interface RequestLoginLinkRequest {
+  email: string;
+  name?: string;                // Display name, used if the account is new
+  redirectTo?: string;          // Path to open after signing in
+}
+
+/** POST /api/auth/verify — Exchange the link's token for a JWT */
+export interface VerifyLoginLinkRequest {
+  token: string;
+}
+
+/** Response from POST /api/auth/verify */
+export interface VerifyLoginLinkResponse {
+  token: string;                // JWT for the Authorization header (24h expiry)
+  user: User;
+  redirectTo: string | null;
+}
+
+/** PUT /api/users/:email/role — Change a user's role (admin only) */
+export interface UpdateUserRoleRequest {
+  role: UserRole;
+}
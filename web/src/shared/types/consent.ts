@@ -0,0 +1,70 @@
+/**
+ * types/consent.ts — Recording consent.
+ *
+ * The GreenRoom shows the current consent document for the browser's
+ * locale and records the participant's agreement before they can enter the
+ * Studio. The server refuses start-recording until every participant in
+ * the room has consented.
+ *
+ * ## Endpoints
+ *
+ *   GET  /api/consent/documents/current?locale=  → ConsentDocument
+ *   POST /api/consent/meetings/:meetingId        → GiveConsentRequest → GiveConsentResponse
+ *   GET  /api/consent/meetings/:meetingId/export → ConsentExport (admin)
+ *   POST /api/consent/documents                  → PublishConsentDocumentRequest (admin)
+ */
+
+/** One published version of the consent text for a locale */
+export interface ConsentDocument {
+  locale: string;               // e.g. "en", "pt-BR"
+  version: number;              // Highest is current
+  title: string;
+  body: string;                 // Plain text
+  bodyHash: string;             // SHA-256 of body
+  publishedBy: string;
+  publishedAt: string;          // ISO 8601
+}
+
+/** A participant's signed agreement to be recorded in a meeting */
+export interface Consent {
+  meetingId: string;
+  consentId: string;            // Sent with join-room
+  userId: string | null;        // Set once the server knows who gave it
+  name: string;
+  email: string | null;
+  documentLocale: string;
+  documentVersion: number;
+  documentHash: string;
+  consentedAt: string;          // ISO 8601
+  ip: string | null;
+  userAgent: string | null;
+  signature: string;            // Server HMAC over the record
+}
+
+/** POST /api/consent/documents — Publish a new version (admin) */
+export interface PublishConsentDocumentRequest {
+  locale: string;
+  title: string;
+  body: string;
+}
+
+/** POST /api/consent/meetings/:meetingId — Agree to be recorded */
+export interface GiveConsentRequest {
+  locale: string;
+  version: number;              // Must still be the current version
+  name: string;
+  email?: string;
+}
+
+/** Response from POST /api/consent/meetings/:meetingId */
+export interface GiveConsentResponse {
+  consent: Consent;
+}
+
+/** Response from GET /api/consent/meetings/:meetingId/export */
+export interface ConsentExport {
+  meetingId: string;
+  exportedAt: string;
+  consents: (Consent & { signatureValid: boolean })[];
+  documents: ConsentDocument[];
+}
@@ -0,0 +1,46 @@
+/**
+ * types/invite.ts — Signed guest invite links.
+ *
+ * Meetings created by a signed-in host are invite-only. The host creates
+ * an invite in the Studio (InviteLink) and shares
+ * `/?room={meetingId}&invite={token}`; Home keeps the token and sends it
+ * with assign-guest and join-room, which give its holder the guest role.
+ *
+ * ## Endpoints (host or admin JWT)
+ *
+ *   GET    /api/meetings/:id/invites        → Invite[]
+ *   PUT    /api/meetings/:id/invites/:slot  → IssueInviteRequest → IssueInviteResponse
+ *   DELETE /api/meetings/:id/invites/:slot  → { success: true }
+ *
+ * Issuing again replaces the slot's invite (old links stop working).
+ */
+
+/** Slots an invite can fill */
+export const INVITE_SLOTS = ['guest'] as const;
+
+export type InviteSlot = (typeof INVITE_SLOTS)[number];
+
+/** The current invite for one slot of a meeting */
+export interface Invite {
+  meetingId: string;
+  slot: InviteSlot;
+  inviteId: string;             // Changes on re-issue
+  singleUse: boolean;           // One-time link, or reusable until expiresAt
+  issuedBy: string;             // Host or admin email
+  issuedAt: string;             // ISO 8601
+  expiresAt: string;            // ISO 8601
+  redeemedAt: string | null;    // When someone last joined with it
+  redeemedBy: string | null;    // Their userId
+}
+
+/** PUT /api/meetings/:id/invites/:slot — Issue (or re-issue) a slot's invite */
+export interface IssueInviteRequest {
+  expiresInSeconds?: number;    // Default LIMITS.INVITE_EXPIRY
+  singleUse?: boolean;          // Default true
+}
+
+/** Response from PUT /api/meetings/:id/invites/:slot */
+export interface IssueInviteResponse {
+  invite: Invite;
+  token: string;                // Goes in the link's `invite` parameter
+}
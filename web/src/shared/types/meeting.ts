@@ -27,6 +27,9 @@
  * - Participant: Received in room-state and user-joined events
  */
 
+import type { Role } from '../constants/enums';
+import type { SpeakerProfile } from './speaker';
+
 /**
  * Valid meeting lifecycle states.
  * Transitions: scheduled → active → recording → completed
@@ -46,8 +49,8 @@ export type MeetingStatus = (typeof MEETING_STATUSES)[number];
 /**
  * Meeting — top-level meeting entity from DynamoDB Meetings table.
  *
- * Created via POST /api/meetings. Supports exactly 2 participants
- * (host + guest).
+ * Created via POST /api/meetings. One host and up to
+ * LIMITS.MAX_PARTICIPANTS - 1 guests; guestName/guestEmail are the first guest's.
  */
 export interface Meeting {
   meetingId: string;
@@ -59,6 +62,7 @@ export interface Meeting {
   scheduledTime: string | null;
   status: MeetingStatus;
   createdAt: string;             // ISO 8601 timestamp
+  blockedUserIds?: string[];     // Removed by the host — can't rejoin
 }
 
 /**
@@ -72,12 +76,14 @@ export interface Session {
   meetingId: string;
   sessionId: string;            // UUID, also used as the recording session ID
   userId: string;               // Persistent user ID (from URL param or generated)
-  userRole: 'host' | 'guest';
+  userRole: Role;
   userEmail: string | null;
   socketId: string;             // Current Socket.IO socket ID
   joinedAt: string;             // ISO 8601
   leftAt: string | null;        // ISO 8601, set on disconnect
   isActive: boolean;            // False after permanent disconnect
+  speakerProfile?: SpeakerProfile | null; // From join-room
+  speakerId?: string | null;        // Registered speaker (signed-in accounts only)
 }
 
 /**
@@ -89,14 +95,19 @@ export interface Session {
  */
 export interface Recording {
   meetingId: string;
-  recordingId: string;          // UUID
+  recordingId: string;          // `{sessionId}#{sanitizedUserId}`
   participantName: string;      // userId of the uploader
   sessionId: string;            // Links to the recording session
   filePath: string;             // S3 object key (e.g., "recordings/roomId/userId/session.wav")
   s3Url: string | null;         // Full S3 URL, set after upload completion
   uploadedAt: string;           // ISO 8601
   uploadId: string | null;      // S3 multipart upload ID (null for simple uploads)
-  status: 'uploading' | 'completed';
+  status: 'uploading' | 'completed' | 'invalid' | 'abandoned';
+  invalidReason?: string;       // Set when status is 'invalid' (failed server-side audio validation)
+  checksumSHA256?: string;      // Base64 SHA-256 verified at upload ("-N" suffix = multipart composite)
+  speakerProfile?: SpeakerProfile | null; // Uploader's profile when the upload started
+  speakerId?: string | null;      // Uploader's registered speaker, if any
+  durationSec?: number;           // Audio length (set on completion)
 }
 
 /**
@@ -114,6 +125,8 @@ export interface RecordingState {
   startedByUserId: string | null;
   stoppedAt: string | null;     // ISO 8601
   sessionId: string | null;     // Active recording session ID
+  participantUserIds?: string[]; // userIds recording in the session
+  participantRoles?: Record<string, Role>; // Their roles when the take started
 }
 
 /**
@@ -125,6 +138,6 @@ export interface RecordingState {
 export interface Participant {
   socketId: string;             // Current Socket.IO socket ID (target for signaling)
   userId: string;               // Persistent user ID
-  role: 'host' | 'guest';
+  role: Role;
   userEmail: string | null;
 }
@@ -116,7 +116,7 @@ export interface RoomMetricsAggregate {
   roomId: string;
   sessionId: string;            // Recording session ID
   speakers: Record<string, SpeakerMetricsAggregate>; // Keyed by userId
-  overlapPercent: number;       // % of time both speakers are talking simultaneously
+  overlapPercent: number;       // % of time two or more speakers are talking at once
   estimatedProfile: QualityProfile; // Current quality estimate (P0–P4)
   startedAt: number;            // Unix timestamp of recording start (ms)
 }
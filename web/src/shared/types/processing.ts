@@ -28,24 +28,34 @@
  * - snr: Signal-to-Noise Ratio (dB) — primary quality indicator
  * - rms: Root-mean-square level (dBFS) — average loudness
  * - srmr: Speech-to-Reverberation Modulation Ratio — room acoustics quality
- * - overlapPercent: % of simultaneous speech — dataset usability factor
- * - speakerBalance: Ratio of speaker durations — ideally close to 1.0
+ * - overlapPercent: % of speech with two or more speakers at once — dataset usability factor
+ * - speakerBalance: Least active speaker's share vs. an even split — ideally close to 1.0
  * - echoCorrelation: Cross-correlation of channels — echo/crosstalk detection
  * - wvmos: (optional) WVMOS perceptual quality score
  */
 
+import type { Role } from '../constants/enums';
 import type { QualityProfile } from '../constants/thresholds';
+import type { SpeakerProfile } from './speaker';
+
+/** One participant's recording in a ProcessSessionMessage */
+export interface ProcessingTrack {
+  userId: string;
+  role: Role;
+  key: string;                  // S3 object key for the WAV recording
+  speakerId: string | null;
+  speaker: SpeakerProfile | null; // Speaker profile for dataset provenance
+}
 
 /**
- * SQS message payload — published by server when both recordings are uploaded.
+ * SQS message payload — published by server when every participant's recording is uploaded.
  * The processing worker reads this to know which files to process.
  */
 export interface ProcessSessionMessage {
   action: 'process-session';    // Message type discriminator
   roomId: string;
   sessionId: string;            // Recording session ID
-  hostKey: string;              // S3 object key for host's WAV recording
-  guestKey: string;             // S3 object key for guest's WAV recording
+  tracks: ProcessingTrack[];    // One per participant, host first
   timestamp: string;            // ISO 8601 — when processing was triggered
 }
 
@@ -65,8 +75,8 @@ export interface ProcessingResult {
     snr: number;                // Signal-to-Noise Ratio (dB)
     rms: number;                // Average RMS level (dBFS)
     srmr: number;               // Speech-to-Reverberation Modulation Ratio
-    overlapPercent: number;     // % simultaneous speech
-    speakerBalance: number;     // Ratio of speaker durations
+    overlapPercent: number;     // % of speech with 2+ speakers at once
+    speakerBalance: number;     // Least active speaker vs. an even split (1 = even)
     echoCorrelation: number;    // Cross-channel echo detection (0–1)
     wvmos?: number;             // Optional: WVMOS perceptual quality score
   };
@@ -78,3 +88,14 @@ export interface ProcessingResult {
   suggestions?: string[];       // Improvement tips (set on rejection)
   processingTimeMs: number;     // Wall-clock processing duration
 }
+
+/**
+ * Stored processing result — a ProcessingResult persisted by the server.
+ *
+ * Returned by GET /api/recordings/:meetingId/session/:sessionId/result so the
+ * Results page can show the outcome even if it missed the live socket event.
+ */
+export interface StoredProcessingResult extends ProcessingResult {
+  meetingId: string;            // Same value as roomId (table partition key)
+  receivedAt: string;           // ISO 8601 — when the server consumed the result
+}
@@ -15,15 +15,21 @@
  * Client → Server:
  *   JoinRoomPayload, OfferPayload, AnswerPayload, IceCandidatePayload,
  *   StartRecordingPayload, StopRecordingPayload, ChatMessagePayload,
- *   MicCheckPayload, AudioMetricsPayload, UploadProgressPayload
+ *   MicCheckPayload, AudioMetricsPayload, UploadProgressPayload,
+ *   NudgePayload, TalkbackPayload, AdmissionDecisionPayload (host),
+ *   TransferHostPayload, RemoveParticipantPayload (host)
  *
  * Server → Client:
  *   RoomStatePayload, UserJoinedPayload, UserLeftPayload,
  *   PeerReconnectedPayload, RoomFullPayload, DuplicateSessionPayload,
- *   StartRecordingBroadcast, ResumeRecordingPayload,
+ *   StartRecordingBroadcast, StopRecordingBroadcast, ResumeRecordingPayload,
  *   RecordingsUpdatedPayload, MicStatusPayload, RecordingWarningPayload,
  *   QualityUpdatePayload, ProcessingStatusPayload, ProcessingCompletePayload,
- *   RecordingRejectedPayload, ChatMessageBroadcast, ErrorPayload
+ *   RecordingRejectedPayload, ChatMessageBroadcast, ErrorPayload,
+ *   NudgeBroadcast, TalkbackBroadcast (to the targeted participant only),
+ *   WaitingRoomPayload, AdmittedPayload, JoinDeniedPayload (waiting guest),
+ *   WaitingListPayload (host), HostChangedPayload,
+ *   RemovedFromRoomPayload (removed participant)
  *
  * Relay (Client → Server → Target Client):
  *   OfferPayload, AnswerPayload, IceCandidatePayload
@@ -31,6 +37,8 @@
  */
 
 import type { Meeting, Participant, RecordingState } from './meeting';
+import type { SpeakerProfile } from './speaker';
+import type { Role, NudgeKind } from '../constants/enums';
 import type { QualityProfile } from '../constants/thresholds';
 import type { SpectralWarning } from './metrics';
 
@@ -52,15 +60,32 @@ export interface ICECandidate {
 
 // ─── Room Management ───────────────────────────────────────────────
 
+/**
+ * Client → Server: Handshake credentials (`auth` option of io()).
+ * The server takes the socket's userId/email from these, never from events.
+ * No credentials → the server assigns a fresh userId.
+ */
+export interface SocketAuthPayload {
+  token?: string;               // User JWT, when signed in
+  meetingToken?: string;        // accessToken from an earlier room-state for this room
+}
+
 /**
  * Client → Server: Request to join a meeting room.
  * Server validates room exists, checks capacity, then emits room-state.
+ * userId/userEmail, if sent, must match the handshake identity.
  */
 export interface JoinRoomPayload {
   roomId: string;
-  role: 'host' | 'guest';
-  userId: string;               // Persistent user ID (generated or from URL param)
+  role: Role;                   // 'observer' to watch silently (operators/admins); otherwise server-assigned
+  userId?: string;              // Must equal the handshake identity if sent
   userEmail?: string;           // Optional email for display
+  inviteToken?: string;         // Invite from the link — needed to join an invite-only meeting as guest
+  consentId?: string;           // Recording consent given in the GreenRoom
+  speakerProfile?: SpeakerProfile; // From Home + GreenRoom (dataset provenance)
+  userName?: string;            // Shown to the host while waiting to be admitted
+  admissionToken?: string;      // From `admitted` — rejoin without waiting again
+  micCheck?: MicCheckPayload;   // GreenRoom's last mic check — shown to the host while waiting
 }
 
 /**
@@ -108,8 +133,8 @@ export interface StopRecordingPayload {
 export interface ChatMessagePayload {
   roomId: string;
   message: string;
-  sender: string;               // Display name or userId
-  role: 'host' | 'guest';
+  sender?: string;              // Ignored — the server fills in the socket's userId
+  role: Role;
 }
 
 // ─── Audio Quality (GreenRoom) ─────────────────────────────────────
@@ -170,6 +195,10 @@ export interface RoomStatePayload {
   meeting: Meeting;
   participants: Participant[];
   recordingState: RecordingState;
+  uploadToken: string | null;   // For recordingState.sessionId — lets a reload finish its upload
+  accessToken: string | null;   // Meeting token — sent as X-Meeting-Token to /api/recordings
+                                // and as handshake meetingToken on reconnect; null for observers
+  userId: string;               // This client's identity, assigned by the server
 }
 
 /**
@@ -179,7 +208,7 @@ export interface RoomStatePayload {
 export interface UserJoinedPayload {
   userId: string;               // Persistent user ID
   persistentId: string;         // Same as userId (legacy field)
-  role: 'host' | 'guest';
+  role: Role;
   userEmail: string | null;
   isReconnection: boolean;      // True if returning after disconnect
 }
@@ -188,7 +217,7 @@ export interface UserJoinedPayload {
 export interface UserLeftPayload {
   userId: string;
   persistentId: string;
-  role: 'host' | 'guest';
+  role: Role;
 }
 
 /**
@@ -200,7 +229,7 @@ export interface PeerReconnectedPayload {
   newSocketId: string;
 }
 
-/** Server → Client: Room is at capacity (2 participants) */
+/** Server → Client: Room is at capacity (LIMITS.MAX_PARTICIPANTS) */
 export interface RoomFullPayload {
   message: string;
 }
@@ -212,11 +241,21 @@ export interface DuplicateSessionPayload {
 
 /**
  * Server → Room: Recording has started.
- * Broadcast to all participants. Contains the new sessionId for
- * linking recordings to this specific recording session.
+ * Sent to each participant. Contains the new sessionId for linking
+ * recordings to this specific recording session, and the participant's
+ * upload token for it (required by every /api/upload* request).
  */
 export interface StartRecordingBroadcast {
   sessionId: string;
+  uploadToken: string | null;   // Scoped to this participant's recording (null for observers)
+}
+
+/**
+ * Server → Room: Recording has stopped.
+ * Carries a fresh upload token so a long final upload doesn't outlive it.
+ */
+export interface StopRecordingBroadcast {
+  uploadToken?: string | null;  // Absent if no session was recording, null for observers
 }
 
 /**
@@ -227,6 +266,7 @@ export interface ResumeRecordingPayload {
   startedAt: number;            // Unix timestamp (ms) — when recording started
   elapsedSeconds: number;       // Seconds elapsed since start
   sessionId: string;            // Active recording session ID
+  uploadToken: string | null;   // Upload token for this participant's recording
 }
 
 /** Server → Room: A new recording was uploaded (triggers Results refresh) */
@@ -315,8 +355,8 @@ export interface RecordingRejectedPayload {
  */
 export interface ChatMessageBroadcast {
   message: string;
-  sender: string;
-  role: 'host' | 'guest';
+  sender: string;               // Sender's userId (server-assigned)
+  role: Role;
   timestamp: string;            // ISO 8601 — added by server
 }
 
@@ -324,3 +364,94 @@ export interface ChatMessageBroadcast {
 export interface ErrorPayload {
   message: string;
 }
+
+/** Client → Server: A producer's (host or observer) cue for one participant */
+export interface NudgePayload {
+  roomId: string;
+  targetUserId: string;         // Persistent userId of the participant
+  kind: NudgeKind;
+}
+
+/** Server → Target: A nudge to show as an overlay */
+export interface NudgeBroadcast {
+  kind: NudgeKind;
+  from: string;                 // Producer's userId
+  fromRole: Role;
+  timestamp: string;            // ISO 8601 — added by server
+}
+
+/** Client → Server: Push-to-talk to one participant started/stopped (audio goes over WebRTC) */
+export interface TalkbackPayload {
+  roomId: string;
+  targetUserId: string;
+  active: boolean;
+}
+
+/** Server → Target: The producer's talkback started/stopped */
+export interface TalkbackBroadcast {
+  from: string;                 // Producer's userId
+  fromRole: Role;
+  active: boolean;
+}
+
+/** Server → Joining Client: Held in the waiting room until the host admits or denies */
+export interface WaitingRoomPayload {
+  message: string;
+}
+
+/** One person waiting for the host */
+export interface WaitingParticipant {
+  userId: string;
+  userName: string | null;
+  userEmail: string | null;
+  micStatus: MicStatusPayload | null; // Latest GreenRoom mic check
+  waitingSince: string;         // ISO 8601
+}
+
+/** Server → Host: Who is waiting (oldest first), on join and on every change */
+export interface WaitingListPayload {
+  waiting: WaitingParticipant[];
+}
+
+/** Client → Server: Host admits / denies a waiting user */
+export interface AdmissionDecisionPayload {
+  roomId: string;
+  userId: string;               // Persistent userId of the waiting user
+}
+
+/** Server → Waiting Client: Admitted — rejoin with this token */
+export interface AdmittedPayload {
+  admissionToken: string;
+}
+
+/** Server → Waiting Client: The host didn't let them in */
+export interface JoinDeniedPayload {
+  message: string;
+}
+
+/** Why the room has a new host */
+export type HostChangeReason = 'transfer' | 'host-disconnected';
+
+/** Client → Server: Host hands the role to a guest */
+export interface TransferHostPayload {
+  roomId: string;
+  targetUserId: string;         // Persistent userId of the guest
+}
+
+/** Server → Room: New host — the previous one (if any) is a guest now */
+export interface HostChangedPayload {
+  hostUserId: string;
+  previousHostUserId: string | null;
+  reason: HostChangeReason;
+}
+
+/** Client → Server: Host removes a participant and blocks them from the meeting */
+export interface RemoveParticipantPayload {
+  roomId: string;
+  targetUserId: string;
+}
+
+/** Server → Removed Client: Removed by the host — don't reconnect */
+export interface RemovedFromRoomPayload {
+  message: string;
+}
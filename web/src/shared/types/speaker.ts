@@ -0,0 +1,64 @@
+/**
+ * types/speaker.ts — Speaker profile for dataset provenance.
+ *
+ * Collected on Home (language, accent, age band, gender) and in the
+ * GreenRoom (microphone type and label), kept in localStorage
+ * (speakerProfileService) and sent with join-room. The server stores it
+ * on the Session, copies it onto each Recording, and returns it from the
+ * recordings API.
+ *
+ * Speakers: a signed-in account is a registered speaker (speakerId = its
+ * userId), referenced by its sessions and recordings across meetings.
+ *
+ *   GET /api/speakers/:speakerId/history → SpeakerHistory
+ */
+
+import type { Role } from '../constants/enums';
+import type { QualityProfile } from '../constants/thresholds';
+
+/** Age bands offered on Home */
+export const AGE_BANDS = ['18-24', '25-34', '35-44', '45-54', '55-64', '65+'] as const;
+
+export type AgeBand = (typeof AGE_BANDS)[number];
+
+/** Microphone types offered in the GreenRoom */
+export const DEVICE_TYPES = ['built-in', 'usb', 'interface', 'headset', 'bluetooth', 'phone', 'other'] as const;
+
+export type DeviceType = (typeof DEVICE_TYPES)[number];
+
+/** Self-reported speaker attributes — null means "not given" */
+export interface SpeakerProfile {
+  language: string;             // BCP 47, e.g. "en-GB"
+  accent: string | null;        // Free text
+  ageBand: AgeBand | null;
+  gender: string | null;        // Self-described, free text
+  deviceType: DeviceType | null;
+  deviceLabel: string | null;   // Mic label from the browser
+}
+
+/** A registered speaker (a signed-in account) */
+export interface Speaker {
+  speakerId: string;            // The account's userId
+  email: string;
+  firstSeenAt: string;          // ISO 8601
+  lastSeenAt: string;           // ISO 8601
+}
+
+/** A meeting in a speaker's history */
+export interface SpeakerMeeting {
+  meetingId: string;
+  title: string | null;         // null if deleted
+  role: Role;
+  firstJoinedAt: string;        // ISO 8601
+  recordings: number;           // Completed recordings
+  recordedMinutes: number;
+}
+
+/** GET /api/speakers/:speakerId/history */
+export interface SpeakerHistory {
+  speaker: Speaker;
+  meetings: SpeakerMeeting[];
+  totalRecordedMinutes: number;
+  qualityProfiles: Record<QualityProfile, number>; // Completed recordings per final profile
+  unprocessedRecordings: number;
+}
@@ -19,6 +19,12 @@
  *   PUT  {url}                            → (raw blob to S3, returns ETag header)
  *   POST /api/multipart-upload/complete   → CompleteMultipartRequest → CompleteMultipartResponse
  *
+ * ## Integrity
+ *
+ *   Every PUT carries the x-amz-checksum-sha256 header with the base64
+ *   SHA-256 that was sent when requesting its URL; /complete checks the
+ *   checksum S3 stored (composite "{base64}-{partCount}" for multipart).
+ *
  * ## Resume/Abort
  *
  *   GET  /api/multipart-upload/parts      → ListPartsQuery → ListPartsResponse
@@ -35,6 +41,7 @@ export interface GetUploadUrlRequest {
   participantName: string;      // userId of the uploader
   sessionId?: string;           // Recording session ID (links to Recording entry)
   contentType?: AllowedContentType; // Defaults to 'audio/wav'
+  checksumSHA256: string;       // Base64 SHA-256 of the whole file
 }
 
 /** Response from POST /api/upload/url */
@@ -45,6 +52,7 @@ export interface GetUploadUrlResponse {
   roomId: string;
   participantName: string;
   sessionId: string | null;
+  expiresAt: string;            // ISO 8601 — request a new URL before this
 }
 
 /** POST /api/upload/complete — Notify server that simple upload finished */
@@ -53,6 +61,7 @@ export interface UploadCompleteRequest {
   participantName: string;
   key: string;                  // S3 object key from GetUploadUrlResponse
   sessionId?: string;
+  checksumSHA256: string;       // Same value sent to /url
 }
 
 // ─── Multipart Upload ──────────────────────────────────────────────
@@ -61,6 +70,7 @@ export interface UploadCompleteRequest {
 export interface InitiateMultipartRequest {
   roomId: string;
   participantName: string;
+  sessionId?: string;           // Recording session ID (same recordingId + S3 key as simple upload)
   contentType?: AllowedContentType;
   fileSize?: number;            // Total file size in bytes (for Part 1 temp allocation)
 }
@@ -83,6 +93,7 @@ export interface InitiateMultipartResponse {
  */
 export interface Part1Request {
   uploadId: string;
+  checksumSHA256: string;       // Base64 SHA-256 of Part 1
 }
 
 /** Response from POST /api/multipart-upload/part-1 */
@@ -99,6 +110,7 @@ export interface PartUrlRequest {
   key: string;                  // S3 object key
   uploadId: string;             // S3 multipart upload ID
   partNumber: number;           // 1-indexed part number
+  checksumSHA256: string;       // Base64 SHA-256 of this part
 }
 
 /** Response from POST /api/multipart-upload/part-url */
@@ -109,13 +121,14 @@ export interface PartUrlResponse {
 }
 
 /**
- * A completed upload part — PartNumber + ETag.
- * The ETag is returned in the S3 PUT response header and is required
- * for the CompleteMultipartUpload S3 API call.
+ * A completed upload part — PartNumber + ETag + checksum.
+ * The ETag is returned in the S3 PUT response header; both it and the
+ * checksum are required for the CompleteMultipartUpload S3 API call.
  */
 export interface CompletePart {
   PartNumber: number;           // 1-indexed
   ETag: string;                 // From S3 PUT response header (quoted string)
+  ChecksumSHA256: string;       // Base64 SHA-256 the part was PUT with
 }
 
 /** POST /api/multipart-upload/complete — Finalize the multipart upload */
@@ -126,6 +139,7 @@ export interface CompleteMultipartRequest {
   roomId: string;
   participantName: string;
   sessionId?: string;
+  checksumSHA256: string;       // Composite of the part checksums ("{base64}-{partCount}")
 }
 
 /** Response from POST /api/multipart-upload/complete */
@@ -151,6 +165,7 @@ export interface ListPartsResponse {
   parts: Array<{
     PartNumber: number;
     ETag: string;
+    ChecksumSHA256: string | null; // null for uploads started before checksums
     Size: number;               // Part size in bytes
     LastModified: string;       // ISO 8601
   }>;
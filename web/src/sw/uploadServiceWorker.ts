@@ -0,0 +1,154 @@
+/**
+ * uploadServiceWorker.ts — Service Worker that finishes uploads after the
+ * tab is closed.
+ *
+ * Pages hand uploads over through backgroundUploadService: the data lives in
+ * the IndexedDB pending-uploads store, and the page only posts the
+ * sessionKey. This worker reads the record, runs uploadService.uploadPending()
+ * (the same REST + presigned-URL calls the page would make), and on success
+ * deletes the record and the recording's crash-recovery chunks.
+ *
+ * ## Triggers
+ *
+ *   message 'start'   — a page handed off one upload (or is nudging it)
+ *   message 'resume'  — a page of the app was opened; run everything pending
+ *   activate          — a new worker version took over; run everything pending
+ *   sync              — Background Sync fired (Chromium: back online)
+ *
+ * Each upload runs at most once at a time per worker; repeated triggers for
+ * one already in flight just extend the worker's lifetime until it settles.
+ *
+ * ## Failures
+ *
+ * An upload resumed on a later visit may carry an expired upload token;
+ * it is renewed with the record's meeting token first, and the record
+ * updated, so the attempt isn't spent on 401s.
+ *
+ * A failed attempt is counted on the record and left for the next trigger.
+ * After MAX_ATTEMPTS the record is dropped. The recording's IndexedDB chunks
+ * are only cleared on success, so a streamed recording that can't be
+ * finished still shows up in the Studio's crash-recovery banner.
+ *
+ * Built as its own entry (vite.config.ts) and served at /upload-sw.js.
+ */
+
+import { uploadPending, freshUploadToken } from '../services/uploadService';
+import {
+  getPendingUpload,
+  getAllPendingUploads,
+  savePendingUpload,
+  clearPendingUpload,
+  clearChunks,
+} from '../services/storageService';
+import { UPLOAD_SYNC_TAG } from '../services/backgroundUploadService';
+import type { UploadWorkerEvent, UploadWorkerRequest } from '../services/backgroundUploadService';
+
+// ─── Service Worker globals ───────────────────────────────────────
+// The project compiles against lib.dom only (lib.webworker conflicts with
+// it), so the few worker APIs used here are declared locally.
+
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface ExtendableMessageEvent extends ExtendableEvent {
+  data: UploadWorkerRequest;
+}
+
+interface SyncEvent extends ExtendableEvent {
+  tag: string;
+}
+
+declare const self: {
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'message', listener: (event: ExtendableMessageEvent) => void): void;
+  addEventListener(type: 'sync', listener: (event: SyncEvent) => void): void;
+  skipWaiting(): Promise<void>;
+  clients: {
+    claim(): Promise<void>;
+    matchAll(options: { type: 'window'; includeUncontrolled: boolean }): Promise<
+      Array<{ postMessage(message: UploadWorkerEvent): void }>
+    >;
+  };
+};
+
+/** Failed attempts before a pending upload is dropped */
+const MAX_ATTEMPTS = 5;
+
+/** Uploads running in this worker, by sessionKey */
+const running = new Map<string, Promise<void>>();
+
+// ─── Lifecycle ────────────────────────────────────────────────────
+
+// Take over from an older worker right away — pending uploads live in
+// IndexedDB, not in the worker, so nothing is lost by switching
+self.addEventListener('install', (event) => {
+  event.waitUntil(self.skipWaiting());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim().then(resumeAll));
+});
+
+self.addEventListener('message', (event) => {
+  const request = event.data;
+  if (request?.type === 'start') event.waitUntil(runPendingUpload(request.sessionKey));
+  if (request?.type === 'resume') event.waitUntil(resumeAll());
+});
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === UPLOAD_SYNC_TAG) event.waitUntil(resumeAll());
+});
+
+// ─── Uploads ──────────────────────────────────────────────────────
+
+/** Run every upload left in IndexedDB */
+async function resumeAll(): Promise<void> {
+  const pending = await getAllPendingUploads();
+  await Promise.all(pending.map((record) => runPendingUpload(record.sessionKey)));
+}
+
+/** Run one pending upload, or join the run already in progress */
+function runPendingUpload(sessionKey: string): Promise<void> {
+  const inFlight = running.get(sessionKey);
+  if (inFlight) return inFlight;
+
+  const run = attemptUpload(sessionKey).finally(() => running.delete(sessionKey));
+  running.set(sessionKey, run);
+  return run;
+}
+
+async function attemptUpload(sessionKey: string): Promise<void> {
+  let record = await getPendingUpload(sessionKey);
+  if (!record) return;
+
+  try {
+    if (record.uploadToken) {
+      const uploadToken = await freshUploadToken(record.uploadToken, record.meetingToken ?? null);
+      if (uploadToken !== record.uploadToken) {
+        record = { ...record, uploadToken };
+        await savePendingUpload(record);
+      }
+    }
+    await uploadPending(record, (progress) => broadcast({ type: 'progress', sessionKey, progress }));
+    await clearPendingUpload(sessionKey);
+    if (record.recoveryKey) await clearChunks(record.recoveryKey);
+    await broadcast({ type: 'complete', sessionKey });
+  } catch (err) {
+    const attempts = record.attempts + 1;
+    const willRetry = attempts < MAX_ATTEMPTS;
+    if (willRetry) {
+      await savePendingUpload({ ...record, attempts });
+    } else {
+      await clearPendingUpload(sessionKey);
+    }
+    console.warn(`Background upload ${sessionKey} failed (attempt ${attempts}):`, (err as Error).message);
+    await broadcast({ type: 'failed', sessionKey, error: (err as Error).message, willRetry });
+  }
+}
+
+/** Send an event to every open page of the app */
+async function broadcast(event: UploadWorkerEvent): Promise<void> {
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  for (const client of clients) client.postMessage(event);
+}
@@ -9,6 +9,19 @@ export default defineConfig({
       '@': path.resolve(__dirname, './src'),
     },
   },
+  build: {
+    rollupOptions: {
+      // The upload service worker is its own entry, emitted unhashed at the
+      // root (/upload-sw.js) so its URL and scope stay stable across builds
+      input: {
+        main: path.resolve(__dirname, 'index.html'),
+        'upload-sw': path.resolve(__dirname, 'src/sw/uploadServiceWorker.ts'),
+      },
+      output: {
+        entryFileNames: (chunk) => (chunk.name === 'upload-sw' ? 'upload-sw.js' : 'assets/[name]-[hash].js'),
+      },
+    },
+  },
   server: {
     port: 5173,
     proxy: {